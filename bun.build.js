@@ -4,6 +4,9 @@ await Bun.build({
 	outdir: './dist',
 	target: 'node',
 	minify: false,
+
+	// Swagger UI serves its static files from its own package folder, so it cannot be bundled
+	external: ['@fastify/swagger-ui'],
 });
 
 // Log the Build Complete
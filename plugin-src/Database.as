@@ -89,6 +89,12 @@ namespace Predictor {
         /** Current authentication token */
         private string authToken = "";
         
+        /** Time (Time::Now) at which the authentication token expires */
+        private uint64 authTokenExpiresAt = 0;
+        
+        /** Refresh token used to get a new authentication token without signing in again */
+        private string refreshToken = "";
+        
         /** Most recent error message */
         private string lastError = "";
         
@@ -98,6 +104,12 @@ namespace Predictor {
         /** Whether a save operation is in progress */
         private bool isSaving = false;
         
+        /** Split data of the save in progress (sent again if the token was rejected) */
+        private SplitData@ savingSplit = null;
+        
+        /** Server URL of the save in progress */
+        private string savingUrl = "";
+        
         /** Queue of split data waiting to be saved */
         private array<SplitData@> pendingSplits;
         
@@ -125,6 +137,45 @@ namespace Predictor {
             authToken = token;
         }
 
+        /**
+         * Set the token pair issued by the server
+         * 
+         * @param {string} token - The authentication token
+         * @param {uint} expiresIn - Seconds until the authentication token expires
+         * @param {string} newRefreshToken - The refresh token
+         */
+        void SetAuthTokens(const string &in token, uint expiresIn, const string &in newRefreshToken) {
+            authToken = token;
+            authTokenExpiresAt = expiresIn > 0 ? Time::Now + uint64(expiresIn) * 1000 : 0;
+            refreshToken = newRefreshToken;
+        }
+
+        /**
+         * Get the refresh token
+         * 
+         * @returns {string} The refresh token
+         */
+        string GetRefreshToken() {
+            return refreshToken;
+        }
+
+        /**
+         * Clear the refresh token (after the server rejected it)
+         */
+        void ClearRefreshToken() {
+            refreshToken = "";
+        }
+
+        /**
+         * Check if the authentication token is missing or expires within the next minute
+         * 
+         * @returns {bool} True if a new authentication token is needed
+         */
+        bool NeedsNewAuthToken() {
+            if (authToken.Length == 0) return true;
+            return authTokenExpiresAt > 0 && Time::Now + 60000 >= authTokenExpiresAt;
+        }
+
         /**
          * Get the authentication token
          * 
@@ -149,20 +200,14 @@ namespace Predictor {
                 return false;
             }
             
-            // If a save is in progress, queue this one
-            if (isSaving) {
+            // If a save is in progress or the token is being renewed, queue this one
+            if (isSaving || authToken.Length == 0) {
                 pendingSplits.InsertLast(splitData);
                 pendingUrls.InsertLast(serverUrl);
                 print("Queued split for saving (currently " + pendingSplits.Length + " in queue)");
                 return true; // Return true because we've queued it successfully
             }
             
-            // Check if token is set
-            if (authToken.Length == 0) {
-                lastError = "No authentication token set";
-                return false;
-            }
-            
             // Start the save process
             StartSave(splitData, serverUrl);
             return true;
@@ -179,7 +224,7 @@ namespace Predictor {
             // Construct the URL
             string url = serverUrl;
             if (!url.EndsWith("/")) url += "/";
-            url += "splits/save";
+            url += "v1/splits/save";
             
             // Convert split data to JSON
             string jsonData = splitData.ToJson();
@@ -191,12 +236,15 @@ namespace Predictor {
             request.Body = jsonData;
             request.Headers.Set("Content-Type", "application/json");
             request.Headers.Set("Authorization", "Bearer " + authToken);
+            request.Headers.Set("X-Plugin-Version", pluginVersion);
             
             // Send the request
             request.Start();
             
             // Store the request to check later
             @saveRequest = request;
+            @savingSplit = splitData;
+            savingUrl = serverUrl;
             isSaving = true;
         }
         
@@ -209,7 +257,13 @@ namespace Predictor {
             if (isSaving && saveRequest !is null) {
                 if (saveRequest.Finished()) {
                     bool success = saveRequest.ResponseCode() >= 200 && saveRequest.ResponseCode() < 300;
-                    if (success) {
+                    if (saveRequest.ResponseCode() == 401) {
+                        // The token expired or was revoked: clear it so it is renewed, and send the split again afterwards
+                        print("Authentication token rejected, saving the split once it is renewed");
+                        ClearAuthToken();
+                        pendingSplits.InsertAt(0, savingSplit);
+                        pendingUrls.InsertAt(0, savingUrl);
+                    } else if (success) {
                         string responseBody = saveRequest.String();
                         print("Successfully saved split to server: " + responseBody);
                     } else {
@@ -220,18 +274,19 @@ namespace Predictor {
                     
                     isSaving = false;
                     @saveRequest = null;
-                    
-                    // If there are pending saves, start the next one
-                    if (pendingSplits.Length > 0) {
-                        SplitData@ nextSplit = pendingSplits[0];
-                        string nextUrl = pendingUrls[0];
-                        pendingSplits.RemoveAt(0);
-                        pendingUrls.RemoveAt(0);
-                        print("Processing next queued split (" + pendingSplits.Length + " remaining)");
-                        StartSave(nextSplit, nextUrl);
-                    }
+                    @savingSplit = null;
                 }
             }
+            
+            // If there are pending saves and a token to send them with, start the next one
+            if (!isSaving && authToken.Length > 0 && pendingSplits.Length > 0) {
+                SplitData@ nextSplit = pendingSplits[0];
+                string nextUrl = pendingUrls[0];
+                pendingSplits.RemoveAt(0);
+                pendingUrls.RemoveAt(0);
+                print("Processing next queued split (" + pendingSplits.Length + " remaining)");
+                StartSave(nextSplit, nextUrl);
+            }
         }
         
         /**
@@ -253,10 +308,11 @@ namespace Predictor {
         }
         
         /**
-         * Clear the authentication token
+         * Clear the authentication token (the refresh token is kept to get a new one)
          */
         void ClearAuthToken() {
             authToken = "";
+            authTokenExpiresAt = 0;
         }
         
         /**
@@ -305,7 +361,7 @@ namespace Predictor {
             // Construct the URL
             string url = serverUrl;
             if (!url.EndsWith("/")) url += "/";
-            url += "splits/get";
+            url += "v1/splits/get";
             
             // Create JSON body
             string jsonBody = "{";
@@ -320,6 +376,7 @@ namespace Predictor {
             fetchRequest.Body = jsonBody;
             fetchRequest.Headers.Set("Content-Type", "application/json");
             fetchRequest.Headers.Set("Authorization", "Bearer " + authToken);
+            fetchRequest.Headers.Set("X-Plugin-Version", pluginVersion);
             
             // Send the request
             fetchRequest.Start();
@@ -369,6 +426,9 @@ namespace Predictor {
                         lastFetchSuccess = true;
                         print("Successfully fetched splits from server");
                     } else {
+                        // The token expired or was revoked: clear it so it is renewed before the next fetch
+                        if (fetchRequest.ResponseCode() == 401) ClearAuthToken();
+                        
                         string responseBody = fetchRequest.String();
                         lastError = "Server error (" + fetchRequest.ResponseCode() + "): " + responseBody;
                         print("Failed to fetch splits from server: " + lastError);
@@ -212,17 +212,18 @@ namespace Predictor {
         }
 
         /**
-         * Authenticate with the backend server by exchanging the Openplanet token
-         * for a reusable JWT issued by our server.
+         * Authenticate with the backend server, renewing the server-issued token
+         * with the refresh token when it is missing or about to expire, or by
+         * exchanging a new Openplanet token when there is no valid refresh token.
          *
          * This method must be called from a coroutine (startnew) so it can yield
          * while waiting for async operations to finish.
          *
-         * @returns {bool} True when authentication succeeds
+         * @returns {bool} True when a valid token is available
          */
         bool AuthenticateWithServer() {
             if (databaseManager is null) return false;
-            if (databaseManager.GetAuthToken().Length > 0) return true;
+            if (!databaseManager.NeedsNewAuthToken()) return true;
 
             // Wait for remote config fetch to complete so we know the server URL
             while (fetchingConfig) yield();
@@ -233,6 +234,12 @@ namespace Predictor {
                 return false;
             }
 
+            // Renew the token with the refresh token, signing in again if it was rejected
+            if (databaseManager.GetRefreshToken().Length > 0) {
+                if (RefreshServerToken()) return true;
+                databaseManager.ClearRefreshToken();
+            }
+
             print("Predictor: requesting Openplanet token for server authentication...");
             auto tokenTask = Auth::GetToken();
             while (!tokenTask.Finished()) yield();
@@ -321,13 +328,14 @@ namespace Predictor {
          * @private
          */
         private bool ExchangeOpenplanetToken(const string &in openplanetToken) {
-            string authUrl = BuildServerUrl("auth");
+            string authUrl = BuildServerUrl("v1/auth");
             if (authUrl.Length == 0) return false;
 
             Net::HttpRequest@ authRequest = Net::HttpRequest();
             authRequest.Method = Net::HttpMethod::Post;
             authRequest.Url = authUrl;
             authRequest.Headers.Set("Content-Type", "application/json");
+            authRequest.Headers.Set("X-Plugin-Version", pluginVersion);
             authRequest.Body = "{\"openplanetToken\":\"" + openplanetToken + "\"}";
             authRequest.Start();
 
@@ -340,17 +348,66 @@ namespace Predictor {
                 return false;
             }
 
+            if (!StoreServerTokens(authRequest)) return false;
+            print("Predictor: server authentication successful");
+            return true;
+        }
+
+        /**
+         * Exchange the refresh token for a new backend-issued token pair
+         *
+         * @returns {bool} True if the refresh succeeded
+         * @private
+         */
+        private bool RefreshServerToken() {
+            string refreshUrl = BuildServerUrl("v1/auth/refresh");
+            if (refreshUrl.Length == 0) return false;
+
+            Net::HttpRequest@ refreshRequest = Net::HttpRequest();
+            refreshRequest.Method = Net::HttpMethod::Post;
+            refreshRequest.Url = refreshUrl;
+            refreshRequest.Headers.Set("Content-Type", "application/json");
+            refreshRequest.Headers.Set("X-Plugin-Version", pluginVersion);
+            refreshRequest.Body = "{\"refreshToken\":\"" + databaseManager.GetRefreshToken() + "\"}";
+            refreshRequest.Start();
+
+            while (!refreshRequest.Finished()) yield();
+
+            bool success = refreshRequest.ResponseCode() >= 200 && refreshRequest.ResponseCode() < 300;
+            if (!success) {
+                string responseBody = refreshRequest.String();
+                print("Predictor: server token refresh failed (" + refreshRequest.ResponseCode() + "): " + responseBody);
+                return false;
+            }
+
+            if (!StoreServerTokens(refreshRequest)) return false;
+            print("Predictor: server token refreshed");
+            return true;
+        }
+
+        /**
+         * Store the token pair of a successful auth or refresh response
+         *
+         * @param request The finished auth or refresh request
+         * @returns {bool} True if the response held a token
+         * @private
+         */
+        private bool StoreServerTokens(Net::HttpRequest@ request) {
             try {
-                Json::Value responseBody = authRequest.Json();
+                Json::Value responseBody = request.Json();
                 bool hasToken = responseBody.HasKey("data") && responseBody["data"].HasKey("token");
                 if (!hasToken) {
                     print("Predictor: server auth response missing token field");
                     return false;
                 }
 
-                string serverToken = responseBody["data"]["token"];
-                databaseManager.SetAuthToken(serverToken);
-                print("Predictor: server authentication successful");
+                Json::Value data = responseBody["data"];
+                string serverToken = data["token"];
+                uint expiresIn = 0;
+                if (data.HasKey("expiresIn")) expiresIn = data["expiresIn"];
+                string serverRefreshToken = "";
+                if (data.HasKey("refreshToken")) serverRefreshToken = data["refreshToken"];
+                databaseManager.SetAuthTokens(serverToken, expiresIn, serverRefreshToken);
                 return true;
             } catch {
                 print("Predictor: failed to parse server auth response JSON");
@@ -1,5 +1,6 @@
 // Plugin Info
 const string pluginName = Meta::ExecutingPlugin().Name;
+const string pluginVersion = Meta::ExecutingPlugin().Version;
 const string menuIconColor = "\\$5fa";
 const string menuTitle = menuIconColor + "\\$z " + pluginName;
 
@@ -49,12 +50,20 @@ void RenderMenu() {
     }
 }
 
+/**
+ * Keep the server token valid, signing in at startup and renewing the token
+ * whenever it expires or the server rejects it
+ */
 void ServerAuthenticationCoroutine() {
-    while (predictorCore is null) yield();
-
-    while (!predictorCore.AuthenticateWithServer()) {
-        print("Predictor: server authentication failed, retrying in 5 seconds...");
-        sleep(5000);
+    while (true) {
         while (predictorCore is null) yield();
+
+        if (!predictorCore.AuthenticateWithServer()) {
+            print("Predictor: server authentication failed, retrying in 5 seconds...");
+            sleep(5000);
+            continue;
+        }
+
+        sleep(1000);
     }
 }
\ No newline at end of file
@@ -0,0 +1,146 @@
+// External Imports
+import { randomUUID } from 'crypto';
+import Fastify, { FastifyInstance, FastifyReply, FastifyRequest, FastifySchema } from 'fastify';
+import cors from '@fastify/cors';
+import swagger from '@fastify/swagger';
+import swaggerUi from '@fastify/swagger-ui';
+
+// Internal Imports
+import { config } from './config/config';
+import { adaptResponse, negotiateApiVersion } from './middleware/api-version.middleware';
+import { handleError, handleNotFound } from './middleware/error.middleware';
+import { recordRequestMetrics } from './middleware/metrics.middleware';
+import { rateLimit } from './middleware/rate-limit.middleware';
+import { checkPluginVersion } from './middleware/remote-config.middleware';
+import { RATE_LIMITS } from './services/rate-limit.service';
+import { UNPREFIXED_API_VERSION } from './services/api-version.service';
+import { registerSplitRoutes } from './routes/splits.route';
+import { registerAccountRoutes } from './routes/account.route';
+import { registerAdminRoutes } from './routes/admin.route';
+import { registerAnalyticsRoutes } from './routes/analytics.route';
+import { registerAuthRoutes } from './routes/auth.route';
+import { registerCampaignRoutes } from './routes/campaigns.route';
+import { registerClubRoutes } from './routes/clubs.route';
+import { registerConfigRoutes } from './routes/config.route';
+import { registerHealthRoutes } from './routes/health.route';
+import { registerLeaderboardRoutes } from './routes/leaderboard.route';
+import { registerLiveRoutes } from './routes/live.route';
+import { registerMapRoutes } from './routes/maps.route';
+import { registerMetricsRoutes } from './routes/metrics.route';
+import { registerPredictRoutes } from './routes/predict.route';
+import { ApiVersion, type ApiRoutesOptions } from './types/types';
+
+/**
+ * Build the Fastify Instance with every plugin and route registered (the repositories must be set up beforehand)
+ * @param logger Whether to log every request
+ * @returns The Fastify Instance
+ */
+export async function buildApp(logger: boolean = true): Promise<FastifyInstance> {
+	// Setup the Fastify Instance
+	const fastify = Fastify({
+		// Log as JSON lines at the configured level
+		logger: logger ? { level: config.logLevel } : false,
+
+		// Tag every request and its log lines with the request ID sent by a reverse proxy, or a new one
+		requestIdHeader: 'x-request-id',
+		genReqId: () => randomUUID(),
+
+		// Use the client IP forwarded by a reverse proxy (needed to rate limit per IP behind one)
+		trustProxy: config.trustProxy,
+
+		// Validate bodies as sent instead of coercing them into the schema types
+		ajv: { customOptions: { coerceTypes: false } },
+	});
+
+	// Send the request ID back so clients can quote it when reporting an error
+	fastify.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
+		// Set the Request ID Header
+		reply.header('x-request-id', request.id);
+	});
+
+	// Rate limit every request per IP before it is authenticated
+	fastify.addHook('onRequest', rateLimit(RATE_LIMITS.GLOBAL));
+
+	// Turn away plugins older than the minimum version of the remote config
+	fastify.addHook('onRequest', checkPluginVersion);
+
+	// Count every answered request in the metrics
+	fastify.addHook('onResponse', recordRequestMetrics);
+
+	// Answer every error with the standard error envelope
+	fastify.setErrorHandler(handleError);
+	fastify.setNotFoundHandler(handleNotFound);
+
+	// Register plugins
+	await fastify.register(cors, {
+		origin: true,
+		credentials: true,
+	});
+
+	// Generate the OpenAPI document from the route schemas
+	await fastify.register(swagger, {
+		openapi: {
+			info: {
+				title: 'TMNext Predictor API',
+				description: 'Stores Trackmania runs and serves splits, leaderboards and finish time predictions.',
+				version: '3.0.0',
+			},
+			components: {
+				securitySchemes: {
+					bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT', description: 'The access token returned by POST /auth' },
+				},
+			},
+		},
+	});
+
+	// Serve the browsable API documentation (the OpenAPI document is served at /docs/json)
+	await fastify.register(swaggerUi, { routePrefix: '/docs' });
+
+	// Register the API routes of every version under its prefix (e.g. /v1/splits/get)
+	for (const version of Object.values(ApiVersion)) await fastify.register(registerApiRoutes, { prefix: `/${version}`, version, unprefixed: false });
+
+	// Register the unprefixed aliases for the plugins released before the API was versioned
+	await fastify.register(registerApiRoutes, { version: UNPREFIXED_API_VERSION, unprefixed: true });
+
+	// Register the unversioned routes of the infrastructure
+	await fastify.register(registerMetricsRoutes);
+	await fastify.register(registerHealthRoutes);
+
+	// Return the Fastify Instance
+	return fastify;
+}
+
+/**
+ * Register the API routes of a version
+ * @param fastify The Fastify Instance
+ * @param options The version the routes serve and whether they are the unprefixed aliases
+ * @returns void
+ */
+async function registerApiRoutes(fastify: FastifyInstance, options: ApiRoutesOptions): Promise<void> {
+	// Count the requests by version and warn clients when the version is deprecated
+	fastify.addHook('onRequest', negotiateApiVersion(options.version, options.unprefixed));
+
+	// Convert the responses to the format of the version
+	fastify.addHook('preSerialization', adaptResponse(options.version));
+
+	// Leave the unprefixed aliases out of the API documentation (they are documented under their prefix)
+	if (options.unprefixed)
+		fastify.addHook('onRoute', routeOptions => {
+			// Hide the Route
+			routeOptions.schema = { ...routeOptions.schema, hide: true } as FastifySchema;
+		});
+
+	// Register routes
+	await fastify.register(registerAuthRoutes);
+	await fastify.register(registerSplitRoutes);
+	await fastify.register(registerLeaderboardRoutes);
+	await fastify.register(registerMapRoutes);
+	await fastify.register(registerPredictRoutes);
+	await fastify.register(registerLiveRoutes);
+	await fastify.register(registerAnalyticsRoutes);
+	await fastify.register(registerAccountRoutes);
+	await fastify.register(registerAdminRoutes);
+	await fastify.register(registerClubRoutes);
+	await fastify.register(registerCampaignRoutes);
+	await fastify.register(registerConfigRoutes);
+}
@@ -0,0 +1,83 @@
+// Internal Imports
+import { readDatabaseConfig } from './database-config';
+import { loadEnvFile, readBoolean, readEnum, readInteger, readRequired, readUrl } from './env';
+import { LogLevel, StorageType, type RateLimitOverride, type ServerConfig } from '../types/types';
+
+// Setup the Prefix of the rate limit override environment variables
+const RATE_LIMIT_PREFIX = 'RATE_LIMIT_';
+
+// Load the env file (ENV_FILE, or .env in the directory the server is started from)
+loadEnvFile();
+
+// Setup the Configuration, stopping the server at startup if any setting is invalid
+export const config = loadConfig(process.env);
+
+/**
+ * Load the configuration from the environment variables, reporting every invalid setting at once
+ * @param env The environment variables
+ * @returns The configuration
+ * @throws An error listing every missing or invalid setting
+ */
+export function loadConfig(env: NodeJS.ProcessEnv): ServerConfig {
+	// Setup the Errors found while reading the settings
+	const errors: Array<string> = new Array();
+
+	// Read the Settings
+	const config: ServerConfig = {
+		storage: readEnum(env, errors, 'STORAGE', StorageType, StorageType.MONGO),
+		port: readInteger(env, errors, 'PORT', 3000, 1, 65535),
+		host: env.HOST || '0.0.0.0',
+		trustProxy: readBoolean(env, errors, 'TRUST_PROXY', false),
+		logLevel: readEnum(env, errors, 'LOG_LEVEL', LogLevel, LogLevel.INFO),
+		...readDatabaseConfig(env, errors),
+		jwtSecret: readRequired(env, errors, 'JWT_SECRET'),
+		accessTokenTtl: readInteger(env, errors, 'ACCESS_TOKEN_TTL', 15 * 60, 1),
+		refreshTokenTtl: readInteger(env, errors, 'REFRESH_TOKEN_TTL', 30 * 24 * 60 * 60, 1),
+		openplanetSecret: readRequired(env, errors, 'OPENPLANET_SECRET'),
+		openplanetValidationUrl: readUrl(env, errors, 'OPENPLANET_VALIDATION_URL', 'https://openplanet.dev/api/auth/validate'),
+		adminAccountIds: (env.ADMIN_ACCOUNT_IDS ?? '')
+			.split(',')
+			.map(accountId => accountId.trim())
+			.filter(Boolean),
+		metricsToken: env.METRICS_TOKEN || null,
+		rateLimitOverrides: readRateLimitOverrides(env, errors),
+	};
+
+	// Check if any Setting is invalid
+	if (errors.length > 0) throw new Error(`Invalid configuration:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+
+	// Return the Configuration
+	return config;
+}
+
+/**
+ * Read the RATE_LIMIT_<NAME>=<max>/<seconds> rate limit overrides
+ * @param env The environment variables
+ * @param errors The errors found so far
+ * @returns The overrides keyed by rate limit name
+ */
+function readRateLimitOverrides(env: NodeJS.ProcessEnv, errors: Array<string>): Record<string, RateLimitOverride> {
+	// Setup the Overrides
+	const overrides: Record<string, RateLimitOverride> = {};
+
+	// Read every Rate Limit Variable
+	for (const [name, value] of Object.entries(env)) {
+		// Check if the Variable is not a rate limit override
+		if (!name.startsWith(RATE_LIMIT_PREFIX) || !value) continue;
+
+		// Parse the Override in the format <max>/<seconds>
+		const [max, windowSeconds] = value.split('/').map(Number);
+
+		// Check if the Override is malformed
+		if (!Number.isInteger(max) || !Number.isInteger(windowSeconds) || max <= 0 || windowSeconds <= 0) {
+			errors.push(`${name} must be in the format <max requests>/<window in seconds>, got "${value}"`);
+			continue;
+		}
+
+		// Add the Override
+		overrides[name.slice(RATE_LIMIT_PREFIX.length)] = { max, windowSeconds };
+	}
+
+	// Return the Overrides
+	return overrides;
+}
@@ -0,0 +1,76 @@
+// Internal Imports
+import { readBoolean, readInteger } from './env';
+import type { DatabaseConfig } from '../types/types';
+
+/**
+ * Load the settings of the connection to MongoDB from the environment variables, without the rest of the server configuration
+ * @param env The environment variables
+ * @returns The settings of the connection
+ * @throws An error listing every invalid setting
+ */
+export function loadDatabaseConfig(env: NodeJS.ProcessEnv): DatabaseConfig {
+	// Setup the Errors found while reading the settings
+	const errors: Array<string> = new Array();
+
+	// Read the Settings
+	const databaseConfig = readDatabaseConfig(env, errors);
+
+	// Check if any Setting is invalid
+	if (errors.length > 0) throw new Error(`Invalid database configuration:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+
+	// Return the Settings
+	return databaseConfig;
+}
+
+/**
+ * Read the settings of the connection to MongoDB
+ * @param env The environment variables
+ * @param errors The errors found so far
+ * @returns The settings of the connection
+ */
+export function readDatabaseConfig(env: NodeJS.ProcessEnv, errors: Array<string>): DatabaseConfig {
+	// Return the Settings
+	return {
+		mongoUri: readMongoUri(env, errors),
+		mongoConnectRetries: readInteger(env, errors, 'MONGO_CONNECT_RETRIES', 5, 0, 100),
+		mongoConnectRetryDelayMs: readInteger(env, errors, 'MONGO_CONNECT_RETRY_DELAY_MS', 1000, 1, 60000),
+	};
+}
+
+/**
+ * Read the MongoDB connection string from MONGO_URI, or build it from the MONGO_* parts
+ * @param env The environment variables
+ * @param errors The errors found so far
+ * @returns The connection string
+ */
+function readMongoUri(env: NodeJS.ProcessEnv, errors: Array<string>): string {
+	// Check if a full Connection String is set (e.g. an SRV string with TLS and auth source options)
+	if (env.MONGO_URI) {
+		// Check if the Connection String does not use a MongoDB scheme
+		if (!/^mongodb(\+srv)?:\/\//.test(env.MONGO_URI)) errors.push('MONGO_URI must start with mongodb:// or mongodb+srv://');
+
+		// Return the Connection String
+		return env.MONGO_URI;
+	}
+
+	// Get the Connection Parts
+	const host = env.MONGO_HOST || 'localhost';
+	const port = readInteger(env, errors, 'MONGO_PORT', 27017, 1, 65535);
+	const database = env.MONGO_DATABASE || 'predictor';
+
+	// Add the Credentials if both are set
+	const credentials =
+		env.MONGO_USERNAME && env.MONGO_PASSWORD ? `${encodeURIComponent(env.MONGO_USERNAME)}:${encodeURIComponent(env.MONGO_PASSWORD)}@` : '';
+
+	// Setup the Query Parameters
+	const queryParameters = new URLSearchParams();
+
+	// Add the Replica Set to the Query Parameters
+	if (env.MONGO_REPLICA_SET) queryParameters.set('replicaSet', env.MONGO_REPLICA_SET);
+
+	// Connect to the host directly unless turned off (needed for a single replica set member reachable under another name)
+	if (readBoolean(env, errors, 'MONGO_DIRECT_CONNECTION', true)) queryParameters.set('directConnection', 'true');
+
+	// Return the Connection String
+	return `mongodb://${credentials}${host}:${port}/${database}${queryParameters.size > 0 ? `?${queryParameters}` : ''}`;
+}
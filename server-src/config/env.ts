@@ -0,0 +1,128 @@
+// External Imports
+import { existsSync } from 'fs';
+
+/**
+ * Load the variables of an env file into the environment, keeping the variables that are already set
+ * @param path The path of the env file (ENV_FILE, or .env in the directory the process is started from)
+ * @returns void
+ */
+export function loadEnvFile(path: string = process.env.ENV_FILE || '.env'): void {
+	// Check if the Env File does not exist (the variables can be set without one)
+	if (!existsSync(path)) return;
+
+	// Load the Env File
+	process.loadEnvFile(path);
+}
+
+/**
+ * Read a setting that must be set
+ * @param env The environment variables
+ * @param errors The errors found so far
+ * @param name The name of the environment variable
+ * @returns The value, or an empty string if it is missing
+ */
+export function readRequired(env: NodeJS.ProcessEnv, errors: Array<string>, name: string): string {
+	// Get the Value
+	const value = env[name]?.trim() ?? '';
+
+	// Check if the Value is missing
+	if (!value) errors.push(`${name} is required`);
+
+	// Return the Value
+	return value;
+}
+
+/**
+ * Read an integer setting
+ * @param env The environment variables
+ * @param errors The errors found so far
+ * @param name The name of the environment variable
+ * @param defaultValue The value used when the variable is not set
+ * @param min The smallest allowed value
+ * @param max The largest allowed value
+ * @returns The value
+ */
+export function readInteger(
+	env: NodeJS.ProcessEnv,
+	errors: Array<string>,
+	name: string,
+	defaultValue: number,
+	min: number,
+	max: number = Number.MAX_SAFE_INTEGER,
+): number {
+	// Check if the Variable is not set
+	if (!env[name]) return defaultValue;
+
+	// Parse the Value
+	const value = Number(env[name]);
+
+	// Check if the Value is not an integer in range
+	if (!Number.isInteger(value) || value < min || value > max) errors.push(`${name} must be an integer between ${min} and ${max}, got "${env[name]}"`);
+
+	// Return the Value
+	return value;
+}
+
+/**
+ * Read a true/false setting
+ * @param env The environment variables
+ * @param errors The errors found so far
+ * @param name The name of the environment variable
+ * @param defaultValue The value used when the variable is not set
+ * @returns The value
+ */
+export function readBoolean(env: NodeJS.ProcessEnv, errors: Array<string>, name: string, defaultValue: boolean): boolean {
+	// Check if the Variable is not set
+	if (!env[name]) return defaultValue;
+
+	// Check if the Value is neither true nor false
+	if (env[name] !== 'true' && env[name] !== 'false') errors.push(`${name} must be true or false, got "${env[name]}"`);
+
+	// Return the Value
+	return env[name] === 'true';
+}
+
+/**
+ * Read a setting that must be one of the values of an enum
+ * @param env The environment variables
+ * @param errors The errors found so far
+ * @param name The name of the environment variable
+ * @param values The enum
+ * @param defaultValue The value used when the variable is not set
+ * @returns The value
+ */
+export function readEnum<T extends string>(
+	env: NodeJS.ProcessEnv,
+	errors: Array<string>,
+	name: string,
+	values: Record<string, T>,
+	defaultValue: T,
+): T {
+	// Check if the Variable is not set
+	if (!env[name]) return defaultValue;
+
+	// Check if the Value is not one of the enum values
+	if (!Object.values(values).includes(env[name] as T)) errors.push(`${name} must be one of ${Object.values(values).join(', ')}, got "${env[name]}"`);
+
+	// Return the Value
+	return env[name] as T;
+}
+
+/**
+ * Read a URL setting
+ * @param env The environment variables
+ * @param errors The errors found so far
+ * @param name The name of the environment variable
+ * @param defaultValue The value used when the variable is not set
+ * @returns The value
+ */
+export function readUrl(env: NodeJS.ProcessEnv, errors: Array<string>, name: string, defaultValue: string): string {
+	// Get the Value
+	const value = env[name] || defaultValue;
+
+	// Check if the Value is not a valid URL
+	if (!URL.canParse(value)) errors.push(`${name} must be a valid URL, got "${value}"`);
+
+	// Return the Value
+	return value;
+}
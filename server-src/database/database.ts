@@ -1,83 +1,119 @@
 // External Imports
-import mongoose from 'mongoose';
+import mongoose, { mongo } from 'mongoose';
+import { setTimeout } from 'timers/promises';
+import type { FastifyBaseLogger } from 'fastify';
 
-// Setup the Environment Variables
-const MONGO_HOST = process.env.MONGO_HOST || 'localhost';
-const MONGO_PORT = process.env.MONGO_PORT || '27017';
-const MONGO_USERNAME = process.env.MONGO_USERNAME || '';
-const MONGO_PASSWORD = process.env.MONGO_PASSWORD || '';
-const MONGO_DATABASE = process.env.MONGO_DATABASE || 'predictor';
-const MONGO_REPLICA_SET = process.env.MONGO_REPLICA_SET || '';
+// Internal Imports
+import { METRICS, observeHistogram } from '../services/metrics.service';
+import type { DatabaseConfig } from '../types/types';
 
 // Setup the Database Class
 class Database {
+	// Whether the server is disconnecting on purpose (so the disconnection is not reported as lost)
+	private disconnecting = false;
+
 	/**
-	 * Build the Connection String
-	 * @returns The Connection String
+	 * Observe the duration of every command sent to the database in the metrics
+	 * @returns void
 	 */
-	private buildConnectionString(): string {
-		// Setup the Connection String
-		let connectionString = 'mongodb://';
-
-		// If the username and password are provided, add them to the connection string
-		if (MONGO_USERNAME && MONGO_PASSWORD) connectionString += `${MONGO_USERNAME}:${MONGO_PASSWORD}@`;
-
-		// Add the host, port and database to the connection string
-		connectionString += `${MONGO_HOST}:${MONGO_PORT}/${MONGO_DATABASE}`;
-
-		// Setup the Query Parameters
-		const queryParameters: Array<string> = new Array();
+	private observeQueryDurations(): void {
+		// Setup the Collections of the running commands by request ID (the finished events do not name the collection)
+		const commandCollections = new Map<number, string>();
 
-		// Add the Replica Set to the Query Parameters
-		if (MONGO_REPLICA_SET) queryParameters.push(`replicaSet=${MONGO_REPLICA_SET}`);
+		// Get the MongoDB Client
+		const client = mongoose.connection.getClient();
 
-		// Add the Direct Connection to the Query Parameters
-		queryParameters.push(`directConnection=true`);
-
-		// Add the Query Parameters to the Connection String
-		if (queryParameters.length > 0) connectionString += `?${queryParameters.join('&')}`;
+		// Remember the Collection of every started command (commands without one, like ping, are labelled none)
+		client.on('commandStarted', (event: mongo.CommandStartedEvent) => {
+			const collection = event.command[event.commandName];
+			commandCollections.set(event.requestId, typeof collection === 'string' ? collection : 'none');
+		});
 
-		// Return the Connection String
-		return connectionString;
+		// Observe the Duration of every finished command in seconds
+		const observeCommand = (event: mongo.CommandSucceededEvent | mongo.CommandFailedEvent) => {
+			const collection = commandCollections.get(event.requestId) ?? 'none';
+			commandCollections.delete(event.requestId);
+			observeHistogram(METRICS.MONGO_QUERY_DURATION, { operation: event.commandName, collection }, event.duration / 1000);
+		};
+		client.on('commandSucceeded', observeCommand);
+		client.on('commandFailed', observeCommand);
 	}
 
 	/**
-	 * Connect to the Database
+	 * Connect to the Database, retrying with an exponential backoff while it is unreachable
+	 * @param logger The logger to report the connection with
+	 * @param databaseConfig The settings of the connection
 	 * @returns void
 	 */
-	public async connect(): Promise<void> {
-		// Build the Connection String
-		const connectionString = this.buildConnectionString();
-
-		// Connect to the Database
-		await mongoose.connect(connectionString).catch(error => {
-			// Log the Error
-			console.error('❌ MongoDB connection error:', error);
-
-			// Throw the Error
-			throw error;
+	public async connect(logger: FastifyBaseLogger, databaseConfig: DatabaseConfig): Promise<void> {
+		// Try to connect until it succeeds or the retries run out
+		for (let attempt = 0; ; attempt++) {
+			// Connect to the Database, emitting an event for every command so their durations can be measured
+			const error = await mongoose
+				.connect(databaseConfig.mongoUri, { monitorCommands: true })
+				.then(() => null)
+				.catch((error: Error) => error);
+
+			// Check if the Connection succeeded
+			if (!error) break;
+
+			// Check if the Retries ran out
+			if (attempt >= databaseConfig.mongoConnectRetries) {
+				// Log the Error
+				logger.error(error, 'MongoDB connection error');
+
+				// Throw the Error
+				throw error;
+			}
+
+			// Wait before the next attempt, doubling the delay every time
+			const delayMs = databaseConfig.mongoConnectRetryDelayMs * 2 ** attempt;
+			logger.warn({ err: error, attempt: attempt + 1, delayMs }, 'MongoDB connection failed, retrying');
+			await setTimeout(delayMs);
+		}
+
+		// Observe the Query Durations
+		this.observeQueryDurations();
+
+		// Log the connection being lost and recovered (the driver reconnects by itself)
+		mongoose.connection.on('disconnected', () => {
+			if (!this.disconnecting) logger.warn('Lost the connection to MongoDB');
 		});
+		mongoose.connection.on('reconnected', () => logger.info('Reconnected to MongoDB'));
 
 		// Log the Success
-		console.log(`✅ Connected to MongoDB at ${MONGO_HOST}:${MONGO_PORT}/${MONGO_DATABASE}`);
+		logger.info(`Connected to MongoDB at ${mongoose.connection.host}:${mongoose.connection.port}/${mongoose.connection.name}`);
 	}
 
 	/**
 	 * Disconnect from the Database
+	 * @param logger The logger to report the disconnection with
 	 * @returns void
 	 */
-	public async disconnect(): Promise<void> {
+	public async disconnect(logger: FastifyBaseLogger): Promise<void> {
+		// Stop reporting the disconnection as a lost connection
+		this.disconnecting = true;
+
 		// Disconnect from the Database
 		await mongoose.disconnect().catch(error => {
 			// Log the Error
-			console.error('❌ Error disconnecting from MongoDB:', error);
+			logger.error(error, 'Error disconnecting from MongoDB');
 
 			// Throw the Error
 			throw error;
 		});
 
 		// Log the Success
-		console.log('Disconnected from MongoDB');
+		logger.info('Disconnected from MongoDB');
+	}
+
+	/**
+	 * Get the state of the connection to the Database
+	 * @returns The state (connected, connecting, disconnected or disconnecting)
+	 */
+	public getState(): string {
+		// Return the Name of the Ready State
+		return mongoose.STATES[mongoose.connection.readyState];
 	}
 }
 
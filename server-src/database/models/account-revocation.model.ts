@@ -0,0 +1,21 @@
+// External Imports
+import { Schema, model } from 'mongoose';
+
+// Internal Imports
+import { type AccountRevocation } from '../../types/types';
+
+// Setup the Schema for the Account Revocation
+const AccountRevocationSchema = new Schema<AccountRevocation>(
+	{
+		accountId: { type: String, required: true, unique: true, index: true },
+		revokedAt: { type: Date, required: true },
+		expiresAt: { type: Date, required: true },
+	},
+	{ timestamps: true },
+);
+
+// TTL index so revocations are removed once every revoked token would have expired anyway
+AccountRevocationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Export the Model for the Account Revocation
+export const AccountRevocationModel = model<AccountRevocation>('AccountRevocation', AccountRevocationSchema);
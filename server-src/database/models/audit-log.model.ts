@@ -0,0 +1,22 @@
+// External Imports
+import { Schema, model } from 'mongoose';
+
+// Internal Imports
+import { AuditAction, type AuditLogEntry } from '../../types/types';
+
+// Setup the Schema for the Audit Log Entry
+const AuditLogSchema = new Schema<AuditLogEntry>(
+	{
+		action: { type: String, enum: Object.values(AuditAction), required: true, index: true },
+		actorAccountId: { type: String, required: true, index: true },
+		targetAccountId: { type: String, default: null, index: true },
+		details: { type: Schema.Types.Mixed, default: {} },
+	},
+	{ timestamps: true, minimize: false },
+);
+
+// Index for browsing the audit log newest first
+AuditLogSchema.index({ createdAt: -1 });
+
+// Export the Model for the Audit Log Entry
+export const AuditLogModel = model<AuditLogEntry>('AuditLog', AuditLogSchema);
@@ -0,0 +1,18 @@
+// External Imports
+import { Schema, model } from 'mongoose';
+
+// Internal Imports
+import { type TMNextCampaign } from '../../types/types';
+
+// Setup the Schema for the TMNext Campaign
+const CampaignSchema = new Schema<TMNextCampaign>(
+	{
+		campaignId: { type: String, required: true, unique: true, index: true },
+		name: { type: String, required: true },
+		mapIds: { type: [String], default: [] },
+	},
+	{ timestamps: true },
+);
+
+// Export the Model for the TMNext Campaign
+export const CampaignModel = model<TMNextCampaign>('Campaign', CampaignSchema);
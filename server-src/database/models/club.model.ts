@@ -0,0 +1,24 @@
+// External Imports
+import { Schema, model } from 'mongoose';
+
+// Internal Imports
+import { type TMNextClub } from '../../types/types';
+
+// Setup the Schema for the TMNext Club
+const ClubSchema = new Schema<TMNextClub>(
+	{
+		name: { type: String, required: true },
+		tag: { type: String, default: null },
+		ownerId: { type: Schema.Types.ObjectId, ref: 'Player', required: true },
+		memberIds: { type: [{ type: Schema.Types.ObjectId, ref: 'Player' }], default: [], index: true },
+		invitedAccountIds: { type: [String], default: [] },
+		inviteCode: { type: String, required: true },
+	},
+	{ timestamps: true },
+);
+
+// Unique index so no two clubs share a name, ignoring case
+ClubSchema.index({ name: 1 }, { unique: true, collation: { locale: 'en', strength: 2 } });
+
+// Export the Model for the TMNext Club
+export const ClubModel = model<TMNextClub>('Club', ClubSchema);
@@ -2,10 +2,31 @@
 import { Schema, model } from 'mongoose';
 
 // Internal Imports
-import { type TMNextMap } from '../../types/types';
+import { type TMNextMap, type TMNextMapMedalTimes } from '../../types/types';
+
+// Setup the Schema for the TMNext Map Medal Times
+const MedalTimesSchema = new Schema<TMNextMapMedalTimes>(
+	{
+		author: { type: Number, required: true },
+		gold: { type: Number, required: true },
+		silver: { type: Number, required: true },
+		bronze: { type: Number, required: true },
+	},
+	{ _id: false },
+);
 
 // Setup the Schema for the TMNext Map
-const MapSchema = new Schema<TMNextMap>({ mapId: { type: String, required: true, unique: true, index: true } }, { timestamps: true });
+const MapSchema = new Schema<TMNextMap>(
+	{
+		mapId: { type: String, required: true, unique: true, index: true },
+		name: { type: String },
+		author: { type: String },
+		checkpointCount: { type: Number },
+		lapCount: { type: Number },
+		medalTimes: { type: MedalTimesSchema },
+	},
+	{ timestamps: true },
+);
 
 // Export the Model for the TMNext Map
 export const MapModel = model<TMNextMap>('Map', MapSchema);
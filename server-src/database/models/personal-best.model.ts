@@ -0,0 +1,23 @@
+// External Imports
+import { Schema, model } from 'mongoose';
+
+// Internal Imports
+import { type TMNextPersonalBest } from '../../types/types';
+
+// Setup the Schema for the TMNext Personal Best
+const PersonalBestSchema = new Schema<TMNextPersonalBest>(
+	{
+		playerId: { type: Schema.Types.ObjectId, ref: 'Player', required: true },
+		mapId: { type: Schema.Types.ObjectId, ref: 'Map', required: true, index: true },
+		splitId: { type: Schema.Types.ObjectId, ref: 'Split', required: true },
+		totalTime: { type: Number, required: true },
+		runDate: { type: Date, required: true },
+	},
+	{ timestamps: true },
+);
+
+// Unique index so every player has a single personal best record per map
+PersonalBestSchema.index({ playerId: 1, mapId: 1 }, { unique: true });
+
+// Export the Model for the TMNext Personal Best
+export const PersonalBestModel = model<TMNextPersonalBest>('PersonalBest', PersonalBestSchema);
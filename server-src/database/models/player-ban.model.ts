@@ -0,0 +1,18 @@
+// External Imports
+import { Schema, model } from 'mongoose';
+
+// Internal Imports
+import { type PlayerBan } from '../../types/types';
+
+// Setup the Schema for the Player Ban
+const PlayerBanSchema = new Schema<PlayerBan>(
+	{
+		accountId: { type: String, required: true, unique: true, index: true },
+		bannedAt: { type: Date, required: true },
+		reason: { type: String, default: null },
+	},
+	{ timestamps: true },
+);
+
+// Export the Model for the Player Ban
+export const PlayerBanModel = model<PlayerBan>('PlayerBan', PlayerBanSchema);
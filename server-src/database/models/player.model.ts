@@ -2,16 +2,22 @@
 import { Schema, model } from 'mongoose';
 
 // Internal Imports
-import { type TMNextPlayer } from '../../types/types';
+import { LiveSharing, type TMNextPlayer } from '../../types/types';
 
 // Setup the Schema for the TMNext Player
 const PlayerSchema = new Schema<TMNextPlayer>(
 	{
 		accountId: { type: String, required: true, unique: true, index: true },
 		displayName: { type: String, required: true },
+		bannedAt: { type: Date, default: null, index: true },
+		banReason: { type: String, default: null },
+		liveSharing: { type: String, enum: Object.values(LiveSharing), default: LiveSharing.PRIVATE },
 	},
 	{ timestamps: true },
 );
 
+// Filter for the players an admin banned (players saved before bans existed have no ban date)
+export const BANNED_PLAYER_FILTER = { bannedAt: { $type: 'date' } };
+
 // Export the Model for the TMNext Player
 export const PlayerModel = model<TMNextPlayer>('Player', PlayerSchema);
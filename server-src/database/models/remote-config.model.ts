@@ -0,0 +1,24 @@
+// External Imports
+import { Schema, model } from 'mongoose';
+
+// Internal Imports
+import { GetSplitsType, PredictorMethod, type TMNextRemoteConfig } from '../../types/types';
+
+// Setup the Schema for the TMNext Remote Config
+const RemoteConfigSchema = new Schema<TMNextRemoteConfig>(
+	{
+		key: { type: String, required: true, unique: true, index: true },
+		apiUrl: { type: String, default: null },
+		minPluginVersion: { type: String, required: true },
+		serverSavesEnabled: { type: Boolean, required: true },
+		allowedSplitTypes: { type: [String], enum: Object.values(GetSplitsType), default: [] },
+		prediction: {
+			defaultMethod: { type: String, enum: Object.values(PredictorMethod), required: true },
+			hybridBestSplitsWeight: { type: Number, min: 0, max: 1, required: true },
+		},
+	},
+	{ timestamps: true },
+);
+
+// Export the Model for the TMNext Remote Config
+export const RemoteConfigModel = model<TMNextRemoteConfig>('RemoteConfig', RemoteConfigSchema);
@@ -0,0 +1,21 @@
+// External Imports
+import { Schema, model } from 'mongoose';
+
+// Internal Imports
+import { type RevokedToken } from '../../types/types';
+
+// Setup the Schema for the Revoked Token
+const RevokedTokenSchema = new Schema<RevokedToken>(
+	{
+		tokenId: { type: String, required: true, unique: true, index: true },
+		accountId: { type: String, required: true, index: true },
+		expiresAt: { type: Date, required: true },
+	},
+	{ timestamps: true },
+);
+
+// TTL index so revocations are removed once the token would have expired anyway
+RevokedTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Export the Model for the Revoked Token
+export const RevokedTokenModel = model<RevokedToken>('RevokedToken', RevokedTokenSchema);
@@ -0,0 +1,33 @@
+// External Imports
+import { Schema, model } from 'mongoose';
+
+// Internal Imports
+import { type MapSegmentStatistics, type SegmentStatistics } from '../../types/types';
+
+// Setup the Schema for the Statistics of a Segment
+const SegmentStatisticsSchema = new Schema<SegmentStatistics>(
+	{
+		index: { type: Number, required: true },
+		min: { type: Number, required: true },
+		median: { type: Number, required: true },
+		mean: { type: Number, required: true },
+		standardDeviation: { type: Number, required: true },
+		percentiles: { type: [Number], required: true },
+	},
+	{ _id: false },
+);
+
+// Setup the Schema for the Segment Statistics of a Map
+const MapSegmentStatisticsSchema = new Schema<MapSegmentStatistics>(
+	{
+		mapId: { type: Schema.Types.ObjectId, ref: 'Map', required: true, unique: true, index: true },
+		checkpointCount: { type: Number, required: true },
+		playerCount: { type: Number, required: true },
+		segments: { type: [SegmentStatisticsSchema], required: true },
+		computedAt: { type: Date, required: true },
+	},
+	{ timestamps: true },
+);
+
+// Export the Model for the Segment Statistics of a Map
+export const SegmentStatisticsModel = model<MapSegmentStatistics>('SegmentStatistics', MapSegmentStatisticsSchema);
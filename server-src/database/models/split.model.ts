@@ -2,7 +2,7 @@
 import { Schema, model } from 'mongoose';
 
 // Internal Imports
-import { type TMNextSplit } from '../../types/types';
+import { SplitStatus, SplitSuspicionFlag, type TMNextSplit } from '../../types/types';
 
 // Setup the Schema for the TMNext Split
 const SplitSchema = new Schema<TMNextSplit>(
@@ -12,6 +12,9 @@ const SplitSchema = new Schema<TMNextSplit>(
 		checkpointTimes: { type: [Number], required: true },
 		totalTime: { type: Number, required: true },
 		runDate: { type: Date, default: Date.now },
+		status: { type: String, enum: Object.values(SplitStatus), default: SplitStatus.ACCEPTED, index: true },
+		flags: { type: [String], enum: Object.values(SplitSuspicionFlag), default: [] },
+		clientRunId: { type: String },
 	},
 	{ timestamps: true },
 );
@@ -19,5 +22,20 @@ const SplitSchema = new Schema<TMNextSplit>(
 // Compound index for faster queries on player and map
 SplitSchema.index({ playerId: 1, mapId: 1, totalTime: 1 });
 
+// Compound index for per-map leaderboard aggregations
+SplitSchema.index({ mapId: 1, playerId: 1, totalTime: 1 });
+
+// Compound index for global best queries that skip quarantined splits
+SplitSchema.index({ mapId: 1, status: 1, totalTime: 1 });
+
+// Index for the admin review of the most recently uploaded splits
+SplitSchema.index({ createdAt: -1 });
+
+// Unique index so a run uploaded again with the same client run ID is not saved twice
+SplitSchema.index({ playerId: 1, clientRunId: 1 }, { unique: true, partialFilterExpression: { clientRunId: { $type: 'string' } } });
+
+// Filter for the splits that count towards global queries (splits saved before statuses existed have none)
+export const GLOBAL_SPLIT_FILTER = { status: { $nin: [SplitStatus.QUARANTINED, SplitStatus.HIDDEN] } };
+
 // Export the Model for the TMNext Split
 export const SplitModel = model<TMNextSplit>('Split', SplitSchema);
@@ -1,43 +1,27 @@
-// External Imports
-import Fastify, { FastifyReply, FastifyRequest } from 'fastify';
-import cors from '@fastify/cors';
-
 // Internal Imports
+import { config } from './config/config';
+import { buildApp } from './app';
 import { database } from './database/database';
-import { registerSplitRoutes } from './routes/splits.route';
-import { registerAuthRoutes } from './routes/auth.route';
-
-// Setup the Environment Variables
-const PORT = process.env.PORT || 3000;
-const HOST = process.env.HOST || '0.0.0.0';
-
-// Setup the Fastify Instance
-const fastify = Fastify({ logger: true });
+import { createMemoryRepositories, setRepositories } from './repositories/repositories';
+import { StorageType } from './types/types';
 
-// Register plugins
-await fastify.register(cors, {
-	origin: true,
-	credentials: true,
-});
+// Check if the Data should be kept in memory instead of MongoDB (lost on restart)
+const useMemoryStorage = config.storage === StorageType.MEMORY;
 
-// Connect to database
-await database.connect();
+// Check if the Data Is kept in memory and use the in-memory repositories
+if (useMemoryStorage) setRepositories(createMemoryRepositories());
 
-// Register routes
-await fastify.register(registerAuthRoutes);
-await fastify.register(registerSplitRoutes);
+// Build the Fastify Instance (its logger is used for every log line of the server)
+const fastify = await buildApp();
 
-// Health check endpoint
-fastify.get('/health', async (request: FastifyRequest, reply: FastifyReply) => {
-	// Log the Health Check
-	return reply.code(200).send({ status: 'ok', timestamp: new Date().toISOString() });
-});
+// Connect to the database once the logger exists
+if (!useMemoryStorage) await database.connect(fastify.log, config);
 
 // Start server
-await fastify.listen({ port: Number(PORT), host: HOST });
+await fastify.listen({ port: config.port, host: config.host });
 
-// Log the Server Listening
-console.log(`🚀 Server listening on http://${HOST}:${PORT}`);
+// Log the Storage in use (Fastify logs the listening address itself)
+fastify.log.info(useMemoryStorage ? 'Using in-memory storage' : 'Using MongoDB storage');
 
 // Graceful shutdown
 process.on('SIGINT', gracefulShutdown);
@@ -50,13 +34,13 @@ process.on('SIGTERM', gracefulShutdown);
  */
 async function gracefulShutdown(signal: NodeJS.Signals) {
 	// Log the Shutdown
-	console.log('\n🛑 Shutting down gracefully...');
+	fastify.log.info({ signal }, 'Shutting down gracefully');
 
 	// Close the Fastify Instance
 	await fastify.close();
 
 	// Disconnect from the Database
-	await database.disconnect();
+	if (!useMemoryStorage) await database.disconnect(fastify.log);
 
 	// Exit the Process
 	process.exit(0);
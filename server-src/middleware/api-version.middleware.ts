@@ -0,0 +1,40 @@
+// External Imports
+import { FastifyReply, FastifyRequest } from 'fastify';
+
+// Internal Imports
+import { API_VERSIONS, getDeprecationHeaders, recordApiUsage, stripApiVersionPrefix } from '../services/api-version.service';
+import { PLUGIN_VERSION_HEADER } from './remote-config.middleware';
+import type { ApiVersion } from '../types/types';
+
+/**
+ * Create a hook that counts the requests to a version of the API by plugin version and warns clients when the version is deprecated
+ * @param version The version the routes serve
+ * @param unprefixed Whether the routes are the unprefixed aliases
+ * @returns The hook
+ */
+export function negotiateApiVersion(version: ApiVersion, unprefixed: boolean): (request: FastifyRequest, reply: FastifyReply) => Promise<void> {
+	// Return the Hook
+	return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+		// Get the Plugin Version from the header (malformed versions were already rejected)
+		const pluginVersion = request.headers[PLUGIN_VERSION_HEADER];
+
+		// Count the Request by version
+		recordApiUsage(version, typeof pluginVersion === 'string' ? pluginVersion : null, unprefixed);
+
+		// Add the Deprecation Headers if the version is deprecated
+		reply.headers(getDeprecationHeaders(API_VERSIONS[version], stripApiVersionPrefix(request.url)));
+	};
+}
+
+/**
+ * Create a hook that converts the responses to the format of a version of the API (the plugin version of the request does not change the format)
+ * @param version The version the routes serve
+ * @returns The hook
+ */
+export function adaptResponse(version: ApiVersion): (request: FastifyRequest, reply: FastifyReply, payload: unknown) => Promise<unknown> {
+	// Return the Hook
+	return async (request: FastifyRequest, reply: FastifyReply, payload: unknown): Promise<unknown> => {
+		// Convert the Response with the adapter of the version
+		return API_VERSIONS[version].adaptResponse(stripApiVersionPrefix(request.routeOptions.url ?? ''), payload);
+	};
+}
@@ -2,70 +2,71 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 
 // Internal Imports
-import { AuthenticatedRequest, AuthenticationPayload } from '../types/types';
-import { verify } from 'jsonwebtoken';
-
-// Get the Environment Variables
-const JWT_SECRET = process.env.JWT_SECRET;
+import { authenticateToken } from '../services/token.service';
+import { isAdmin } from '../services/admin.service';
+import { recordAuthAttempt } from '../services/metrics.service';
+import { sendError } from '../utils/reply.utils';
+import { AuthErrorCode, AuthMethod, TokenType, type AuthenticatedRequest } from '../types/types';
 
 /**
- * Authenticate the request with Openplanet
+ * Authenticate the request with the access token issued by the server
  * @param request - The Fastify request object
  * @param reply - The Fastify reply object
  * @returns void
  */
 export async function authenticateRequest(request: FastifyRequest, reply: FastifyReply): Promise<void> {
-	// If the JWT Secret is not configured, return an error
-	if (!JWT_SECRET) return reply.code(500).send({ error: 'Server authentication not configured' });
-
 	// Get token from Authorization header
 	const authHeader = request.headers['authorization'];
 
 	// If the authorization header is not present, return an error
-	if (!authHeader) return reply.code(401).send({ error: 'Missing authorization header' });
+	if (!authHeader) return rejectAuthentication(reply, AuthMethod.ACCESS_TOKEN, 401, AuthErrorCode.MISSING_TOKEN, 'Missing authorization header');
 
 	// Get the token from the authorization header
 	const token = authHeader.replace('Bearer ', '').trim();
 
 	// If the token is not present, return an error
-	if (!token) return reply.code(401).send({ error: 'User not authenticated' });
+	if (!token) return rejectAuthentication(reply, AuthMethod.ACCESS_TOKEN, 401, AuthErrorCode.MISSING_TOKEN, 'User not authenticated');
+
+	// Authenticate the token
+	const payload = await authenticateToken(token, TokenType.ACCESS);
 
-	// Get the Authentication Payload
-	const payload = await verifyToken(token, JWT_SECRET!).catch(error => {
-		// Log the Error
-		console.error('Error verifying token:', error);
+	// If the token was rejected, stop the request with the auth error
+	if ('code' in payload) return rejectAuthentication(reply, AuthMethod.ACCESS_TOKEN, 401, payload.code, payload.error);
 
-		// Return an error
-		return reply.code(401).send({ error: 'Invalid token' });
-	});
+	// Count the successful authentication
+	recordAuthAttempt(AuthMethod.ACCESS_TOKEN, null);
 
 	// Attach user information to request
 	(request as AuthenticatedRequest).userId = payload.accountId;
 	(request as AuthenticatedRequest).displayName = payload.displayName;
+	(request as AuthenticatedRequest).tokenId = payload.jti;
+	(request as AuthenticatedRequest).tokenExpiresAt = payload.exp;
 }
 
 /**
- * Verify the JWT Token
- * @param token - The JWT Token to verify
- * @param secret - The JWT Secret to use
- * @returns The Authentication Payload
+ * Only let admins through (runs after authenticateRequest)
+ * @param request - The Fastify request object
+ * @param reply - The Fastify reply object
+ * @returns void
  */
-export async function verifyToken(token: string, secret: string): Promise<AuthenticationPayload> {
-	// Setup the New Promise
-	const promise = new Promise<AuthenticationPayload>((resolve, reject) => {
-		// Verify the JWT Token
-		verify(token, secret, (err, decoded) => {
-			// If there is an error, reject the promise
-			if (err) return reject(err);
-
-			// If the decoded token is not an object, reject the promise
-			if (typeof decoded !== 'object') return reject(new Error('Invalid token'));
+export async function requireAdmin(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+	// If the player is not an admin, return an error
+	if (!isAdmin((request as AuthenticatedRequest).userId!)) return sendError(reply, 403, AuthErrorCode.ADMIN_REQUIRED, 'Admin access required');
+}
 
-			// Resolve the promise with the decoded token
-			resolve(decoded as AuthenticationPayload);
-		});
-	});
+/**
+ * Count a failed authentication attempt and answer it with the auth error
+ * @param reply - The Fastify reply object
+ * @param method - The way the client tried to authenticate
+ * @param statusCode - The HTTP status code
+ * @param code - The reason the authentication failed
+ * @param error - The human-readable error message
+ * @returns The Fastify reply
+ */
+export function rejectAuthentication(reply: FastifyReply, method: AuthMethod, statusCode: number, code: AuthErrorCode, error: string): FastifyReply {
+	// Count the failed authentication by reason
+	recordAuthAttempt(method, code);
 
-	// Return the Promise
-	return promise;
+	// Send the Auth Error
+	return sendError(reply, statusCode, code, error);
 }
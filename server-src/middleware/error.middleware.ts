@@ -0,0 +1,38 @@
+// External Imports
+import { FastifyError, FastifyReply, FastifyRequest } from 'fastify';
+
+// Internal Imports
+import { sendError } from '../utils/reply.utils';
+import { ErrorCode } from '../types/types';
+
+/**
+ * Answer every error thrown while handling a request with the standard error envelope
+ * @param error The error
+ * @param request The Fastify request
+ * @param reply The Fastify reply
+ * @returns void
+ */
+export async function handleError(error: FastifyError, request: FastifyRequest, reply: FastifyReply): Promise<void> {
+	// Check if the Request does not match the route schema
+	if (error.validation) return sendError(reply, 400, ErrorCode.VALIDATION_ERROR, error.message);
+
+	// Check if the Request could not be processed (e.g. malformed JSON)
+	if (error.statusCode && error.statusCode < 500) return sendError(reply, error.statusCode, ErrorCode.BAD_REQUEST, error.message);
+
+	// Log the Error
+	request.log.error(error);
+
+	// Return the Internal Error
+	return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, 'Internal server error');
+}
+
+/**
+ * Answer requests to unknown routes with the standard error envelope
+ * @param request The Fastify request
+ * @param reply The Fastify reply
+ * @returns void
+ */
+export async function handleNotFound(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+	// Return the Not Found Error
+	return sendError(reply, 404, ErrorCode.NOT_FOUND, `Route ${request.method} ${request.url} not found`);
+}
@@ -0,0 +1,22 @@
+// External Imports
+import { FastifyReply, FastifyRequest } from 'fastify';
+
+// Internal Imports
+import { incrementCounter, METRICS, observeHistogram } from '../services/metrics.service';
+
+/**
+ * Count every answered request and the time taken to answer it
+ * @param request The Fastify request
+ * @param reply The Fastify reply
+ * @returns void
+ */
+export async function recordRequestMetrics(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+	// Get the Route pattern of the request (requests to unknown routes share one label to keep the number of series bounded)
+	const route = request.routeOptions.url ?? 'unmatched';
+
+	// Count the Request by route and status code
+	incrementCounter(METRICS.HTTP_REQUESTS, { method: request.method, route, status_code: String(reply.statusCode) });
+
+	// Observe the Time taken to answer the request in seconds
+	observeHistogram(METRICS.HTTP_REQUEST_DURATION, { method: request.method, route }, reply.elapsedTime / 1000);
+}
@@ -0,0 +1,47 @@
+// External Imports
+import { FastifyReply, FastifyRequest } from 'fastify';
+
+// Internal Imports
+import { consumeRateLimit } from '../services/rate-limit.service';
+import { sendError } from '../utils/reply.utils';
+import { ErrorCode, type AuthenticatedRequest, type RateLimitRule } from '../types/types';
+
+/**
+ * Create a hook that rate limits requests per account once authenticated, or per IP before authentication
+ * @param rule The rate limit
+ * @returns The hook
+ */
+export function rateLimit(rule: RateLimitRule): (request: FastifyRequest, reply: FastifyReply) => Promise<void> {
+	// Return the Hook
+	return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+		// Get the account ID attached by the auth middleware
+		const userId = (request as AuthenticatedRequest).userId;
+
+		// Count the request against the account, or the IP if the request is not authenticated
+		const hit = await consumeRateLimit(rule, userId ? `account:${userId}` : `ip:${request.ip}`).catch(error => {
+			// Log the error
+			request.log.error(error, 'Error counting rate limit');
+
+			// Return null to let the request through while the store is unavailable
+			return null;
+		});
+
+		// Check if the Rate Limit could not be counted
+		if (!hit) return;
+
+		// Get the Seconds until the window resets
+		const resetSeconds = Math.max(0, Math.ceil((hit.resetAt - Date.now()) / 1000));
+
+		// Add the Rate Limit Headers
+		reply.header('x-ratelimit-limit', rule.max);
+		reply.header('x-ratelimit-remaining', Math.max(0, rule.max - hit.count));
+		reply.header('x-ratelimit-reset', resetSeconds);
+
+		// Check if the Rate Limit Is not exceeded
+		if (hit.count <= rule.max) return;
+
+		// Add the Retry Header and return the error
+		reply.header('retry-after', resetSeconds);
+		return sendError(reply, 429, ErrorCode.RATE_LIMITED, `Rate limit exceeded, retry in ${resetSeconds} seconds`);
+	};
+}
@@ -0,0 +1,111 @@
+// External Imports
+import { FastifyReply, FastifyRequest } from 'fastify';
+
+// Internal Imports
+import { comparePluginVersions, getRemoteConfig, PLUGIN_VERSION_PATTERN } from '../services/remote-config.service';
+import { stripApiVersionPrefix } from '../services/api-version.service';
+import { sendError } from '../utils/reply.utils';
+import { ErrorCode, type GetSplitsType, type RemoteConfig } from '../types/types';
+
+// Setup the Header the plugin sends its version in
+export const PLUGIN_VERSION_HEADER = 'x-plugin-version';
+
+// Setup the Routes outdated plugins can still reach (so they can load the minimum version they need to update to)
+const VERSION_EXEMPT_ROUTES: ReadonlyArray<string> = ['/config'];
+
+/**
+ * Reject requests from plugins older than the minimum version of the remote config (requests without a version are let through)
+ * @param request The Fastify request
+ * @param reply The Fastify reply
+ * @returns void
+ */
+export async function checkPluginVersion(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+	// Get the Plugin Version from the header
+	const pluginVersion = request.headers[PLUGIN_VERSION_HEADER];
+
+	// Check if the Request is not sent by the plugin
+	if (typeof pluginVersion !== 'string') return;
+
+	// Check if the Plugin Version is malformed
+	if (!new RegExp(PLUGIN_VERSION_PATTERN).test(pluginVersion))
+		return sendError(reply, 400, ErrorCode.BAD_REQUEST, `${PLUGIN_VERSION_HEADER} must be a version like 3 or 3.1, got "${pluginVersion}"`);
+
+	// Check if the Request goes to an exempt route (in any version of the API)
+	if (VERSION_EXEMPT_ROUTES.includes(stripApiVersionPrefix(request.routeOptions.url ?? ''))) return;
+
+	// Get the remote config
+	const remoteConfig = await loadRemoteConfig(request);
+
+	// Check if the Remote Config could not be loaded or the plugin is recent enough
+	if (!remoteConfig || comparePluginVersions(pluginVersion, remoteConfig.minPluginVersion) >= 0) return;
+
+	// Return the error
+	return sendError(
+		reply,
+		426,
+		ErrorCode.PLUGIN_OUTDATED,
+		`Plugin version ${pluginVersion} is no longer supported, please update the Predictor plugin to version ${remoteConfig.minPluginVersion} or later`,
+	);
+}
+
+/**
+ * Reject requests that save runs while saving is turned off in the remote config
+ * @param request The Fastify request
+ * @param reply The Fastify reply
+ * @returns void
+ */
+export async function requireServerSaves(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+	// Get the remote config
+	const remoteConfig = await loadRemoteConfig(request);
+
+	// Check if the Remote Config could not be loaded or saving is turned on
+	if (!remoteConfig || remoteConfig.serverSavesEnabled) return;
+
+	// Return the error
+	return sendError(reply, 503, ErrorCode.SAVES_DISABLED, 'Saving runs on the server is currently turned off');
+}
+
+/**
+ * Create a hook that rejects requests for a type of split that is turned off in the remote config
+ * @param field The body field holding the type of split
+ * @param defaultType The type of split used when the field is left out, or null if there is none
+ * @returns The hook
+ */
+export function requireAllowedSplitType(
+	field: string,
+	defaultType: GetSplitsType | null = null,
+): (request: FastifyRequest, reply: FastifyReply) => Promise<void> {
+	// Return the Hook
+	return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+		// Get the Type of split from the body (the schema has not validated it yet)
+		const type = (request.body as Record<string, unknown> | undefined)?.[field] ?? defaultType;
+
+		// Check if the Type is missing or malformed (the schema validation answers those)
+		if (typeof type !== 'string') return;
+
+		// Get the remote config
+		const remoteConfig = await loadRemoteConfig(request);
+
+		// Check if the Remote Config could not be loaded or the type is allowed
+		if (!remoteConfig || remoteConfig.allowedSplitTypes.includes(type as GetSplitsType)) return;
+
+		// Return the error
+		return sendError(reply, 400, ErrorCode.SPLIT_TYPE_DISABLED, `The ${type} split type is currently turned off`);
+	};
+}
+
+/**
+ * Load the remote config for a hook
+ * @param request The Fastify request
+ * @returns The remote config, or null if it could not be loaded
+ */
+async function loadRemoteConfig(request: FastifyRequest): Promise<RemoteConfig | null> {
+	// Get the remote config
+	return await getRemoteConfig().catch(error => {
+		// Log the error
+		request.log.error(error, 'Error loading remote config');
+
+		// Return null to let the request through while the database is unavailable
+		return null;
+	});
+}
@@ -0,0 +1,35 @@
+// Internal Imports
+import { MemoryRepository } from './memory.repository';
+import type { AuditLogEntry, AuditLogQuery, AuditLogRepository } from '../types/types';
+
+// Setup the Memory Audit Log Repository Class
+export class MemoryAuditLogRepository extends MemoryRepository<AuditLogEntry> implements AuditLogRepository {
+	/**
+	 * Add an entry to the audit log
+	 * @param entry The entry to add
+	 * @returns The new entry
+	 */
+	public async create(entry: Pick<AuditLogEntry, 'action' | 'actorAccountId' | 'targetAccountId' | 'details'>): Promise<AuditLogEntry> {
+		// Create the entry
+		return this.insertRecord(entry);
+	}
+
+	/**
+	 * Find a page of the audit log entries matching a query, newest first
+	 * @param query The filter for the entries
+	 * @param skip The number of entries to skip
+	 * @param limit The number of entries on the page
+	 * @returns The number of matching entries and the entries of the page
+	 */
+	public async find(query: AuditLogQuery, skip: number, limit: number): Promise<{ total: number; entries: Array<AuditLogEntry> }> {
+		// Find the entries matching every part of the query and sort them by their date
+		const entries = this.findRecords(
+			entry =>
+				(!query.action || entry.action === query.action) &&
+				(!query.accountId || entry.actorAccountId === query.accountId || entry.targetAccountId === query.accountId),
+		).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b._id.toString().localeCompare(a._id.toString()));
+
+		// Return the Page
+		return { total: entries.length, entries: entries.slice(skip, skip + limit) };
+	}
+}
@@ -0,0 +1,43 @@
+// Internal Imports
+import { MemoryRepository } from './memory.repository';
+import type { CampaignRepository, TMNextCampaign } from '../types/types';
+
+// Setup the Memory Campaign Repository Class
+export class MemoryCampaignRepository extends MemoryRepository<TMNextCampaign> implements CampaignRepository {
+	/**
+	 * Find a campaign by its ID
+	 * @param campaignId The ID of the campaign
+	 * @returns The campaign, or null if it does not exist
+	 */
+	public async findByCampaignId(campaignId: string): Promise<TMNextCampaign | null> {
+		// Find the campaign by its ID
+		return this.findRecords(campaign => campaign.campaignId === campaignId)[0] ?? null;
+	}
+
+	/**
+	 * Find every campaign
+	 * @returns The campaigns, newest first
+	 */
+	public async findAll(): Promise<Array<TMNextCampaign>> {
+		// Find the campaigns and sort them by their creation date
+		return this.findRecords(() => true).sort(
+			(a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b._id.toString().localeCompare(a._id.toString()),
+		);
+	}
+
+	/**
+	 * Create a campaign or replace its name and maps
+	 * @param campaignId The ID of the campaign
+	 * @param details The name and maps to set
+	 * @returns The campaign
+	 */
+	public async save(campaignId: string, details: Pick<TMNextCampaign, 'name' | 'mapIds'>): Promise<TMNextCampaign> {
+		// Find the Campaign
+		const campaign = await this.findByCampaignId(campaignId);
+
+		// Update the campaign, or create it with the details
+		return campaign
+			? this.updateRecord(campaign._id, { ...details, mapIds: [...details.mapIds] })!
+			: this.insertRecord({ campaignId, ...details, mapIds: [...details.mapIds] });
+	}
+}
@@ -0,0 +1,124 @@
+// External Imports
+import { type ObjectId } from 'mongoose';
+
+// Internal Imports
+import { MemoryRepository } from './memory.repository';
+import type { ClubRepository, TMNextClub } from '../types/types';
+
+// Setup the Memory Club Repository Class
+export class MemoryClubRepository extends MemoryRepository<TMNextClub> implements ClubRepository {
+	/**
+	 * Create a club
+	 * @param club The club to create
+	 * @returns The new club, or null if another club already uses the name
+	 */
+	public async create(
+		club: Pick<TMNextClub, 'name' | 'tag' | 'ownerId' | 'memberIds' | 'invitedAccountIds' | 'inviteCode'>,
+	): Promise<TMNextClub | null> {
+		// Check if the Name is already used, ignoring case like the unique index
+		if (this.findRecords(existingClub => existingClub.name.toLowerCase() === club.name.toLowerCase()).length > 0) return null;
+
+		// Create the club
+		return this.insertRecord({ ...club, memberIds: [...club.memberIds], invitedAccountIds: [...club.invitedAccountIds] });
+	}
+
+	/**
+	 * Find a club by its ID
+	 * @param clubId The ID of the club
+	 * @returns The club, or null if it does not exist
+	 */
+	public async findById(clubId: string): Promise<TMNextClub | null> {
+		// Find the club
+		return this.getById(clubId);
+	}
+
+	/**
+	 * Find the clubs a player is a member of
+	 * @param playerId The database ID of the player
+	 * @returns The clubs, oldest first
+	 */
+	public async findByMember(playerId: ObjectId): Promise<Array<TMNextClub>> {
+		// Find the clubs of the player and sort them by their creation date
+		return this.findRecords(club => club.memberIds.some(memberId => memberId.toString() === playerId.toString())).sort(
+			(a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a._id.toString().localeCompare(b._id.toString()),
+		);
+	}
+
+	/**
+	 * Invite a player to a club
+	 * @param clubId The ID of the club
+	 * @param accountId The account ID of the player
+	 * @returns The updated club, or null if it does not exist
+	 */
+	public async addInvite(clubId: string, accountId: string): Promise<TMNextClub | null> {
+		// Find the Club
+		const club = this.getById(clubId);
+
+		// Check if the Club does not exist
+		if (!club) return null;
+
+		// Add the invite unless the player was already invited
+		return this.updateRecord(clubId, {
+			invitedAccountIds: club.invitedAccountIds.includes(accountId) ? club.invitedAccountIds : [...club.invitedAccountIds, accountId],
+		});
+	}
+
+	/**
+	 * Add a player to the members of a club unless it is full, removing their invite
+	 * @param clubId The ID of the club
+	 * @param playerId The database ID of the player
+	 * @param accountId The account ID of the player
+	 * @param maxMembers The maximum number of members the club can have
+	 * @returns The updated club, or null if it does not exist or is full
+	 */
+	public async addMember(clubId: string, playerId: ObjectId, accountId: string, maxMembers: number): Promise<TMNextClub | null> {
+		// Find the Club
+		const club = this.getById(clubId);
+
+		// Check if the Club does not exist or is full
+		if (!club || club.memberIds.length >= maxMembers) return null;
+
+		// Check if the Player is already a member
+		const isMember = club.memberIds.some(memberId => memberId.toString() === playerId.toString());
+
+		// Add the member and remove their invite
+		return this.updateRecord(clubId, {
+			memberIds: isMember ? club.memberIds : [...club.memberIds, playerId],
+			invitedAccountIds: club.invitedAccountIds.filter(invitedAccountId => invitedAccountId !== accountId),
+		});
+	}
+
+	/**
+	 * Remove a player from every club they are a member of, handing the clubs they own to their oldest remaining member and deleting the clubs left without members
+	 * @param playerId The database ID of the player
+	 * @returns The number of clubs the player was removed from
+	 */
+	public async removeMember(playerId: ObjectId): Promise<number> {
+		// Find the clubs of the player
+		const clubs = await this.findByMember(playerId);
+
+		// Remove the member from every club
+		for (const club of clubs) {
+			// Get the Remaining Members of the club
+			const memberIds = club.memberIds.filter(memberId => memberId.toString() !== playerId.toString());
+
+			// Check if the Player owns the club
+			const isOwner = club.ownerId.toString() === playerId.toString();
+
+			// Check if the Club has no members left and delete it
+			if (isOwner && memberIds.length === 0) {
+				// Delete the Club
+				this.deleteRecords(record => record._id.toString() === club._id.toString());
+
+				// Continue with the next club
+				continue;
+			}
+
+			// Remove the member, handing the club to the member who joined first if the player owned it
+			this.updateRecord(club._id, { memberIds, ownerId: isOwner ? memberIds[0] : club.ownerId });
+		}
+
+		// Return the number of clubs the player was removed from
+		return clubs.length;
+	}
+}
@@ -0,0 +1,79 @@
+// Internal Imports
+import { MemoryRepository } from './memory.repository';
+import type { MapRepository, SaveMapData, TMNextMap } from '../types/types';
+
+// Setup the Memory Map Repository Class
+export class MemoryMapRepository extends MemoryRepository<TMNextMap> implements MapRepository {
+	/**
+	 * Find a map by its ID
+	 * @param mapId The ID of the map
+	 * @returns The map, or null if it does not exist
+	 */
+	public async findByMapId(mapId: string): Promise<TMNextMap | null> {
+		// Find the map by its ID
+		return this.findRecords(map => map.mapId === mapId)[0] ?? null;
+	}
+
+	/**
+	 * Find maps by their IDs
+	 * @param mapIds The IDs of the maps
+	 * @returns The maps that exist
+	 */
+	public async findByMapIds(mapIds: string[]): Promise<Array<TMNextMap>> {
+		// Find the maps by their IDs
+		return this.findRecords(map => mapIds.includes(map.mapId));
+	}
+
+	/**
+	 * Find every map
+	 * @returns The maps
+	 */
+	public async findAll(): Promise<Array<TMNextMap>> {
+		// Find the maps
+		return this.findRecords(() => true);
+	}
+
+	/**
+	 * Create a map without details
+	 * @param mapId The ID of the map
+	 * @returns The new map
+	 */
+	public async create(mapId: string): Promise<TMNextMap> {
+		// Create the map
+		return this.insertRecord({ mapId });
+	}
+
+	/**
+	 * Create a map or overwrite its details
+	 * @param mapId The ID of the map
+	 * @param details The details to set
+	 * @returns The map
+	 */
+	public async save(mapId: string, details: Partial<SaveMapData>): Promise<TMNextMap> {
+		// Find the Map
+		const map = await this.findByMapId(mapId);
+
+		// Update the map, or create it with the details
+		return map ? this.updateRecord(map._id, details)! : this.insertRecord({ mapId, ...details });
+	}
+
+	/**
+	 * Create a map or set only the details it does not have yet, keeping the ones already stored
+	 * @param mapId The ID of the map
+	 * @param details The details to set where missing
+	 * @returns The map
+	 */
+	public async fillDetails(mapId: string, details: Partial<SaveMapData>): Promise<TMNextMap> {
+		// Find the Map
+		const map = await this.findByMapId(mapId);
+
+		// Check if the Map does not exist and create it with the details
+		if (!map) return this.insertRecord({ mapId, ...details });
+
+		// Keep only the details the map does not have yet
+		const missingDetails = Object.fromEntries(Object.entries(details).filter(([field]) => map[field as keyof SaveMapData] == null));
+
+		// Update the map
+		return this.updateRecord(map._id, missingDetails)!;
+	}
+}
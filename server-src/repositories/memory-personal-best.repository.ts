@@ -0,0 +1,74 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+// Internal Imports
+import { MemoryRepository } from './memory.repository';
+import type { PersonalBestRepository, PersonalBestUpdate, TMNextPersonalBest } from '../types/types';
+
+// Setup the Memory Personal Best Repository Class
+export class MemoryPersonalBestRepository extends MemoryRepository<TMNextPersonalBest> implements PersonalBestRepository {
+	/**
+	 * Find the personal best record of a player on a map
+	 * @param playerId The database ID of the player
+	 * @param mapId The database ID of the map
+	 * @returns The personal best record, or null if the player has none
+	 */
+	public async findByPlayerAndMap(playerId: ObjectId, mapId: ObjectId): Promise<TMNextPersonalBest | null> {
+		// Find the personal best record of the player on the map
+		return this.findRecord(playerId, mapId);
+	}
+
+	/**
+	 * Replace the personal best record of a player on a map in a single atomic step if the split is faster
+	 * @param personalBest The personal best the split would set
+	 * @returns Whether the split became the personal best, and the time it replaced
+	 */
+	public async saveIfFaster(
+		personalBest: Pick<TMNextPersonalBest, 'playerId' | 'mapId' | 'splitId' | 'totalTime' | 'runDate'>,
+	): Promise<PersonalBestUpdate> {
+		// Find the Current Record without awaiting, so no other update can run in between
+		const currentRecord = this.findRecord(personalBest.playerId, personalBest.mapId);
+
+		// Check if the Current Record Is at least as fast and keep it
+		if (currentRecord && currentRecord.totalTime <= personalBest.totalTime) return { isPersonalBest: false, previousTime: currentRecord.totalTime };
+
+		// Replace the current record, or create it
+		if (currentRecord) this.updateRecord(currentRecord._id, personalBest);
+		else this.insertRecord(personalBest);
+
+		// Return the Update
+		return { isPersonalBest: true, previousTime: currentRecord?.totalTime ?? null };
+	}
+
+	/**
+	 * Delete every personal best record of a player
+	 * @param playerId The database ID of the player
+	 * @returns The number of deleted records
+	 */
+	public async deleteByPlayer(playerId: ObjectId): Promise<number> {
+		// Delete the personal best records of the player
+		return this.deleteRecords(record => record.playerId.toString() === playerId.toString());
+	}
+
+	/**
+	 * Delete the personal best record of a player on a map
+	 * @param playerId The database ID of the player
+	 * @param mapId The database ID of the map
+	 * @returns The number of deleted records
+	 */
+	public async deleteByPlayerAndMap(playerId: ObjectId, mapId: ObjectId): Promise<number> {
+		// Delete the personal best record of the player on the map
+		return this.deleteRecords(record => record.playerId.toString() === playerId.toString() && record.mapId.toString() === mapId.toString());
+	}
+
+	/**
+	 * Find the stored personal best record of a player on a map
+	 * @param playerId The database ID of the player
+	 * @param mapId The database ID of the map
+	 * @returns The personal best record, or null if the player has none
+	 */
+	private findRecord(playerId: ObjectId, mapId: ObjectId): TMNextPersonalBest | null {
+		// Find the personal best record of the player on the map
+		return this.findRecords(record => record.playerId.toString() === playerId.toString() && record.mapId.toString() === mapId.toString())[0] ?? null;
+	}
+}
@@ -0,0 +1,41 @@
+// Internal Imports
+import { MemoryRepository } from './memory.repository';
+import type { PlayerBan, PlayerBanRepository } from '../types/types';
+
+// Setup the Memory Player Ban Repository Class
+export class MemoryPlayerBanRepository extends MemoryRepository<PlayerBan> implements PlayerBanRepository {
+	/**
+	 * Find the ban of an account
+	 * @param accountId The account ID of the player
+	 * @returns The ban, or null if the account is not banned
+	 */
+	public async findByAccountId(accountId: string): Promise<PlayerBan | null> {
+		// Find the ban by the account ID
+		return this.findRecords(ban => ban.accountId === accountId)[0] ?? null;
+	}
+
+	/**
+	 * Ban an account or replace its ban
+	 * @param accountId The account ID of the player
+	 * @param bannedAt The date of the ban
+	 * @param reason The reason for the ban
+	 * @returns The ban
+	 */
+	public async save(accountId: string, bannedAt: Date, reason: string | null): Promise<PlayerBan> {
+		// Find the Existing Ban
+		const ban = await this.findByAccountId(accountId);
+
+		// Replace the ban, or create it
+		return ban ? this.updateRecord(ban._id, { bannedAt, reason })! : this.insertRecord({ accountId, bannedAt, reason });
+	}
+
+	/**
+	 * Lift the ban of an account
+	 * @param accountId The account ID of the player
+	 * @returns Whether the account was banned
+	 */
+	public async delete(accountId: string): Promise<boolean> {
+		// Delete the ban
+		return this.deleteRecords(ban => ban.accountId === accountId) > 0;
+	}
+}
@@ -0,0 +1,68 @@
+// External Imports
+import { type ObjectId } from 'mongoose';
+
+// Internal Imports
+import { MemoryRepository } from './memory.repository';
+import type { PlayerRepository, TMNextPlayer } from '../types/types';
+
+// Setup the Memory Player Repository Class
+export class MemoryPlayerRepository extends MemoryRepository<TMNextPlayer> implements PlayerRepository {
+	/**
+	 * Find a player by their account ID
+	 * @param accountId The account ID of the player
+	 * @returns The player, or null if they do not exist
+	 */
+	public async findByAccountId(accountId: string): Promise<TMNextPlayer | null> {
+		// Find the player by their account ID
+		return this.findRecords(player => player.accountId === accountId)[0] ?? null;
+	}
+
+	/**
+	 * Find players by their database IDs
+	 * @param playerIds The database IDs of the players
+	 * @returns The players that exist
+	 */
+	public async findByIds(playerIds: ObjectId[]): Promise<Array<TMNextPlayer>> {
+		// Find the players by their database IDs
+		return playerIds.map(playerId => this.getById(playerId)).filter((player): player is TMNextPlayer => player !== null);
+	}
+
+	/**
+	 * Create a player
+	 * @param accountId The account ID of the player
+	 * @param displayName The display name of the player
+	 * @param ban The ban the player starts with, if their account was banned before
+	 * @returns The new player
+	 */
+	public async create(accountId: string, displayName: string, ban?: Pick<TMNextPlayer, 'bannedAt' | 'banReason'>): Promise<TMNextPlayer> {
+		// Create the player
+		return this.insertRecord({ accountId, displayName, ...ban });
+	}
+
+	/**
+	 * Update the details of a player
+	 * @param accountId The account ID of the player
+	 * @param update The details to change
+	 * @returns The updated player, or null if they do not exist
+	 */
+	public async update(
+		accountId: string,
+		update: Partial<Pick<TMNextPlayer, 'displayName' | 'bannedAt' | 'banReason' | 'liveSharing'>>,
+	): Promise<TMNextPlayer | null> {
+		// Find the Player
+		const player = await this.findByAccountId(accountId);
+
+		// Update the player
+		return player ? this.updateRecord(player._id, update) : null;
+	}
+
+	/**
+	 * Delete a player
+	 * @param accountId The account ID of the player
+	 * @returns Whether the player existed
+	 */
+	public async delete(accountId: string): Promise<boolean> {
+		// Delete the player
+		return this.deleteRecords(player => player.accountId === accountId) > 0;
+	}
+}
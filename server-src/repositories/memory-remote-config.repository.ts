@@ -0,0 +1,34 @@
+// Internal Imports
+import { MemoryRepository } from './memory.repository';
+import type { RemoteConfig, RemoteConfigRepository, TMNextRemoteConfig } from '../types/types';
+
+// Setup the Key of the remote config document (there is only one)
+const REMOTE_CONFIG_KEY = 'plugin';
+
+// Setup the Memory Remote Config Repository Class
+export class MemoryRemoteConfigRepository extends MemoryRepository<TMNextRemoteConfig> implements RemoteConfigRepository {
+	/**
+	 * Find the remote config
+	 * @returns The remote config, or null if it was never saved
+	 */
+	public async find(): Promise<TMNextRemoteConfig | null> {
+		// Find the remote config by its key
+		return this.findRecords(remoteConfig => remoteConfig.key === REMOTE_CONFIG_KEY)[0] ?? null;
+	}
+
+	/**
+	 * Create the remote config or replace its settings
+	 * @param settings The settings to set
+	 * @returns The remote config
+	 */
+	public async save(settings: RemoteConfig): Promise<TMNextRemoteConfig> {
+		// Copy the Settings so later changes to them do not reach the stored record
+		const fields = { ...settings, allowedSplitTypes: [...settings.allowedSplitTypes], prediction: { ...settings.prediction } };
+
+		// Find the Remote Config
+		const remoteConfig = await this.find();
+
+		// Update the remote config, or create it with the settings
+		return remoteConfig ? this.updateRecord(remoteConfig._id, fields)! : this.insertRecord({ key: REMOTE_CONFIG_KEY, ...fields });
+	}
+}
@@ -0,0 +1,95 @@
+// Internal Imports
+import type { AccountRevocation, RevokedTokenRepository } from '../types/types';
+
+// Setup the Memory Revoked Token Repository Class
+export class MemoryRevokedTokenRepository implements RevokedTokenRepository {
+	/**
+	 * The expiry dates of the revoked tokens by their unique ID
+	 */
+	private revokedTokens = new Map<string, Date>();
+
+	/**
+	 * The revocations of every token of an account by their account ID
+	 */
+	private revokedAccounts = new Map<string, Pick<AccountRevocation, 'revokedAt' | 'expiresAt'>>();
+
+	/**
+	 * Revoke a token
+	 * @param tokenId The unique ID of the token
+	 * @param accountId The account ID of the token's user
+	 * @param expiresAt The date the token expires
+	 * @returns Whether this call revoked the token (false if it was already revoked)
+	 */
+	public async revoke(tokenId: string, accountId: string, expiresAt: Date): Promise<boolean> {
+		// Check if the Token was already revoked
+		if (this.revokedTokens.has(tokenId)) return false;
+
+		// Add the token to the revocation list until it expires
+		this.revokedTokens.set(tokenId, expiresAt);
+
+		// Return that this call revoked the token
+		return true;
+	}
+
+	/**
+	 * Check if a token was revoked
+	 * @param tokenId The unique ID of the token
+	 * @returns Whether the token was revoked
+	 */
+	public async isRevoked(tokenId: string): Promise<boolean> {
+		// Get the Expiry Date of the revoked token
+		const expiresAt = this.revokedTokens.get(tokenId);
+
+		// Check if the Token was not revoked
+		if (!expiresAt) return false;
+
+		// Check if the Token has expired and remove it like the TTL index would
+		if (expiresAt.getTime() <= Date.now()) this.revokedTokens.delete(tokenId);
+
+		// Return that the token was revoked (an expired token is rejected anyway)
+		return true;
+	}
+
+	/**
+	 * Revoke every token issued to an account until a date (a later revocation of the account is kept)
+	 * @param accountId The account ID of the user
+	 * @param revokedAt The date the tokens are revoked until
+	 * @param expiresAt The date the last revoked token expires
+	 * @returns void
+	 */
+	public async revokeAccount(accountId: string, revokedAt: Date, expiresAt: Date): Promise<void> {
+		// Get the Existing Revocation of the account
+		const existingRevocation = this.revokedAccounts.get(accountId);
+
+		// Store the later of both dates
+		this.revokedAccounts.set(accountId, {
+			revokedAt: existingRevocation && existingRevocation.revokedAt > revokedAt ? existingRevocation.revokedAt : revokedAt,
+			expiresAt: existingRevocation && existingRevocation.expiresAt > expiresAt ? existingRevocation.expiresAt : expiresAt,
+		});
+	}
+
+	/**
+	 * Get the date every token of an account was revoked until
+	 * @param accountId The account ID of the user
+	 * @returns The date the tokens were revoked until, or null if they never were
+	 */
+	public async getAccountRevokedAt(accountId: string): Promise<Date | null> {
+		// Get the Revocation of the account
+		const revocation = this.revokedAccounts.get(accountId);
+
+		// Check if the Account was never revoked
+		if (!revocation) return null;
+
+		// Check if every revoked token has expired and remove the revocation like the TTL index would
+		if (revocation.expiresAt.getTime() <= Date.now()) {
+			// Remove the Revocation
+			this.revokedAccounts.delete(accountId);
+
+			// Return that the account has no revocation left
+			return null;
+		}
+
+		// Return the Date the tokens were revoked until
+		return revocation.revokedAt;
+	}
+}
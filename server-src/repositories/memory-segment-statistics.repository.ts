@@ -0,0 +1,49 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+// Internal Imports
+import { MemoryRepository } from './memory.repository';
+import type { MapSegmentStatistics, SegmentStatisticsRepository } from '../types/types';
+
+// Setup the Memory Segment Statistics Repository Class
+export class MemorySegmentStatisticsRepository extends MemoryRepository<MapSegmentStatistics> implements SegmentStatisticsRepository {
+	/**
+	 * Find the segment statistics of a map
+	 * @param mapId The database ID of the map
+	 * @returns The segment statistics, or null if they were never computed
+	 */
+	public async findByMapId(mapId: ObjectId): Promise<MapSegmentStatistics | null> {
+		// Find the segment statistics of the map
+		return this.findRecords(statistics => statistics.mapId.toString() === mapId.toString())[0] ?? null;
+	}
+
+	/**
+	 * Create or replace the segment statistics of a map
+	 * @param mapId The database ID of the map
+	 * @param statistics The segment statistics
+	 * @returns The saved segment statistics
+	 */
+	public async save(
+		mapId: ObjectId,
+		statistics: Pick<MapSegmentStatistics, 'checkpointCount' | 'playerCount' | 'segments' | 'computedAt'>,
+	): Promise<MapSegmentStatistics> {
+		// Find the Existing Statistics
+		const existingStatistics = await this.findByMapId(mapId);
+
+		// Replace the existing statistics, or create them
+		return existingStatistics ? this.updateRecord(existingStatistics._id, statistics)! : this.insertRecord({ mapId, ...statistics });
+	}
+
+	/**
+	 * Delete the segment statistics of maps, so they are recomputed when next requested
+	 * @param mapIds The database IDs of the maps
+	 * @returns void
+	 */
+	public async deleteByMapIds(mapIds: ObjectId[]): Promise<void> {
+		// Get the IDs of the maps as text
+		const mapIdStrings = mapIds.map(mapId => mapId.toString());
+
+		// Delete the segment statistics of the maps
+		this.deleteRecords(statistics => mapIdStrings.includes(statistics.mapId.toString()));
+	}
+}
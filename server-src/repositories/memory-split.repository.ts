@@ -0,0 +1,453 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+// Internal Imports
+import { MemoryRepository } from './memory.repository';
+import { MemoryMapRepository } from './memory-map.repository';
+import { MemoryPlayerRepository } from './memory-player.repository';
+import { getSegmentTimes } from '../services/sum-of-best.service';
+import {
+	SplitStatus,
+	type CampaignStandingEntry,
+	type LeaderboardEntry,
+	type MapBestTime,
+	type MapBestTimeQuery,
+	type PopulatedTMNextSplit,
+	type RankedSplitPage,
+	type RankedTotalPage,
+	type SplitModerationQuery,
+	type SplitQuery,
+	type SplitRepository,
+	type SumOfBestSegment,
+	type TMNextSplit,
+} from '../types/types';
+
+// Setup the Memory Split Repository Class
+export class MemorySplitRepository extends MemoryRepository<TMNextSplit> implements SplitRepository {
+	/**
+	 * Setup the Memory Split Repository
+	 * @param players The repository the players of the splits are stored in
+	 * @param maps The repository the maps of the splits are stored in
+	 */
+	constructor(
+		private players: MemoryPlayerRepository,
+		private maps: MemoryMapRepository,
+	) {
+		super();
+	}
+
+	/**
+	 * Create a split
+	 * @param split The split to create
+	 * @returns The new split, or null if the player already saved a split with the same client run ID
+	 */
+	public async create(
+		split: Pick<TMNextSplit, 'playerId' | 'mapId' | 'checkpointTimes' | 'totalTime' | 'runDate' | 'status' | 'flags' | 'clientRunId'>,
+	): Promise<TMNextSplit | null> {
+		// Check if the Run was already saved, like the unique index on the client run ID would
+		if (split.clientRunId && (await this.findByClientRunId(split.playerId, split.clientRunId))) return null;
+
+		// Create the split
+		return this.insertRecord(split);
+	}
+
+	/**
+	 * Find a split by its ID
+	 * @param splitId The ID of the split
+	 * @returns The split with its player and map, or null if it does not exist
+	 */
+	public async findById(splitId: string): Promise<PopulatedTMNextSplit | null> {
+		// Find the split
+		const split = this.getById(splitId);
+
+		// Return the split with its player and map
+		return split ? this.populate(split) : null;
+	}
+
+	/**
+	 * Find the split a player uploaded with a client run ID
+	 * @param playerId The database ID of the player
+	 * @param clientRunId The ID the client generated for the run
+	 * @returns The split, or null if no run was uploaded with the ID
+	 */
+	public async findByClientRunId(playerId: ObjectId, clientRunId: string): Promise<TMNextSplit | null> {
+		// Find the split uploaded with the client run ID
+		return this.findRecords(split => split.playerId.toString() === playerId.toString() && split.clientRunId === clientRunId)[0] ?? null;
+	}
+
+	/**
+	 * Find every split of a player across all maps, oldest first
+	 * @param playerId The database ID of the player
+	 * @returns The splits with their player and map
+	 */
+	public async findByPlayer(playerId: ObjectId): Promise<Array<PopulatedTMNextSplit>> {
+		// Find the splits of the player and sort them by their run date
+		return this.findRecords(split => split.playerId.toString() === playerId.toString())
+			.sort((a, b) => a.runDate.getTime() - b.runDate.getTime())
+			.map(split => this.populate(split));
+	}
+
+	/**
+	 * Delete every split of a player
+	 * @param playerId The database ID of the player
+	 * @returns The number of deleted splits
+	 */
+	public async deleteByPlayer(playerId: ObjectId): Promise<number> {
+		// Delete the splits of the player
+		return this.deleteRecords(split => split.playerId.toString() === playerId.toString());
+	}
+
+	/**
+	 * Find a page of the splits admins review, most recently uploaded first
+	 * @param query The filter for the splits
+	 * @param skip The number of splits to skip
+	 * @param limit The number of splits on the page
+	 * @returns The number of matching splits and the splits of the page with their player and map
+	 */
+	public async findForModeration(
+		query: SplitModerationQuery,
+		skip: number,
+		limit: number,
+	): Promise<{ total: number; splits: Array<PopulatedTMNextSplit> }> {
+		// Find the splits matching every part of the query and sort them by their upload date
+		const splits = this.findRecords(
+			split =>
+				(!query.mapId || split.mapId.toString() === query.mapId.toString()) &&
+				(!query.playerId || split.playerId.toString() === query.playerId.toString()) &&
+				(!query.flaggedOnly || split.status === SplitStatus.QUARANTINED || split.flags.length > 0),
+		).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b._id.toString().localeCompare(a._id.toString()));
+
+		// Return the Page
+		return { total: splits.length, splits: splits.slice(skip, skip + limit).map(split => this.populate(split)) };
+	}
+
+	/**
+	 * Change the review status of a split
+	 * @param splitId The ID of the split
+	 * @param status The new review status
+	 * @returns The updated split, or null if it does not exist
+	 */
+	public async updateStatus(splitId: string, status: SplitStatus): Promise<TMNextSplit | null> {
+		// Update the split
+		return this.updateRecord(splitId, { status });
+	}
+
+	/**
+	 * Delete a split
+	 * @param splitId The ID of the split
+	 * @returns Whether the split existed
+	 */
+	public async delete(splitId: string): Promise<boolean> {
+		// Delete the split
+		return this.deleteRecords(split => split._id.toString() === splitId) > 0;
+	}
+
+	/**
+	 * Find the splits matching a query, fastest first
+	 * @param query The filter for the splits
+	 * @returns The splits with their player and map
+	 */
+	public async find(query: SplitQuery): Promise<Array<PopulatedTMNextSplit>> {
+		// Find the splits and sort them by their total time
+		return this.findMatching(query)
+			.sort((a, b) => a.totalTime - b.totalTime)
+			.map(split => this.populate(split));
+	}
+
+	/**
+	 * Find the fastest split matching a query
+	 * @param query The filter for the splits
+	 * @returns The split with its player and map, or null if no split matches
+	 */
+	public async findBest(query: SplitQuery): Promise<PopulatedTMNextSplit | null> {
+		// Find the fastest split
+		return (await this.find(query))[0] ?? null;
+	}
+
+	/**
+	 * Find the most recent splits matching a query, newest first
+	 * @param query The filter for the splits
+	 * @param limit The maximum number of splits
+	 * @returns The checkpoint times and total time of the splits
+	 */
+	public async findRecent(query: SplitQuery, limit: number): Promise<Array<Pick<TMNextSplit, 'checkpointTimes' | 'totalTime'>>> {
+		// Find the splits, sort them by their run date and keep the most recent ones
+		return this.findMatching(query)
+			.sort((a, b) => b.runDate.getTime() - a.runDate.getTime())
+			.slice(0, limit);
+	}
+
+	/**
+	 * Find the checkpoint times of the best split of every player matching a query
+	 * @param query The filter for the splits
+	 * @returns The checkpoint times of every player's best split
+	 */
+	public async findPersonalBestCheckpointTimes(query: SplitQuery): Promise<Array<number[]>> {
+		// Return the Checkpoint Times of every player's best split
+		return this.getPersonalBests(query).map(split => split.checkpointTimes);
+	}
+
+	/**
+	 * Get the checkpoint time count most splits matching a query have
+	 * @param query The filter for the splits
+	 * @returns The checkpoint time count and the number of splits with it, or null if no split matches
+	 */
+	public async getMostCommonCheckpointCount(query: SplitQuery): Promise<{ checkpointCount: number; count: number } | null> {
+		// Count the splits per checkpoint count
+		const counts = new Map<number, number>();
+		for (const split of this.findMatching(query)) counts.set(split.checkpointTimes.length, (counts.get(split.checkpointTimes.length) ?? 0) + 1);
+
+		// Keep the most common checkpoint count
+		const [mostCommon] = Array.from(counts).sort((a, b) => b[1] - a[1]);
+
+		// Return the Most Common Checkpoint Count
+		return mostCommon ? { checkpointCount: mostCommon[0], count: mostCommon[1] } : null;
+	}
+
+	/**
+	 * Rank the players by their best split matching a query and get a page of them
+	 * @param query The filter for the splits
+	 * @param skip The number of ranked players to skip
+	 * @param limit The number of ranked players on the page
+	 * @param playerId The database ID of the player whose entry to get, or null
+	 * @returns The page of ranked players
+	 */
+	public async getRankedPage(query: SplitQuery, skip: number, limit: number, playerId: ObjectId | null): Promise<RankedSplitPage> {
+		// Sort the best split of every player, breaking ties by who drove the time first
+		const personalBests = this.getPersonalBests(query).sort(
+			(a, b) => a.totalTime - b.totalTime || a.runDate.getTime() - b.runDate.getTime() || a.playerId.toString().localeCompare(b.playerId.toString()),
+		);
+
+		// Rank the players by their best time (tied times share a rank)
+		const ranks = personalBests.map(split => personalBests.findIndex(other => other.totalTime === split.totalTime) + 1);
+
+		// Setup the Entry Mapper
+		const toEntry = (split: TMNextSplit, index: number): Omit<LeaderboardEntry, 'gap'> => {
+			// Get the Player of the split
+			const player = this.players.getById(split.playerId)!;
+
+			// Return the Entry
+			return {
+				rank: ranks[index],
+				splitId: split._id.toString(),
+				accountId: player.accountId,
+				displayName: player.displayName,
+				totalTime: split.totalTime,
+				runDate: split.runDate,
+			};
+		};
+
+		// Get the Position of the requested player
+		const playerIndex = playerId ? personalBests.findIndex(split => split.playerId.toString() === playerId.toString()) : -1;
+
+		// Return the Ranked Page
+		return {
+			totalPlayers: personalBests.length,
+			bestTime: personalBests[0]?.totalTime ?? null,
+			entries: personalBests.slice(skip, skip + limit).map((split, index) => toEntry(split, skip + index)),
+			playerEntry: playerIndex >= 0 ? toEntry(personalBests[playerIndex], playerIndex) : null,
+		};
+	}
+
+	/**
+	 * Get the fastest time on every segment across the splits matching a query
+	 * @param query The filter for the splits
+	 * @param segmentCount The number of segments the splits must have
+	 * @returns The best segments in checkpoint order, without the time they save against a reference split
+	 */
+	public async getBestSegments(query: SplitQuery, segmentCount: number): Promise<Array<Omit<SumOfBestSegment, 'possibleTimeSave'>>> {
+		// Only use runs with the requested checkpoint count, so the segments line up
+		const splits = this.findMatching(query).filter(split => split.checkpointTimes.length === segmentCount);
+
+		// Setup the Best Segments Array
+		const bestSegments: Array<Omit<SumOfBestSegment, 'possibleTimeSave'>> = new Array();
+
+		// Keep the best time per segment, breaking ties by who drove it first
+		for (const split of splits)
+			getSegmentTimes(split.checkpointTimes).forEach((segmentTime, index) => {
+				// Get the Current Best Segment
+				const bestSegment = bestSegments[index];
+
+				// Check if the Segment Is not faster than the current best
+				if (
+					bestSegment &&
+					(bestSegment.segmentTime < segmentTime || (bestSegment.segmentTime === segmentTime && bestSegment.runDate <= split.runDate))
+				)
+					return;
+
+				// Replace the Best Segment
+				bestSegments[index] = { index, segmentTime, splitId: split._id.toString(), playerId: split.playerId.toString(), runDate: split.runDate };
+			});
+
+		// Return the Best Segments
+		return bestSegments;
+	}
+
+	/**
+	 * Find the best time of every player on every map matching a query
+	 * @param query The filter for the splits
+	 * @returns The best time of every player on every map they have a run on
+	 */
+	public async findBestTimes(query: MapBestTimeQuery): Promise<Array<MapBestTime>> {
+		// Setup the Best Times by player and map
+		const bestTimes = new Map<string, TMNextSplit>();
+
+		// Find the splits matching every part of the query
+		const splits = this.findRecords(
+			split =>
+				query.mapIds.some(mapId => mapId.toString() === split.mapId.toString()) &&
+				(!query.playerId || split.playerId.toString() === query.playerId.toString()) &&
+				(!query.globalOnly || this.countsGlobally(split)) &&
+				(!query.acceptedOnly || split.status === SplitStatus.ACCEPTED) &&
+				(!query.checkpointTimesLengths?.[split.mapId.toString()] ||
+					query.checkpointTimesLengths[split.mapId.toString()].includes(split.checkpointTimes.length)),
+		);
+
+		// Keep the fastest split of every player on every map, breaking ties by who drove it first
+		for (const split of splits) {
+			// Get the Current Best Time of the player on the map
+			const key = `${split.playerId.toString()}:${split.mapId.toString()}`;
+			const bestTime = bestTimes.get(key);
+
+			// Check if the Split Is faster than the current best time and replace it
+			if (!bestTime || split.totalTime < bestTime.totalTime || (split.totalTime === bestTime.totalTime && split.runDate < bestTime.runDate))
+				bestTimes.set(key, split);
+		}
+
+		// Return the Best Times
+		return Array.from(bestTimes.values()).map(split => ({
+			playerId: split.playerId,
+			mapId: split.mapId,
+			splitId: split._id,
+			totalTime: split.totalTime,
+			runDate: split.runDate,
+		}));
+	}
+
+	/**
+	 * Rank the players by the number of maps matching a query they have a run on, then by the sum of their best times, and get a page of them
+	 * @param query The filter for the splits
+	 * @param skip The number of ranked players to skip
+	 * @param limit The number of ranked players on the page
+	 * @param playerId The database ID of the player whose entry to get, or null
+	 * @returns The page of ranked players
+	 */
+	public async getRankedTotalPage(query: MapBestTimeQuery, skip: number, limit: number, playerId: ObjectId | null): Promise<RankedTotalPage> {
+		// Add up the best times of every player
+		const totals = new Map<string, { playerId: ObjectId; totalTime: number; finishedMaps: number }>();
+		for (const bestTime of await this.findBestTimes(query)) {
+			// Get the Current Total of the player
+			const total = totals.get(bestTime.playerId.toString()) ?? { playerId: bestTime.playerId, totalTime: 0, finishedMaps: 0 };
+
+			// Add the Best Time to the total
+			totals.set(bestTime.playerId.toString(), { ...total, totalTime: total.totalTime + bestTime.totalTime, finishedMaps: total.finishedMaps + 1 });
+		}
+
+		// Sort the players by the maps they finished, then by their total time, breaking ties by their database ID
+		const standings = Array.from(totals.values()).sort(
+			(a, b) => b.finishedMaps - a.finishedMaps || a.totalTime - b.totalTime || a.playerId.toString().localeCompare(b.playerId.toString()),
+		);
+
+		// Rank the players in one pass (tied players share the rank of the first of them)
+		const ranks: Array<number> = new Array();
+		for (const [index, standing] of standings.entries()) {
+			// Get the Player ranked before
+			const previous = standings[index - 1];
+
+			// Check if the Player ties with the one before and share their rank
+			ranks.push(
+				previous && previous.finishedMaps === standing.finishedMaps && previous.totalTime === standing.totalTime ? ranks[index - 1] : index + 1,
+			);
+		}
+
+		// Setup the Entry Mapper
+		const toEntry = (standing: (typeof standings)[number], index: number): Omit<CampaignStandingEntry, 'missingMaps'> => {
+			// Get the Player of the standing
+			const player = this.players.getById(standing.playerId)!;
+
+			// Return the Entry
+			return {
+				rank: ranks[index],
+				accountId: player.accountId,
+				displayName: player.displayName,
+				totalTime: standing.totalTime,
+				finishedMaps: standing.finishedMaps,
+			};
+		};
+
+		// Get the Position of the requested player
+		const playerIndex = playerId ? standings.findIndex(standing => standing.playerId.toString() === playerId.toString()) : -1;
+
+		// Return the Ranked Page
+		return {
+			totalPlayers: standings.length,
+			entries: standings.slice(skip, skip + limit).map((standing, index) => toEntry(standing, skip + index)),
+			playerEntry: playerIndex >= 0 ? toEntry(standings[playerIndex], playerIndex) : null,
+		};
+	}
+
+	/**
+	 * Find the stored splits matching a query
+	 * @param query The split query
+	 * @returns The matching splits
+	 */
+	private findMatching(query: SplitQuery): Array<TMNextSplit> {
+		// Find the splits matching every part of the query
+		return this.findRecords(
+			split =>
+				split.mapId.toString() === query.mapId.toString() &&
+				(!query.playerId || split.playerId.toString() === query.playerId.toString()) &&
+				(!query.playerIds || query.playerIds.some(playerId => playerId.toString() === split.playerId.toString())) &&
+				(!query.globalOnly || this.countsGlobally(split)) &&
+				(!query.acceptedOnly || split.status === SplitStatus.ACCEPTED) &&
+				(!query.checkpointTimesLengths || query.checkpointTimesLengths.includes(split.checkpointTimes.length)),
+		);
+	}
+
+	/**
+	 * Get the best split of every player matching a query
+	 * @param query The split query
+	 * @returns The best split of every player
+	 */
+	private getPersonalBests(query: SplitQuery): Array<TMNextSplit> {
+		// Setup the Personal Bests by player
+		const personalBests = new Map<string, TMNextSplit>();
+
+		// Keep the fastest split of every player, breaking ties by who drove it first
+		for (const split of this.findMatching(query)) {
+			// Get the Current Personal Best of the player
+			const personalBest = personalBests.get(split.playerId.toString());
+
+			// Check if the Split Is faster than the current personal best and replace it
+			if (
+				!personalBest ||
+				split.totalTime < personalBest.totalTime ||
+				(split.totalTime === personalBest.totalTime && split.runDate < personalBest.runDate)
+			)
+				personalBests.set(split.playerId.toString(), split);
+		}
+
+		// Return the Personal Bests
+		return Array.from(personalBests.values());
+	}
+
+	/**
+	 * Check if a split counts towards global queries
+	 * @param split The split
+	 * @returns Whether the split was accepted and its player is not banned
+	 */
+	private countsGlobally(split: TMNextSplit): boolean {
+		// Check the Status of the split and the ban of its player
+		return split.status === SplitStatus.ACCEPTED && !this.players.getById(split.playerId)?.bannedAt;
+	}
+
+	/**
+	 * Attach the player and map to a split
+	 * @param split The split
+	 * @returns The split with its player and map
+	 */
+	private populate(split: TMNextSplit): PopulatedTMNextSplit {
+		// Return the split with its player and map
+		return { ...split, playerId: this.players.getById(split.playerId)!, mapId: this.maps.getById(split.mapId)! } as PopulatedTMNextSplit;
+	}
+}
@@ -0,0 +1,93 @@
+// External Imports
+import { Types, type ObjectId } from 'mongoose';
+
+// Internal Imports
+import type { TimestampedDocument } from '../types/types';
+
+// Setup the Memory Repository Class
+export abstract class MemoryRepository<T extends TimestampedDocument> {
+	/**
+	 * The records by their database ID
+	 */
+	protected records = new Map<string, T>();
+
+	/**
+	 * Get a copy of a record by its database ID
+	 * @param id The database ID of the record
+	 * @returns The copy of the record, or null if it does not exist
+	 */
+	public getById(id: ObjectId | string): T | null {
+		// Get the Record
+		const record = this.records.get(id.toString());
+
+		// Return a copy of the record so changes to it are not stored without an update
+		return record ? { ...record } : null;
+	}
+
+	/**
+	 * Find the records matching a predicate
+	 * @param predicate The function that picks the records
+	 * @returns The copies of the matching records
+	 */
+	protected findRecords(predicate: (record: T) => boolean): Array<T> {
+		// Return a copy of every matching record
+		return Array.from(this.records.values())
+			.filter(predicate)
+			.map(record => ({ ...record }));
+	}
+
+	/**
+	 * Store a new record, generating its database ID and timestamps
+	 * @param fields The fields of the record
+	 * @returns A copy of the new record
+	 */
+	protected insertRecord(fields: Omit<T, keyof TimestampedDocument>): T {
+		// Get the Current Date
+		const now = new Date();
+
+		// Setup the Record the way MongoDB would store it
+		const record = { _id: new Types.ObjectId(), ...fields, createdAt: now, updatedAt: now } as unknown as T;
+
+		// Store the Record
+		this.records.set(record._id.toString(), record);
+
+		// Return a copy of the Record
+		return { ...record };
+	}
+
+	/**
+	 * Update the fields of a stored record
+	 * @param id The database ID of the record
+	 * @param fields The fields to change
+	 * @returns A copy of the updated record, or null if it does not exist
+	 */
+	protected updateRecord(id: ObjectId | string, fields: Partial<Omit<T, keyof TimestampedDocument>>): T | null {
+		// Get the Record
+		const record = this.records.get(id.toString());
+
+		// Check if the Record does not exist
+		if (!record) return null;
+
+		// Update the Record
+		Object.assign(record, fields, { updatedAt: new Date() });
+
+		// Return a copy of the Record
+		return { ...record };
+	}
+
+	/**
+	 * Delete the records matching a predicate
+	 * @param predicate The function that picks the records
+	 * @returns The number of deleted records
+	 */
+	protected deleteRecords(predicate: (record: T) => boolean): number {
+		// Find the Records to delete
+		const records = Array.from(this.records.values()).filter(predicate);
+
+		// Delete the Records
+		for (const record of records) this.records.delete(record._id.toString());
+
+		// Return the number of deleted records
+		return records.length;
+	}
+}
@@ -0,0 +1,46 @@
+// External Imports
+import { type FilterQuery } from 'mongoose';
+
+// Internal Imports
+import { AuditLogModel } from '../database/models/audit-log.model';
+import type { AuditLogEntry, AuditLogQuery, AuditLogRepository } from '../types/types';
+
+// Setup the Mongo Audit Log Repository Class
+export class MongoAuditLogRepository implements AuditLogRepository {
+	/**
+	 * Add an entry to the audit log
+	 * @param entry The entry to add
+	 * @returns The new entry
+	 */
+	public async create(entry: Pick<AuditLogEntry, 'action' | 'actorAccountId' | 'targetAccountId' | 'details'>): Promise<AuditLogEntry> {
+		// Create the entry
+		return await AuditLogModel.create(entry);
+	}
+
+	/**
+	 * Find a page of the audit log entries matching a query, newest first
+	 * @param query The filter for the entries
+	 * @param skip The number of entries to skip
+	 * @param limit The number of entries on the page
+	 * @returns The number of matching entries and the entries of the page
+	 */
+	public async find(query: AuditLogQuery, skip: number, limit: number): Promise<{ total: number; entries: Array<AuditLogEntry> }> {
+		// Setup the Filter for the entries
+		const filter: FilterQuery<AuditLogEntry> = {};
+
+		// Check if the Query Is for a single action
+		if (query.action) filter.action = query.action;
+
+		// Check if the Query Is for the actions taken by or on a single player
+		if (query.accountId) filter.$or = [{ actorAccountId: query.accountId }, { targetAccountId: query.accountId }];
+
+		// Count the matching entries and find the requested page
+		const [total, entries] = await Promise.all([
+			AuditLogModel.countDocuments(filter),
+			AuditLogModel.find(filter).sort({ createdAt: -1, _id: -1 }).skip(skip).limit(limit),
+		]);
+
+		// Return the Page
+		return { total, entries };
+	}
+}
@@ -0,0 +1,36 @@
+// Internal Imports
+import { CampaignModel } from '../database/models/campaign.model';
+import type { CampaignRepository, TMNextCampaign } from '../types/types';
+
+// Setup the Mongo Campaign Repository Class
+export class MongoCampaignRepository implements CampaignRepository {
+	/**
+	 * Find a campaign by its ID
+	 * @param campaignId The ID of the campaign
+	 * @returns The campaign, or null if it does not exist
+	 */
+	public async findByCampaignId(campaignId: string): Promise<TMNextCampaign | null> {
+		// Find the campaign by its ID
+		return await CampaignModel.findOne({ campaignId });
+	}
+
+	/**
+	 * Find every campaign
+	 * @returns The campaigns, newest first
+	 */
+	public async findAll(): Promise<Array<TMNextCampaign>> {
+		// Find the campaigns
+		return await CampaignModel.find().sort({ createdAt: -1, _id: -1 });
+	}
+
+	/**
+	 * Create a campaign or replace its name and maps
+	 * @param campaignId The ID of the campaign
+	 * @param details The name and maps to set
+	 * @returns The campaign
+	 */
+	public async save(campaignId: string, details: Pick<TMNextCampaign, 'name' | 'mapIds'>): Promise<TMNextCampaign> {
+		// Create or update the campaign
+		return await CampaignModel.findOneAndUpdate({ campaignId }, { $set: details }, { upsert: true, new: true, runValidators: true });
+	}
+}
@@ -0,0 +1,94 @@
+// External Imports
+import { mongo, type ObjectId } from 'mongoose';
+
+// Internal Imports
+import { ClubModel } from '../database/models/club.model';
+import type { ClubRepository, TMNextClub } from '../types/types';
+
+// Setup the Mongo Club Repository Class
+export class MongoClubRepository implements ClubRepository {
+	/**
+	 * Create a club
+	 * @param club The club to create
+	 * @returns The new club, or null if another club already uses the name
+	 */
+	public async create(
+		club: Pick<TMNextClub, 'name' | 'tag' | 'ownerId' | 'memberIds' | 'invitedAccountIds' | 'inviteCode'>,
+	): Promise<TMNextClub | null> {
+		// Create the club, ignoring the unique index error of a name that is already used
+		return await ClubModel.create(club).catch(error => {
+			// Check if the Name is already used
+			if (error instanceof mongo.MongoServerError && error.code === 11000) return null;
+
+			// Rethrow any other error
+			throw error;
+		});
+	}
+
+	/**
+	 * Find a club by its ID
+	 * @param clubId The ID of the club
+	 * @returns The club, or null if it does not exist
+	 */
+	public async findById(clubId: string): Promise<TMNextClub | null> {
+		// Find the club
+		return await ClubModel.findById(clubId);
+	}
+
+	/**
+	 * Find the clubs a player is a member of
+	 * @param playerId The database ID of the player
+	 * @returns The clubs, oldest first
+	 */
+	public async findByMember(playerId: ObjectId): Promise<Array<TMNextClub>> {
+		// Find the clubs of the player
+		return await ClubModel.find({ memberIds: playerId }).sort({ createdAt: 1, _id: 1 });
+	}
+
+	/**
+	 * Invite a player to a club
+	 * @param clubId The ID of the club
+	 * @param accountId The account ID of the player
+	 * @returns The updated club, or null if it does not exist
+	 */
+	public async addInvite(clubId: string, accountId: string): Promise<TMNextClub | null> {
+		// Add the invite
+		return await ClubModel.findByIdAndUpdate(clubId, { $addToSet: { invitedAccountIds: accountId } }, { new: true });
+	}
+
+	/**
+	 * Add a player to the members of a club unless it is full, removing their invite
+	 * @param clubId The ID of the club
+	 * @param playerId The database ID of the player
+	 * @param accountId The account ID of the player
+	 * @param maxMembers The maximum number of members the club can have
+	 * @returns The updated club, or null if it does not exist or is full
+	 */
+	public async addMember(clubId: string, playerId: ObjectId, accountId: string, maxMembers: number): Promise<TMNextClub | null> {
+		// Add the member and remove their invite, only matching the club while it has room (checked in the same update, so concurrent joins cannot exceed it)
+		return await ClubModel.findOneAndUpdate(
+			{ _id: clubId, [`memberIds.${maxMembers - 1}`]: { $exists: false } },
+			{ $addToSet: { memberIds: playerId }, $pull: { invitedAccountIds: accountId } },
+			{ new: true },
+		);
+	}
+
+	/**
+	 * Remove a player from every club they are a member of, handing the clubs they own to their oldest remaining member and deleting the clubs left without members
+	 * @param playerId The database ID of the player
+	 * @returns The number of clubs the player was removed from
+	 */
+	public async removeMember(playerId: ObjectId): Promise<number> {
+		// Remove the member from their clubs
+		const { modifiedCount } = await ClubModel.updateMany({ memberIds: playerId }, { $pull: { memberIds: playerId } });
+
+		// Hand the clubs the player owns to the member who joined first
+		await ClubModel.updateMany({ ownerId: playerId, 'memberIds.0': { $exists: true } }, [{ $set: { ownerId: { $arrayElemAt: ['$memberIds', 0] } } }]);
+
+		// Delete the clubs the player owns that have no members left
+		await ClubModel.deleteMany({ ownerId: playerId });
+
+		// Return the number of clubs the player was removed from
+		return modifiedCount;
+	}
+}
@@ -0,0 +1,73 @@
+// Internal Imports
+import { MapModel } from '../database/models/map.model';
+import type { MapRepository, SaveMapData, TMNextMap } from '../types/types';
+
+// Setup the Mongo Map Repository Class
+export class MongoMapRepository implements MapRepository {
+	/**
+	 * Find a map by its ID
+	 * @param mapId The ID of the map
+	 * @returns The map, or null if it does not exist
+	 */
+	public async findByMapId(mapId: string): Promise<TMNextMap | null> {
+		// Find the map by its ID
+		return await MapModel.findOne({ mapId });
+	}
+
+	/**
+	 * Find maps by their IDs
+	 * @param mapIds The IDs of the maps
+	 * @returns The maps that exist
+	 */
+	public async findByMapIds(mapIds: string[]): Promise<Array<TMNextMap>> {
+		// Find the maps by their IDs
+		return await MapModel.find({ mapId: { $in: mapIds } });
+	}
+
+	/**
+	 * Find every map
+	 * @returns The maps
+	 */
+	public async findAll(): Promise<Array<TMNextMap>> {
+		// Find the maps
+		return await MapModel.find();
+	}
+
+	/**
+	 * Create a map without details
+	 * @param mapId The ID of the map
+	 * @returns The new map
+	 */
+	public async create(mapId: string): Promise<TMNextMap> {
+		// Create the map
+		return await MapModel.create({ mapId });
+	}
+
+	/**
+	 * Create a map or overwrite its details
+	 * @param mapId The ID of the map
+	 * @param details The details to set
+	 * @returns The map
+	 */
+	public async save(mapId: string, details: Partial<SaveMapData>): Promise<TMNextMap> {
+		// Create or update the map
+		return await MapModel.findOneAndUpdate({ mapId }, { $set: details }, { upsert: true, new: true, runValidators: true });
+	}
+
+	/**
+	 * Create a map or set only the details it does not have yet, keeping the ones already stored
+	 * @param mapId The ID of the map
+	 * @param details The details to set where missing
+	 * @returns The map
+	 */
+	public async fillDetails(mapId: string, details: Partial<SaveMapData>): Promise<TMNextMap> {
+		// Setup the Update that keeps every stored detail and only sets the missing ones (as literals, so text starting with $ is not read as a field)
+		const update = Object.fromEntries(Object.entries(details).map(([field, value]) => [field, { $ifNull: [`$${field}`, { $literal: value }] }]));
+
+		// Create or update the map in a single update, so concurrent saves cannot overwrite each other's details
+		return (await MapModel.findOneAndUpdate({ mapId }, [{ $set: { ...update, createdAt: { $ifNull: ['$createdAt', '$$NOW'] } } }], {
+			upsert: true,
+			new: true,
+		}))!;
+	}
+}
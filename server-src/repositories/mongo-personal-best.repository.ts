@@ -0,0 +1,79 @@
+// External Imports
+import { mongo, type ObjectId } from 'mongoose';
+
+// Internal Imports
+import { PersonalBestModel } from '../database/models/personal-best.model';
+import type { PersonalBestRepository, PersonalBestUpdate, TMNextPersonalBest } from '../types/types';
+
+// Setup the Mongo Personal Best Repository Class
+export class MongoPersonalBestRepository implements PersonalBestRepository {
+	/**
+	 * Find the personal best record of a player on a map
+	 * @param playerId The database ID of the player
+	 * @param mapId The database ID of the map
+	 * @returns The personal best record, or null if the player has none
+	 */
+	public async findByPlayerAndMap(playerId: ObjectId, mapId: ObjectId): Promise<TMNextPersonalBest | null> {
+		// Find the personal best record of the player on the map
+		return await PersonalBestModel.findOne({ playerId, mapId });
+	}
+
+	/**
+	 * Replace the personal best record of a player on a map in a single atomic step if the split is faster
+	 * @param personalBest The personal best the split would set
+	 * @returns Whether the split became the personal best, and the time it replaced
+	 */
+	public async saveIfFaster(
+		personalBest: Pick<TMNextPersonalBest, 'playerId' | 'mapId' | 'splitId' | 'totalTime' | 'runDate'>,
+	): Promise<PersonalBestUpdate> {
+		// Get the player ID and map ID of the record
+		const { playerId, mapId, ...fields } = personalBest;
+
+		// Replace a slower record, or create the record if there is none (a faster record makes the insert hit the unique index)
+		const previousRecord = await PersonalBestModel.findOneAndUpdate(
+			{ playerId, mapId, totalTime: { $gt: personalBest.totalTime } },
+			{ $set: fields },
+			{ upsert: true, new: false },
+		).catch(error => {
+			// Check if the Player already has a record that is at least as fast
+			if (error instanceof mongo.MongoServerError && error.code === 11000) return undefined;
+
+			// Rethrow any other error
+			throw error;
+		});
+
+		// Check if the Split did not replace the record and return the time of the faster record
+		if (previousRecord === undefined)
+			return { isPersonalBest: false, previousTime: (await this.findByPlayerAndMap(playerId, mapId))?.totalTime ?? null };
+
+		// Return the Update
+		return { isPersonalBest: true, previousTime: previousRecord?.totalTime ?? null };
+	}
+
+	/**
+	 * Delete every personal best record of a player
+	 * @param playerId The database ID of the player
+	 * @returns The number of deleted records
+	 */
+	public async deleteByPlayer(playerId: ObjectId): Promise<number> {
+		// Delete the personal best records of the player
+		const { deletedCount } = await PersonalBestModel.deleteMany({ playerId });
+
+		// Return the number of deleted records
+		return deletedCount;
+	}
+
+	/**
+	 * Delete the personal best record of a player on a map
+	 * @param playerId The database ID of the player
+	 * @param mapId The database ID of the map
+	 * @returns The number of deleted records
+	 */
+	public async deleteByPlayerAndMap(playerId: ObjectId, mapId: ObjectId): Promise<number> {
+		// Delete the personal best record of the player on the map
+		const { deletedCount } = await PersonalBestModel.deleteMany({ playerId, mapId });
+
+		// Return the number of deleted records
+		return deletedCount;
+	}
+}
@@ -0,0 +1,41 @@
+// Internal Imports
+import { PlayerBanModel } from '../database/models/player-ban.model';
+import type { PlayerBan, PlayerBanRepository } from '../types/types';
+
+// Setup the Mongo Player Ban Repository Class
+export class MongoPlayerBanRepository implements PlayerBanRepository {
+	/**
+	 * Find the ban of an account
+	 * @param accountId The account ID of the player
+	 * @returns The ban, or null if the account is not banned
+	 */
+	public async findByAccountId(accountId: string): Promise<PlayerBan | null> {
+		// Find the ban by the account ID
+		return await PlayerBanModel.findOne({ accountId });
+	}
+
+	/**
+	 * Ban an account or replace its ban
+	 * @param accountId The account ID of the player
+	 * @param bannedAt The date of the ban
+	 * @param reason The reason for the ban
+	 * @returns The ban
+	 */
+	public async save(accountId: string, bannedAt: Date, reason: string | null): Promise<PlayerBan> {
+		// Create or replace the ban
+		return await PlayerBanModel.findOneAndUpdate({ accountId }, { $set: { bannedAt, reason } }, { upsert: true, new: true, runValidators: true });
+	}
+
+	/**
+	 * Lift the ban of an account
+	 * @param accountId The account ID of the player
+	 * @returns Whether the account was banned
+	 */
+	public async delete(accountId: string): Promise<boolean> {
+		// Delete the ban
+		const { deletedCount } = await PlayerBanModel.deleteOne({ accountId });
+
+		// Return whether a ban was deleted
+		return deletedCount > 0;
+	}
+}
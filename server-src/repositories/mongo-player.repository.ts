@@ -0,0 +1,68 @@
+// External Imports
+import { type ObjectId } from 'mongoose';
+
+// Internal Imports
+import { PlayerModel } from '../database/models/player.model';
+import type { PlayerRepository, TMNextPlayer } from '../types/types';
+
+// Setup the Mongo Player Repository Class
+export class MongoPlayerRepository implements PlayerRepository {
+	/**
+	 * Find a player by their account ID
+	 * @param accountId The account ID of the player
+	 * @returns The player, or null if they do not exist
+	 */
+	public async findByAccountId(accountId: string): Promise<TMNextPlayer | null> {
+		// Find the player by their account ID
+		return await PlayerModel.findOne({ accountId });
+	}
+
+	/**
+	 * Find players by their database IDs
+	 * @param playerIds The database IDs of the players
+	 * @returns The players that exist
+	 */
+	public async findByIds(playerIds: ObjectId[]): Promise<Array<TMNextPlayer>> {
+		// Find the players by their database IDs
+		return await PlayerModel.find({ _id: { $in: playerIds } });
+	}
+
+	/**
+	 * Create a player
+	 * @param accountId The account ID of the player
+	 * @param displayName The display name of the player
+	 * @param ban The ban the player starts with, if their account was banned before
+	 * @returns The new player
+	 */
+	public async create(accountId: string, displayName: string, ban?: Pick<TMNextPlayer, 'bannedAt' | 'banReason'>): Promise<TMNextPlayer> {
+		// Create the player
+		return await PlayerModel.create({ accountId, displayName, ...ban });
+	}
+
+	/**
+	 * Update the details of a player
+	 * @param accountId The account ID of the player
+	 * @param update The details to change
+	 * @returns The updated player, or null if they do not exist
+	 */
+	public async update(
+		accountId: string,
+		update: Partial<Pick<TMNextPlayer, 'displayName' | 'bannedAt' | 'banReason' | 'liveSharing'>>,
+	): Promise<TMNextPlayer | null> {
+		// Update the player
+		return await PlayerModel.findOneAndUpdate({ accountId }, { $set: update }, { new: true });
+	}
+
+	/**
+	 * Delete a player
+	 * @param accountId The account ID of the player
+	 * @returns Whether the player existed
+	 */
+	public async delete(accountId: string): Promise<boolean> {
+		// Delete the player
+		const { deletedCount } = await PlayerModel.deleteOne({ accountId });
+
+		// Return whether the player existed
+		return deletedCount > 0;
+	}
+}
@@ -0,0 +1,28 @@
+// Internal Imports
+import { RemoteConfigModel } from '../database/models/remote-config.model';
+import type { RemoteConfig, RemoteConfigRepository, TMNextRemoteConfig } from '../types/types';
+
+// Setup the Key of the remote config document (there is only one)
+const REMOTE_CONFIG_KEY = 'plugin';
+
+// Setup the Mongo Remote Config Repository Class
+export class MongoRemoteConfigRepository implements RemoteConfigRepository {
+	/**
+	 * Find the remote config
+	 * @returns The remote config, or null if it was never saved
+	 */
+	public async find(): Promise<TMNextRemoteConfig | null> {
+		// Find the remote config by its key
+		return await RemoteConfigModel.findOne({ key: REMOTE_CONFIG_KEY });
+	}
+
+	/**
+	 * Create the remote config or replace its settings
+	 * @param settings The settings to set
+	 * @returns The remote config
+	 */
+	public async save(settings: RemoteConfig): Promise<TMNextRemoteConfig> {
+		// Create or update the remote config
+		return await RemoteConfigModel.findOneAndUpdate({ key: REMOTE_CONFIG_KEY }, { $set: settings }, { upsert: true, new: true, runValidators: true });
+	}
+}
@@ -0,0 +1,75 @@
+// External Imports
+import { mongo } from 'mongoose';
+
+// Internal Imports
+import { AccountRevocationModel } from '../database/models/account-revocation.model';
+import { RevokedTokenModel } from '../database/models/revoked-token.model';
+import type { RevokedTokenRepository } from '../types/types';
+
+// Setup the Mongo Revoked Token Repository Class
+export class MongoRevokedTokenRepository implements RevokedTokenRepository {
+	/**
+	 * Revoke a token
+	 * @param tokenId The unique ID of the token
+	 * @param accountId The account ID of the token's user
+	 * @param expiresAt The date the token expires
+	 * @returns Whether this call revoked the token (false if it was already revoked)
+	 */
+	public async revoke(tokenId: string, accountId: string, expiresAt: Date): Promise<boolean> {
+		// Add the token to the revocation list until it expires (removed by the TTL index)
+		const result = await RevokedTokenModel.updateOne({ tokenId }, { $setOnInsert: { accountId, expiresAt } }, { upsert: true }).catch(error => {
+			// Check if a concurrent revocation inserted the token first (the token ID is unique)
+			if (error instanceof mongo.MongoServerError && error.code === 11000) return null;
+
+			// Rethrow any other error
+			throw error;
+		});
+
+		// Return whether this call inserted the token
+		return !!result && result.upsertedCount > 0;
+	}
+
+	/**
+	 * Check if a token was revoked
+	 * @param tokenId The unique ID of the token
+	 * @returns Whether the token was revoked
+	 */
+	public async isRevoked(tokenId: string): Promise<boolean> {
+		// Check if the token is on the revocation list
+		return !!(await RevokedTokenModel.exists({ tokenId }));
+	}
+
+	/**
+	 * Revoke every token issued to an account until a date (a later revocation of the account is kept)
+	 * @param accountId The account ID of the user
+	 * @param revokedAt The date the tokens are revoked until
+	 * @param expiresAt The date the last revoked token expires
+	 * @returns void
+	 */
+	public async revokeAccount(accountId: string, revokedAt: Date, expiresAt: Date): Promise<void> {
+		// Setup the Update that only ever moves the dates forward
+		const update = { $max: { revokedAt, expiresAt } };
+
+		// Revoke the tokens of the account until they expire (removed by the TTL index)
+		await AccountRevocationModel.updateOne({ accountId }, update, { upsert: true }).catch(async error => {
+			// Check if a concurrent revocation inserted the account first (the account ID is unique) and update its record instead
+			if (error instanceof mongo.MongoServerError && error.code === 11000) return await AccountRevocationModel.updateOne({ accountId }, update);
+
+			// Rethrow any other error
+			throw error;
+		});
+	}
+
+	/**
+	 * Get the date every token of an account was revoked until
+	 * @param accountId The account ID of the user
+	 * @returns The date the tokens were revoked until, or null if they never were
+	 */
+	public async getAccountRevokedAt(accountId: string): Promise<Date | null> {
+		// Find the Revocation of the account
+		const revocation = await AccountRevocationModel.findOne({ accountId });
+
+		// Return the Date the tokens were revoked until
+		return revocation?.revokedAt ?? null;
+	}
+}
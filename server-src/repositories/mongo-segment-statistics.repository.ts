@@ -0,0 +1,43 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+// Internal Imports
+import { SegmentStatisticsModel } from '../database/models/segment-statistics.model';
+import type { MapSegmentStatistics, SegmentStatisticsRepository } from '../types/types';
+
+// Setup the Mongo Segment Statistics Repository Class
+export class MongoSegmentStatisticsRepository implements SegmentStatisticsRepository {
+	/**
+	 * Find the segment statistics of a map
+	 * @param mapId The database ID of the map
+	 * @returns The segment statistics, or null if they were never computed
+	 */
+	public async findByMapId(mapId: ObjectId): Promise<MapSegmentStatistics | null> {
+		// Find the segment statistics of the map
+		return await SegmentStatisticsModel.findOne({ mapId });
+	}
+
+	/**
+	 * Create or replace the segment statistics of a map
+	 * @param mapId The database ID of the map
+	 * @param statistics The segment statistics
+	 * @returns The saved segment statistics
+	 */
+	public async save(
+		mapId: ObjectId,
+		statistics: Pick<MapSegmentStatistics, 'checkpointCount' | 'playerCount' | 'segments' | 'computedAt'>,
+	): Promise<MapSegmentStatistics> {
+		// Create or replace the segment statistics of the map
+		return await SegmentStatisticsModel.findOneAndUpdate({ mapId }, { $set: statistics }, { upsert: true, new: true });
+	}
+
+	/**
+	 * Delete the segment statistics of maps, so they are recomputed when next requested
+	 * @param mapIds The database IDs of the maps
+	 * @returns void
+	 */
+	public async deleteByMapIds(mapIds: ObjectId[]): Promise<void> {
+		// Delete the segment statistics of the maps
+		await SegmentStatisticsModel.deleteMany({ mapId: { $in: mapIds } });
+	}
+}
@@ -0,0 +1,557 @@
+// External Imports
+import { mongo, type FilterQuery, type ObjectId, type PipelineStage, type Types } from 'mongoose';
+
+// Internal Imports
+import { GLOBAL_SPLIT_FILTER, SplitModel } from '../database/models/split.model';
+import { BANNED_PLAYER_FILTER, PlayerModel } from '../database/models/player.model';
+import {
+	SplitStatus,
+	type CampaignStandingEntry,
+	type LeaderboardEntry,
+	type MapBestTime,
+	type MapBestTimeQuery,
+	type PopulatedTMNextSplit,
+	type RankedSplitPage,
+	type RankedTotalPage,
+	type SplitModerationQuery,
+	type SplitQuery,
+	type SplitRepository,
+	type SumOfBestSegment,
+	type TMNextSplit,
+} from '../types/types';
+
+/**
+ * Interface for a ranked row produced by the leaderboard aggregation
+ */
+interface RankedLeaderboardRow {
+	_id: Types.ObjectId;
+	splitId: Types.ObjectId;
+	totalTime: number;
+	runDate: Date;
+	rank: number;
+	player: { accountId: string; displayName: string };
+}
+
+/**
+ * Interface for the faceted result of the leaderboard aggregation
+ */
+interface LeaderboardAggregationResult {
+	total: Array<{ count: number }>;
+	first: Array<RankedLeaderboardRow>;
+	entries: Array<RankedLeaderboardRow>;
+	playerEntry: Array<RankedLeaderboardRow>;
+}
+
+/**
+ * Interface for a ranked row produced by the campaign standings aggregation
+ */
+interface RankedTotalRow {
+	_id: Types.ObjectId;
+	totalTime: number;
+	finishedMaps: number;
+	rank: number;
+	player: { accountId: string; displayName: string };
+}
+
+/**
+ * Interface for the faceted result of the campaign standings aggregation
+ */
+interface RankedTotalAggregationResult {
+	total: Array<{ count: number }>;
+	entries: Array<RankedTotalRow>;
+	playerEntry: Array<RankedTotalRow>;
+}
+
+/**
+ * Interface for a best segment row produced by the sum of best aggregation
+ */
+interface BestSegmentRow {
+	_id: number;
+	segmentTime: number;
+	splitId: Types.ObjectId;
+	playerId: Types.ObjectId;
+	runDate: Date;
+}
+
+// Setup the Mongo Split Repository Class
+export class MongoSplitRepository implements SplitRepository {
+	/**
+	 * Create a split
+	 * @param split The split to create
+	 * @returns The new split, or null if the player already saved a split with the same client run ID
+	 */
+	public async create(
+		split: Pick<TMNextSplit, 'playerId' | 'mapId' | 'checkpointTimes' | 'totalTime' | 'runDate' | 'status' | 'flags' | 'clientRunId'>,
+	): Promise<TMNextSplit | null> {
+		// Create the split, ignoring the unique index error of a run that was already saved
+		return await SplitModel.create(split).catch(error => {
+			// Check if the Run was already saved
+			if (error instanceof mongo.MongoServerError && error.code === 11000) return null;
+
+			// Rethrow any other error
+			throw error;
+		});
+	}
+
+	/**
+	 * Find a split by its ID
+	 * @param splitId The ID of the split
+	 * @returns The split with its player and map, or null if it does not exist
+	 */
+	public async findById(splitId: string): Promise<PopulatedTMNextSplit | null> {
+		// Find the split
+		const split = await SplitModel.findById(splitId).populate('playerId').populate('mapId');
+
+		// Return the split
+		return split as unknown as PopulatedTMNextSplit | null;
+	}
+
+	/**
+	 * Find the split a player uploaded with a client run ID
+	 * @param playerId The database ID of the player
+	 * @param clientRunId The ID the client generated for the run
+	 * @returns The split, or null if no run was uploaded with the ID
+	 */
+	public async findByClientRunId(playerId: ObjectId, clientRunId: string): Promise<TMNextSplit | null> {
+		// Find the split uploaded with the client run ID
+		return await SplitModel.findOne({ playerId, clientRunId });
+	}
+
+	/**
+	 * Find every split of a player across all maps, oldest first
+	 * @param playerId The database ID of the player
+	 * @returns The splits with their player and map
+	 */
+	public async findByPlayer(playerId: ObjectId): Promise<Array<PopulatedTMNextSplit>> {
+		// Find the splits of the player
+		const splits = await SplitModel.find({ playerId }).populate('playerId').populate('mapId').sort({ runDate: 1 });
+
+		// Return the splits
+		return splits as unknown as Array<PopulatedTMNextSplit>;
+	}
+
+	/**
+	 * Delete every split of a player
+	 * @param playerId The database ID of the player
+	 * @returns The number of deleted splits
+	 */
+	public async deleteByPlayer(playerId: ObjectId): Promise<number> {
+		// Delete the splits of the player
+		const { deletedCount } = await SplitModel.deleteMany({ playerId });
+
+		// Return the number of deleted splits
+		return deletedCount;
+	}
+
+	/**
+	 * Find a page of the splits admins review, most recently uploaded first
+	 * @param query The filter for the splits
+	 * @param skip The number of splits to skip
+	 * @param limit The number of splits on the page
+	 * @returns The number of matching splits and the splits of the page with their player and map
+	 */
+	public async findForModeration(
+		query: SplitModerationQuery,
+		skip: number,
+		limit: number,
+	): Promise<{ total: number; splits: Array<PopulatedTMNextSplit> }> {
+		// Setup the Filter for the splits
+		const filter: FilterQuery<TMNextSplit> = {};
+
+		// Check if the Query Is for a single map or player
+		if (query.mapId) filter.mapId = query.mapId;
+		if (query.playerId) filter.playerId = query.playerId;
+
+		// Check if the Query Is for the quarantined or flagged splits only
+		if (query.flaggedOnly) filter.$or = [{ status: SplitStatus.QUARANTINED }, { 'flags.0': { $exists: true } }];
+
+		// Count the matching splits and find the requested page
+		const [total, splits] = await Promise.all([
+			SplitModel.countDocuments(filter),
+			SplitModel.find(filter).sort({ createdAt: -1, _id: -1 }).skip(skip).limit(limit).populate('playerId').populate('mapId'),
+		]);
+
+		// Return the Page
+		return { total, splits: splits as unknown as Array<PopulatedTMNextSplit> };
+	}
+
+	/**
+	 * Change the review status of a split
+	 * @param splitId The ID of the split
+	 * @param status The new review status
+	 * @returns The updated split, or null if it does not exist
+	 */
+	public async updateStatus(splitId: string, status: SplitStatus): Promise<TMNextSplit | null> {
+		// Update the split
+		return await SplitModel.findByIdAndUpdate(splitId, { $set: { status } }, { new: true });
+	}
+
+	/**
+	 * Delete a split
+	 * @param splitId The ID of the split
+	 * @returns Whether the split existed
+	 */
+	public async delete(splitId: string): Promise<boolean> {
+		// Delete the split
+		const { deletedCount } = await SplitModel.deleteOne({ _id: splitId });
+
+		// Return whether the split existed
+		return deletedCount > 0;
+	}
+
+	/**
+	 * Find the splits matching a query, fastest first
+	 * @param query The filter for the splits
+	 * @returns The splits with their player and map
+	 */
+	public async find(query: SplitQuery): Promise<Array<PopulatedTMNextSplit>> {
+		// Find the splits
+		const splits = await SplitModel.find(await this.getFilter(query))
+			.populate('playerId')
+			.populate('mapId')
+			.sort({ totalTime: 1 });
+
+		// Return the splits
+		return splits as unknown as Array<PopulatedTMNextSplit>;
+	}
+
+	/**
+	 * Find the fastest split matching a query
+	 * @param query The filter for the splits
+	 * @returns The split with its player and map, or null if no split matches
+	 */
+	public async findBest(query: SplitQuery): Promise<PopulatedTMNextSplit | null> {
+		// Find the fastest split
+		const split = await SplitModel.findOne(await this.getFilter(query))
+			.populate('playerId')
+			.populate('mapId')
+			.sort({ totalTime: 1 });
+
+		// Return the split
+		return split as unknown as PopulatedTMNextSplit | null;
+	}
+
+	/**
+	 * Find the most recent splits matching a query, newest first
+	 * @param query The filter for the splits
+	 * @param limit The maximum number of splits
+	 * @returns The checkpoint times and total time of the splits
+	 */
+	public async findRecent(query: SplitQuery, limit: number): Promise<Array<Pick<TMNextSplit, 'checkpointTimes' | 'totalTime'>>> {
+		// Find the most recent splits
+		return await SplitModel.find(await this.getFilter(query), { checkpointTimes: 1, totalTime: 1 })
+			.sort({ runDate: -1 })
+			.limit(limit);
+	}
+
+	/**
+	 * Find the checkpoint times of the best split of every player matching a query
+	 * @param query The filter for the splits
+	 * @returns The checkpoint times of every player's best split
+	 */
+	public async findPersonalBestCheckpointTimes(query: SplitQuery): Promise<Array<number[]>> {
+		// Get every player's best split
+		const personalBests = await SplitModel.aggregate<{ checkpointTimes: number[] }>([
+			{ $match: await this.getFilter(query) },
+			{ $sort: { playerId: 1, totalTime: 1 } },
+			{ $group: { _id: '$playerId', checkpointTimes: { $first: '$checkpointTimes' } } },
+		]);
+
+		// Return the Checkpoint Times
+		return personalBests.map(personalBest => personalBest.checkpointTimes);
+	}
+
+	/**
+	 * Get the checkpoint time count most splits matching a query have
+	 * @param query The filter for the splits
+	 * @returns The checkpoint time count and the number of splits with it, or null if no split matches
+	 */
+	public async getMostCommonCheckpointCount(query: SplitQuery): Promise<{ checkpointCount: number; count: number } | null> {
+		// Count the splits per checkpoint count and keep the most common one
+		const [mostCommon] = await SplitModel.aggregate<{ _id: number; count: number }>([
+			{ $match: await this.getFilter(query) },
+			{ $group: { _id: { $size: '$checkpointTimes' }, count: { $sum: 1 } } },
+			{ $sort: { count: -1 } },
+			{ $limit: 1 },
+		]);
+
+		// Return the Most Common Checkpoint Count
+		return mostCommon ? { checkpointCount: mostCommon._id, count: mostCommon.count } : null;
+	}
+
+	/**
+	 * Rank the players by their best split matching a query and get a page of them
+	 * @param query The filter for the splits
+	 * @param skip The number of ranked players to skip
+	 * @param limit The number of ranked players on the page
+	 * @param playerId The database ID of the player whose entry to get, or null
+	 * @returns The page of ranked players
+	 */
+	public async getRankedPage(query: SplitQuery, skip: number, limit: number, playerId: ObjectId | null): Promise<RankedSplitPage> {
+		// Setup the Lookup Stages to attach the player to a row
+		const playerLookup: Array<PipelineStage.FacetPipelineStage> = [
+			{ $lookup: { from: 'players', localField: '_id', foreignField: '_id', as: 'player' } },
+			{ $unwind: '$player' },
+		];
+
+		// Setup the Aggregation Pipeline
+		const pipeline: Array<PipelineStage> = [
+			// Only use the splits matching the query
+			{ $match: await this.getFilter(query) },
+
+			// Sort each player's runs so their best run comes first
+			{ $sort: { playerId: 1, totalTime: 1, runDate: 1 } },
+
+			// Keep the best run per player
+			{ $group: { _id: '$playerId', splitId: { $first: '$_id' }, totalTime: { $first: '$totalTime' }, runDate: { $first: '$runDate' } } },
+
+			// Rank the players by their best time
+			{ $setWindowFields: { sortBy: { totalTime: 1 }, output: { rank: { $rank: {} } } } },
+
+			// Sort the ranked players, breaking ties by who drove the time first
+			{ $sort: { totalTime: 1, runDate: 1, _id: 1 } },
+
+			// Build the total count, the first place, the requested page and the requested player's entry
+			{
+				$facet: {
+					total: [{ $count: 'count' }],
+					first: [{ $limit: 1 }],
+					entries: [{ $skip: skip }, { $limit: limit }, ...playerLookup],
+					playerEntry: playerId ? [{ $match: { _id: playerId } }, ...playerLookup] : [{ $match: { _id: null } }],
+				},
+			},
+		];
+
+		// Run the Aggregation
+		const [result] = await SplitModel.aggregate<LeaderboardAggregationResult>(pipeline);
+
+		// Setup the Row Mapper
+		const toEntry = (row: RankedLeaderboardRow): Omit<LeaderboardEntry, 'gap'> => ({
+			rank: row.rank,
+			splitId: row.splitId.toString(),
+			accountId: row.player.accountId,
+			displayName: row.player.displayName,
+			totalTime: row.totalTime,
+			runDate: row.runDate,
+		});
+
+		// Return the Ranked Page
+		return {
+			totalPlayers: result?.total[0]?.count ?? 0,
+			bestTime: result?.first[0]?.totalTime ?? null,
+			entries: (result?.entries ?? []).map(toEntry),
+			playerEntry: result?.playerEntry[0] ? toEntry(result.playerEntry[0]) : null,
+		};
+	}
+
+	/**
+	 * Get the fastest time on every segment across the splits matching a query
+	 * @param query The filter for the splits
+	 * @param segmentCount The number of segments the splits must have
+	 * @returns The best segments in checkpoint order, without the time they save against a reference split
+	 */
+	public async getBestSegments(query: SplitQuery, segmentCount: number): Promise<Array<Omit<SumOfBestSegment, 'possibleTimeSave'>>> {
+		// Setup the Aggregation Pipeline
+		const pipeline: Array<PipelineStage> = [
+			// Only use runs with the requested checkpoint count, so the segments line up
+			{ $match: { ...(await this.getFilter(query)), checkpointTimes: { $size: segmentCount } } },
+
+			// Turn the cumulative checkpoint times into segment times
+			{
+				$project: {
+					playerId: 1,
+					runDate: 1,
+					segments: {
+						$map: {
+							input: { $range: [0, { $size: '$checkpointTimes' }] },
+							as: 'index',
+							in: {
+								$subtract: [
+									{ $arrayElemAt: ['$checkpointTimes', '$$index'] },
+									{ $cond: [{ $eq: ['$$index', 0] }, 0, { $arrayElemAt: ['$checkpointTimes', { $subtract: ['$$index', 1] }] }] },
+								],
+							},
+						},
+					},
+				},
+			},
+
+			// Split every run into one document per segment
+			{ $unwind: { path: '$segments', includeArrayIndex: 'index' } },
+
+			// Sort so the best time on each segment comes first, breaking ties by who drove it first
+			{ $sort: { index: 1, segments: 1, runDate: 1 } },
+
+			// Keep the best time per segment
+			{
+				$group: {
+					_id: '$index',
+					segmentTime: { $first: '$segments' },
+					splitId: { $first: '$_id' },
+					playerId: { $first: '$playerId' },
+					runDate: { $first: '$runDate' },
+				},
+			},
+
+			// Put the segments back in checkpoint order
+			{ $sort: { _id: 1 } },
+		];
+
+		// Run the Aggregation
+		const rows = await SplitModel.aggregate<BestSegmentRow>(pipeline);
+
+		// Return the Best Segments
+		return rows.map(row => ({
+			index: row._id,
+			segmentTime: row.segmentTime,
+			splitId: row.splitId.toString(),
+			playerId: row.playerId.toString(),
+			runDate: row.runDate,
+		}));
+	}
+
+	/**
+	 * Find the best time of every player on every map matching a query
+	 * @param query The filter for the splits
+	 * @returns The best time of every player on every map they have a run on
+	 */
+	public async findBestTimes(query: MapBestTimeQuery): Promise<Array<MapBestTime>> {
+		// Keep the fastest split of every player on every map, breaking ties by who drove it first
+		return await SplitModel.aggregate<MapBestTime>([
+			{ $match: await this.getBestTimeFilter(query) },
+			{ $sort: { totalTime: 1, runDate: 1 } },
+			{
+				$group: {
+					_id: { playerId: '$playerId', mapId: '$mapId' },
+					splitId: { $first: '$_id' },
+					totalTime: { $first: '$totalTime' },
+					runDate: { $first: '$runDate' },
+				},
+			},
+			{ $project: { _id: 0, playerId: '$_id.playerId', mapId: '$_id.mapId', splitId: 1, totalTime: 1, runDate: 1 } },
+		]);
+	}
+
+	/**
+	 * Rank the players by the number of maps matching a query they have a run on, then by the sum of their best times, and get a page of them
+	 * @param query The filter for the splits
+	 * @param skip The number of ranked players to skip
+	 * @param limit The number of ranked players on the page
+	 * @param playerId The database ID of the player whose entry to get, or null
+	 * @returns The page of ranked players
+	 */
+	public async getRankedTotalPage(query: MapBestTimeQuery, skip: number, limit: number, playerId: ObjectId | null): Promise<RankedTotalPage> {
+		// Setup the Lookup Stages to attach the player to a row
+		const playerLookup: Array<PipelineStage.FacetPipelineStage> = [
+			{ $lookup: { from: 'players', localField: '_id', foreignField: '_id', as: 'player' } },
+			{ $unwind: '$player' },
+		];
+
+		// Setup the Aggregation Pipeline
+		const pipeline: Array<PipelineStage> = [
+			// Only use the splits matching the query
+			{ $match: await this.getBestTimeFilter(query) },
+
+			// Keep the best time of every player on every map
+			{ $group: { _id: { playerId: '$playerId', mapId: '$mapId' }, totalTime: { $min: '$totalTime' } } },
+
+			// Add up the best times of every player
+			{ $group: { _id: '$_id.playerId', totalTime: { $sum: '$totalTime' }, finishedMaps: { $sum: 1 } } },
+
+			// Setup the Ranking Key of every player (embedded documents are compared field by field, and $rank only sorts by one field)
+			{ $set: { ranking: { finishedMaps: { $multiply: ['$finishedMaps', -1] }, totalTime: '$totalTime' } } },
+
+			// Rank the players by the maps they finished, then by their total time
+			{ $setWindowFields: { sortBy: { ranking: 1 }, output: { rank: { $rank: {} } } } },
+
+			// Sort the ranked players, breaking ties by their database ID
+			{ $sort: { finishedMaps: -1, totalTime: 1, _id: 1 } },
+
+			// Build the total count, the requested page and the requested player's entry
+			{
+				$facet: {
+					total: [{ $count: 'count' }],
+					entries: [{ $skip: skip }, { $limit: limit }, ...playerLookup],
+					playerEntry: playerId ? [{ $match: { _id: playerId } }, ...playerLookup] : [{ $match: { _id: null } }],
+				},
+			},
+		];
+
+		// Run the Aggregation
+		const [result] = await SplitModel.aggregate<RankedTotalAggregationResult>(pipeline);
+
+		// Setup the Row Mapper
+		const toEntry = (row: RankedTotalRow): Omit<CampaignStandingEntry, 'missingMaps'> => ({
+			rank: row.rank,
+			accountId: row.player.accountId,
+			displayName: row.player.displayName,
+			totalTime: row.totalTime,
+			finishedMaps: row.finishedMaps,
+		});
+
+		// Return the Ranked Page
+		return {
+			totalPlayers: result?.total[0]?.count ?? 0,
+			entries: (result?.entries ?? []).map(toEntry),
+			playerEntry: result?.playerEntry[0] ? toEntry(result.playerEntry[0]) : null,
+		};
+	}
+
+	/**
+	 * Get the MongoDB filter of a best time query
+	 * @param query The best time query
+	 * @returns The filter
+	 */
+	private async getBestTimeFilter(query: MapBestTimeQuery): Promise<FilterQuery<TMNextSplit>> {
+		// Setup the Filter for the splits of every map, with the checkpoint time counts of the map
+		const filter: FilterQuery<TMNextSplit> = {
+			$or: query.mapIds.map(mapId => {
+				// Get the Checkpoint Time Counts of the map
+				const lengths = query.checkpointTimesLengths?.[mapId.toString()];
+
+				// Return the Filter of the map
+				return lengths ? { mapId, $expr: { $in: [{ $size: '$checkpointTimes' }, lengths] } } : { mapId };
+			}),
+		};
+
+		// Check if the Query Is for a single player
+		if (query.playerId) filter.playerId = query.playerId;
+
+		// Check if the Query skips the splits that do not count towards global queries, or only the quarantined and hidden splits
+		if (query.globalOnly || query.acceptedOnly) Object.assign(filter, GLOBAL_SPLIT_FILTER);
+
+		// Check if the Query skips the splits of banned players
+		if (query.globalOnly) filter.$and = [{ playerId: { $nin: await PlayerModel.distinct('_id', BANNED_PLAYER_FILTER) } }];
+
+		// Return the Filter
+		return filter;
+	}
+
+	/**
+	 * Get the MongoDB filter of a split query
+	 * @param query The split query
+	 * @returns The filter
+	 */
+	private async getFilter(query: SplitQuery): Promise<FilterQuery<TMNextSplit>> {
+		// Setup the Filter for the splits of the map
+		const filter: FilterQuery<TMNextSplit> = { mapId: query.mapId };
+
+		// Check if the Query Is for a single player
+		if (query.playerId) filter.playerId = query.playerId;
+
+		// Check if the Query Is for a group of players
+		if (query.playerIds) filter.$and = [{ playerId: { $in: query.playerIds } }];
+
+		// Check if the Query skips the splits that do not count towards global queries, or only the quarantined and hidden splits
+		if (query.globalOnly || query.acceptedOnly) Object.assign(filter, GLOBAL_SPLIT_FILTER);
+
+		// Check if the Query skips the splits of banned players
+		if (query.globalOnly) filter.$and = [...(filter.$and ?? []), { playerId: { $nin: await PlayerModel.distinct('_id', BANNED_PLAYER_FILTER) } }];
+
+		// Check if the Query Is for certain checkpoint counts
+		if (query.checkpointTimesLengths) filter.$expr = { $in: [{ $size: '$checkpointTimes' }, query.checkpointTimesLengths] };
+
+		// Return the Filter
+		return filter;
+	}
+}
@@ -0,0 +1,92 @@
+// Internal Imports
+import { MemoryAuditLogRepository } from './memory-audit-log.repository';
+import { MemoryCampaignRepository } from './memory-campaign.repository';
+import { MemoryClubRepository } from './memory-club.repository';
+import { MemoryMapRepository } from './memory-map.repository';
+import { MemoryPersonalBestRepository } from './memory-personal-best.repository';
+import { MemoryPlayerBanRepository } from './memory-player-ban.repository';
+import { MemoryPlayerRepository } from './memory-player.repository';
+import { MemoryRemoteConfigRepository } from './memory-remote-config.repository';
+import { MemoryRevokedTokenRepository } from './memory-revoked-token.repository';
+import { MemorySegmentStatisticsRepository } from './memory-segment-statistics.repository';
+import { MemorySplitRepository } from './memory-split.repository';
+import { MongoAuditLogRepository } from './mongo-audit-log.repository';
+import { MongoCampaignRepository } from './mongo-campaign.repository';
+import { MongoClubRepository } from './mongo-club.repository';
+import { MongoMapRepository } from './mongo-map.repository';
+import { MongoPersonalBestRepository } from './mongo-personal-best.repository';
+import { MongoPlayerBanRepository } from './mongo-player-ban.repository';
+import { MongoPlayerRepository } from './mongo-player.repository';
+import { MongoRemoteConfigRepository } from './mongo-remote-config.repository';
+import { MongoRevokedTokenRepository } from './mongo-revoked-token.repository';
+import { MongoSegmentStatisticsRepository } from './mongo-segment-statistics.repository';
+import { MongoSplitRepository } from './mongo-split.repository';
+import type { Repositories } from '../types/types';
+
+// Setup the Repositories the services store their data in (MongoDB unless replaced with the in-memory ones)
+let repositories: Repositories = createMongoRepositories();
+
+/**
+ * Get the repositories the services store their data in
+ * @returns The repositories
+ */
+export function getRepositories(): Repositories {
+	// Return the Repositories
+	return repositories;
+}
+
+/**
+ * Replace the repositories the services store their data in
+ * @param newRepositories The new repositories
+ * @returns void
+ */
+export function setRepositories(newRepositories: Repositories): void {
+	// Replace the Repositories
+	repositories = newRepositories;
+}
+
+/**
+ * Create the repositories that store the data in MongoDB
+ * @returns The MongoDB repositories
+ */
+export function createMongoRepositories(): Repositories {
+	// Return the MongoDB Repositories
+	return {
+		players: new MongoPlayerRepository(),
+		playerBans: new MongoPlayerBanRepository(),
+		maps: new MongoMapRepository(),
+		splits: new MongoSplitRepository(),
+		personalBests: new MongoPersonalBestRepository(),
+		segmentStatistics: new MongoSegmentStatisticsRepository(),
+		revokedTokens: new MongoRevokedTokenRepository(),
+		auditLog: new MongoAuditLogRepository(),
+		clubs: new MongoClubRepository(),
+		campaigns: new MongoCampaignRepository(),
+		remoteConfig: new MongoRemoteConfigRepository(),
+	};
+}
+
+/**
+ * Create empty repositories that keep the data in memory (lost on restart, for development and tests)
+ * @returns The in-memory repositories
+ */
+export function createMemoryRepositories(): Repositories {
+	// Setup the Player and Map Repositories the splits are populated from
+	const players = new MemoryPlayerRepository();
+	const maps = new MemoryMapRepository();
+
+	// Return the In-Memory Repositories
+	return {
+		players,
+		playerBans: new MemoryPlayerBanRepository(),
+		maps,
+		splits: new MemorySplitRepository(players, maps),
+		personalBests: new MemoryPersonalBestRepository(),
+		segmentStatistics: new MemorySegmentStatisticsRepository(),
+		revokedTokens: new MemoryRevokedTokenRepository(),
+		auditLog: new MemoryAuditLogRepository(),
+		clubs: new MemoryClubRepository(),
+		campaigns: new MemoryCampaignRepository(),
+		remoteConfig: new MemoryRemoteConfigRepository(),
+	};
+}
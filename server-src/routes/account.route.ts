@@ -0,0 +1,136 @@
+// External Imports
+import { FastifyInstance, FastifyReply } from 'fastify';
+
+// Internal Imports
+import { deleteAccount, getAccountArchive, getPlayerProfile } from '../services/account.service';
+import { authenticateRequest } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { RATE_LIMITS } from '../services/rate-limit.service';
+import { deleteAccountSchema, exportAccountSchema, getProfileSchema } from '../schemas/account.schema';
+import { sendError } from '../utils/reply.utils';
+import { AccountErrorCode, ErrorCode, type AuthenticatedRequest, type DeleteAccountRequest } from '../types/types';
+
+/**
+ * Register the Account Routes
+ * @param fastify The Fastify Instance
+ * @returns void
+ */
+export async function registerAccountRoutes(fastify: FastifyInstance): Promise<void> {
+	// Get the profile of the player
+	fastify.get(
+		'/me',
+		{ schema: getProfileSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => getProfileHandler(request, reply),
+	);
+
+	// Download everything stored about the player
+	fastify.get(
+		'/me/export',
+		{ schema: exportAccountSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => exportAccountHandler(request, reply),
+	);
+
+	// Delete the player and everything stored about them
+	fastify.post(
+		'/me/delete',
+		{ schema: deleteAccountSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => deleteAccountHandler(request as DeleteAccountRequest, reply),
+	);
+}
+
+/**
+ * Get Profile Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function getProfileHandler(request: AuthenticatedRequest, reply: FastifyReply) {
+	// Get the profile of the player
+	const profile = await getPlayerProfile(request.userId!).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error getting profile');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to get profile');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Profile is a type of Error and return the error response
+	if (profile instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, profile.message);
+
+	// Check if Nothing Is stored about the player
+	if (!profile) return sendError(reply, 404, ErrorCode.NOT_FOUND, 'No data is stored for this account');
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: profile });
+}
+
+/**
+ * Export Account Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function exportAccountHandler(request: AuthenticatedRequest, reply: FastifyReply) {
+	// Get the user ID
+	const userId = request.userId!;
+
+	// Get the archive of the player
+	const archive = await getAccountArchive(userId).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error exporting account');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to export account');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Archive is a type of Error and return the error response
+	if (archive instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, archive.message);
+
+	// Check if Nothing Is stored about the player
+	if (!archive) return sendError(reply, 404, ErrorCode.NOT_FOUND, 'No data is stored for this account');
+
+	// Return the Archive as a file
+	return reply.code(200).header('content-disposition', `attachment; filename="tmnext-predictor-${userId}.json"`).send(archive);
+}
+
+/**
+ * Delete Account Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function deleteAccountHandler(request: DeleteAccountRequest, reply: FastifyReply) {
+	// Get the user ID
+	const userId = request.userId!;
+
+	// Check if the Deletion was not confirmed with the account ID of the token
+	if (request.body.confirmAccountId !== userId)
+		return sendError(reply, 400, AccountErrorCode.DELETION_NOT_CONFIRMED, 'confirmAccountId must match the account ID of the token');
+
+	// Delete the player
+	const deletionResult = await deleteAccount(userId).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error deleting account');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to delete account');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Deletion Result is a type of Error and return the error response
+	if (deletionResult instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, deletionResult.message);
+
+	// Check if Nothing Is stored about the player
+	if (!deletionResult) return sendError(reply, 404, ErrorCode.NOT_FOUND, 'No data is stored for this account');
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: deletionResult });
+}
@@ -0,0 +1,369 @@
+// External Imports
+import { FastifyInstance, FastifyReply } from 'fastify';
+
+// Internal Imports
+import { DEFAULT_ADMIN_PAGE_SIZE, deleteSplit, getAuditLog, getModeratedSplits, setPlayerBanned, setSplitStatus } from '../services/admin.service';
+import { runBacktest } from '../services/backtest.service';
+import { saveCampaign } from '../services/campaign.service';
+import { areMedalTimesOrdered, correctMap, mapToResponse } from '../services/map.service';
+import { saveRemoteConfig } from '../services/remote-config.service';
+import { authenticateRequest, requireAdmin } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { RATE_LIMITS } from '../services/rate-limit.service';
+import {
+	banPlayerSchema,
+	deleteSplitSchema,
+	getAuditLogSchema,
+	listModeratedSplitsSchema,
+	unbanPlayerSchema,
+	updateSplitStatusSchema,
+} from '../schemas/admin.schema';
+import { runBacktestSchema } from '../schemas/analytics.schema';
+import { saveCampaignSchema } from '../schemas/campaigns.schema';
+import { saveConfigSchema } from '../schemas/config.schema';
+import { correctMapSchema } from '../schemas/maps.schema';
+import { sendError } from '../utils/reply.utils';
+import {
+	ErrorCode,
+	type AuthenticatedRequest,
+	type CorrectMapRequest,
+	type GetAuditLogRequest,
+	type ListModeratedSplitsRequest,
+	type ModeratePlayerRequest,
+	type ModerateSplitRequest,
+	type RunBacktestRequest,
+	type SaveCampaignRequest,
+	type SaveRemoteConfigRequest,
+} from '../types/types';
+
+/**
+ * Register the Admin Routes
+ * @param fastify The Fastify Instance
+ * @returns void
+ */
+export async function registerAdminRoutes(fastify: FastifyInstance): Promise<void> {
+	// Setup the Checks every admin route runs
+	const preValidation = [authenticateRequest, requireAdmin, rateLimit(RATE_LIMITS.ADMIN)];
+
+	// List the recent or flagged splits
+	fastify.post('/admin/splits/list', { schema: listModeratedSplitsSchema, preValidation }, (request: AuthenticatedRequest, reply: FastifyReply) =>
+		listSplitsHandler(request as ListModeratedSplitsRequest, reply),
+	);
+
+	// Delete a split
+	fastify.post('/admin/splits/delete', { schema: deleteSplitSchema, preValidation }, (request: AuthenticatedRequest, reply: FastifyReply) =>
+		deleteSplitHandler(request as ModerateSplitRequest, reply),
+	);
+
+	// Change the review status of a split
+	fastify.post('/admin/splits/status', { schema: updateSplitStatusSchema, preValidation }, (request: AuthenticatedRequest, reply: FastifyReply) =>
+		updateSplitStatusHandler(request as ModerateSplitRequest, reply),
+	);
+
+	// Ban a player
+	fastify.post('/admin/players/ban', { schema: banPlayerSchema, preValidation }, (request: AuthenticatedRequest, reply: FastifyReply) =>
+		setPlayerBannedHandler(request as ModeratePlayerRequest, reply, true),
+	);
+
+	// Unban a player
+	fastify.post('/admin/players/unban', { schema: unbanPlayerSchema, preValidation }, (request: AuthenticatedRequest, reply: FastifyReply) =>
+		setPlayerBannedHandler(request as ModeratePlayerRequest, reply, false),
+	);
+
+	// Correct the details of a map
+	fastify.post('/admin/maps/save', { schema: correctMapSchema, preValidation }, (request: AuthenticatedRequest, reply: FastifyReply) =>
+		correctMapHandler(request as CorrectMapRequest, reply),
+	);
+
+	// Create or update a campaign
+	fastify.post('/admin/campaigns/save', { schema: saveCampaignSchema, preValidation }, (request: AuthenticatedRequest, reply: FastifyReply) =>
+		saveCampaignHandler(request as SaveCampaignRequest, reply),
+	);
+
+	// Change the settings the plugin loads
+	fastify.post('/admin/config/save', { schema: saveConfigSchema, preValidation }, (request: AuthenticatedRequest, reply: FastifyReply) =>
+		saveConfigHandler(request as SaveRemoteConfigRequest, reply),
+	);
+
+	// Compare the accuracy of the prediction methods on stored runs
+	fastify.post('/admin/backtest', { schema: runBacktestSchema, preValidation }, (request: AuthenticatedRequest, reply: FastifyReply) =>
+		runBacktestHandler(request as RunBacktestRequest, reply),
+	);
+
+	// Browse the audit log
+	fastify.post('/admin/audit', { schema: getAuditLogSchema, preValidation }, (request: AuthenticatedRequest, reply: FastifyReply) =>
+		getAuditLogHandler(request as GetAuditLogRequest, reply),
+	);
+}
+
+/**
+ * List Splits Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function listSplitsHandler(request: ListModeratedSplitsRequest, reply: FastifyReply) {
+	// Get the filter, page and page size from the body
+	const { page = 1, pageSize = DEFAULT_ADMIN_PAGE_SIZE, ...filter } = request.body;
+
+	// Get the splits
+	const splitPage = await getModeratedSplits(filter, page, pageSize).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error listing splits');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to list splits');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Split Page is a type of Error and return the error response
+	if (splitPage instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, splitPage.message);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: splitPage });
+}
+
+/**
+ * Delete Split Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function deleteSplitHandler(request: ModerateSplitRequest, reply: FastifyReply) {
+	// Get the split ID and reason from the body
+	const { splitId, reason } = request.body;
+
+	// Delete the split
+	const split = await deleteSplit(request.userId!, splitId, reason ?? null).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error deleting split');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to delete split');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Split is a type of Error and return the error response
+	if (split instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, split.message);
+
+	// Check if the Split does not exist
+	if (!split) return sendError(reply, 404, ErrorCode.NOT_FOUND, 'Split not found');
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: split });
+}
+
+/**
+ * Update Split Status Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function updateSplitStatusHandler(request: ModerateSplitRequest, reply: FastifyReply) {
+	// Get the split ID, status and reason from the body
+	const { splitId, status, reason } = request.body;
+
+	// Change the status of the split
+	const split = await setSplitStatus(request.userId!, splitId, status!, reason ?? null).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error updating split status');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to update split status');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Split is a type of Error and return the error response
+	if (split instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, split.message);
+
+	// Check if the Split does not exist
+	if (!split) return sendError(reply, 404, ErrorCode.NOT_FOUND, 'Split not found');
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: split });
+}
+
+/**
+ * Set Player Banned Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @param banned Whether to ban or unban the player
+ * @returns The response
+ */
+async function setPlayerBannedHandler(request: ModeratePlayerRequest, reply: FastifyReply, banned: boolean) {
+	// Get the account ID and reason from the body
+	const { accountId, reason } = request.body;
+
+	// Ban or unban the player
+	const player = await setPlayerBanned(request.userId!, accountId, banned, reason ?? null).catch(error => {
+		// Log the error
+		request.log.error(error, `Error ${banned ? 'banning' : 'unbanning'} player`);
+
+		// Setup the new Error Response
+		const errorResponse = new Error(`Failed to ${banned ? 'ban' : 'unban'} player`);
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Player is a type of Error and return the error response
+	if (player instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, player.message);
+
+	// Check if the Player does not exist
+	if (!player) return sendError(reply, 404, ErrorCode.NOT_FOUND, 'Player not found');
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: player });
+}
+
+/**
+ * Correct Map Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function correctMapHandler(request: CorrectMapRequest, reply: FastifyReply) {
+	// Get the map details and reason from the body
+	const { mapId, name, author, checkpointCount, lapCount, medalTimes, reason } = request.body;
+
+	// Check if the Medal Times are not ordered from fastest to slowest
+	if (medalTimes && !areMedalTimesOrdered(medalTimes))
+		return sendError(reply, 400, ErrorCode.VALIDATION_ERROR, 'medalTimes must be ordered author <= gold <= silver <= bronze');
+
+	// Overwrite the details of the map
+	const map = await correctMap(request.userId!, mapId, { name, author, checkpointCount, lapCount, medalTimes }, reason ?? null).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error correcting map');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to correct map');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Map is a type of Error and return the error response
+	if (map instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, map.message);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: mapToResponse(map) });
+}
+
+/**
+ * Save Campaign Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function saveCampaignHandler(request: SaveCampaignRequest, reply: FastifyReply) {
+	// Get the campaign ID, name and maps from the body
+	const { campaignId, name, mapIds } = request.body;
+
+	// Save the campaign
+	const campaign = await saveCampaign(request.userId!, campaignId, name, mapIds).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error saving campaign');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to save campaign');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Campaign is a type of Error and return the error response
+	if (campaign instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, campaign.message);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: campaign });
+}
+
+/**
+ * Save Config Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function saveConfigHandler(request: SaveRemoteConfigRequest, reply: FastifyReply) {
+	// Save the changed settings
+	const remoteConfig = await saveRemoteConfig(request.userId!, request.body).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error saving remote config');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to save config');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Remote Config is a type of Error and return the error response
+	if (remoteConfig instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, remoteConfig.message);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: remoteConfig });
+}
+
+/**
+ * Run Backtest Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function runBacktestHandler(request: RunBacktestRequest, reply: FastifyReply) {
+	// Get the map IDs and the account ID of the player from the body
+	const { mapIds, accountId = null } = request.body;
+
+	// Run the backtest
+	const report = await runBacktest(mapIds, accountId).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error running backtest');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to run backtest');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Report is a type of Error and return the error response
+	if (report instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, report.message);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: report });
+}
+
+/**
+ * Get Audit Log Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function getAuditLogHandler(request: GetAuditLogRequest, reply: FastifyReply) {
+	// Get the filter, page and page size from the body
+	const { page = 1, pageSize = DEFAULT_ADMIN_PAGE_SIZE, ...query } = request.body;
+
+	// Get the audit log
+	const auditLog = await getAuditLog(query, page, pageSize).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error getting audit log');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to get audit log');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Audit Log is a type of Error and return the error response
+	if (auditLog instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, auditLog.message);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: auditLog });
+}
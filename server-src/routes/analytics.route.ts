@@ -0,0 +1,60 @@
+// External Imports
+import { FastifyInstance, FastifyReply } from 'fastify';
+
+// Internal Imports
+import { getSegmentAnalytics } from '../services/analytics.service';
+import { authenticateRequest } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { RATE_LIMITS } from '../services/rate-limit.service';
+import { getSegmentAnalyticsSchema } from '../schemas/analytics.schema';
+import { sendError } from '../utils/reply.utils';
+import { ErrorCode, type AuthenticatedRequest, type GetSegmentAnalyticsRequest } from '../types/types';
+
+/**
+ * Register the Analytics Routes
+ * @param fastify The Fastify Instance
+ * @returns void
+ */
+export async function registerAnalyticsRoutes(fastify: FastifyInstance): Promise<void> {
+	// Handles Segment Analytics Fetching
+	fastify.post(
+		'/analytics/segments',
+		{ schema: getSegmentAnalyticsSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => getSegmentAnalyticsHandler(request as GetSegmentAnalyticsRequest, reply),
+	);
+}
+
+/**
+ * Get Segment Analytics Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function getSegmentAnalyticsHandler(request: GetSegmentAnalyticsRequest, reply: FastifyReply) {
+	// Get the user ID
+	const userId = request.userId!;
+
+	// Get the map ID from the body
+	const { mapId } = request.body;
+
+	// Get the segment analytics
+	const analytics = await getSegmentAnalytics(userId, mapId).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error getting segment analytics');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to get segment analytics');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Analytics is a type of Error and return the error response
+	if (analytics instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, analytics.message);
+
+	// Check if the Map has no runs
+	if (!analytics) return sendError(reply, 404, ErrorCode.NOT_FOUND, 'No runs found for this map');
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: analytics });
+}
@@ -1,14 +1,25 @@
 // External Imports
-import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
-import { sign } from 'jsonwebtoken';
+import { FastifyInstance, FastifyReply } from 'fastify';
 
 // Internal Imports
-import { AuthenticationPayload, AuthUserResponse, AuthValidationResponse, type AuthUserRequest } from '../types/types';
-
-// Get the Environment Variables
-const JWT_SECRET = process.env.JWT_SECRET;
-const OPENPLANET_SECRET = process.env.OPENPLANET_SECRET;
-const OPENPLANET_VALIDATION_URL = process.env.OPENPLANET_VALIDATION_URL || 'https://openplanet.dev/api/auth/validate';
+import { config } from '../config/config';
+import { authenticateToken, issueTokens, revokeAccountTokens, revokeToken } from '../services/token.service';
+import { authenticateRequest, rejectAuthentication } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { RATE_LIMITS } from '../services/rate-limit.service';
+import { recordAuthAttempt } from '../services/metrics.service';
+import { authUserSchema, logoutEverywhereSchema, logoutSchema, refreshTokensSchema } from '../schemas/auth.schema';
+import {
+	AuthErrorCode,
+	AuthMethod,
+	TokenType,
+	type AuthenticatedRequest,
+	type AuthValidationResponse,
+	type AuthUserRequest,
+	type AuthUserRequestBody,
+	type RefreshTokenRequest,
+	type RefreshTokenRequestBody,
+} from '../types/types';
 
 /**
  * Register the Auth Routes
@@ -17,7 +28,30 @@ const OPENPLANET_VALIDATION_URL = process.env.OPENPLANET_VALIDATION_URL || 'http
  */
 export async function registerAuthRoutes(fastify: FastifyInstance) {
 	// Authenticate the User
-	fastify.post('/auth', (request: FastifyRequest, reply: FastifyReply) => authenticateUser(request as unknown as AuthUserRequest, reply));
+	fastify.post<{ Body: AuthUserRequestBody }>('/auth', { schema: authUserSchema, onRequest: rateLimit(RATE_LIMITS.AUTH) }, (request, reply) =>
+		authenticateUser(request, reply),
+	);
+
+	// Exchange a Refresh Token for a new Token Pair
+	fastify.post<{ Body: RefreshTokenRequestBody }>(
+		'/auth/refresh',
+		{ schema: refreshTokensSchema, onRequest: rateLimit(RATE_LIMITS.AUTH_REFRESH) },
+		(request, reply) => refreshTokens(request, reply),
+	);
+
+	// Log out the current Token
+	fastify.post(
+		'/auth/logout',
+		{ schema: logoutSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => logout(request, reply),
+	);
+
+	// Log out every Token of the Account
+	fastify.post(
+		'/auth/logout-all',
+		{ schema: logoutEverywhereSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => logoutEverywhere(request, reply),
+	);
 }
 
 /**
@@ -27,19 +61,13 @@ export async function registerAuthRoutes(fastify: FastifyInstance) {
  * @returns void
  */
 export async function authenticateUser(request: AuthUserRequest, reply: FastifyReply): Promise<void> {
-	// If the Openplanet Secret is not configured, return an error
-	if (!OPENPLANET_SECRET || !JWT_SECRET) return reply.code(500).send({ error: 'Server authentication not configured' });
-
 	// Get the Openplanet Token from the request body
-	const token = request.body?.openplanetToken;
-
-	// If the token is not present, return an error
-	if (!token) return reply.code(401).send({ error: 'Missing body parameter: openplanetToken' });
+	const token = request.body.openplanetToken;
 
 	// Setup the URL Encoded Form Data
 	const urlEncodedData = new URLSearchParams();
 	urlEncodedData.append('token', token);
-	urlEncodedData.append('secret', OPENPLANET_SECRET);
+	urlEncodedData.append('secret', config.openplanetSecret);
 
 	// Setup the Request Options
 	const requestOptions: RequestInit = {
@@ -49,9 +77,9 @@ export async function authenticateUser(request: AuthUserRequest, reply: FastifyR
 	};
 
 	// Validate token with Openplanet
-	const response = await fetch(OPENPLANET_VALIDATION_URL, requestOptions).catch(error => {
+	const response = await fetch(config.openplanetValidationUrl, requestOptions).catch(error => {
 		// Log the Error
-		console.error('Error validating token:', error);
+		request.log.error(error, 'Error validating token');
 
 		// Create the Error Response
 		const errorResponse = new Error('Authentication failed');
@@ -61,32 +89,95 @@ export async function authenticateUser(request: AuthUserRequest, reply: FastifyR
 	});
 
 	// Check if the Response is an Error
-	if (response instanceof Error) return reply.code(500).send({ error: 'Authentication failed' });
+	if (response instanceof Error)
+		return rejectAuthentication(reply, AuthMethod.OPENPLANET, 500, AuthErrorCode.OPENPLANET_VALIDATION_FAILED, 'Authentication failed');
 
 	// Parse the Response as JSON
 	const data: AuthValidationResponse = await response.json();
 
 	// If there is an error, return an error
-	if (data.error) return reply.code(401).send({ error: data.error });
+	if (data.error) return rejectAuthentication(reply, AuthMethod.OPENPLANET, 401, AuthErrorCode.OPENPLANET_VALIDATION_FAILED, data.error);
 
 	// If the account ID or display name is not present, return an error
-	if (!data.account_id || !data.display_name) return reply.code(401).send({ error: 'Invalid authentication response' });
+	if (!data.account_id || !data.display_name)
+		return rejectAuthentication(reply, AuthMethod.OPENPLANET, 401, AuthErrorCode.OPENPLANET_VALIDATION_FAILED, 'Invalid authentication response');
 
-	// Setup the JWT Payload
-	const payload: AuthenticationPayload = {
-		accountId: data.account_id,
-		displayName: data.display_name,
-		tokenTime: data.token_time || 0,
-	};
+	// Issue the Token Pair
+	const responseData = issueTokens(data.account_id, data.display_name, data.token_time || 0);
 
-	// Sign the JWT Payload
-	const signedToken = sign(payload, JWT_SECRET);
+	// Count the successful authentication
+	recordAuthAttempt(AuthMethod.OPENPLANET, null);
 
-	// Setup the Response Data
-	const responseData: AuthUserResponse = {
-		token: signedToken,
-	};
+	// Return the Response
+	return reply.code(200).send({ success: true, data: responseData });
+}
+
+/**
+ * Refresh the Tokens of the User
+ * @param request The Refresh Token Request
+ * @param reply The Fastify Reply
+ * @returns void
+ */
+export async function refreshTokens(request: RefreshTokenRequest, reply: FastifyReply): Promise<void> {
+	// Get the Refresh Token from the request body
+	const refreshToken = request.body.refreshToken;
+
+	// Authenticate the refresh token
+	const payload = await authenticateToken(refreshToken, TokenType.REFRESH);
+
+	// If the refresh token was rejected, return the auth error
+	if ('code' in payload) return rejectAuthentication(reply, AuthMethod.REFRESH_TOKEN, 401, payload.code, payload.error);
+
+	// Revoke the used refresh token so it can only be exchanged once (a concurrent refresh with the same token revoked it first)
+	if (!(await revokeToken(payload.jti, payload.accountId, payload.exp)))
+		return rejectAuthentication(reply, AuthMethod.REFRESH_TOKEN, 401, AuthErrorCode.TOKEN_REVOKED, 'Token revoked');
+
+	// Issue the new Token Pair
+	const responseData = issueTokens(payload.accountId, payload.displayName, payload.tokenTime);
+
+	// Count the successful authentication
+	recordAuthAttempt(AuthMethod.REFRESH_TOKEN, null);
 
 	// Return the Response
 	return reply.code(200).send({ success: true, data: responseData });
 }
+
+/**
+ * Log out the current Token (and the Refresh Token if provided)
+ * @param request The authenticated request
+ * @param reply The Fastify Reply
+ * @returns void
+ */
+export async function logout(request: AuthenticatedRequest, reply: FastifyReply): Promise<void> {
+	// Revoke the access token of the request
+	await revokeToken(request.tokenId!, request.userId!, request.tokenExpiresAt!);
+
+	// Get the Refresh Token from the request body
+	const refreshToken: string | undefined = request.body?.refreshToken;
+
+	// Check if a Refresh Token was provided
+	if (refreshToken) {
+		// Authenticate the refresh token
+		const payload = await authenticateToken(refreshToken, TokenType.REFRESH);
+
+		// Revoke the refresh token if it belongs to the same account
+		if (!('code' in payload) && payload.accountId === request.userId) await revokeToken(payload.jti, payload.accountId, payload.exp);
+	}
+
+	// Return the Response
+	return reply.code(200).send({ success: true });
+}
+
+/**
+ * Log out every Token issued to the Account so far
+ * @param request The authenticated request
+ * @param reply The Fastify Reply
+ * @returns void
+ */
+export async function logoutEverywhere(request: AuthenticatedRequest, reply: FastifyReply): Promise<void> {
+	// Revoke every token of the account
+	await revokeAccountTokens(request.userId!);
+
+	// Return the Response
+	return reply.code(200).send({ success: true });
+}
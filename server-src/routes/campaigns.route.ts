@@ -0,0 +1,130 @@
+// External Imports
+import { FastifyInstance, FastifyReply } from 'fastify';
+
+// Internal Imports
+import { DEFAULT_LEADERBOARD_PAGE_SIZE } from '../services/leaderboard.service';
+import { getCampaignProgress, getCampaigns, getCampaignStandings } from '../services/campaign.service';
+import { authenticateRequest } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { RATE_LIMITS } from '../services/rate-limit.service';
+import { getCampaignProgressSchema, getCampaignStandingsSchema, listCampaignsSchema } from '../schemas/campaigns.schema';
+import { sendError } from '../utils/reply.utils';
+import { ErrorCode, type AuthenticatedRequest, type GetCampaignProgressRequest, type GetCampaignStandingsRequest } from '../types/types';
+
+/**
+ * Register the Campaign Routes
+ * @param fastify The Fastify Instance
+ * @returns void
+ */
+export async function registerCampaignRoutes(fastify: FastifyInstance): Promise<void> {
+	// List the campaigns
+	fastify.get(
+		'/campaigns',
+		{ schema: listCampaignsSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => listCampaignsHandler(request, reply),
+	);
+
+	// Get the progress of a player through a campaign
+	fastify.post(
+		'/campaigns/progress',
+		{ schema: getCampaignProgressSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => getCampaignProgressHandler(request as GetCampaignProgressRequest, reply),
+	);
+
+	// Get the standings of a campaign
+	fastify.post(
+		'/campaigns/standings',
+		{ schema: getCampaignStandingsSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => getCampaignStandingsHandler(request as GetCampaignStandingsRequest, reply),
+	);
+}
+
+/**
+ * List Campaigns Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function listCampaignsHandler(request: AuthenticatedRequest, reply: FastifyReply) {
+	// Get the campaigns
+	const campaigns = await getCampaigns().catch(error => {
+		// Log the error
+		request.log.error(error, 'Error listing campaigns');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to list campaigns');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Campaigns is a type of Error and return the error response
+	if (campaigns instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, campaigns.message);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: campaigns });
+}
+
+/**
+ * Get Campaign Progress Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function getCampaignProgressHandler(request: GetCampaignProgressRequest, reply: FastifyReply) {
+	// Get the campaign ID and the account ID of the player from the body
+	const { campaignId, accountId = request.userId! } = request.body;
+
+	// Get the progress
+	const progress = await getCampaignProgress(campaignId, accountId).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error getting campaign progress');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to get campaign progress');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Progress is a type of Error and return the error response
+	if (progress instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, progress.message);
+
+	// Check if the Campaign does not exist
+	if (!progress) return sendError(reply, 404, ErrorCode.NOT_FOUND, 'Campaign not found');
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: progress });
+}
+
+/**
+ * Get Campaign Standings Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function getCampaignStandingsHandler(request: GetCampaignStandingsRequest, reply: FastifyReply) {
+	// Get the campaign ID, page and page size from the body
+	const { campaignId, page = 1, pageSize = DEFAULT_LEADERBOARD_PAGE_SIZE } = request.body;
+
+	// Get the standings
+	const standings = await getCampaignStandings(campaignId, request.userId!, page, pageSize).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error getting campaign standings');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to get campaign standings');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Standings is a type of Error and return the error response
+	if (standings instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, standings.message);
+
+	// Check if the Campaign does not exist
+	if (!standings) return sendError(reply, 404, ErrorCode.NOT_FOUND, 'Campaign not found');
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: standings });
+}
@@ -0,0 +1,259 @@
+// External Imports
+import { FastifyInstance, FastifyReply } from 'fastify';
+
+// Internal Imports
+import { DEFAULT_LEADERBOARD_PAGE_SIZE } from '../services/leaderboard.service';
+import { createClub, getClub, getClubErrorStatusCode, getClubLeaderboard, getPlayerClubs, inviteToClub, joinClub } from '../services/club.service';
+import { authenticateRequest } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { RATE_LIMITS } from '../services/rate-limit.service';
+import {
+	createClubSchema,
+	getClubLeaderboardSchema,
+	getClubSchema,
+	inviteClubMemberSchema,
+	joinClubSchema,
+	listClubsSchema,
+} from '../schemas/clubs.schema';
+import { sendError } from '../utils/reply.utils';
+import {
+	ErrorCode,
+	type AuthenticatedRequest,
+	type ClubRequest,
+	type CreateClubRequest,
+	type GetClubLeaderboardRequest,
+	type InviteClubMemberRequest,
+	type JoinClubRequest,
+} from '../types/types';
+
+/**
+ * Register the Club Routes
+ * @param fastify The Fastify Instance
+ * @returns void
+ */
+export async function registerClubRoutes(fastify: FastifyInstance): Promise<void> {
+	// List the clubs of the player
+	fastify.get(
+		'/clubs',
+		{ schema: listClubsSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => listClubsHandler(request, reply),
+	);
+
+	// Create a club
+	fastify.post(
+		'/clubs/create',
+		{ schema: createClubSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.CLUB)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => createClubHandler(request as CreateClubRequest, reply),
+	);
+
+	// Get a club and its members
+	fastify.post(
+		'/clubs/get',
+		{ schema: getClubSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => getClubHandler(request as ClubRequest, reply),
+	);
+
+	// Invite a player to a club
+	fastify.post(
+		'/clubs/invite',
+		{ schema: inviteClubMemberSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.CLUB)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => inviteClubMemberHandler(request as InviteClubMemberRequest, reply),
+	);
+
+	// Join a club
+	fastify.post(
+		'/clubs/join',
+		{ schema: joinClubSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.CLUB)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => joinClubHandler(request as JoinClubRequest, reply),
+	);
+
+	// Get the leaderboard of a map for the members of a club
+	fastify.post(
+		'/clubs/leaderboard',
+		{ schema: getClubLeaderboardSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => getClubLeaderboardHandler(request as GetClubLeaderboardRequest, reply),
+	);
+}
+
+/**
+ * List Clubs Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function listClubsHandler(request: AuthenticatedRequest, reply: FastifyReply) {
+	// Get the clubs of the player
+	const clubs = await getPlayerClubs(request.userId!).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error listing clubs');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to list clubs');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Clubs is a type of Error and return the error response
+	if (clubs instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, clubs.message);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: clubs });
+}
+
+/**
+ * Create Club Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function createClubHandler(request: CreateClubRequest, reply: FastifyReply) {
+	// Get the name and tag from the body
+	const { name, tag } = request.body;
+
+	// Create the club
+	const club = await createClub(request.userId!, request.displayName!, name, tag ?? null).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error creating club');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to create club');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Club is a type of Error and return the error response
+	if (club instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, club.message);
+
+	// Check if the Club could not be created
+	if ('code' in club) return sendError(reply, getClubErrorStatusCode(club), club.code, club.error);
+
+	// Return the response
+	return reply.code(201).send({ success: true, data: club });
+}
+
+/**
+ * Get Club Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function getClubHandler(request: ClubRequest, reply: FastifyReply) {
+	// Get the club
+	const club = await getClub(request.userId!, request.body.clubId).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error getting club');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to get club');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Club is a type of Error and return the error response
+	if (club instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, club.message);
+
+	// Check if the Club could not be found
+	if ('code' in club) return sendError(reply, getClubErrorStatusCode(club), club.code, club.error);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: club });
+}
+
+/**
+ * Invite Club Member Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function inviteClubMemberHandler(request: InviteClubMemberRequest, reply: FastifyReply) {
+	// Get the club ID and the account ID of the invitee from the body
+	const { clubId, accountId } = request.body;
+
+	// Invite the player
+	const club = await inviteToClub(request.userId!, clubId, accountId).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error inviting club member');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to invite club member');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Club is a type of Error and return the error response
+	if (club instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, club.message);
+
+	// Check if the Player could not be invited
+	if ('code' in club) return sendError(reply, getClubErrorStatusCode(club), club.code, club.error);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: club });
+}
+
+/**
+ * Join Club Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function joinClubHandler(request: JoinClubRequest, reply: FastifyReply) {
+	// Get the club ID and invite code from the body
+	const { clubId, inviteCode } = request.body;
+
+	// Join the club
+	const club = await joinClub(request.userId!, request.displayName!, clubId, inviteCode ?? null).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error joining club');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to join club');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Club is a type of Error and return the error response
+	if (club instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, club.message);
+
+	// Check if the Player could not join
+	if ('code' in club) return sendError(reply, getClubErrorStatusCode(club), club.code, club.error);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: club });
+}
+
+/**
+ * Get Club Leaderboard Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function getClubLeaderboardHandler(request: GetClubLeaderboardRequest, reply: FastifyReply) {
+	// Get the club ID, map ID, page and page size from the body
+	const { clubId, mapId, page = 1, pageSize = DEFAULT_LEADERBOARD_PAGE_SIZE } = request.body;
+
+	// Get the leaderboard
+	const leaderboard = await getClubLeaderboard(request.userId!, clubId, mapId, page, pageSize).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error getting club leaderboard');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to get club leaderboard');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Leaderboard is a type of Error and return the error response
+	if (leaderboard instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, leaderboard.message);
+
+	// Check if the Club could not be found
+	if ('code' in leaderboard) return sendError(reply, getClubErrorStatusCode(leaderboard), leaderboard.code, leaderboard.error);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: leaderboard });
+}
@@ -0,0 +1,48 @@
+// External Imports
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+
+// Internal Imports
+import { getRemoteConfig } from '../services/remote-config.service';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { RATE_LIMITS } from '../services/rate-limit.service';
+import { getConfigSchema } from '../schemas/config.schema';
+import { sendError } from '../utils/reply.utils';
+import { ErrorCode } from '../types/types';
+
+/**
+ * Register the Config Routes
+ * @param fastify The Fastify Instance
+ * @returns void
+ */
+export async function registerConfigRoutes(fastify: FastifyInstance): Promise<void> {
+	// Get the settings the plugin loads at startup
+	fastify.get('/config', { schema: getConfigSchema, onRequest: rateLimit(RATE_LIMITS.READ) }, (request: FastifyRequest, reply: FastifyReply) =>
+		getConfigHandler(request, reply),
+	);
+}
+
+/**
+ * Get Config Handler
+ * @param request The Fastify request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function getConfigHandler(request: FastifyRequest, reply: FastifyReply) {
+	// Get the remote config
+	const remoteConfig = await getRemoteConfig().catch(error => {
+		// Log the error
+		request.log.error(error, 'Error getting remote config');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to get config');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Remote Config is a type of Error and return the error response
+	if (remoteConfig instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, remoteConfig.message);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: remoteConfig });
+}
@@ -0,0 +1,38 @@
+// External Imports
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+
+// Internal Imports
+import { config } from '../config/config';
+import { database } from '../database/database';
+import { healthSchema } from '../schemas/health.schema';
+import { StorageType, type HealthStatus } from '../types/types';
+
+/**
+ * Register the Health Routes
+ * @param fastify The Fastify Instance
+ * @returns void
+ */
+export async function registerHealthRoutes(fastify: FastifyInstance): Promise<void> {
+	// Check the health of the server
+	fastify.get('/health', { schema: healthSchema }, (request: FastifyRequest, reply: FastifyReply) => getHealthHandler(request, reply));
+}
+
+/**
+ * Get Health Handler
+ * @param request The Fastify request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function getHealthHandler(request: FastifyRequest, reply: FastifyReply) {
+	// Get the State of the database (the in-memory storage is always ready)
+	const databaseState = config.storage === StorageType.MEMORY ? 'memory' : database.getState();
+
+	// Check if the Database is ready
+	const isReady = databaseState === 'memory' || databaseState === 'connected';
+
+	// Setup the Health Status
+	const health: HealthStatus = { status: isReady ? 'ok' : 'unavailable', database: databaseState, timestamp: new Date().toISOString() };
+
+	// Return the response
+	return reply.code(isReady ? 200 : 503).send(health);
+}
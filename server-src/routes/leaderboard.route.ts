@@ -0,0 +1,57 @@
+// External Imports
+import { FastifyInstance, FastifyReply } from 'fastify';
+
+// Internal Imports
+import { DEFAULT_LEADERBOARD_PAGE_SIZE, getMapLeaderboard } from '../services/leaderboard.service';
+import { authenticateRequest } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { RATE_LIMITS } from '../services/rate-limit.service';
+import { getLeaderboardSchema } from '../schemas/leaderboard.schema';
+import { sendError } from '../utils/reply.utils';
+import { ErrorCode, type AuthenticatedRequest, type GetLeaderboardRequest } from '../types/types';
+
+/**
+ * Register the Leaderboard Routes
+ * @param fastify The Fastify Instance
+ * @returns void
+ */
+export async function registerLeaderboardRoutes(fastify: FastifyInstance): Promise<void> {
+	// Handles Leaderboard Fetching
+	fastify.post(
+		'/leaderboard/get',
+		{ schema: getLeaderboardSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => getLeaderboardHandler(request as GetLeaderboardRequest, reply),
+	);
+}
+
+/**
+ * Get Leaderboard Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function getLeaderboardHandler(request: GetLeaderboardRequest, reply: FastifyReply) {
+	// Get the user ID
+	const userId = request.userId!;
+
+	// Get the map ID, page and page size from the body
+	const { mapId, page = 1, pageSize = DEFAULT_LEADERBOARD_PAGE_SIZE } = request.body;
+
+	// Get the leaderboard
+	const leaderboard = await getMapLeaderboard(mapId, userId, page, pageSize).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error getting leaderboard');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to get leaderboard');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Leaderboard is a type of Error and return the error response
+	if (leaderboard instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, leaderboard.message);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: leaderboard });
+}
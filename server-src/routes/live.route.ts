@@ -0,0 +1,198 @@
+// External Imports
+import { FastifyInstance, FastifyReply } from 'fastify';
+import type { OutgoingHttpHeaders } from 'http';
+
+// Internal Imports
+import { validateSplitTarget } from '../services/comparison.service';
+import { canWatchLiveRuns, pushLiveRunEvent, setLiveSharing, subscribeToLiveRuns } from '../services/live.service';
+import { authenticateRequest } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { requireAllowedSplitType } from '../middleware/remote-config.middleware';
+import { RATE_LIMITS } from '../services/rate-limit.service';
+import { pushLiveRunSchema, setLiveSharingSchema, subscribeLiveRunSchema } from '../schemas/live.schema';
+import { sendError } from '../utils/reply.utils';
+import {
+	ErrorCode,
+	GetSplitsType,
+	type AuthenticatedRequest,
+	type LiveRunEvent,
+	type PushLiveRunRequest,
+	type SetLiveSharingRequest,
+	type SubscribeLiveRunRequest,
+} from '../types/types';
+
+// Setup the Interval a comment is sent at to keep idle streams open through proxies
+const KEEP_ALIVE_INTERVAL = 15 * 1000;
+
+// Setup the Set of open streams so they can be ended when the server shuts down
+const openStreams = new Set<FastifyReply['raw']>();
+
+/**
+ * Register the Live Routes
+ * @param fastify The Fastify Instance
+ * @returns void
+ */
+export async function registerLiveRoutes(fastify: FastifyInstance): Promise<void> {
+	// Handles Checkpoint Events of runs in progress
+	fastify.post(
+		'/live/push',
+		{
+			schema: pushLiveRunSchema,
+			preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.PREDICT), requireAllowedSplitType('comparison', GetSplitsType.PERSONAL_BEST)],
+		},
+		(request: AuthenticatedRequest, reply: FastifyReply) => pushLiveRunHandler(request as PushLiveRunRequest, reply),
+	);
+
+	// Handles Viewers watching the runs of a player
+	fastify.get(
+		'/live/:accountId/stream',
+		{ schema: subscribeLiveRunSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => subscribeLiveRunHandler(request as SubscribeLiveRunRequest, reply),
+	);
+
+	// Handles Players choosing who can watch their runs
+	fastify.post(
+		'/live/sharing',
+		{ schema: setLiveSharingSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => setLiveSharingHandler(request as SetLiveSharingRequest, reply),
+	);
+
+	// End the open streams before the server closes, as it would otherwise wait for the viewers to disconnect
+	fastify.addHook('preClose', async () => {
+		for (const stream of openStreams) stream.end();
+	});
+}
+
+/**
+ * Push Live Run Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function pushLiveRunHandler(request: PushLiveRunRequest, reply: FastifyReply) {
+	// Get the user ID and display name
+	const userId = request.userId!;
+	const displayName = request.displayName!;
+
+	// Get the comparison type and target parameters from the body
+	const { comparison = GetSplitsType.PERSONAL_BEST, ...target } = request.body;
+
+	// Validate the target parameters of the comparison
+	const targetError = validateSplitTarget(comparison, target);
+
+	// Check if the Target parameters are invalid
+	if (targetError) return sendError(reply, 400, ErrorCode.VALIDATION_ERROR, targetError);
+
+	// Predict the finish time and send it to the viewers
+	const event = await pushLiveRunEvent(userId, displayName, request.body).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error pushing live run event');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to push live run event');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Event is a type of Error and return the error response
+	if (event instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, event.message);
+
+	// Check if the Total Checkpoints could not be resolved
+	if (!event)
+		return sendError(reply, 400, ErrorCode.VALIDATION_ERROR, 'totalCheckpoints is required when there is no comparison split or map details');
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: event });
+}
+
+/**
+ * Subscribe Live Run Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns void
+ */
+async function subscribeLiveRunHandler(request: SubscribeLiveRunRequest, reply: FastifyReply) {
+	// Get the account ID of the player to watch
+	const { accountId } = request.params;
+
+	// Check if the Player shares their live runs with the viewer
+	const canWatch = await canWatchLiveRuns(request.userId!, accountId).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error checking live run sharing');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to watch live runs');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Sharing Check is a type of Error and return the error response
+	if (canWatch instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, canWatch.message);
+
+	// Check if the Player does not share their live runs with the viewer
+	if (!canWatch) return sendError(reply, 403, ErrorCode.LIVE_RUNS_NOT_SHARED, 'This player does not share their live runs with you');
+
+	// Setup the Event Stream Headers
+	reply.headers({ 'content-type': 'text/event-stream', 'cache-control': 'no-cache', connection: 'keep-alive' });
+
+	// Take over the response so it stays open for the stream
+	reply.hijack();
+
+	// Send the headers, including the ones set by the hooks
+	reply.raw.writeHead(200, reply.getHeaders() as OutgoingHttpHeaders);
+
+	// Keep track of the stream
+	openStreams.add(reply.raw);
+
+	// Send every live run event of the player to the viewer, ending the stream once the player stops sharing their live runs with them
+	const unsubscribe = subscribeToLiveRuns(
+		accountId,
+		request.userId!,
+		(event: LiveRunEvent) => reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+		() => {
+			stopWatching();
+			reply.raw.end();
+		},
+	);
+
+	// Keep the stream open while the player is idle
+	const keepAlive = setInterval(() => reply.raw.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL);
+
+	// Setup the Function that stops sending events and keep-alives to the viewer
+	const stopWatching = () => {
+		clearInterval(keepAlive);
+		unsubscribe();
+		openStreams.delete(reply.raw);
+	};
+
+	// Stop watching once the viewer disconnects
+	request.raw.on('close', stopWatching);
+}
+
+/**
+ * Set Live Sharing Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function setLiveSharingHandler(request: SetLiveSharingRequest, reply: FastifyReply) {
+	// Save who can watch the live runs of the player
+	const sharing = await setLiveSharing(request.userId!, request.displayName!, request.body.sharing).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error setting live sharing');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to set live sharing');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Sharing is a type of Error and return the error response
+	if (sharing instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, sharing.message);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: { sharing } });
+}
@@ -0,0 +1,85 @@
+// External Imports
+import { FastifyInstance, FastifyReply } from 'fastify';
+
+// Internal Imports
+import { areMedalTimesOrdered, getMapById, mapToResponse, saveMap } from '../services/map.service';
+import { authenticateRequest } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { RATE_LIMITS } from '../services/rate-limit.service';
+import { getMapSchema, saveMapSchema } from '../schemas/maps.schema';
+import { sendError } from '../utils/reply.utils';
+import { ErrorCode, type AuthenticatedRequest, type GetMapRequest, type SaveMapRequest } from '../types/types';
+
+/**
+ * Register the Map Routes
+ * @param fastify The Fastify Instance
+ * @returns void
+ */
+export async function registerMapRoutes(fastify: FastifyInstance): Promise<void> {
+	// Save the details of a map
+	fastify.post(
+		'/maps/save',
+		{ schema: saveMapSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.SAVE_MAP)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => saveMapHandler(request as SaveMapRequest, reply),
+	);
+
+	// Handles Map Fetching
+	fastify.post(
+		'/maps/get',
+		{ schema: getMapSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => getMapHandler(request as GetMapRequest, reply),
+	);
+}
+
+/**
+ * Save Map Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function saveMapHandler(request: SaveMapRequest, reply: FastifyReply) {
+	// Get the map details from the body
+	const { mapId, name, author, checkpointCount, lapCount, medalTimes } = request.body;
+
+	// Check if the Medal Times are not ordered from fastest to slowest
+	if (medalTimes && !areMedalTimesOrdered(medalTimes))
+		return sendError(reply, 400, ErrorCode.VALIDATION_ERROR, 'medalTimes must be ordered author <= gold <= silver <= bronze');
+
+	// Save the details the map does not have yet
+	const map = await saveMap(mapId, { name, author, checkpointCount, lapCount, medalTimes }).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error saving map');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to save map');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Map is a type of Error and return the error response
+	if (map instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, map.message);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: mapToResponse(map) });
+}
+
+/**
+ * Get Map Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function getMapHandler(request: GetMapRequest, reply: FastifyReply) {
+	// Get the map ID from the body
+	const { mapId } = request.body;
+
+	// Get the map
+	const map = await getMapById(mapId);
+
+	// Check if the Map does not exist
+	if (!map) return sendError(reply, 404, ErrorCode.NOT_FOUND, 'Map not found');
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: mapToResponse(map) });
+}
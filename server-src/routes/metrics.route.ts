@@ -0,0 +1,34 @@
+// External Imports
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+
+// Internal Imports
+import { config } from '../config/config';
+import { renderMetrics } from '../services/metrics.service';
+import { metricsSchema } from '../schemas/metrics.schema';
+import { sendError } from '../utils/reply.utils';
+import { AuthErrorCode } from '../types/types';
+
+/**
+ * Register the Metrics Routes
+ * @param fastify The Fastify Instance
+ * @returns void
+ */
+export async function registerMetricsRoutes(fastify: FastifyInstance): Promise<void> {
+	// Get the metrics for Prometheus to scrape
+	fastify.get('/metrics', { schema: metricsSchema }, (request: FastifyRequest, reply: FastifyReply) => getMetricsHandler(request, reply));
+}
+
+/**
+ * Get Metrics Handler
+ * @param request The Fastify request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function getMetricsHandler(request: FastifyRequest, reply: FastifyReply) {
+	// Check if the Metrics are protected and the request does not send the metrics token
+	if (config.metricsToken && request.headers['authorization'] !== `Bearer ${config.metricsToken}`)
+		return sendError(reply, 401, AuthErrorCode.INVALID_TOKEN, 'Invalid metrics token');
+
+	// Return the Metrics
+	return reply.code(200).header('content-type', 'text/plain; version=0.0.4; charset=utf-8').send(renderMetrics());
+}
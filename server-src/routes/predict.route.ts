@@ -0,0 +1,71 @@
+// External Imports
+import { FastifyInstance, FastifyReply } from 'fastify';
+
+// Internal Imports
+import { getRunPrediction, validateSplitTarget } from '../services/comparison.service';
+import { authenticateRequest } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { requireAllowedSplitType } from '../middleware/remote-config.middleware';
+import { RATE_LIMITS } from '../services/rate-limit.service';
+import { predictSchema } from '../schemas/predict.schema';
+import { sendError } from '../utils/reply.utils';
+import { ErrorCode, GetSplitsType, type AuthenticatedRequest, type PredictRequest } from '../types/types';
+
+/**
+ * Register the Predict Routes
+ * @param fastify The Fastify Instance
+ * @returns void
+ */
+export async function registerPredictRoutes(fastify: FastifyInstance): Promise<void> {
+	// Handles Finish Time Predictions
+	fastify.post(
+		'/predict',
+		{
+			schema: predictSchema,
+			preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.PREDICT), requireAllowedSplitType('comparison', GetSplitsType.PERSONAL_BEST)],
+		},
+		(request: AuthenticatedRequest, reply: FastifyReply) => predictHandler(request as PredictRequest, reply),
+	);
+}
+
+/**
+ * Predict Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function predictHandler(request: PredictRequest, reply: FastifyReply) {
+	// Get the user ID
+	const userId = request.userId!;
+
+	// Get the comparison type and target parameters from the body
+	const { comparison = GetSplitsType.PERSONAL_BEST, ...target } = request.body;
+
+	// Validate the target parameters of the comparison
+	const targetError = validateSplitTarget(comparison, target);
+
+	// Check if the Target parameters are invalid
+	if (targetError) return sendError(reply, 400, ErrorCode.VALIDATION_ERROR, targetError);
+
+	// Predict the finish time against the comparison split
+	const runPrediction = await getRunPrediction(userId, request.body).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error loading comparison split');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to load comparison split');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Run Prediction is a type of Error and return the error response
+	if (runPrediction instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, runPrediction.message);
+
+	// Check if the Total Checkpoints could not be resolved
+	if (!runPrediction)
+		return sendError(reply, 400, ErrorCode.VALIDATION_ERROR, 'totalCheckpoints is required when there is no comparison split or map details');
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: runPrediction.prediction });
+}
@@ -2,14 +2,42 @@
 import { FastifyInstance, FastifyReply } from 'fastify';
 
 // Internal Imports
-import { getGlobalBestSplit, getPlayerBestSplit, getPlayerSplits, saveSplit } from '../services/split.service';
+import { getGlobalBestSplit, getPlayerBestSplit, getPlayerSplits, getSplitByClientRunId, getTargetSplit, saveSplit } from '../services/split.service';
+import { saveSplitBatch } from '../services/batch-upload.service';
+import { exportedRunsToCsv, getExportedRuns } from '../services/split-export.service';
+import { MAX_IMPORT_BODY_SIZE, importSplits } from '../services/split-import.service';
+import { TARGET_SPLIT_TYPES, validateSplitTarget } from '../services/comparison.service';
+import { getGlobalSumOfBest, getPlayerSumOfBest } from '../services/sum-of-best.service';
+import { getFinishDistribution } from '../services/finish-distribution.service';
+import { validateSplitData, validateSplitForMap } from '../services/split-validation.service';
 import { authenticateRequest } from '../middleware/auth.middleware';
+import { rateLimit } from '../middleware/rate-limit.middleware';
+import { requireAllowedSplitType, requireServerSaves } from '../middleware/remote-config.middleware';
+import { RATE_LIMITS } from '../services/rate-limit.service';
 import {
+	exportSplitsSchema,
+	getFinishDistributionSchema,
+	getSplitsSchema,
+	importSplitsSchema,
+	saveSplitSchema,
+	saveSplitsBatchSchema,
+} from '../schemas/splits.schema';
+import { sendError } from '../utils/reply.utils';
+import {
+	ErrorCode,
 	GetSplitsType,
 	PopulatedTMNextSplit,
+	SplitExportFormat,
+	SumOfBest,
 	type AuthenticatedRequest,
+	type ExportSplitsRequest,
+	type GetFinishDistributionRequest,
 	type GetSplitsRequest,
+	type ImportSplitsRequest,
+	type SaveSplitData,
 	type SaveSplitRequest,
+	type SaveSplitResult,
+	type SaveSplitsBatchRequest,
 	type TMNextSplit,
 } from '../types/types';
 
@@ -20,13 +48,49 @@ import {
  */
 export async function registerSplitRoutes(fastify: FastifyInstance): Promise<void> {
 	// Save a new split
-	fastify.post('/splits/save', { preHandler: authenticateRequest }, (request: AuthenticatedRequest, reply: FastifyReply) =>
-		saveSplitHandler(request as SaveSplitRequest, reply),
+	fastify.post(
+		'/splits/save',
+		{ schema: saveSplitSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.SAVE_SPLIT), requireServerSaves] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => saveSplitHandler(request as SaveSplitRequest, reply),
+	);
+
+	// Save a batch of runs
+	fastify.post(
+		'/splits/batch',
+		{ schema: saveSplitsBatchSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.SAVE_SPLIT_BATCH), requireServerSaves] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => saveSplitsBatchHandler(request as SaveSplitsBatchRequest, reply),
+	);
+
+	// Export the player's runs
+	fastify.post(
+		'/splits/export',
+		{ schema: exportSplitsSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => exportSplitsHandler(request as ExportSplitsRequest, reply),
+	);
+
+	// Import runs from a LiveSplit or CSV file
+	fastify.post(
+		'/splits/import',
+		{
+			schema: importSplitsSchema,
+			bodyLimit: MAX_IMPORT_BODY_SIZE,
+			preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.SAVE_SPLIT_BATCH), requireServerSaves],
+		},
+		(request: AuthenticatedRequest, reply: FastifyReply) => importSplitsHandler(request as ImportSplitsRequest, reply),
 	);
 
 	// Handles Split Fetching
-	fastify.post('/splits/get', { preHandler: authenticateRequest }, (request: AuthenticatedRequest, reply: FastifyReply) =>
-		getSplitsHandler(request as GetSplitsRequest, reply),
+	fastify.post(
+		'/splits/get',
+		{ schema: getSplitsSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.READ), requireAllowedSplitType('type')] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => getSplitsHandler(request as GetSplitsRequest, reply),
+	);
+
+	// Handles Finish Time Distribution Estimates
+	fastify.post(
+		'/splits/distribution',
+		{ schema: getFinishDistributionSchema, preValidation: [authenticateRequest, rateLimit(RATE_LIMITS.PREDICT)] },
+		(request: AuthenticatedRequest, reply: FastifyReply) => getFinishDistributionHandler(request as GetFinishDistributionRequest, reply),
 	);
 }
 
@@ -41,33 +105,46 @@ async function saveSplitHandler(request: SaveSplitRequest, reply: FastifyReply)
 	const userId = request.userId!;
 	const displayName = request.displayName!;
 
-	// Get the map ID, checkpoint times, total time and run date from the body
-	const { mapId, checkpointTimes, totalTime, runDate } = request.body;
+	// Validate the split data beyond its schema
+	const validationError = validateSplitData(request.body);
 
-	// Check if the Map ID Is missing
-	if (!mapId) return reply.code(400).send({ error: 'mapId is required' });
+	// Check if the Split Data Is invalid and return the error response
+	if (validationError) return sendError(reply, 400, validationError.code, validationError.error);
 
-	// Check if the Checkpoint Times Is missing
-	if (!checkpointTimes) return reply.code(400).send({ error: 'checkpointTimes is required' });
+	// Get the map ID, checkpoint times, total time, run date and client run ID from the body
+	const { mapId, checkpointTimes, totalTime, runDate, clientRunId } = request.body;
 
-	// Check if the Total Time Is missing
-	if (!totalTime) return reply.code(400).send({ error: 'totalTime is required' });
+	// Find the split the run was already saved as
+	const existingSplit = clientRunId ? await getSplitByClientRunId(userId, clientRunId) : null;
 
-	// Check if the Checkpoint Times Is not an array
-	if (!Array.isArray(checkpointTimes) || checkpointTimes.length === 0)
-		return reply.code(400).send({ error: 'checkpointTimes must be a non-empty array' });
+	// Check if the Run was already saved and return the existing split
+	if (existingSplit) return reply.code(200).send({ success: true, data: splitToSaveResponse(existingSplit, mapId) });
 
-	// Check if the Total Time Is not a number or is not positive
-	if (typeof totalTime !== 'number' || totalTime <= 0) return reply.code(400).send({ error: 'totalTime must be a positive number' });
+	// Setup the Split Data
+	const splitData: SaveSplitData = { checkpointTimes, totalTime, runDate: runDate ? new Date(runDate) : null, clientRunId };
+
+	// Validate the split data against the known details of the map
+	const mapValidationError = await validateSplitForMap(mapId, splitData).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error validating split');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to validate split');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Map Validation Error is a type of Error and return the error response
+	if (mapValidationError instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, mapValidationError.message);
+
+	// Check if the Split Data does not match the map and return the error response
+	if (mapValidationError) return sendError(reply, 400, mapValidationError.code, mapValidationError.error);
 
 	// Save the split
-	const split = await saveSplit(userId, displayName, mapId, {
-		checkpointTimes,
-		totalTime,
-		runDate: runDate ? new Date(runDate) : null,
-	}).catch(error => {
+	const savedSplit = await saveSplit(userId, displayName, mapId, splitData).catch(error => {
 		// Log the error
-		console.error('Error saving split:', error);
+		request.log.error(error, 'Error saving split');
 
 		// Setup the new Error Response
 		const errorResponse = new Error('Failed to save split');
@@ -76,20 +153,125 @@ async function saveSplitHandler(request: SaveSplitRequest, reply: FastifyReply)
 		return errorResponse;
 	});
 
-	// Check if the Split is a type of Error and return the error response
-	if (split instanceof Error) return reply.code(500).send({ error: split.message });
+	// Check if the Saved Split is a type of Error and return the error response
+	if (savedSplit instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, savedSplit.message);
 
-	// Setup the Response Data
-	const responseData = {
-		id: split._id,
-		mapId,
-		checkpointTimes: split.checkpointTimes,
-		totalTime: split.totalTime,
-		runDate: split.runDate,
-	};
+	// Check if the Run was saved by a concurrent upload and return the existing split
+	if (!savedSplit) {
+		// Find the split the run was saved as
+		const concurrentSplit = await getSplitByClientRunId(userId, clientRunId!);
+
+		// Check if the Concurrent Split could not be found and return the error response
+		if (!concurrentSplit) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, 'Failed to save split');
+
+		// Return the response
+		return reply.code(200).send({ success: true, data: splitToSaveResponse(concurrentSplit, mapId) });
+	}
 
 	// Return the response
-	return reply.code(201).send({ success: true, data: responseData });
+	return reply.code(201).send({ success: true, data: splitToSaveResponse(savedSplit.split, mapId, savedSplit) });
+}
+
+/**
+ * Save Splits Batch Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function saveSplitsBatchHandler(request: SaveSplitsBatchRequest, reply: FastifyReply) {
+	// Get the user ID and display name
+	const userId = request.userId!;
+	const displayName = request.displayName!;
+
+	// Save the runs
+	const batchResult = await saveSplitBatch(userId, displayName, request.body.runs).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error saving split batch');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to save split batch');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Batch Result is a type of Error and return the error response (the batch can be retried as a whole)
+	if (batchResult instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, batchResult.message);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: batchResult });
+}
+
+/**
+ * Export Splits Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function exportSplitsHandler(request: ExportSplitsRequest, reply: FastifyReply) {
+	// Get the user ID
+	const userId = request.userId!;
+
+	// Get the map ID and format from the body
+	const { mapId, format } = request.body;
+
+	// Get the runs to export
+	const runs = await getExportedRuns(userId, mapId).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error exporting splits');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to export splits');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Runs is a type of Error and return the error response
+	if (runs instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, runs.message);
+
+	// Check if the Format Is JSON and return the response
+	if (format === SplitExportFormat.JSON) return reply.code(200).send({ success: true, data: runs });
+
+	// Return the CSV File
+	return reply
+		.code(200)
+		.header('content-type', 'text/csv; charset=utf-8')
+		.header('content-disposition', `attachment; filename="splits-${mapId ?? 'all'}.csv"`)
+		.send(exportedRunsToCsv(runs));
+}
+
+/**
+ * Import Splits Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function importSplitsHandler(request: ImportSplitsRequest, reply: FastifyReply) {
+	// Get the user ID and display name
+	const userId = request.userId!;
+	const displayName = request.displayName!;
+
+	// Import the runs of the file
+	const importResult = await importSplits(userId, displayName, request.body).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error importing splits');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to import splits');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Import Result is a type of Error and return the error response (runs saved before the failure are duplicates on retry)
+	if (importResult instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, importResult.message);
+
+	// Check if the File was rejected as a whole and return the error response
+	if ('code' in importResult) return sendError(reply, 400, importResult.code, importResult.error);
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: importResult });
 }
 
 /**
@@ -102,22 +284,23 @@ async function getSplitsHandler(request: GetSplitsRequest, reply: FastifyReply)
 	// Get the user ID and display name
 	const userId = request.userId!;
 
-	// Get the map ID, checkpoint times, total time and run date from the body
-	const { mapId, type } = request.body;
+	// Get the map ID, type and target parameters from the body
+	const { mapId, type, ...target } = request.body;
 
-	// Check if the Map ID Is missing
-	if (!mapId) return reply.code(400).send({ error: 'mapId is required' });
+	// Validate the target parameters of the type
+	const targetError = validateSplitTarget(type, target);
 
-	// Check if the Type Is missing
-	if (!type) return reply.code(400).send({ error: 'type is required' });
+	// Check if the Target parameters are invalid
+	if (targetError) return sendError(reply, 400, ErrorCode.VALIDATION_ERROR, targetError);
 
 	// Setup the Splits Array
 	const splits: Array<PopulatedTMNextSplit> = new Array();
 
-	// Log the user ID and map ID
-	console.log('User ID:', userId);
-	console.log('Map ID:', mapId);
-	console.log('Type:', type);
+	// Setup the Sum of Best
+	let sumOfBest: SumOfBest | null = null;
+
+	// Log the requested splits
+	request.log.debug({ userId, mapId, type }, 'Getting splits');
 
 	// Check if the Type Is All
 	if (type === GetSplitsType.ALL) {
@@ -146,8 +329,23 @@ async function getSplitsHandler(request: GetSplitsRequest, reply: FastifyReply)
 		if (personalBestSplit) splits.push(personalBestSplit);
 	}
 
+	// Check if the Type Is a Target Type (player best, rank or percentile)
+	if (TARGET_SPLIT_TYPES.includes(type)) {
+		// Get the target split
+		const targetSplit = await getTargetSplit(userId, type, mapId, target);
+
+		// Check if the Target Split Is not null and add it to the splits array
+		if (targetSplit) splits.push(targetSplit);
+	}
+
+	// Check if the Type Is Sum of Best
+	if (type === GetSplitsType.SUM_OF_BEST) sumOfBest = await getPlayerSumOfBest(userId, mapId);
+
+	// Check if the Type Is Global Sum of Best
+	if (type === GetSplitsType.GLOBAL_SUM_OF_BEST) sumOfBest = await getGlobalSumOfBest(mapId);
+
 	// Map the Splits to a proper response format
-	const mappedSplits = splits.map(split => ({
+	const mappedSplits: Array<object> = splits.map(split => ({
 		id: split._id.toString(),
 		playerId: split.playerId._id.toString(),
 		mapId: split.mapId._id.toString(),
@@ -156,12 +354,88 @@ async function getSplitsHandler(request: GetSplitsRequest, reply: FastifyReply)
 		runDate: split.runDate,
 	}));
 
+	// Check if the Sum of Best Is not null and add it as a synthetic split
+	if (sumOfBest)
+		mappedSplits.push({
+			id: sumOfBest.referenceSplit._id.toString(),
+			playerId: sumOfBest.referenceSplit.playerId._id.toString(),
+			mapId: sumOfBest.referenceSplit.mapId._id.toString(),
+			checkpointTimes: sumOfBest.checkpointTimes,
+			totalTime: sumOfBest.totalTime,
+			runDate: sumOfBest.referenceSplit.runDate,
+			referenceTotalTime: sumOfBest.referenceSplit.totalTime,
+			segments: sumOfBest.segments,
+		});
+
 	// Setup the Response Data
 	const data = { success: true, data: mappedSplits };
 
-	// Log the response data
-	console.log('Data:', data);
+	// Log the number of splits returned
+	request.log.debug({ splitCount: mappedSplits.length }, 'Returning splits');
 
 	// Return the response
 	return reply.code(200).send(data);
 }
+
+/**
+ * Get Finish Distribution Handler
+ * @param request The authenticated request
+ * @param reply The Fastify reply
+ * @returns The response
+ */
+async function getFinishDistributionHandler(request: GetFinishDistributionRequest, reply: FastifyReply) {
+	// Get the user ID
+	const userId = request.userId!;
+
+	// Get the map ID and checkpoint times from the body
+	const { mapId, checkpointTimes } = request.body;
+
+	// Get the finish distribution
+	const distribution = await getFinishDistribution(userId, mapId, checkpointTimes).catch(error => {
+		// Log the error
+		request.log.error(error, 'Error estimating finish distribution');
+
+		// Setup the new Error Response
+		const errorResponse = new Error('Failed to estimate finish distribution');
+
+		// Return the error response
+		return errorResponse;
+	});
+
+	// Check if the Distribution is a type of Error and return the error response
+	if (distribution instanceof Error) return sendError(reply, 500, ErrorCode.INTERNAL_ERROR, distribution.message);
+
+	// Check if there were no runs to base the estimate on
+	if (!distribution) return sendError(reply, 404, ErrorCode.NOT_FOUND, 'Not enough runs on this map to estimate a finish time');
+
+	// Return the response
+	return reply.code(200).send({ success: true, data: distribution });
+}
+
+/**
+ * Map a saved Split to the response format of the save route
+ * @param split The saved split
+ * @param mapId The ID of the map
+ * @param records The records the split set, or null if it was saved by an earlier upload
+ * @returns The response data
+ */
+function splitToSaveResponse(
+	split: Pick<TMNextSplit, '_id' | 'checkpointTimes' | 'totalTime' | 'runDate' | 'status' | 'flags'>,
+	mapId: string,
+	records: Omit<SaveSplitResult, 'split'> | null = null,
+) {
+	// Return the Response Data
+	return {
+		id: split._id.toString(),
+		mapId,
+		checkpointTimes: split.checkpointTimes,
+		totalTime: split.totalTime,
+		runDate: split.runDate,
+		status: split.status,
+		flags: split.flags,
+		isPersonalBest: records?.isPersonalBest ?? false,
+		isGlobalBest: records?.isGlobalBest ?? false,
+		improvement: records?.improvement ?? null,
+		rank: records?.rank ?? null,
+	};
+}
@@ -0,0 +1,69 @@
+// Internal Imports
+import { exportedRunSchema } from './splits.schema';
+import { bearerAuthSecurity, dateSchema, getErrorResponseSchemas, getSuccessResponseSchema } from './common.schema';
+import type { AccountArchive, AccountDeletionResult, DeleteAccountRequest, ObjectSchema, PlayerProfile } from '../types/types';
+
+// Setup the Schema of the profile of a player
+const playerProfileSchema = {
+	type: 'object',
+	properties: {
+		accountId: { type: 'string' },
+		displayName: { type: 'string' },
+		createdAt: { ...dateSchema, description: 'The date the player first used the server' },
+		runCount: { type: 'integer' },
+		mapCount: { type: 'integer' },
+	},
+} satisfies ObjectSchema<PlayerProfile>;
+
+// Setup the Schema of the Get Profile Route
+export const getProfileSchema = {
+	tags: ['Account'],
+	summary: 'Get what the server stores about the player',
+	security: bearerAuthSecurity,
+	response: { 200: getSuccessResponseSchema(playerProfileSchema), ...getErrorResponseSchemas(401, 404, 500) },
+};
+
+// Setup the Schema of the Export Account Route
+export const exportAccountSchema = {
+	tags: ['Account'],
+	summary: 'Download the profile and every run of the player as a JSON file',
+	security: bearerAuthSecurity,
+	response: {
+		200: {
+			type: 'object',
+			description: 'The archive, sent as an attachment without the success envelope',
+			properties: {
+				exportedAt: dateSchema,
+				profile: playerProfileSchema,
+				runs: { type: 'array', items: exportedRunSchema },
+			},
+		} satisfies ObjectSchema<AccountArchive>,
+		...getErrorResponseSchemas(401, 404, 500),
+	},
+};
+
+// Setup the Schema of the Delete Account Route
+export const deleteAccountSchema = {
+	tags: ['Account'],
+	summary: 'Delete the player, their runs and the data derived from them',
+	description: 'The account ID must be sent again to confirm the deletion. The deletion is recorded in the audit log and cannot be undone.',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['confirmAccountId'],
+		properties: {
+			confirmAccountId: { type: 'string', minLength: 1, description: 'The account ID of the player, to confirm the deletion' },
+		},
+	} satisfies ObjectSchema<DeleteAccountRequest['body']>,
+	response: {
+		200: getSuccessResponseSchema({
+			type: 'object',
+			properties: {
+				deletedSplits: { type: 'integer' },
+				affectedMaps: { type: 'integer', description: 'The number of maps whose derived data was refreshed' },
+				auditId: { type: 'string', description: 'The ID of the audit log entry of the deletion' },
+			},
+		} satisfies ObjectSchema<AccountDeletionResult>),
+		...getErrorResponseSchemas(400, 401, 404, 500),
+	},
+};
@@ -0,0 +1,195 @@
+// Internal Imports
+import { DEFAULT_ADMIN_PAGE_SIZE, MAX_ADMIN_PAGE_SIZE } from '../services/admin.service';
+import {
+	bearerAuthSecurity,
+	checkpointTimesSchema,
+	dateSchema,
+	getErrorResponseSchemas,
+	getSuccessResponseSchema,
+	mapIdSchema,
+} from './common.schema';
+import {
+	AuditAction,
+	SplitStatus,
+	SplitSuspicionFlag,
+	type AuditLogPage,
+	type AuditLogRecord,
+	type GetAuditLogRequest,
+	type ListModeratedSplitsRequest,
+	type ModeratedPlayer,
+	type ModeratedSplit,
+	type ModeratedSplitPage,
+	type ModeratePlayerRequest,
+	type ModerateSplitRequest,
+	type ObjectSchema,
+} from '../types/types';
+
+// Setup the Schema of the ID of a split
+const splitIdSchema = { type: 'string', pattern: '^[0-9a-fA-F]{24}$', description: 'The ID of the split' };
+
+// Setup the Schema of the reason for a moderation action
+const reasonSchema = { type: 'string', maxLength: 500, description: 'The reason for the action, recorded in the audit log' };
+
+// Setup the Schemas of the page parameters of the admin lists
+const pageSchema = { type: 'integer', minimum: 1, default: 1 };
+const pageSizeSchema = { type: 'integer', minimum: 1, maximum: MAX_ADMIN_PAGE_SIZE, default: DEFAULT_ADMIN_PAGE_SIZE };
+
+// Setup the Schema of a split as admins review it
+const moderatedSplitSchema = {
+	type: 'object',
+	properties: {
+		id: { type: 'string' },
+		accountId: { type: 'string' },
+		displayName: { type: 'string' },
+		playerBanned: { type: 'boolean' },
+		mapId: { type: 'string' },
+		checkpointTimes: checkpointTimesSchema,
+		totalTime: { type: 'integer' },
+		runDate: dateSchema,
+		uploadedAt: dateSchema,
+		status: { type: 'string', enum: Object.values(SplitStatus) },
+		flags: { type: 'array', items: { type: 'string', enum: Object.values(SplitSuspicionFlag) } },
+	},
+} satisfies ObjectSchema<ModeratedSplit>;
+
+// Setup the Schema of the moderation state of a player
+const moderatedPlayerSchema = {
+	type: 'object',
+	properties: {
+		accountId: { type: 'string' },
+		displayName: { type: 'string' },
+		bannedAt: { ...dateSchema, nullable: true },
+		banReason: { type: 'string', nullable: true },
+	},
+} satisfies ObjectSchema<ModeratedPlayer>;
+
+// Setup the Schema of an audit log entry
+const auditLogRecordSchema = {
+	type: 'object',
+	properties: {
+		id: { type: 'string' },
+		action: { type: 'string', enum: Object.values(AuditAction) },
+		actorAccountId: { type: 'string' },
+		targetAccountId: { type: 'string', nullable: true },
+		details: { type: 'object', additionalProperties: true },
+		createdAt: dateSchema,
+	},
+} satisfies ObjectSchema<AuditLogRecord>;
+
+// Setup the Schema of the body of the routes that moderate a player
+const moderatePlayerBodySchema = {
+	type: 'object',
+	required: ['accountId'],
+	properties: {
+		accountId: { type: 'string', minLength: 1 },
+		reason: reasonSchema,
+	},
+} satisfies ObjectSchema<ModeratePlayerRequest['body']>;
+
+// Setup the Schema of the List Splits Route
+export const listModeratedSplitsSchema = {
+	tags: ['Admin'],
+	summary: 'List the most recently uploaded splits, optionally only the quarantined or flagged ones',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		properties: {
+			flaggedOnly: { type: 'boolean', default: false },
+			mapId: mapIdSchema,
+			accountId: { type: 'string', minLength: 1 },
+			page: pageSchema,
+			pageSize: pageSizeSchema,
+		},
+	} satisfies ObjectSchema<ListModeratedSplitsRequest['body']>,
+	response: {
+		200: getSuccessResponseSchema({
+			type: 'object',
+			properties: {
+				page: { type: 'integer' },
+				pageSize: { type: 'integer' },
+				total: { type: 'integer' },
+				splits: { type: 'array', items: moderatedSplitSchema },
+			},
+		} satisfies ObjectSchema<ModeratedSplitPage>),
+		...getErrorResponseSchemas(400, 401, 403, 500),
+	},
+};
+
+// Setup the Schema of the Delete Split Route
+export const deleteSplitSchema = {
+	tags: ['Admin'],
+	summary: 'Delete a split',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['splitId'],
+		properties: {
+			splitId: splitIdSchema,
+			reason: reasonSchema,
+		},
+	},
+	response: { 200: getSuccessResponseSchema(moderatedSplitSchema), ...getErrorResponseSchemas(400, 401, 403, 404, 500) },
+};
+
+// Setup the Schema of the Update Split Status Route
+export const updateSplitStatusSchema = {
+	tags: ['Admin'],
+	summary: 'Change the review status of a split, e.g. to hide it from global queries',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['splitId', 'status'],
+		properties: {
+			splitId: splitIdSchema,
+			status: { type: 'string', enum: Object.values(SplitStatus) },
+			reason: reasonSchema,
+		},
+	} satisfies ObjectSchema<ModerateSplitRequest['body']>,
+	response: { 200: getSuccessResponseSchema(moderatedSplitSchema), ...getErrorResponseSchemas(400, 401, 403, 404, 500) },
+};
+
+// Setup the Schema of the Ban Player Route
+export const banPlayerSchema = {
+	tags: ['Admin'],
+	summary: 'Ban a player, excluding their runs from global queries',
+	security: bearerAuthSecurity,
+	body: moderatePlayerBodySchema,
+	response: { 200: getSuccessResponseSchema(moderatedPlayerSchema), ...getErrorResponseSchemas(400, 401, 403, 404, 500) },
+};
+
+// Setup the Schema of the Unban Player Route
+export const unbanPlayerSchema = {
+	tags: ['Admin'],
+	summary: 'Lift the ban of a player',
+	security: bearerAuthSecurity,
+	body: moderatePlayerBodySchema,
+	response: { 200: getSuccessResponseSchema(moderatedPlayerSchema), ...getErrorResponseSchemas(400, 401, 403, 404, 500) },
+};
+
+// Setup the Schema of the Get Audit Log Route
+export const getAuditLogSchema = {
+	tags: ['Admin'],
+	summary: 'Browse the audit log, newest first',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		properties: {
+			action: { type: 'string', enum: Object.values(AuditAction) },
+			accountId: { type: 'string', minLength: 1, description: 'The account ID of the player who took the action or had it taken on them' },
+			page: pageSchema,
+			pageSize: pageSizeSchema,
+		},
+	} satisfies ObjectSchema<GetAuditLogRequest['body']>,
+	response: {
+		200: getSuccessResponseSchema({
+			type: 'object',
+			properties: {
+				page: { type: 'integer' },
+				pageSize: { type: 'integer' },
+				total: { type: 'integer' },
+				entries: { type: 'array', items: auditLogRecordSchema },
+			},
+		} satisfies ObjectSchema<AuditLogPage>),
+		...getErrorResponseSchemas(400, 401, 403, 500),
+	},
+};
@@ -0,0 +1,133 @@
+// Internal Imports
+import { MAX_BACKTEST_MAPS } from '../services/backtest.service';
+import { bearerAuthSecurity, dateSchema, getErrorResponseSchemas, getSuccessResponseSchema, mapIdSchema } from './common.schema';
+import {
+	PredictorMethod,
+	type BacktestCheckpointStatistics,
+	type BacktestMapStatistics,
+	type BacktestMethodStatistics,
+	type BacktestPlayerStatistics,
+	type BacktestReport,
+	type BacktestStatistics,
+	type GetSegmentAnalyticsRequest,
+	type ObjectSchema,
+	type RunBacktestRequest,
+	type SegmentAnalysis,
+	type SegmentAnalytics,
+} from '../types/types';
+
+// Setup the Schema of the analysis of a segment
+const segmentAnalysisSchema = {
+	type: 'object',
+	properties: {
+		index: { type: 'integer' },
+		min: { type: 'number' },
+		median: { type: 'number' },
+		mean: { type: 'number' },
+		standardDeviation: { type: 'number' },
+		p10: { type: 'number' },
+		p25: { type: 'number' },
+		p75: { type: 'number' },
+		p90: { type: 'number' },
+		playerTime: { type: 'integer', nullable: true, description: "The player's time on the segment in their personal best" },
+		percentile: { type: 'number', nullable: true, description: 'The percentage of personal bests faster than the player on the segment' },
+	},
+} satisfies ObjectSchema<SegmentAnalysis>;
+
+// Setup the Schema of the Get Segment Analytics Route
+export const getSegmentAnalyticsSchema = {
+	tags: ['Analytics'],
+	summary: "Get the distribution of every segment of a map across every player's personal best",
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['mapId'],
+		properties: {
+			mapId: mapIdSchema,
+		},
+	} satisfies ObjectSchema<GetSegmentAnalyticsRequest['body']>,
+	response: {
+		200: getSuccessResponseSchema({
+			type: 'object',
+			properties: {
+				mapId: { type: 'string' },
+				playerCount: { type: 'integer' },
+				computedAt: dateSchema,
+				segments: { type: 'array', items: segmentAnalysisSchema },
+			},
+		} satisfies ObjectSchema<SegmentAnalytics>),
+		...getErrorResponseSchemas(400, 401, 404, 500),
+	},
+};
+
+// Setup the Schema of the accuracy of the predictions of a method
+const backtestMethodStatisticsSchema = {
+	type: 'object',
+	properties: {
+		predictions: { type: 'integer' },
+		meanError: { type: 'integer', description: 'The average of the predicted time minus the finish time (positive when predicting too slow)' },
+		meanAbsoluteError: { type: 'integer' },
+		rootMeanSquaredError: { type: 'integer' },
+	},
+} satisfies ObjectSchema<BacktestMethodStatistics>;
+
+// Setup the Properties of the accuracy of every method over a group of replayed runs
+const backtestStatisticsProperties = {
+	runs: { type: 'integer' },
+	methods: {
+		type: 'object',
+		properties: Object.fromEntries(Object.values(PredictorMethod).map(method => [method, backtestMethodStatisticsSchema])) as Record<
+			PredictorMethod,
+			object
+		>,
+	} satisfies ObjectSchema<BacktestStatistics['methods']>,
+} satisfies ObjectSchema<BacktestStatistics>['properties'];
+
+// Setup the Schema of the Run Backtest Route
+export const runBacktestSchema = {
+	tags: ['Admin'],
+	summary: 'Replay the stored runs of maps and compare the accuracy of every prediction method',
+	description:
+		"Every run is replayed checkpoint by checkpoint against the player's personal best before it. Runs without an earlier run of the player are skipped.",
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['mapIds'],
+		properties: {
+			mapIds: { type: 'array', items: mapIdSchema, minItems: 1, maxItems: MAX_BACKTEST_MAPS, uniqueItems: true },
+			accountId: { type: 'string', minLength: 1, description: 'The account ID of the player to only replay the runs of' },
+		},
+	} satisfies ObjectSchema<RunBacktestRequest['body']>,
+	response: {
+		200: getSuccessResponseSchema({
+			type: 'object',
+			properties: {
+				overall: { type: 'object', properties: backtestStatisticsProperties } satisfies ObjectSchema<BacktestStatistics>,
+				bestMethod: { type: 'string', enum: Object.values(PredictorMethod), nullable: true },
+				skippedRuns: { type: 'integer' },
+				maps: {
+					type: 'array',
+					items: {
+						type: 'object',
+						properties: { mapId: { type: 'string' }, name: { type: 'string', nullable: true }, ...backtestStatisticsProperties },
+					} satisfies ObjectSchema<BacktestMapStatistics>,
+				},
+				players: {
+					type: 'array',
+					items: {
+						type: 'object',
+						properties: { accountId: { type: 'string' }, displayName: { type: 'string' }, ...backtestStatisticsProperties },
+					} satisfies ObjectSchema<BacktestPlayerStatistics>,
+				},
+				checkpoints: {
+					type: 'array',
+					items: {
+						type: 'object',
+						properties: { checkpoint: { type: 'integer' }, ...backtestStatisticsProperties },
+					} satisfies ObjectSchema<BacktestCheckpointStatistics>,
+				},
+			},
+		} satisfies ObjectSchema<BacktestReport>),
+		...getErrorResponseSchemas(400, 401, 403, 500),
+	},
+};
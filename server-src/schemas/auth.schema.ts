@@ -0,0 +1,66 @@
+// Internal Imports
+import { bearerAuthSecurity, getErrorResponseSchemas, getSuccessResponseSchema, successResponseSchema } from './common.schema';
+import type { AuthUserRequest, AuthUserResponse, ObjectSchema, RefreshTokenRequest } from '../types/types';
+
+// Setup the Schema of an issued Token Pair
+const tokenPairSchema = {
+	type: 'object',
+	required: ['token', 'expiresIn', 'refreshToken', 'refreshExpiresIn'],
+	properties: {
+		token: { type: 'string', description: 'The access token to send in the Authorization header' },
+		expiresIn: { type: 'integer', description: 'The number of seconds until the access token expires' },
+		refreshToken: { type: 'string', description: 'The token used to get a new token pair' },
+		refreshExpiresIn: { type: 'integer', description: 'The number of seconds until the refresh token expires' },
+	},
+} satisfies ObjectSchema<AuthUserResponse>;
+
+// Setup the Schema of the Auth Route
+export const authUserSchema = {
+	tags: ['Auth'],
+	summary: 'Exchange an Openplanet token for an access and refresh token',
+	body: {
+		type: 'object',
+		required: ['openplanetToken'],
+		properties: {
+			openplanetToken: { type: 'string', minLength: 1, description: 'The token returned by Auth::GetToken() in the plugin' },
+		},
+	} satisfies ObjectSchema<AuthUserRequest['body']>,
+	response: { 200: getSuccessResponseSchema(tokenPairSchema), ...getErrorResponseSchemas(400, 401, 500) },
+};
+
+// Setup the Schema of the Refresh Route
+export const refreshTokensSchema = {
+	tags: ['Auth'],
+	summary: 'Exchange a refresh token for a new token pair (each refresh token can only be used once)',
+	body: {
+		type: 'object',
+		required: ['refreshToken'],
+		properties: {
+			refreshToken: { type: 'string', minLength: 1, description: 'The refresh token of the current token pair' },
+		},
+	} satisfies ObjectSchema<RefreshTokenRequest['body']>,
+	response: { 200: getSuccessResponseSchema(tokenPairSchema), ...getErrorResponseSchemas(400, 401, 500) },
+};
+
+// Setup the Schema of the Logout Route
+export const logoutSchema = {
+	tags: ['Auth'],
+	summary: 'Revoke the current access token, and the refresh token if one is sent',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		nullable: true,
+		properties: {
+			refreshToken: { type: 'string', description: 'The refresh token to revoke along with the access token' },
+		},
+	},
+	response: { 200: successResponseSchema, ...getErrorResponseSchemas(401, 500) },
+};
+
+// Setup the Schema of the Logout Everywhere Route
+export const logoutEverywhereSchema = {
+	tags: ['Auth'],
+	summary: 'Revoke every token issued to the account so far',
+	security: bearerAuthSecurity,
+	response: { 200: successResponseSchema, ...getErrorResponseSchemas(401, 500) },
+};
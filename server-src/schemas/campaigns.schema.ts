@@ -0,0 +1,139 @@
+// Internal Imports
+import { MAX_CAMPAIGN_MAPS } from '../services/campaign.service';
+import { DEFAULT_LEADERBOARD_PAGE_SIZE, MAX_LEADERBOARD_PAGE_SIZE } from '../services/leaderboard.service';
+import { bearerAuthSecurity, dateSchema, getErrorResponseSchemas, getSuccessResponseSchema, mapIdSchema } from './common.schema';
+import type {
+	CampaignDetails,
+	CampaignMapProgress,
+	CampaignProgress,
+	CampaignStandingEntry,
+	CampaignStandings,
+	GetCampaignProgressRequest,
+	GetCampaignStandingsRequest,
+	ObjectSchema,
+	SaveCampaignRequest,
+} from '../types/types';
+
+// Setup the Schema of the ID of a campaign
+const campaignIdSchema = { type: 'string', minLength: 1, maxLength: 100, description: 'The ID of the campaign' };
+
+// Setup the Schema of a campaign
+const campaignSchema = {
+	type: 'object',
+	properties: {
+		campaignId: { type: 'string' },
+		name: { type: 'string' },
+		mapIds: { type: 'array', items: { type: 'string' }, description: 'The IDs of the maps in the campaign, in order' },
+	},
+} satisfies ObjectSchema<CampaignDetails>;
+
+// Setup the Schema of the personal best of a player on a map of a campaign
+const campaignMapProgressSchema = {
+	type: 'object',
+	properties: {
+		mapId: { type: 'string' },
+		name: { type: 'string', nullable: true },
+		splitId: { type: 'string', nullable: true },
+		totalTime: { type: 'integer', nullable: true },
+		runDate: { ...dateSchema, nullable: true },
+	},
+} satisfies ObjectSchema<CampaignMapProgress>;
+
+// Setup the Schema of a row of the standings of a campaign
+const campaignStandingEntrySchema = {
+	type: 'object',
+	properties: {
+		rank: { type: 'integer' },
+		accountId: { type: 'string' },
+		displayName: { type: 'string' },
+		totalTime: { type: 'integer', description: 'The sum of the best times of the player in milliseconds' },
+		finishedMaps: { type: 'integer' },
+		missingMaps: { type: 'integer' },
+	},
+} satisfies ObjectSchema<CampaignStandingEntry>;
+
+// Setup the Schema of the List Campaigns Route
+export const listCampaignsSchema = {
+	tags: ['Campaigns'],
+	summary: 'List the campaigns, newest first',
+	security: bearerAuthSecurity,
+	response: { 200: getSuccessResponseSchema({ type: 'array', items: campaignSchema }), ...getErrorResponseSchemas(401, 500) },
+};
+
+// Setup the Schema of the Save Campaign Route
+export const saveCampaignSchema = {
+	tags: ['Admin'],
+	summary: 'Create a campaign or replace its name and maps',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['campaignId', 'name', 'mapIds'],
+		properties: {
+			campaignId: campaignIdSchema,
+			name: { type: 'string', minLength: 1, maxLength: 100 },
+			mapIds: { type: 'array', items: mapIdSchema, minItems: 1, maxItems: MAX_CAMPAIGN_MAPS, uniqueItems: true },
+		},
+	} satisfies ObjectSchema<SaveCampaignRequest['body']>,
+	response: { 200: getSuccessResponseSchema(campaignSchema), ...getErrorResponseSchemas(400, 401, 403, 500) },
+};
+
+// Setup the Schema of the Get Campaign Progress Route
+export const getCampaignProgressSchema = {
+	tags: ['Campaigns'],
+	summary: 'Get the personal best of a player on every map of a campaign and their total time',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['campaignId'],
+		properties: {
+			campaignId: campaignIdSchema,
+			accountId: { type: 'string', minLength: 1, description: 'The account ID of the player (defaults to the authenticated player)' },
+		},
+	} satisfies ObjectSchema<GetCampaignProgressRequest['body']>,
+	response: {
+		200: getSuccessResponseSchema({
+			type: 'object',
+			properties: {
+				campaignId: { type: 'string' },
+				name: { type: 'string' },
+				accountId: { type: 'string' },
+				maps: { type: 'array', items: campaignMapProgressSchema },
+				totalTime: { type: 'integer', description: 'The sum of the personal best times in milliseconds' },
+				finishedMaps: { type: 'integer' },
+				missingMaps: { type: 'integer' },
+			},
+		} satisfies ObjectSchema<CampaignProgress>),
+		...getErrorResponseSchemas(400, 401, 404, 500),
+	},
+};
+
+// Setup the Schema of the Get Campaign Standings Route
+export const getCampaignStandingsSchema = {
+	tags: ['Campaigns'],
+	summary: 'Get a page of the standings of a campaign, ranking the players by the maps they finished and their total time',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['campaignId'],
+		properties: {
+			campaignId: campaignIdSchema,
+			page: { type: 'integer', minimum: 1, default: 1 },
+			pageSize: { type: 'integer', minimum: 1, maximum: MAX_LEADERBOARD_PAGE_SIZE, default: DEFAULT_LEADERBOARD_PAGE_SIZE },
+		},
+	} satisfies ObjectSchema<GetCampaignStandingsRequest['body']>,
+	response: {
+		200: getSuccessResponseSchema({
+			type: 'object',
+			properties: {
+				campaignId: { type: 'string' },
+				page: { type: 'integer' },
+				pageSize: { type: 'integer' },
+				mapCount: { type: 'integer' },
+				totalPlayers: { type: 'integer' },
+				entries: { type: 'array', items: campaignStandingEntrySchema },
+				playerEntry: { ...campaignStandingEntrySchema, nullable: true, description: 'The entry of the requesting player' },
+			},
+		} satisfies ObjectSchema<CampaignStandings>),
+		...getErrorResponseSchemas(400, 401, 404, 500),
+	},
+};
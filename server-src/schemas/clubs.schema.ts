@@ -0,0 +1,130 @@
+// Internal Imports
+import { DEFAULT_LEADERBOARD_PAGE_SIZE, MAX_LEADERBOARD_PAGE_SIZE } from '../services/leaderboard.service';
+import { leaderboardSchema } from './leaderboard.schema';
+import { bearerAuthSecurity, clubIdSchema, getErrorResponseSchemas, getSuccessResponseSchema, mapIdSchema } from './common.schema';
+import type {
+	ClubDetails,
+	ClubMember,
+	ClubRequest,
+	CreateClubRequest,
+	GetClubLeaderboardRequest,
+	InviteClubMemberRequest,
+	JoinClubRequest,
+	ObjectSchema,
+} from '../types/types';
+
+// Setup the Schema of a member of a club
+const clubMemberSchema = {
+	type: 'object',
+	properties: {
+		accountId: { type: 'string' },
+		displayName: { type: 'string' },
+		isOwner: { type: 'boolean' },
+	},
+} satisfies ObjectSchema<ClubMember>;
+
+// Setup the Schema of a club
+const clubSchema = {
+	type: 'object',
+	properties: {
+		id: { type: 'string' },
+		name: { type: 'string' },
+		tag: { type: 'string', nullable: true },
+		members: { type: 'array', items: clubMemberSchema },
+		inviteCode: { type: 'string', nullable: true, description: 'The code that lets any player join the club (only shown to the owner)' },
+		invitedAccountIds: {
+			type: 'array',
+			items: { type: 'string' },
+			description: 'The players invited who did not join yet (only shown to the owner)',
+		},
+	},
+} satisfies ObjectSchema<ClubDetails>;
+
+// Setup the Schema of the List Clubs Route
+export const listClubsSchema = {
+	tags: ['Clubs'],
+	summary: 'List the clubs the authenticated player is a member of',
+	security: bearerAuthSecurity,
+	response: { 200: getSuccessResponseSchema({ type: 'array', items: clubSchema }), ...getErrorResponseSchemas(401, 500) },
+};
+
+// Setup the Schema of the Create Club Route
+export const createClubSchema = {
+	tags: ['Clubs'],
+	summary: 'Create a club owned by the authenticated player',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['name'],
+		properties: {
+			name: { type: 'string', minLength: 3, maxLength: 40, pattern: '\\S', description: 'The name of the club (unique, ignoring case)' },
+			tag: { type: 'string', maxLength: 6, description: 'The short tag of the club' },
+		},
+	} satisfies ObjectSchema<CreateClubRequest['body']>,
+	response: { 201: getSuccessResponseSchema(clubSchema), ...getErrorResponseSchemas(400, 401, 409, 500) },
+};
+
+// Setup the Schema of the Get Club Route
+export const getClubSchema = {
+	tags: ['Clubs'],
+	summary: 'Get a club and its members (members only)',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['clubId'],
+		properties: {
+			clubId: clubIdSchema,
+		},
+	} satisfies ObjectSchema<ClubRequest['body']>,
+	response: { 200: getSuccessResponseSchema(clubSchema), ...getErrorResponseSchemas(400, 401, 403, 404, 500) },
+};
+
+// Setup the Schema of the Invite Club Member Route
+export const inviteClubMemberSchema = {
+	tags: ['Clubs'],
+	summary: 'Invite a player to a club (owner only)',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['clubId', 'accountId'],
+		properties: {
+			clubId: clubIdSchema,
+			accountId: { type: 'string', minLength: 1, description: 'The account ID of the player to invite' },
+		},
+	} satisfies ObjectSchema<InviteClubMemberRequest['body']>,
+	response: { 200: getSuccessResponseSchema(clubSchema), ...getErrorResponseSchemas(400, 401, 403, 404, 409, 500) },
+};
+
+// Setup the Schema of the Join Club Route
+export const joinClubSchema = {
+	tags: ['Clubs'],
+	summary: 'Join a club with an invite or the invite code of the club',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['clubId'],
+		properties: {
+			clubId: clubIdSchema,
+			inviteCode: { type: 'string', minLength: 1, description: 'The invite code of the club, not needed if the player was invited' },
+		},
+	} satisfies ObjectSchema<JoinClubRequest['body']>,
+	response: { 200: getSuccessResponseSchema(clubSchema), ...getErrorResponseSchemas(400, 401, 403, 404, 409, 500) },
+};
+
+// Setup the Schema of the Get Club Leaderboard Route
+export const getClubLeaderboardSchema = {
+	tags: ['Clubs'],
+	summary: 'Get a page of the leaderboard of a map, ranking only the members of a club (members only)',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['clubId', 'mapId'],
+		properties: {
+			clubId: clubIdSchema,
+			mapId: mapIdSchema,
+			page: { type: 'integer', minimum: 1, default: 1 },
+			pageSize: { type: 'integer', minimum: 1, maximum: MAX_LEADERBOARD_PAGE_SIZE, default: DEFAULT_LEADERBOARD_PAGE_SIZE },
+		},
+	} satisfies ObjectSchema<GetClubLeaderboardRequest['body']>,
+	response: { 200: getSuccessResponseSchema(leaderboardSchema), ...getErrorResponseSchemas(400, 401, 403, 404, 500) },
+};
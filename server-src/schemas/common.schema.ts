@@ -0,0 +1,69 @@
+// Internal Imports
+import type { ErrorResponse, ObjectSchema } from '../types/types';
+
+// Setup the Security Requirement of the authenticated routes
+export const bearerAuthSecurity = [{ bearerAuth: [] }];
+
+// Setup the Schema of a Map ID
+export const mapIdSchema = { type: 'string', minLength: 1, description: 'The ID of the map' };
+
+// Setup the Schema of a Club ID
+export const clubIdSchema = { type: 'string', pattern: '^[0-9a-fA-F]{24}$', description: 'The ID of the club' };
+
+// Setup the Schema of a list of cumulative checkpoint times
+export const checkpointTimesSchema = {
+	type: 'array',
+	items: { type: 'integer', minimum: 0 },
+	description: 'The cumulative checkpoint times in milliseconds',
+};
+
+// Setup the Schema of a date
+export const dateSchema = { type: 'string', format: 'date-time' };
+
+// Setup the Schema of the Error Envelope
+export const errorResponseSchema = {
+	type: 'object',
+	description: 'The error envelope every failed request is answered with',
+	required: ['success', 'code', 'error'],
+	properties: {
+		success: { type: 'boolean', enum: [false] },
+		code: { type: 'string', description: 'The machine-readable error code' },
+		error: { type: 'string', description: 'The human-readable error message' },
+	},
+} satisfies ObjectSchema<ErrorResponse>;
+
+// Setup the Schema of a success response without data
+export const successResponseSchema = {
+	type: 'object',
+	required: ['success'],
+	properties: {
+		success: { type: 'boolean', enum: [true] },
+	},
+};
+
+/**
+ * Get the response schemas of the error status codes a route can answer with
+ * @param statusCodes The HTTP status codes
+ * @returns The response schemas keyed by status code
+ */
+export function getErrorResponseSchemas(...statusCodes: number[]): Record<number, typeof errorResponseSchema> {
+	// Return the Error Envelope for every status code
+	return Object.fromEntries(statusCodes.map(statusCode => [statusCode, errorResponseSchema]));
+}
+
+/**
+ * Get the schema of the success envelope around the data of a response
+ * @param data The schema of the data
+ * @returns The schema of the success envelope
+ */
+export function getSuccessResponseSchema(data: object): object {
+	// Return the Success Envelope
+	return {
+		type: 'object',
+		required: ['success', 'data'],
+		properties: {
+			success: { type: 'boolean', enum: [true] },
+			data,
+		},
+	};
+}
@@ -0,0 +1,78 @@
+// Internal Imports
+import { PLUGIN_VERSION_PATTERN } from '../services/remote-config.service';
+import { bearerAuthSecurity, getErrorResponseSchemas, getSuccessResponseSchema } from './common.schema';
+import {
+	GetSplitsType,
+	PredictorMethod,
+	type ObjectSchema,
+	type PredictionParameters,
+	type RemoteConfig,
+	type SaveRemoteConfigRequestBody,
+} from '../types/types';
+
+// Setup the Schemas of the settings of the remote config
+const apiUrlSchema = { type: 'string', format: 'uri', nullable: true, description: 'The URL the plugin sends its requests to' };
+const minPluginVersionSchema = {
+	type: 'string',
+	pattern: PLUGIN_VERSION_PATTERN,
+	maxLength: 20,
+	description: 'The oldest plugin version the server accepts requests from',
+};
+const serverSavesEnabledSchema = { type: 'boolean', description: 'Whether the server saves new runs' };
+const allowedSplitTypesSchema = {
+	type: 'array',
+	items: { type: 'string', enum: Object.values(GetSplitsType) },
+	uniqueItems: true,
+	description: 'The types of splits that can be fetched and compared against',
+};
+const defaultMethodSchema = { type: 'string', enum: Object.values(PredictorMethod), description: 'The method the plugin predicts with by default' };
+const hybridBestSplitsWeightSchema = {
+	type: 'number',
+	minimum: 0,
+	maximum: 1,
+	description: 'The weight of the best splits prediction in the hybrid method (the linear prediction gets the rest)',
+};
+
+// Setup the Schema of the remote config
+const remoteConfigSchema = {
+	type: 'object',
+	properties: {
+		apiUrl: apiUrlSchema,
+		minPluginVersion: minPluginVersionSchema,
+		serverSavesEnabled: serverSavesEnabledSchema,
+		allowedSplitTypes: allowedSplitTypesSchema,
+		prediction: {
+			type: 'object',
+			properties: { defaultMethod: defaultMethodSchema, hybridBestSplitsWeight: hybridBestSplitsWeightSchema },
+		} satisfies ObjectSchema<PredictionParameters>,
+	},
+} satisfies ObjectSchema<RemoteConfig>;
+
+// Setup the Schema of the Get Config Route
+export const getConfigSchema = {
+	tags: ['Config'],
+	summary: 'Get the settings the plugin loads at startup',
+	description: 'Public, so outdated plugins can still read the minimum version they need to update to.',
+	response: { 200: getSuccessResponseSchema(remoteConfigSchema), ...getErrorResponseSchemas(500) },
+};
+
+// Setup the Schema of the Save Config Route
+export const saveConfigSchema = {
+	tags: ['Admin'],
+	summary: 'Change the settings the plugin loads (the settings that are left out keep their value)',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		properties: {
+			apiUrl: apiUrlSchema,
+			minPluginVersion: minPluginVersionSchema,
+			serverSavesEnabled: serverSavesEnabledSchema,
+			allowedSplitTypes: allowedSplitTypesSchema,
+			prediction: {
+				type: 'object',
+				properties: { defaultMethod: defaultMethodSchema, hybridBestSplitsWeight: hybridBestSplitsWeightSchema },
+			} satisfies ObjectSchema<Partial<PredictionParameters>>,
+		},
+	} satisfies ObjectSchema<SaveRemoteConfigRequestBody>,
+	response: { 200: getSuccessResponseSchema(remoteConfigSchema), ...getErrorResponseSchemas(400, 401, 403, 500) },
+};
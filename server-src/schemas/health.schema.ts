@@ -0,0 +1,23 @@
+// Internal Imports
+import type { HealthStatus, ObjectSchema } from '../types/types';
+
+// Setup the Schema of the health of the server
+const healthStatusSchema = {
+	type: 'object',
+	properties: {
+		status: { type: 'string', enum: ['ok', 'unavailable'] },
+		database: { type: 'string', description: 'The state of the MongoDB connection (connected, connecting, disconnected, disconnecting), or memory' },
+		timestamp: { type: 'string', format: 'date-time' },
+	},
+} satisfies ObjectSchema<HealthStatus>;
+
+// Setup the Schema of the Health Route
+export const healthSchema = {
+	tags: ['Health'],
+	summary: 'Check that the server is running and its database is ready',
+	description: 'Answers with a 503 while the server is not connected to MongoDB, so load balancers can take it out of rotation.',
+	response: {
+		200: healthStatusSchema,
+		503: healthStatusSchema,
+	},
+};
@@ -0,0 +1,51 @@
+// Internal Imports
+import { DEFAULT_LEADERBOARD_PAGE_SIZE, MAX_LEADERBOARD_PAGE_SIZE } from '../services/leaderboard.service';
+import { bearerAuthSecurity, dateSchema, getErrorResponseSchemas, getSuccessResponseSchema, mapIdSchema } from './common.schema';
+import type { GetLeaderboardRequest, Leaderboard, LeaderboardEntry, ObjectSchema } from '../types/types';
+
+// Setup the Schema of a leaderboard entry
+const leaderboardEntrySchema = {
+	type: 'object',
+	properties: {
+		rank: { type: 'integer' },
+		splitId: { type: 'string' },
+		accountId: { type: 'string' },
+		displayName: { type: 'string' },
+		totalTime: { type: 'integer' },
+		runDate: dateSchema,
+		gap: { type: 'integer', description: 'The time behind first place in milliseconds' },
+	},
+} satisfies ObjectSchema<LeaderboardEntry>;
+
+// Setup the Schema of a leaderboard page
+export const leaderboardSchema = {
+	type: 'object',
+	properties: {
+		mapId: { type: 'string' },
+		page: { type: 'integer' },
+		pageSize: { type: 'integer' },
+		totalPlayers: { type: 'integer' },
+		entries: { type: 'array', items: leaderboardEntrySchema },
+		playerEntry: { ...leaderboardEntrySchema, nullable: true, description: 'The entry of the requesting player' },
+	},
+} satisfies ObjectSchema<Leaderboard>;
+
+// Setup the Schema of the Get Leaderboard Route
+export const getLeaderboardSchema = {
+	tags: ['Leaderboard'],
+	summary: 'Get a page of the leaderboard of a map',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['mapId'],
+		properties: {
+			mapId: mapIdSchema,
+			page: { type: 'integer', minimum: 1, default: 1 },
+			pageSize: { type: 'integer', minimum: 1, maximum: MAX_LEADERBOARD_PAGE_SIZE, default: DEFAULT_LEADERBOARD_PAGE_SIZE },
+		},
+	} satisfies ObjectSchema<GetLeaderboardRequest['body']>,
+	response: {
+		200: getSuccessResponseSchema(leaderboardSchema),
+		...getErrorResponseSchemas(400, 401, 500),
+	},
+};
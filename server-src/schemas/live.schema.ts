@@ -0,0 +1,87 @@
+// Internal Imports
+import { COMPARISON_SPLIT_TYPES } from '../services/comparison.service';
+import {
+	bearerAuthSecurity,
+	checkpointTimesSchema,
+	dateSchema,
+	getErrorResponseSchemas,
+	getSuccessResponseSchema,
+	mapIdSchema,
+} from './common.schema';
+import { predictBodySchema, predictionResultSchema } from './predict.schema';
+import {
+	LiveRunEventType,
+	LiveSharing,
+	type LiveRunEvent,
+	type ObjectSchema,
+	type SetLiveSharingRequest,
+	type SubscribeLiveRunRequest,
+} from '../types/types';
+
+// Setup the Schema of a live run event
+const liveRunEventSchema = {
+	type: 'object',
+	properties: {
+		type: { type: 'string', enum: Object.values(LiveRunEventType), description: 'Whether the run started, passed a checkpoint or finished' },
+		accountId: { type: 'string' },
+		displayName: { type: 'string' },
+		mapId: mapIdSchema,
+		checkpointTimes: checkpointTimesSchema,
+		prediction: predictionResultSchema,
+		comparison: { type: 'string', enum: COMPARISON_SPLIT_TYPES },
+		comparisonCheckpointTimes: { ...checkpointTimesSchema, nullable: true, description: 'The cumulative checkpoint times of the comparison split' },
+		timestamp: dateSchema,
+	},
+} satisfies ObjectSchema<LiveRunEvent>;
+
+// Setup the Schema of the Push Live Run Route
+export const pushLiveRunSchema = {
+	tags: ['Live'],
+	summary: 'Push the checkpoint times of a run in progress to the viewers of the player',
+	security: bearerAuthSecurity,
+	body: predictBodySchema,
+	response: { 200: getSuccessResponseSchema(liveRunEventSchema), ...getErrorResponseSchemas(400, 401, 500) },
+};
+
+// Setup the Schema of the Subscribe Live Run Route
+export const subscribeLiveRunSchema = {
+	tags: ['Live'],
+	summary: 'Watch the runs of a player as they happen',
+	description:
+		'Streams Server-Sent Events named after the event type (start, checkpoint or finish), each carrying a live run event as JSON. The latest event of the last 5 minutes is sent right away. Only players the watched player shares their live runs with can watch.',
+	security: bearerAuthSecurity,
+	params: {
+		type: 'object',
+		required: ['accountId'],
+		properties: {
+			accountId: { type: 'string', minLength: 1, description: 'The account ID of the player to watch' },
+		},
+	} satisfies ObjectSchema<SubscribeLiveRunRequest['params']>,
+	response: {
+		200: { description: 'A text/event-stream of live run events', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+		...getErrorResponseSchemas(401, 403, 500),
+	},
+};
+
+// Setup the Schema of the Set Live Sharing Route
+export const setLiveSharingSchema = {
+	tags: ['Live'],
+	summary: 'Set who can watch the live runs of the player',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['sharing'],
+		properties: {
+			sharing: { type: 'string', enum: Object.values(LiveSharing), description: 'Only the player, the members of their clubs, or every player' },
+		},
+	} satisfies ObjectSchema<SetLiveSharingRequest['body']>,
+	response: {
+		200: getSuccessResponseSchema({
+			type: 'object',
+			properties: {
+				sharing: { type: 'string', enum: Object.values(LiveSharing) },
+			},
+		}),
+		...getErrorResponseSchemas(400, 401, 500),
+	},
+};
@@ -0,0 +1,86 @@
+// Internal Imports
+import { bearerAuthSecurity, dateSchema, getErrorResponseSchemas, getSuccessResponseSchema, mapIdSchema } from './common.schema';
+import type { CorrectMapRequest, GetMapRequest, ObjectSchema, SaveMapRequest, TMNextMapMedalTimes } from '../types/types';
+
+// Setup the Maximum Length of the Map Name and Author
+export const MAX_MAP_TEXT_LENGTH = 256;
+
+// Setup the Schema of the medal times of a map
+const medalTimesSchema = {
+	type: 'object',
+	required: ['author', 'gold', 'silver', 'bronze'],
+	properties: {
+		author: { type: 'integer', minimum: 1 },
+		gold: { type: 'integer', minimum: 1 },
+		silver: { type: 'integer', minimum: 1 },
+		bronze: { type: 'integer', minimum: 1 },
+	},
+} satisfies ObjectSchema<TMNextMapMedalTimes>;
+
+// Setup the Schema of a map in a response
+const mapSchema = {
+	type: 'object',
+	properties: {
+		mapId: { type: 'string' },
+		name: { type: 'string', nullable: true },
+		author: { type: 'string', nullable: true },
+		checkpointCount: { type: 'integer', nullable: true },
+		lapCount: { type: 'integer', nullable: true },
+		medalTimes: { ...medalTimesSchema, nullable: true },
+		updatedAt: dateSchema,
+	},
+};
+
+// Setup the Schema of the details of a map in a request
+const mapDetailsProperties = {
+	mapId: mapIdSchema,
+	name: { type: 'string', minLength: 1, maxLength: MAX_MAP_TEXT_LENGTH },
+	author: { type: 'string', minLength: 1, maxLength: MAX_MAP_TEXT_LENGTH },
+	checkpointCount: { type: 'integer', minimum: 1, description: 'The number of checkpoints to finish, including the finish' },
+	lapCount: { type: 'integer', minimum: 1, description: 'The number of laps (1 for maps without laps)' },
+	medalTimes: { ...medalTimesSchema, description: 'The medal times in milliseconds (author <= gold <= silver <= bronze)' },
+};
+
+// Setup the Schema of the Save Map Route
+export const saveMapSchema = {
+	tags: ['Maps'],
+	summary: 'Save the details of a map that are not known yet (known details are kept)',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['mapId'],
+		properties: mapDetailsProperties,
+	} satisfies ObjectSchema<SaveMapRequest['body']>,
+	response: { 200: getSuccessResponseSchema(mapSchema), ...getErrorResponseSchemas(400, 401, 500) },
+};
+
+// Setup the Schema of the Correct Map Route
+export const correctMapSchema = {
+	tags: ['Admin'],
+	summary: 'Overwrite the details of a map, e.g. to fix a wrong checkpoint count',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['mapId'],
+		properties: {
+			...mapDetailsProperties,
+			reason: { type: 'string', maxLength: 500, description: 'The reason for the correction, recorded in the audit log' },
+		},
+	} satisfies ObjectSchema<CorrectMapRequest['body']>,
+	response: { 200: getSuccessResponseSchema(mapSchema), ...getErrorResponseSchemas(400, 401, 403, 500) },
+};
+
+// Setup the Schema of the Get Map Route
+export const getMapSchema = {
+	tags: ['Maps'],
+	summary: 'Get the details of a map',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['mapId'],
+		properties: {
+			mapId: mapIdSchema,
+		},
+	} satisfies ObjectSchema<GetMapRequest['body']>,
+	response: { 200: getSuccessResponseSchema(mapSchema), ...getErrorResponseSchemas(400, 401, 404, 500) },
+};
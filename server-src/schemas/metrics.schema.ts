@@ -0,0 +1,19 @@
+// Internal Imports
+import { getErrorResponseSchemas } from './common.schema';
+
+// Setup the Schema of the Metrics Route
+export const metricsSchema = {
+	tags: ['Metrics'],
+	summary: 'Get the server metrics in the Prometheus text format',
+	description: 'Requires the METRICS_TOKEN as a bearer token when the server is configured with one.',
+	response: {
+		200: {
+			content: {
+				'text/plain': {
+					schema: { type: 'string', description: 'The metrics in the Prometheus text exposition format' },
+				},
+			},
+		},
+		...getErrorResponseSchemas(401),
+	},
+};
@@ -0,0 +1,53 @@
+// Internal Imports
+import { COMPARISON_SPLIT_TYPES } from '../services/comparison.service';
+import { bearerAuthSecurity, checkpointTimesSchema, getErrorResponseSchemas, getSuccessResponseSchema, mapIdSchema } from './common.schema';
+import { splitTargetProperties } from './splits.schema';
+import { GetSplitsType, PredictorMethod, type ObjectSchema, type PredictionResult, type PredictRequestBody } from '../types/types';
+
+// Setup the Schema of a prediction request
+export const predictBodySchema = {
+	type: 'object',
+	required: ['mapId', 'checkpointTimes', 'method'],
+	properties: {
+		mapId: mapIdSchema,
+		checkpointTimes: checkpointTimesSchema,
+		method: { type: 'string', enum: Object.values(PredictorMethod), description: 'The method to predict with' },
+		comparison: {
+			type: 'string',
+			enum: COMPARISON_SPLIT_TYPES,
+			default: GetSplitsType.PERSONAL_BEST,
+			description: 'The type of split to compare against',
+		},
+		totalCheckpoints: {
+			type: 'integer',
+			minimum: 1,
+			description: "The number of checkpoints to finish (defaults to the comparison split or the map's)",
+		},
+		...splitTargetProperties,
+	},
+} satisfies ObjectSchema<PredictRequestBody>;
+
+// Setup the Schema of a prediction result
+export const predictionResultSchema = {
+	type: 'object',
+	properties: {
+		method: { type: 'string', enum: Object.values(PredictorMethod) },
+		currentCheckpoint: { type: 'integer' },
+		totalCheckpoints: { type: 'integer' },
+		predictedTime: { type: 'integer' },
+		comparisonTime: { type: 'integer', nullable: true },
+		delta: { type: 'integer', nullable: true, description: 'The predicted time minus the comparison time' },
+	},
+} satisfies ObjectSchema<PredictionResult>;
+
+// Setup the Schema of the Predict Route
+export const predictSchema = {
+	tags: ['Predictions'],
+	summary: 'Predict the finish time of a run in progress',
+	security: bearerAuthSecurity,
+	body: predictBodySchema,
+	response: {
+		200: getSuccessResponseSchema(predictionResultSchema),
+		...getErrorResponseSchemas(400, 401, 500),
+	},
+};
@@ -0,0 +1,287 @@
+// Internal Imports
+import { MAX_BATCH_RUNS } from '../services/batch-upload.service';
+import { CSV_LIST_SEPARATOR } from '../services/split-export.service';
+import {
+	bearerAuthSecurity,
+	checkpointTimesSchema,
+	clubIdSchema,
+	dateSchema,
+	getErrorResponseSchemas,
+	getSuccessResponseSchema,
+	mapIdSchema,
+} from './common.schema';
+import {
+	BatchRunStatus,
+	GetSplitsType,
+	HistorySource,
+	SplitExportFormat,
+	SplitImportFormat,
+	SplitStatus,
+	SplitSuspicionFlag,
+	type BatchRun,
+	type BatchRunResult,
+	type BatchUploadResult,
+	type ExportSplitsRequest,
+	type ExportedRun,
+	type FinishDistribution,
+	type GetFinishDistributionRequest,
+	type GetSplitsRequest,
+	type ImportSplitsRequestBody,
+	type ObjectSchema,
+	type SaveSplitRequestBody,
+	type SaveSplitsBatchRequest,
+	type SplitTarget,
+	type SumOfBestSegment,
+} from '../types/types';
+
+// Setup the Schema of the target parameters of the target split types
+export const splitTargetProperties = {
+	targetAccountId: { type: 'string', minLength: 1, description: 'The account ID of the player whose personal best to get (playerBest)' },
+	rank: { type: 'integer', minimum: 1, description: 'The leaderboard position of the run to get (rank)' },
+	percentile: { type: 'number', exclusiveMinimum: 0, maximum: 100, description: 'The top percentile whose threshold run to get (percentile)' },
+	clubId: { ...clubIdSchema, description: 'The ID of the club whose fastest run to get (clubBest)' },
+} satisfies ObjectSchema<SplitTarget>['properties'];
+
+// Setup the Schema of a segment of a sum of best
+const sumOfBestSegmentSchema = {
+	type: 'object',
+	properties: {
+		index: { type: 'integer' },
+		segmentTime: { type: 'integer' },
+		splitId: { type: 'string', description: 'The ID of the run the segment was driven in' },
+		playerId: { type: 'string' },
+		runDate: dateSchema,
+		possibleTimeSave: { type: 'integer', description: 'The time the reference run loses on the segment' },
+	},
+} satisfies ObjectSchema<SumOfBestSegment>;
+
+// Setup the Schema of a split in a response
+const splitSchema = {
+	type: 'object',
+	properties: {
+		id: { type: 'string' },
+		playerId: { type: 'string' },
+		mapId: { type: 'string' },
+		checkpointTimes: checkpointTimesSchema,
+		totalTime: { type: 'integer' },
+		runDate: dateSchema,
+		referenceTotalTime: { type: 'integer', description: 'The total time of the run the sum of best is compared to (sum of best types only)' },
+		segments: { type: 'array', items: sumOfBestSegmentSchema, description: 'The best segments and their source runs (sum of best types only)' },
+	},
+};
+
+// Setup the Schema of a run to save
+const saveSplitBodySchema = {
+	type: 'object',
+	required: ['mapId', 'checkpointTimes', 'totalTime'],
+	properties: {
+		mapId: mapIdSchema,
+		checkpointTimes: { ...checkpointTimesSchema, minItems: 1 },
+		totalTime: { type: 'integer', description: 'The finish time in milliseconds (must match the last checkpoint time)' },
+		runDate: { type: 'string', description: 'The date of the run (defaults to now)' },
+		clientRunId: {
+			type: 'string',
+			minLength: 1,
+			maxLength: 128,
+			description: 'An ID the client generates for the run, so uploading it again does not save it twice',
+		},
+	},
+} satisfies ObjectSchema<SaveSplitRequestBody>;
+
+// Setup the Schema of a saved split in a response
+const savedSplitSchema = {
+	type: 'object',
+	properties: {
+		id: { type: 'string' },
+		mapId: { type: 'string' },
+		checkpointTimes: checkpointTimesSchema,
+		totalTime: { type: 'integer' },
+		runDate: dateSchema,
+		status: { type: 'string', enum: Object.values(SplitStatus) },
+		flags: { type: 'array', items: { type: 'string', enum: Object.values(SplitSuspicionFlag) } },
+		isPersonalBest: { type: 'boolean', description: 'Whether the run is a new personal best' },
+		isGlobalBest: { type: 'boolean', description: 'Whether the run is a new global best (quarantined runs never are)' },
+		improvement: { type: 'integer', nullable: true, description: 'The time saved against the previous personal best in ms, if the run is one' },
+		rank: { type: 'integer', nullable: true, description: "The player's leaderboard rank after saving the run" },
+	},
+};
+
+// Setup the Schema of the Save Split Route
+export const saveSplitSchema = {
+	tags: ['Splits'],
+	summary: 'Save a finished run',
+	security: bearerAuthSecurity,
+	body: saveSplitBodySchema,
+	response: {
+		200: getSuccessResponseSchema({
+			...savedSplitSchema,
+			description: 'The split the run was already saved as (sent again with the same clientRunId), without the records it set',
+		}),
+		201: getSuccessResponseSchema(savedSplitSchema),
+		...getErrorResponseSchemas(400, 401, 500),
+	},
+};
+
+// Setup the Schema of the outcome of a batch upload or import
+const batchUploadResultSchema = {
+	type: 'object',
+	properties: {
+		created: { type: 'integer' },
+		duplicates: { type: 'integer' },
+		rejected: { type: 'integer' },
+		results: {
+			type: 'array',
+			description: 'The outcome of every run, in the order they were sent',
+			items: {
+				type: 'object',
+				properties: {
+					clientRunId: { type: 'string' },
+					status: { type: 'string', enum: Object.values(BatchRunStatus) },
+					splitId: { type: 'string', nullable: true },
+					splitStatus: { type: 'string', enum: Object.values(SplitStatus), nullable: true },
+					code: { type: 'string', nullable: true, description: 'The split validation code the run was rejected with' },
+					error: { type: 'string', nullable: true },
+				},
+			} satisfies ObjectSchema<BatchRunResult>,
+		},
+	},
+} satisfies ObjectSchema<BatchUploadResult>;
+
+// Setup the Schema of the Save Splits Batch Route
+export const saveSplitsBatchSchema = {
+	tags: ['Splits'],
+	summary: 'Save many runs at once, e.g. a backlog queued while offline',
+	description:
+		'Runs whose clientRunId was already uploaded are reported as duplicates instead of being saved again, so a batch can be retried safely.',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['runs'],
+		properties: {
+			runs: {
+				type: 'array',
+				minItems: 1,
+				maxItems: MAX_BATCH_RUNS,
+				items: { ...saveSplitBodySchema, required: ['clientRunId', ...saveSplitBodySchema.required] } satisfies ObjectSchema<BatchRun>,
+			},
+		},
+	} satisfies ObjectSchema<SaveSplitsBatchRequest['body']>,
+	response: {
+		200: getSuccessResponseSchema(batchUploadResultSchema),
+		...getErrorResponseSchemas(400, 401, 500),
+	},
+};
+
+// Setup the Schema of the Get Splits Route
+export const getSplitsSchema = {
+	tags: ['Splits'],
+	summary: 'Get the splits of a map',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['mapId', 'type'],
+		properties: {
+			mapId: mapIdSchema,
+			type: { type: 'string', enum: Object.values(GetSplitsType), description: 'The type of splits to get' },
+			...splitTargetProperties,
+		},
+	} satisfies ObjectSchema<GetSplitsRequest['body']>,
+	response: { 200: getSuccessResponseSchema({ type: 'array', items: splitSchema }), ...getErrorResponseSchemas(400, 401, 500) },
+};
+
+// Setup the Schema of the Finish Distribution Route
+export const getFinishDistributionSchema = {
+	tags: ['Splits'],
+	summary: 'Estimate the finish time distribution of a run in progress',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['mapId', 'checkpointTimes'],
+		properties: {
+			mapId: mapIdSchema,
+			checkpointTimes: checkpointTimesSchema,
+		},
+	} satisfies ObjectSchema<GetFinishDistributionRequest['body']>,
+	response: {
+		200: getSuccessResponseSchema({
+			type: 'object',
+			properties: {
+				source: { type: 'string', enum: Object.values(HistorySource), description: 'Whether the player or every player runs were used' },
+				sampleSize: { type: 'integer' },
+				currentCheckpoint: { type: 'integer' },
+				totalCheckpoints: { type: 'integer' },
+				median: { type: 'integer' },
+				p10: { type: 'integer' },
+				p90: { type: 'integer' },
+				personalBest: { type: 'integer', nullable: true },
+				personalBestProbability: { type: 'number', nullable: true, description: 'The probability of beating the personal best (0 to 1)' },
+			},
+		} satisfies ObjectSchema<FinishDistribution>),
+		...getErrorResponseSchemas(400, 401, 404, 500),
+	},
+};
+
+// Setup the Schema of an exported run
+export const exportedRunSchema = {
+	type: 'object',
+	properties: {
+		id: { type: 'string' },
+		mapId: { type: 'string' },
+		checkpointTimes: checkpointTimesSchema,
+		totalTime: { type: 'integer' },
+		runDate: dateSchema,
+		status: { type: 'string', enum: Object.values(SplitStatus) },
+		flags: { type: 'array', items: { type: 'string', enum: Object.values(SplitSuspicionFlag) } },
+		clientRunId: { type: 'string', nullable: true },
+	},
+} satisfies ObjectSchema<ExportedRun>;
+
+// Setup the Schema of the Export Splits Route
+export const exportSplitsSchema = {
+	tags: ['Splits'],
+	summary: "Export the player's runs on a map, or on every map",
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['format'],
+		properties: {
+			mapId: { ...mapIdSchema, description: 'The ID of the map (every map if missing)' },
+			format: { type: 'string', enum: Object.values(SplitExportFormat), description: 'The format of the export' },
+		},
+	} satisfies ObjectSchema<ExportSplitsRequest['body']>,
+	response: {
+		200: {
+			content: {
+				'application/json': {
+					schema: getSuccessResponseSchema({ type: 'array', items: exportedRunSchema }),
+				},
+				'text/csv': {
+					schema: { type: 'string', description: `One row per run, with the list values separated by ${CSV_LIST_SEPARATOR}` },
+				},
+			},
+		},
+		...getErrorResponseSchemas(400, 401, 500),
+	},
+};
+
+// Setup the Schema of the Import Splits Route
+export const importSplitsSchema = {
+	tags: ['Splits'],
+	summary: 'Import runs from a LiveSplit splits file or a CSV file',
+	description:
+		'Every run is validated like a saved run. Runs the player already saved with the same checkpoint times on the same map are reported as duplicates.',
+	security: bearerAuthSecurity,
+	body: {
+		type: 'object',
+		required: ['format', 'content'],
+		properties: {
+			format: { type: 'string', enum: Object.values(SplitImportFormat), description: 'The format of the file' },
+			mapId: {
+				...mapIdSchema,
+				description: 'The Trackmania ID of the map the runs were driven on (required for LiveSplit files, CSV rows with a mapId use their own)',
+			},
+			content: { type: 'string', minLength: 1, description: 'The content of the file' },
+		},
+	} satisfies ObjectSchema<ImportSplitsRequestBody>,
+	response: { 200: getSuccessResponseSchema(batchUploadResultSchema), ...getErrorResponseSchemas(400, 401, 413, 500) },
+};
@@ -0,0 +1,87 @@
+// External Imports
+import Fastify from 'fastify';
+import { parseArgs } from 'util';
+
+// Internal Imports
+import { loadDatabaseConfig } from '../config/database-config';
+import { loadEnvFile } from '../config/env';
+import { database } from '../database/database';
+import { runBacktest } from '../services/backtest.service';
+import { LogLevel, PredictorMethod, type BacktestStatistics } from '../types/types';
+
+// Load the env file the same way as the server
+loadEnvFile();
+
+// Setup the Logger the same way as the server (JSON lines at LOG_LEVEL)
+const logger = Fastify({ logger: { level: process.env.LOG_LEVEL || LogLevel.INFO } }).log;
+
+// Load the Settings of the connection to MongoDB (the script needs none of the secrets of the server)
+const databaseConfig = loadDatabaseConfig(process.env);
+
+// Parse the Arguments (every map is replayed unless maps are named)
+const { values: options } = parseArgs({
+	options: {
+		map: { type: 'string', multiple: true },
+		account: { type: 'string' },
+		json: { type: 'boolean', default: false },
+	},
+});
+
+// Connect to the Database
+await database.connect(logger, databaseConfig);
+
+// Run the Backtest, disconnecting whatever the outcome
+const report = await runBacktest(options.map ?? null, options.account ?? null).finally(() => database.disconnect(logger));
+
+// Check if the Report should be printed as JSON (e.g. to save it or feed it to another tool)
+if (options.json) {
+	console.log(JSON.stringify(report, null, '\t'));
+	process.exit(0);
+}
+
+// Print the Summary
+console.log(`Replayed ${report.overall.runs} runs (${report.skippedRuns} skipped without an earlier run to compare against)`);
+console.log(`Best method by mean absolute error: ${report.bestMethod ?? 'none'}\n`);
+
+// Print the Statistics of every group
+printStatistics('Overall', [{ label: 'all runs', ...report.overall }]);
+printStatistics(
+	'Per map',
+	report.maps.map(map => ({ label: map.name ?? map.mapId, ...map })),
+);
+printStatistics(
+	'Per player',
+	report.players.map(player => ({ label: player.displayName, ...player })),
+);
+printStatistics(
+	'Per checkpoint',
+	report.checkpoints.map(checkpoint => ({ label: `checkpoint ${checkpoint.checkpoint}`, ...checkpoint })),
+);
+
+// Exit the Process
+process.exit(0);
+
+/**
+ * Print the mean absolute and mean errors of every method for groups of replayed runs
+ * @param title The title of the table
+ * @param groups The statistics of every group with its label
+ * @returns void
+ */
+function printStatistics(title: string, groups: Array<BacktestStatistics & { label: string }>): void {
+	// Print the Title
+	console.log(title);
+
+	// Print a Row for every group, with the mean absolute error and the mean error (bias) of every method in milliseconds
+	console.table(
+		groups.map(group => ({
+			group: group.label,
+			runs: group.runs,
+			...Object.fromEntries(
+				Object.values(PredictorMethod).map(method => [
+					method,
+					`${group.methods[method].meanAbsoluteError} (bias ${group.methods[method].meanError})`,
+				]),
+			),
+		})),
+	);
+}
@@ -0,0 +1,91 @@
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { getPlayerById } from './player.service';
+import { getExportedRuns } from './split-export.service';
+import { recordAuditEvent } from './audit.service';
+import { clearLiveRunEvents } from './live.service';
+import { revokeAccountTokens } from './token.service';
+import { AuditAction, type AccountArchive, type AccountDeletionResult, type PlayerProfile } from '../types/types';
+
+/**
+ * Get what the server stores about a player
+ * @param accountId The account ID of the player
+ * @returns The profile of the player, or null if nothing is stored about them
+ */
+export async function getPlayerProfile(accountId: string): Promise<PlayerProfile | null> {
+	// Find the Player
+	const player = await getPlayerById(accountId);
+
+	// Check if the Player does not exist
+	if (!player) return null;
+
+	// Find the splits of the player
+	const splits = await getRepositories().splits.findByPlayer(player._id);
+
+	// Return the Profile
+	return {
+		accountId: player.accountId,
+		displayName: player.displayName,
+		createdAt: player.createdAt,
+		runCount: splits.length,
+		mapCount: new Set(splits.map(split => split.mapId._id.toString())).size,
+	};
+}
+
+/**
+ * Get the archive of everything the server stores about a player
+ * @param accountId The account ID of the player
+ * @returns The archive, or null if nothing is stored about the player
+ */
+export async function getAccountArchive(accountId: string): Promise<AccountArchive | null> {
+	// Get the Profile of the player
+	const profile = await getPlayerProfile(accountId);
+
+	// Check if Nothing Is stored about the player
+	if (!profile) return null;
+
+	// Return the Archive
+	return { exportedAt: new Date(), profile, runs: await getExportedRuns(accountId) };
+}
+
+/**
+ * Delete a player and everything stored about them, refreshing the data derived from their runs
+ * @param accountId The account ID of the player
+ * @returns The outcome of the deletion, or null if nothing is stored about the player
+ */
+export async function deleteAccount(accountId: string): Promise<AccountDeletionResult | null> {
+	// Get the Repositories
+	const { players, splits, personalBests, segmentStatistics, clubs } = getRepositories();
+
+	// Find the Player
+	const player = await getPlayerById(accountId);
+
+	// Check if the Player does not exist
+	if (!player) return null;
+
+	// Get the maps the player has runs on
+	const mapIds = Array.from(new Map((await splits.findByPlayer(player._id)).map(split => [split.mapId._id.toString(), split.mapId._id])).values());
+
+	// Delete the splits and personal best records of the player (leaderboards and global bests are computed from the splits)
+	const deletedSplits = await splits.deleteByPlayer(player._id);
+	await personalBests.deleteByPlayer(player._id);
+
+	// Delete the segment statistics of the maps, so they are recomputed without the player's runs
+	await segmentStatistics.deleteByMapIds(mapIds);
+
+	// Remove the player from their clubs, so the club leaderboards and bests skip them
+	await clubs.removeMember(player._id);
+
+	// Delete the player and stop replaying their live run
+	await players.delete(accountId);
+	clearLiveRunEvents(accountId);
+
+	// Revoke every token of the account, so none of them can refresh or recreate the player
+	await revokeAccountTokens(accountId);
+
+	// Record the deletion in the audit log
+	const auditEntry = await recordAuditEvent(AuditAction.ACCOUNT_DELETED, accountId, accountId, { deletedSplits, affectedMaps: mapIds.length });
+
+	// Return the Deletion Result
+	return { deletedSplits, affectedMaps: mapIds.length, auditId: auditEntry._id.toString() };
+}
@@ -0,0 +1,274 @@
+// Internal Imports
+import { config } from '../config/config';
+import { getRepositories } from '../repositories/repositories';
+import { getMapById } from './map.service';
+import { getPlayerById } from './player.service';
+import { recomputePersonalBest } from './personal-best.service';
+import { recordAuditEvent } from './audit.service';
+import {
+	AuditAction,
+	type AuditLogEntry,
+	type AuditLogPage,
+	type AuditLogQuery,
+	type AuditLogRecord,
+	type ListModeratedSplitsRequest,
+	type ModeratedPlayer,
+	type ModeratedSplit,
+	type ModeratedSplitPage,
+	type PopulatedTMNextSplit,
+	type SplitModerationQuery,
+	type SplitStatus,
+	type TMNextPlayer,
+} from '../types/types';
+
+// Setup the Account IDs of the admins
+const ADMIN_ACCOUNT_IDS = new Set(config.adminAccountIds);
+
+// Setup the Page Size Limits of the admin lists
+export const DEFAULT_ADMIN_PAGE_SIZE = 50;
+export const MAX_ADMIN_PAGE_SIZE = 200;
+
+/**
+ * Check if a player is an admin
+ * @param accountId The account ID of the player
+ * @returns Whether the player is listed in the admin account IDs
+ */
+export function isAdmin(accountId: string): boolean {
+	// Check if the Account ID is listed
+	return ADMIN_ACCOUNT_IDS.has(accountId);
+}
+
+/**
+ * Get a page of the splits admins review, most recently uploaded first
+ * @param filter The map, player and flag filter of the splits
+ * @param page The page number (starting at 1)
+ * @param pageSize The number of splits per page
+ * @returns The page of splits
+ */
+export async function getModeratedSplits(
+	filter: Pick<ListModeratedSplitsRequest['body'], 'flaggedOnly' | 'mapId' | 'accountId'>,
+	page: number,
+	pageSize: number,
+): Promise<ModeratedSplitPage> {
+	// Setup the Empty Page
+	const emptyPage: ModeratedSplitPage = { page, pageSize, total: 0, splits: [] };
+
+	// Setup the Query of the splits
+	const query: SplitModerationQuery = { flaggedOnly: filter.flaggedOnly };
+
+	// Check if the Filter Is for a single map and find it
+	if (filter.mapId) {
+		// Find the Map
+		const map = await getMapById(filter.mapId);
+
+		// Check if the Map does not exist and return the empty page
+		if (!map) return emptyPage;
+
+		// Add the Map to the query
+		query.mapId = map._id;
+	}
+
+	// Check if the Filter Is for a single player and find them
+	if (filter.accountId) {
+		// Find the Player
+		const player = await getPlayerById(filter.accountId);
+
+		// Check if the Player does not exist and return the empty page
+		if (!player) return emptyPage;
+
+		// Add the Player to the query
+		query.playerId = player._id;
+	}
+
+	// Find the splits of the page
+	const { total, splits } = await getRepositories().splits.findForModeration(query, (page - 1) * pageSize, pageSize);
+
+	// Return the Page
+	return { page, pageSize, total, splits: splits.map(splitToModeratedSplit) };
+}
+
+/**
+ * Delete a split as an admin
+ * @param adminAccountId The account ID of the admin
+ * @param splitId The ID of the split
+ * @param reason The reason for the deletion
+ * @returns The deleted split, or null if it does not exist
+ */
+export async function deleteSplit(adminAccountId: string, splitId: string, reason: string | null): Promise<ModeratedSplit | null> {
+	// Get the Repositories
+	const { splits, segmentStatistics } = getRepositories();
+
+	// Find the Split
+	const split = await splits.findById(splitId);
+
+	// Check if the Split does not exist
+	if (!split || !(await splits.delete(splitId))) return null;
+
+	// Recompute the personal best record of the player on the map from the remaining splits
+	await recomputePersonalBest(split.playerId, split.mapId);
+
+	// Delete the segment statistics of the map, so they are recomputed without the split
+	await segmentStatistics.deleteByMapIds([split.mapId._id]);
+
+	// Record the deletion in the audit log
+	await recordAuditEvent(AuditAction.SPLIT_DELETED, adminAccountId, split.playerId.accountId, {
+		splitId,
+		mapId: split.mapId.mapId,
+		totalTime: split.totalTime,
+		reason,
+	});
+
+	// Return the Deleted Split
+	return splitToModeratedSplit(split);
+}
+
+/**
+ * Change the review status of a split as an admin, e.g. to hide it from global queries
+ * @param adminAccountId The account ID of the admin
+ * @param splitId The ID of the split
+ * @param status The new review status
+ * @param reason The reason for the change
+ * @returns The updated split, or null if it does not exist
+ */
+export async function setSplitStatus(
+	adminAccountId: string,
+	splitId: string,
+	status: SplitStatus,
+	reason: string | null,
+): Promise<ModeratedSplit | null> {
+	// Get the Repositories
+	const { splits, segmentStatistics } = getRepositories();
+
+	// Find the Split
+	const split = await splits.findById(splitId);
+
+	// Check if the Split does not exist
+	if (!split || !(await splits.updateStatus(splitId, status))) return null;
+
+	// Recompute the personal best record of the player on the map with the new status
+	await recomputePersonalBest(split.playerId, split.mapId);
+
+	// Delete the segment statistics of the map, so they are recomputed with the new status
+	await segmentStatistics.deleteByMapIds([split.mapId._id]);
+
+	// Record the change in the audit log
+	await recordAuditEvent(AuditAction.SPLIT_STATUS_CHANGED, adminAccountId, split.playerId.accountId, {
+		splitId,
+		mapId: split.mapId.mapId,
+		previousStatus: split.status,
+		status,
+		reason,
+	});
+
+	// Return the Updated Split
+	return splitToModeratedSplit({ ...split, status });
+}
+
+/**
+ * Ban or unban a player as an admin (the runs of banned players are excluded from global queries)
+ * @param adminAccountId The account ID of the admin
+ * @param accountId The account ID of the player
+ * @param banned Whether to ban or unban the player
+ * @param reason The reason for the change
+ * @returns The moderation state of the player, or null if they do not exist
+ */
+export async function setPlayerBanned(
+	adminAccountId: string,
+	accountId: string,
+	banned: boolean,
+	reason: string | null,
+): Promise<ModeratedPlayer | null> {
+	// Get the Repositories
+	const { players, playerBans, splits, segmentStatistics } = getRepositories();
+
+	// Find the Player
+	const player = await getPlayerById(accountId);
+
+	// Check if the Player does not exist
+	if (!player) return null;
+
+	// Store or lift the ban of the account, so it applies again if the player deletes their account and returns
+	const bannedAt = new Date();
+	if (banned) await playerBans.save(accountId, bannedAt, reason);
+	else await playerBans.delete(accountId);
+
+	// Ban or unban the player
+	const updatedPlayer = await players.update(accountId, { bannedAt: banned ? bannedAt : null, banReason: banned ? reason : null });
+
+	// Check if the Player was deleted in the meantime
+	if (!updatedPlayer) return null;
+
+	// Delete the segment statistics of the maps the player has runs on, so they are recomputed with or without the runs
+	const mapIds = Array.from(new Map((await splits.findByPlayer(player._id)).map(split => [split.mapId._id.toString(), split.mapId._id])).values());
+	await segmentStatistics.deleteByMapIds(mapIds);
+
+	// Record the change in the audit log
+	await recordAuditEvent(banned ? AuditAction.PLAYER_BANNED : AuditAction.PLAYER_UNBANNED, adminAccountId, accountId, { reason });
+
+	// Return the Moderation State of the player
+	return playerToModeratedPlayer(updatedPlayer);
+}
+
+/**
+ * Get a page of the audit log, newest first
+ * @param query The action and player filter of the entries
+ * @param page The page number (starting at 1)
+ * @param pageSize The number of entries per page
+ * @returns The page of the audit log
+ */
+export async function getAuditLog(query: AuditLogQuery, page: number, pageSize: number): Promise<AuditLogPage> {
+	// Find the entries of the page
+	const { total, entries } = await getRepositories().auditLog.find(query, (page - 1) * pageSize, pageSize);
+
+	// Return the Page
+	return { page, pageSize, total, entries: entries.map(auditLogEntryToRecord) };
+}
+
+/**
+ * Map a split to the split admins review
+ * @param split The split with its player and map
+ * @returns The moderated split
+ */
+function splitToModeratedSplit(split: PopulatedTMNextSplit): ModeratedSplit {
+	// Return the Moderated Split
+	return {
+		id: split._id.toString(),
+		accountId: split.playerId.accountId,
+		displayName: split.playerId.displayName,
+		playerBanned: !!split.playerId.bannedAt,
+		mapId: split.mapId.mapId,
+		checkpointTimes: split.checkpointTimes,
+		totalTime: split.totalTime,
+		runDate: split.runDate,
+		uploadedAt: split.createdAt,
+		status: split.status,
+		flags: split.flags,
+	};
+}
+
+/**
+ * Map a player to their moderation state
+ * @param player The player
+ * @returns The moderation state of the player
+ */
+function playerToModeratedPlayer(player: TMNextPlayer): ModeratedPlayer {
+	// Return the Moderation State
+	return { accountId: player.accountId, displayName: player.displayName, bannedAt: player.bannedAt ?? null, banReason: player.banReason ?? null };
+}
+
+/**
+ * Map an audit log entry to the record admins browse
+ * @param entry The audit log entry
+ * @returns The audit log record
+ */
+function auditLogEntryToRecord(entry: AuditLogEntry): AuditLogRecord {
+	// Return the Audit Log Record
+	return {
+		id: entry._id.toString(),
+		action: entry.action,
+		actorAccountId: entry.actorAccountId,
+		targetAccountId: entry.targetAccountId,
+		details: entry.details,
+		createdAt: entry.createdAt,
+	};
+}
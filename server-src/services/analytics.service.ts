@@ -0,0 +1,166 @@
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { getMostCommonLength } from './finish-distribution.service';
+import { getMapById } from './map.service';
+import { getPlayerById } from './player.service';
+import { normalizeCheckpointTimes } from './prediction.service';
+import { getSegmentTimes } from './sum-of-best.service';
+import type { MapSegmentStatistics, SegmentAnalytics, SegmentStatistics, TMNextMap } from '../types/types';
+
+// Setup the Time the precomputed statistics are reused for
+export const SEGMENT_STATISTICS_TTL = 10 * 60 * 1000;
+
+/**
+ * Get the segment analytics of a player on a map
+ * @param accountId The account ID of the player
+ * @param mapId The ID of the map
+ * @returns The segment analytics, or null if the map has no runs
+ */
+export async function getSegmentAnalytics(accountId: string, mapId: string): Promise<SegmentAnalytics | null> {
+	// Find the Map and the Player
+	const map = await getMapById(mapId);
+	const player = await getPlayerById(accountId);
+
+	// Check if the Map does not exist
+	if (!map) return null;
+
+	// Get the precomputed segment statistics of the map
+	const statistics = await getMapSegmentStatistics(map);
+
+	// Check if the Map has no runs
+	if (!statistics) return null;
+
+	// Get the player's personal bests on the map (the fastest one that lines up with the statistics is used)
+	const playerSplits = player ? await getRepositories().splits.find({ playerId: player._id, mapId: map._id }) : [];
+
+	// Get the Player's Personal Best Checkpoint Times
+	const playerTimes = playerSplits
+		.map(split => normalizeCheckpointTimes(split.checkpointTimes))
+		.find(checkpointTimes => checkpointTimes.length === statistics.checkpointCount);
+
+	// Get the Player's Segment Times
+	const playerSegments = playerTimes ? getSegmentTimes(playerTimes) : null;
+
+	// Return the Segment Analytics
+	return {
+		mapId,
+		playerCount: statistics.playerCount,
+		computedAt: statistics.computedAt,
+		segments: statistics.segments.map(segment => ({
+			index: segment.index,
+			min: segment.min,
+			median: segment.median,
+			mean: segment.mean,
+			standardDeviation: segment.standardDeviation,
+			p10: segment.percentiles[10],
+			p25: segment.percentiles[25],
+			p75: segment.percentiles[75],
+			p90: segment.percentiles[90],
+			playerTime: playerSegments ? playerSegments[segment.index] : null,
+			percentile: playerSegments ? getPercentileRank(segment.percentiles, playerSegments[segment.index]) : null,
+		})),
+	};
+}
+
+/**
+ * Get the precomputed segment statistics of a map, recomputing them once they are stale
+ * @param map The map
+ * @returns The segment statistics, or null if the map has no runs
+ */
+export async function getMapSegmentStatistics(map: TMNextMap): Promise<MapSegmentStatistics | null> {
+	// Get the Existing Statistics
+	const existingStatistics = await getRepositories().segmentStatistics.findByMapId(map._id);
+
+	// Check if the Existing Statistics are still fresh and return them
+	if (existingStatistics && Date.now() - existingStatistics.computedAt.getTime() < SEGMENT_STATISTICS_TTL) return existingStatistics;
+
+	// Get every player's personal best on the map
+	const personalBests = await getRepositories().splits.findPersonalBestCheckpointTimes({ mapId: map._id, globalOnly: true });
+
+	// Normalize the Personal Bests so runs with and without the start time line up
+	const runs = personalBests.map(checkpointTimes => normalizeCheckpointTimes(checkpointTimes));
+
+	// Get the checkpoint count most personal bests have
+	const checkpointCount = getMostCommonLength(runs);
+
+	// Check if the Map has no runs
+	if (checkpointCount === null) return null;
+
+	// Get the Personal Bests that line up
+	const alignedRuns = runs.filter(run => run.length === checkpointCount);
+
+	// Compute the statistics of every segment
+	const segments = computeSegmentStatistics(alignedRuns);
+
+	// Save the statistics
+	const statistics = await getRepositories().segmentStatistics.save(map._id, {
+		checkpointCount,
+		playerCount: alignedRuns.length,
+		segments,
+		computedAt: new Date(),
+	});
+
+	// Return the statistics
+	return statistics;
+}
+
+/**
+ * Compute the distribution of every segment across a set of runs
+ * @param runs The cumulative checkpoint times of the runs (all with the same checkpoint count)
+ * @returns The statistics of every segment
+ */
+export function computeSegmentStatistics(runs: number[][]): Array<SegmentStatistics> {
+	// Get the Segment Times of every run
+	const segmentTimes = runs.map(run => getSegmentTimes(run));
+
+	// Compute the statistics of every segment
+	return (segmentTimes[0] ?? []).map((_, index) => {
+		// Get the sorted times on the segment
+		const times = segmentTimes.map(segments => segments[index]).sort((a, b) => a - b);
+
+		// Get the Mean and Standard Deviation
+		const mean = times.reduce((sum, time) => sum + time, 0) / times.length;
+		const standardDeviation = Math.sqrt(times.reduce((sum, time) => sum + (time - mean) ** 2, 0) / times.length);
+
+		// Get the 0th to 100th percentile
+		const percentiles = Array.from({ length: 101 }, (_, percentile) => getQuantile(times, percentile / 100));
+
+		// Return the Segment Statistics
+		return { index, min: times[0], median: percentiles[50], mean, standardDeviation, percentiles };
+	});
+}
+
+/**
+ * Get a quantile of a sorted set of values, interpolating between values
+ * @param sortedValues The values, sorted in ascending order
+ * @param quantile The quantile to get (0 to 1)
+ * @returns The quantile
+ */
+function getQuantile(sortedValues: number[], quantile: number): number {
+	// Get the position of the quantile
+	const position = quantile * (sortedValues.length - 1);
+	const lower = Math.floor(position);
+	const upper = Math.ceil(position);
+
+	// Interpolate between the values around the position
+	return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * (position - lower);
+}
+
+/**
+ * Get the percentile rank of a value within a percentile table
+ * @param percentiles The 0th to 100th percentile of the distribution
+ * @param value The value to place
+ * @returns The percentage (0 to 100) of the distribution below the value
+ */
+function getPercentileRank(percentiles: number[], value: number): number {
+	// Check if the value is outside of the distribution
+	if (value <= percentiles[0]) return 0;
+	if (value >= percentiles[percentiles.length - 1]) return 100;
+
+	// Find the last percentile below the value
+	let lower = 0;
+	while (percentiles[lower + 1] < value) lower++;
+
+	// Interpolate within the percentile the value falls in
+	return Math.round((lower + (value - percentiles[lower]) / (percentiles[lower + 1] - percentiles[lower])) * 10) / 10;
+}
@@ -0,0 +1,86 @@
+// Internal Imports
+import { incrementCounter, METRICS } from './metrics.service';
+import { ApiVersion, type ApiVersionDefinition } from '../types/types';
+
+// Setup the Versions of the API (a new version adds its definition here and adapts the responses that changed)
+export const API_VERSIONS: Record<ApiVersion, ApiVersionDefinition> = {
+	[ApiVersion.V1]: {
+		version: ApiVersion.V1,
+		deprecatedAt: null,
+		sunsetAt: null,
+		successor: null,
+		adaptResponse: (route, payload) => payload,
+	},
+};
+
+// Setup the Version served by the routes without a version prefix
+export const UNPREFIXED_API_VERSION = ApiVersion.V1;
+
+// Setup the Highest Plugin Version parts counted under their own metric label (the header is sent by the client, so the labels must stay bounded)
+const MAX_LABELLED_PLUGIN_MAJOR_VERSION = 9;
+const MAX_LABELLED_PLUGIN_MINOR_VERSION = 19;
+
+/**
+ * Remove the version prefix from a URL
+ * @param url The URL or route pattern (e.g. /v1/splits/get)
+ * @returns The URL without the version prefix (e.g. /splits/get)
+ */
+export function stripApiVersionPrefix(url: string): string {
+	// Remove the Prefix if present
+	return url.replace(/^\/v\d+(?=\/|$)/, '');
+}
+
+/**
+ * Get the headers that warn clients about a deprecated version
+ * @param definition The version
+ * @param url The requested URL without the version prefix, to point at the same route of the successor
+ * @returns The Deprecation, Sunset and Link headers, or no headers if the version is not deprecated
+ */
+export function getDeprecationHeaders(definition: ApiVersionDefinition, url: string): Record<string, string> {
+	// Check if the Version is not deprecated
+	if (!definition.deprecatedAt) return {};
+
+	// Setup the Deprecation Header as the Unix time it was deprecated at (RFC 9745)
+	const headers: Record<string, string> = { deprecation: `@${Math.floor(definition.deprecatedAt.getTime() / 1000)}` };
+
+	// Add the Date the version stops being served (RFC 8594)
+	if (definition.sunsetAt) headers['sunset'] = definition.sunsetAt.toUTCString();
+
+	// Add a Link to the same route of the successor
+	if (definition.successor) headers['link'] = `</${definition.successor}${url}>; rel="successor-version"`;
+
+	// Return the Headers
+	return headers;
+}
+
+/**
+ * Count a request in the usage of the API versions
+ * @param version The version of the API the request was served by
+ * @param pluginVersion The version of the plugin that sent the request, or null if it was not sent by the plugin
+ * @param unprefixed Whether the request used a route without a version prefix
+ * @returns void
+ */
+export function recordApiUsage(version: ApiVersion, pluginVersion: string | null, unprefixed: boolean): void {
+	// Increment the Counter of the versions
+	incrementCounter(METRICS.API_REQUESTS, { version, plugin_version: getPluginVersionLabel(pluginVersion), unprefixed: String(unprefixed) });
+}
+
+/**
+ * Get the metric label of a plugin version
+ * @param pluginVersion The version of the plugin, or null if the request was not sent by the plugin
+ * @returns The major and minor version (e.g. 3.1 for 3.1.9), 'none' without a version, or 'other' for versions outside the labelled range
+ */
+function getPluginVersionLabel(pluginVersion: string | null): string {
+	// Check if the Request was not sent by the plugin
+	if (pluginVersion === null) return 'none';
+
+	// Get the Major and Minor Version (a missing minor version is 0)
+	const [major, minor = 0] = pluginVersion.split('.').map(Number);
+
+	// Check if the Version is malformed or outside the labelled range
+	if (!Number.isInteger(major) || !Number.isInteger(minor) || major > MAX_LABELLED_PLUGIN_MAJOR_VERSION || minor > MAX_LABELLED_PLUGIN_MINOR_VERSION)
+		return 'other';
+
+	// Return the Major and Minor Version
+	return `${major}.${minor}`;
+}
@@ -0,0 +1,21 @@
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import type { AuditAction, AuditLogEntry } from '../types/types';
+
+/**
+ * Record an action in the audit log
+ * @param action The action that was taken
+ * @param actorAccountId The account ID of the player who took the action
+ * @param targetAccountId The account ID of the player the action was taken on, or null
+ * @param details The details of the action (never the personal data it removed)
+ * @returns The new audit log entry
+ */
+export async function recordAuditEvent(
+	action: AuditAction,
+	actorAccountId: string,
+	targetAccountId: string | null,
+	details: Record<string, unknown> = {},
+): Promise<AuditLogEntry> {
+	// Add the entry to the audit log
+	return await getRepositories().auditLog.create({ action, actorAccountId, targetAccountId, details });
+}
@@ -0,0 +1,247 @@
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { getPlayerById } from './player.service';
+import { normalizeCheckpointTimes, predict } from './prediction.service';
+import { getRemoteConfig } from './remote-config.service';
+import {
+	PredictorMethod,
+	type BacktestMethodStatistics,
+	type BacktestReport,
+	type BacktestStatistics,
+	type PopulatedTMNextSplit,
+	type TMNextMap,
+} from '../types/types';
+
+// Setup the Maximum Number of maps a backtest can replay through the API (the CLI replays every map)
+export const MAX_BACKTEST_MAPS = 50;
+
+/**
+ * Type for the running totals of the prediction errors of a method
+ */
+type ErrorTotals = { predictions: number; error: number; absoluteError: number; squaredError: number };
+
+/**
+ * Type for the running totals of a group of replayed runs
+ */
+type BacktestTotals = { runs: number; methods: Record<PredictorMethod, ErrorTotals> };
+
+/**
+ * Replay stored runs checkpoint by checkpoint and compare what every prediction method would have predicted to their finish times
+ * @param mapIds The IDs of the maps to replay the runs of, or null for every map
+ * @param accountId The account ID of the player to only replay the runs of, or null for every player
+ * @returns The report
+ */
+export async function runBacktest(mapIds: string[] | null, accountId: string | null = null): Promise<BacktestReport> {
+	// Get the Repositories
+	const { maps, splits } = getRepositories();
+
+	// Find the Maps, the Player and the hybrid weight the server predicts with
+	const [backtestMaps, player, remoteConfig] = await Promise.all([
+		mapIds ? maps.findByMapIds(mapIds) : maps.findAll(),
+		accountId ? getPlayerById(accountId) : null,
+		getRemoteConfig(),
+	]);
+
+	// Setup the Totals of every group
+	const overallTotals = createTotals();
+	const mapTotals = new Map<string, { map: TMNextMap; totals: BacktestTotals }>();
+	const playerTotals = new Map<string, { accountId: string; displayName: string; totals: BacktestTotals }>();
+	const checkpointTotals = new Map<number, BacktestTotals>();
+	let skippedRuns = 0;
+
+	// Check if the Player does not exist (they have no runs to replay)
+	if (accountId && !player) return toReport(overallTotals, mapTotals, playerTotals, checkpointTotals, skippedRuns);
+
+	// Replay the runs of every map one map at a time
+	for (const map of backtestMaps) {
+		// Find the runs of the map, skipping the splits that do not count towards global queries
+		const mapSplits = await splits.find({ mapId: map._id, playerId: player?._id, globalOnly: true });
+
+		// Replay the runs of every player in the order they were driven
+		for (const playerSplits of groupByPlayer(mapSplits).values()) {
+			// Setup the Personal Best of the player before the run being replayed
+			let personalBest: PopulatedTMNextSplit | null = null;
+
+			// Replay every Run of the player
+			for (const split of playerSplits) {
+				// Check if the Player had no earlier run to compare against and skip the run
+				if (!personalBest) {
+					skippedRuns++;
+					personalBest = split;
+					continue;
+				}
+
+				// Get the Checkpoint Times of the run and its personal best before it
+				const checkpointTimes = normalizeCheckpointTimes(split.checkpointTimes);
+				const comparisonCheckpointTimes = normalizeCheckpointTimes(personalBest.checkpointTimes);
+
+				// Get the Totals of the map and the player
+				const mapEntry = mapTotals.get(map.mapId) ?? { map, totals: createTotals() };
+				const playerEntry = playerTotals.get(split.playerId.accountId) ?? {
+					accountId: split.playerId.accountId,
+					displayName: split.playerId.displayName,
+					totals: createTotals(),
+				};
+				mapTotals.set(map.mapId, mapEntry);
+				playerTotals.set(split.playerId.accountId, playerEntry);
+
+				// Count the Run in its groups
+				for (const totals of [overallTotals, mapEntry.totals, playerEntry.totals]) totals.runs++;
+
+				// Predict the finish at every checkpoint before the finish with every method
+				for (let checkpoint = 1; checkpoint < checkpointTimes.length; checkpoint++) {
+					// Get the Totals of the checkpoint and count the run in them
+					const checkpointEntry = checkpointTotals.get(checkpoint) ?? createTotals();
+					checkpointTotals.set(checkpoint, checkpointEntry);
+					checkpointEntry.runs++;
+
+					// Predict with every Method
+					for (const method of Object.values(PredictorMethod)) {
+						// Predict the finish time from the checkpoints passed so far
+						const prediction = predict({
+							method,
+							checkpointTimes: checkpointTimes.slice(0, checkpoint),
+							totalCheckpoints: checkpointTimes.length,
+							comparisonCheckpointTimes,
+							hybridBestSplitsWeight: remoteConfig.prediction.hybridBestSplitsWeight,
+						});
+
+						// Add the Error to every group of the prediction
+						const error = prediction.predictedTime - split.totalTime;
+						for (const totals of [overallTotals, mapEntry.totals, playerEntry.totals, checkpointEntry]) addError(totals.methods[method], error);
+					}
+				}
+
+				// Keep the Run as the personal best if it is faster
+				if (split.totalTime < personalBest.totalTime) personalBest = split;
+			}
+		}
+	}
+
+	// Return the Report
+	return toReport(overallTotals, mapTotals, playerTotals, checkpointTotals, skippedRuns);
+}
+
+/**
+ * Group the runs of a map by player, each in the order they were driven
+ * @param splits The runs of the map
+ * @returns The runs of every player, oldest first
+ */
+function groupByPlayer(splits: Array<PopulatedTMNextSplit>): Map<string, Array<PopulatedTMNextSplit>> {
+	// Setup the Runs of every player
+	const splitsByPlayer = new Map<string, Array<PopulatedTMNextSplit>>();
+
+	// Sort the runs by the date they were driven (runs uploaded in one batch share a date, so their upload order breaks ties)
+	const sortedSplits = [...splits].sort((a, b) => a.runDate.getTime() - b.runDate.getTime() || a.createdAt.getTime() - b.createdAt.getTime());
+
+	// Add every Run to its player
+	for (const split of sortedSplits) {
+		const playerSplits = splitsByPlayer.get(split.playerId.accountId) ?? [];
+		playerSplits.push(split);
+		splitsByPlayer.set(split.playerId.accountId, playerSplits);
+	}
+
+	// Return the Runs of every player
+	return splitsByPlayer;
+}
+
+/**
+ * Create empty totals for a group of replayed runs
+ * @returns The totals
+ */
+function createTotals(): BacktestTotals {
+	// Setup the Totals of every method
+	const methods = Object.fromEntries(
+		Object.values(PredictorMethod).map(method => [method, { predictions: 0, error: 0, absoluteError: 0, squaredError: 0 }]),
+	) as Record<PredictorMethod, ErrorTotals>;
+
+	// Return the Totals
+	return { runs: 0, methods };
+}
+
+/**
+ * Add the error of a prediction to the totals of a method
+ * @param totals The totals of the method
+ * @param error The predicted time minus the finish time in milliseconds
+ * @returns void
+ */
+function addError(totals: ErrorTotals, error: number): void {
+	// Add the Error to the totals
+	totals.predictions++;
+	totals.error += error;
+	totals.absoluteError += Math.abs(error);
+	totals.squaredError += error * error;
+}
+
+/**
+ * Turn the totals of a group of replayed runs into its error statistics
+ * @param totals The totals
+ * @returns The statistics of every method, rounded to the millisecond
+ */
+function toStatistics(totals: BacktestTotals): BacktestStatistics {
+	// Setup the Statistics of every method
+	const methods = Object.fromEntries(
+		Object.entries(totals.methods).map(([method, methodTotals]): [string, BacktestMethodStatistics] => {
+			// Get the Number of predictions (avoiding a division by zero)
+			const predictions = methodTotals.predictions || 1;
+
+			// Return the Statistics of the method
+			return [
+				method,
+				{
+					predictions: methodTotals.predictions,
+					meanError: Math.round(methodTotals.error / predictions),
+					meanAbsoluteError: Math.round(methodTotals.absoluteError / predictions),
+					rootMeanSquaredError: Math.round(Math.sqrt(methodTotals.squaredError / predictions)),
+				},
+			];
+		}),
+	) as Record<PredictorMethod, BacktestMethodStatistics>;
+
+	// Return the Statistics
+	return { runs: totals.runs, methods };
+}
+
+/**
+ * Build the report of a backtest from the totals of every group
+ * @param overallTotals The totals of every replayed run
+ * @param mapTotals The totals of every map
+ * @param playerTotals The totals of every player
+ * @param checkpointTotals The totals of every number of checkpoints passed
+ * @param skippedRuns The number of runs without an earlier run to compare against
+ * @returns The report
+ */
+function toReport(
+	overallTotals: BacktestTotals,
+	mapTotals: Map<string, { map: TMNextMap; totals: BacktestTotals }>,
+	playerTotals: Map<string, { accountId: string; displayName: string; totals: BacktestTotals }>,
+	checkpointTotals: Map<number, BacktestTotals>,
+	skippedRuns: number,
+): BacktestReport {
+	// Get the Overall Statistics
+	const overall = toStatistics(overallTotals);
+
+	// Get the Method with the lowest mean absolute error
+	const bestMethod =
+		overall.runs > 0
+			? Object.values(PredictorMethod).reduce((best, method) =>
+					overall.methods[method].meanAbsoluteError < overall.methods[best].meanAbsoluteError ? method : best,
+				)
+			: null;
+
+	// Return the Report
+	return {
+		overall,
+		bestMethod,
+		skippedRuns,
+		maps: Array.from(mapTotals.values(), ({ map, totals }) => ({ mapId: map.mapId, name: map.name ?? null, ...toStatistics(totals) })).sort(
+			(a, b) => b.runs - a.runs,
+		),
+		players: Array.from(playerTotals.values(), ({ accountId, displayName, totals }) => ({ accountId, displayName, ...toStatistics(totals) })).sort(
+			(a, b) => b.runs - a.runs,
+		),
+		checkpoints: Array.from(checkpointTotals.entries(), ([checkpoint, totals]) => ({ checkpoint, ...toStatistics(totals) })).sort(
+			(a, b) => a.checkpoint - b.checkpoint,
+		),
+	};
+}
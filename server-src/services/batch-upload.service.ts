@@ -0,0 +1,122 @@
+// Internal Imports
+import { getSplitByClientRunId, saveSplit } from './split.service';
+import { validateSplitData, validateSplitForMap } from './split-validation.service';
+import {
+	BatchRunStatus,
+	type BatchRun,
+	type BatchRunResult,
+	type BatchUploadResult,
+	type SaveSplitData,
+	type SplitValidationError,
+} from '../types/types';
+
+// Setup the Maximum Number of Runs per Batch
+export const MAX_BATCH_RUNS = 100;
+
+/**
+ * Save a batch of runs, skipping the ones whose client run ID was already uploaded
+ * @param accountId The account ID of the player
+ * @param displayName The display name of the player
+ * @param runs The runs to save
+ * @returns The outcome of every run
+ */
+export async function saveSplitBatch(accountId: string, displayName: string, runs: Array<BatchRun>): Promise<BatchUploadResult> {
+	// Setup the Results Array
+	const results: Array<BatchRunResult> = new Array();
+
+	// Save the runs one by one so a client run ID repeated within the batch is caught as a duplicate
+	for (const run of runs) results.push(await saveBatchRun(accountId, displayName, run));
+
+	// Return the Batch Upload Result
+	return getBatchUploadResult(results);
+}
+
+/**
+ * Count the outcomes of the runs of a batch
+ * @param results The outcome of every run
+ * @returns The batch upload result
+ */
+export function getBatchUploadResult(results: Array<BatchRunResult>): BatchUploadResult {
+	// Return the Batch Upload Result
+	return {
+		created: results.filter(result => result.status === BatchRunStatus.CREATED).length,
+		duplicates: results.filter(result => result.status === BatchRunStatus.DUPLICATE).length,
+		rejected: results.filter(result => result.status === BatchRunStatus.REJECTED).length,
+		results,
+	};
+}
+
+/**
+ * Save a single run of a batch
+ * @param accountId The account ID of the player
+ * @param displayName The display name of the player
+ * @param run The run to save
+ * @returns The outcome of the run
+ */
+export async function saveBatchRun(accountId: string, displayName: string, run: BatchRun): Promise<BatchRunResult> {
+	// Get the client run ID, map ID, checkpoint times, total time and run date from the run
+	const { clientRunId, mapId, checkpointTimes, totalTime, runDate } = run;
+
+	// Validate the run
+	const validationError = validateSplitData(run);
+
+	// Check if the Run Is invalid and reject it
+	if (validationError) return getRejectedResult(clientRunId, validationError);
+
+	// Find the split the run was already saved as
+	const existingSplit = await getSplitByClientRunId(accountId, clientRunId);
+
+	// Check if the Run was already saved
+	if (existingSplit)
+		return {
+			clientRunId,
+			status: BatchRunStatus.DUPLICATE,
+			splitId: existingSplit._id.toString(),
+			splitStatus: existingSplit.status,
+			code: null,
+			error: null,
+		};
+
+	// Setup the Split Data
+	const splitData: SaveSplitData = { checkpointTimes, totalTime, runDate: runDate ? new Date(runDate) : null, clientRunId };
+
+	// Validate the run against the known details of the map
+	const mapValidationError = await validateSplitForMap(mapId, splitData);
+
+	// Check if the Run does not match the map and reject it
+	if (mapValidationError) return getRejectedResult(clientRunId, mapValidationError);
+
+	// Save the run
+	const savedSplit = await saveSplit(accountId, displayName, mapId, splitData);
+
+	// Check if the Run was saved by a concurrent upload and report it as a duplicate
+	if (!savedSplit) return await saveBatchRun(accountId, displayName, run);
+
+	// Return the Created Result
+	return {
+		clientRunId,
+		status: BatchRunStatus.CREATED,
+		splitId: savedSplit.split._id.toString(),
+		splitStatus: savedSplit.split.status,
+		code: null,
+		error: null,
+	};
+}
+
+/**
+ * Get the result of a rejected run
+ * @param clientRunId The ID the client generated for the run
+ * @param validationError The reason the run was rejected
+ * @returns The rejected result
+ */
+function getRejectedResult(clientRunId: string, validationError: SplitValidationError): BatchRunResult {
+	// Return the Rejected Result
+	return {
+		clientRunId,
+		status: BatchRunStatus.REJECTED,
+		splitId: null,
+		splitStatus: null,
+		code: validationError.code,
+		error: validationError.error,
+	};
+}
@@ -0,0 +1,181 @@
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { getPlayerById } from './player.service';
+import { getExpectedCheckpointTimesLengths } from './map.service';
+import { recordAuditEvent } from './audit.service';
+import {
+	AuditAction,
+	type CampaignDetails,
+	type CampaignProgress,
+	type CampaignStandingEntry,
+	type CampaignStandings,
+	type TMNextCampaign,
+	type TMNextMap,
+} from '../types/types';
+
+// Setup the Maximum Number of maps a campaign can hold
+export const MAX_CAMPAIGN_MAPS = 200;
+
+/**
+ * Get every campaign
+ * @returns The campaigns, newest first
+ */
+export async function getCampaigns(): Promise<Array<CampaignDetails>> {
+	// Find the campaigns
+	const campaigns = await getRepositories().campaigns.findAll();
+
+	// Return the Campaigns
+	return campaigns.map(campaignToDetails);
+}
+
+/**
+ * Create a campaign or replace its name and maps as an admin
+ * @param adminAccountId The account ID of the admin
+ * @param campaignId The ID of the campaign
+ * @param name The name of the campaign
+ * @param mapIds The IDs of the maps in the campaign, in order
+ * @returns The campaign
+ */
+export async function saveCampaign(adminAccountId: string, campaignId: string, name: string, mapIds: string[]): Promise<CampaignDetails> {
+	// Create or update the campaign
+	const campaign = await getRepositories().campaigns.save(campaignId, { name, mapIds });
+
+	// Record the change in the audit log
+	await recordAuditEvent(AuditAction.CAMPAIGN_SAVED, adminAccountId, null, { campaignId, mapCount: mapIds.length });
+
+	// Return the Campaign
+	return campaignToDetails(campaign);
+}
+
+/**
+ * Get the personal best of a player on every map of a campaign
+ * @param campaignId The ID of the campaign
+ * @param accountId The account ID of the player
+ * @returns The progress of the player, or null if the campaign does not exist
+ */
+export async function getCampaignProgress(campaignId: string, accountId: string): Promise<CampaignProgress | null> {
+	// Find the Campaign
+	const campaign = await getRepositories().campaigns.findByCampaignId(campaignId);
+
+	// Check if the Campaign does not exist
+	if (!campaign) return null;
+
+	// Find the Maps of the campaign and the Player
+	const [maps, player] = await Promise.all([getCampaignMaps(campaign), getPlayerById(accountId)]);
+
+	// Find the best time of the player on every map (their personal bests, from their accepted runs), unless none of the maps is stored yet
+	const bestTimes =
+		player && maps.size > 0
+			? await getRepositories().splits.findBestTimes({ mapIds: Array.from(maps.values(), map => map._id), playerId: player._id, acceptedOnly: true })
+			: [];
+
+	// Setup the Progress of every map in campaign order
+	const mapProgress = campaign.mapIds.map(mapId => {
+		// Get the Map and the best time of the player on it
+		const map = maps.get(mapId);
+		const bestTime = map ? bestTimes.find(time => time.mapId.toString() === map._id.toString()) : undefined;
+
+		// Return the Progress of the map
+		return {
+			mapId,
+			name: map?.name ?? null,
+			splitId: bestTime?.splitId.toString() ?? null,
+			totalTime: bestTime?.totalTime ?? null,
+			runDate: bestTime?.runDate ?? null,
+		};
+	});
+
+	// Count the Maps the player has a run on
+	const finishedMaps = mapProgress.filter(progress => progress.totalTime !== null).length;
+
+	// Return the Progress
+	return {
+		campaignId,
+		name: campaign.name,
+		accountId,
+		maps: mapProgress,
+		totalTime: mapProgress.reduce((total, progress) => total + (progress.totalTime ?? 0), 0),
+		finishedMaps,
+		missingMaps: campaign.mapIds.length - finishedMaps,
+	};
+}
+
+/**
+ * Get a page of the standings of a campaign, ranking the players by the number of maps they finished and then by their total time
+ * @param campaignId The ID of the campaign
+ * @param accountId The account ID of the requesting player
+ * @param page The page number (starting at 1)
+ * @param pageSize The number of entries per page
+ * @returns The standings page, or null if the campaign does not exist
+ */
+export async function getCampaignStandings(campaignId: string, accountId: string, page: number, pageSize: number): Promise<CampaignStandings | null> {
+	// Find the Campaign
+	const campaign = await getRepositories().campaigns.findByCampaignId(campaignId);
+
+	// Check if the Campaign does not exist
+	if (!campaign) return null;
+
+	// Find the Maps of the campaign and the Player
+	const [maps, player] = await Promise.all([getCampaignMaps(campaign), getPlayerById(accountId)]);
+
+	// Get the checkpoint time counts a complete run on every map can have, skipping incomplete runs like the leaderboards do
+	const checkpointTimesLengths: Record<string, Array<number>> = {};
+	for (const map of maps.values()) {
+		// Get the Checkpoint Time Counts of the map
+		const lengths = getExpectedCheckpointTimesLengths(map);
+
+		// Check if the Checkpoint Count of the map is known and add them
+		if (lengths) checkpointTimesLengths[map._id.toString()] = lengths;
+	}
+
+	// Rank the players and get the page, skipping the splits that do not count towards global queries (nobody has a run until a map is stored)
+	const rankedPage =
+		maps.size > 0
+			? await getRepositories().splits.getRankedTotalPage(
+					{ mapIds: Array.from(maps.values(), map => map._id), globalOnly: true, checkpointTimesLengths },
+					(page - 1) * pageSize,
+					pageSize,
+					player?._id ?? null,
+				)
+			: { totalPlayers: 0, entries: [], playerEntry: null };
+
+	// Setup the Entry Mapper
+	const toEntry = (entry: Omit<CampaignStandingEntry, 'missingMaps'>): CampaignStandingEntry => ({
+		...entry,
+		missingMaps: campaign.mapIds.length - entry.finishedMaps,
+	});
+
+	// Return the Standings Page
+	return {
+		campaignId,
+		page,
+		pageSize,
+		mapCount: campaign.mapIds.length,
+		totalPlayers: rankedPage.totalPlayers,
+		entries: rankedPage.entries.map(toEntry),
+		playerEntry: rankedPage.playerEntry ? toEntry(rankedPage.playerEntry) : null,
+	};
+}
+
+/**
+ * Find the stored maps of a campaign (maps nobody saved a run on yet are missing)
+ * @param campaign The campaign
+ * @returns The maps by their IDs
+ */
+async function getCampaignMaps(campaign: TMNextCampaign): Promise<Map<string, TMNextMap>> {
+	// Find the Maps
+	const maps = await getRepositories().maps.findByMapIds(campaign.mapIds);
+
+	// Return the Maps by their IDs
+	return new Map(maps.map(map => [map.mapId, map]));
+}
+
+/**
+ * Map a campaign to the campaign as the players see it
+ * @param campaign The campaign
+ * @returns The campaign details
+ */
+function campaignToDetails(campaign: TMNextCampaign): CampaignDetails {
+	// Return the Campaign Details
+	return { campaignId: campaign.campaignId, name: campaign.name, mapIds: campaign.mapIds };
+}
@@ -0,0 +1,303 @@
+// External Imports
+import { randomBytes } from 'crypto';
+
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { findOrCreatePlayer, getPlayerById } from './player.service';
+import { getMapById } from './map.service';
+import { getMapLeaderboard } from './leaderboard.service';
+import {
+	ClubErrorCode,
+	type ClubDetails,
+	type ClubError,
+	type Leaderboard,
+	type PopulatedTMNextSplit,
+	type TMNextClub,
+	type TMNextPlayer,
+} from '../types/types';
+
+// Setup the Maximum Number of members a club can have
+export const MAX_CLUB_MEMBERS = 100;
+
+/**
+ * Create a club owned by a player
+ * @param accountId The account ID of the player
+ * @param displayName The display name of the player
+ * @param name The name of the club
+ * @param tag The short tag of the club, or null
+ * @returns The new club, or the reason it could not be created
+ */
+export async function createClub(accountId: string, displayName: string, name: string, tag: string | null): Promise<ClubDetails | ClubError> {
+	// Find or create the Player (players can create a club before saving a run)
+	const player = await findOrCreatePlayer(accountId, displayName);
+
+	// Create the club with the player as its owner and only member
+	const club = await getRepositories().clubs.create({
+		name: name.trim(),
+		tag: tag?.trim() || null,
+		ownerId: player._id,
+		memberIds: [player._id],
+		invitedAccountIds: [],
+		inviteCode: createInviteCode(),
+	});
+
+	// Check if the Name is already used
+	if (!club) return { code: ClubErrorCode.CLUB_NAME_TAKEN, error: 'A club with this name already exists' };
+
+	// Return the Club
+	return await getClubDetails(club, player);
+}
+
+/**
+ * Get the clubs a player is a member of
+ * @param accountId The account ID of the player
+ * @returns The clubs, oldest first
+ */
+export async function getPlayerClubs(accountId: string): Promise<Array<ClubDetails>> {
+	// Find the Player
+	const player = await getPlayerById(accountId);
+
+	// Check if the Player does not exist
+	if (!player) return [];
+
+	// Find the clubs of the player
+	const clubs = await getRepositories().clubs.findByMember(player._id);
+
+	// Return the Clubs
+	return await Promise.all(clubs.map(club => getClubDetails(club, player)));
+}
+
+/**
+ * Get a club
+ * @param accountId The account ID of the requesting player
+ * @param clubId The ID of the club
+ * @returns The club, or the reason it could not be found or seen
+ */
+export async function getClub(accountId: string, clubId: string): Promise<ClubDetails | ClubError> {
+	// Find the Club and the Player
+	const [club, player] = await Promise.all([getRepositories().clubs.findById(clubId), getPlayerById(accountId)]);
+
+	// Check if the Club does not exist
+	if (!club) return clubNotFoundError();
+
+	// Check if the Player is not a member of the club
+	if (!player || !isMember(club, player)) return notClubMemberError();
+
+	// Return the Club
+	return await getClubDetails(club, player);
+}
+
+/**
+ * Invite a player to a club
+ * @param accountId The account ID of the owner of the club
+ * @param clubId The ID of the club
+ * @param inviteeAccountId The account ID of the player to invite
+ * @returns The updated club, or the reason the player could not be invited
+ */
+export async function inviteToClub(accountId: string, clubId: string, inviteeAccountId: string): Promise<ClubDetails | ClubError> {
+	// Get the Club Repository
+	const { clubs } = getRepositories();
+
+	// Find the Club and the Players
+	const [club, player, invitee] = await Promise.all([clubs.findById(clubId), getPlayerById(accountId), getPlayerById(inviteeAccountId)]);
+
+	// Check if the Club does not exist
+	if (!club) return clubNotFoundError();
+
+	// Check if the Player does not own the club
+	if (!player || !isOwner(club, player)) return { code: ClubErrorCode.NOT_CLUB_OWNER, error: 'Only the owner of the club can invite players' };
+
+	// Check if the Invitee is already a member (players who never saved a run can still be invited by their account ID)
+	if (invitee && isMember(club, invitee)) return { code: ClubErrorCode.ALREADY_MEMBER, error: 'The player is already a member of the club' };
+
+	// Invite the player
+	const updatedClub = await clubs.addInvite(clubId, inviteeAccountId);
+
+	// Check if the Club was deleted in the meantime
+	if (!updatedClub) return clubNotFoundError();
+
+	// Return the Updated Club
+	return await getClubDetails(updatedClub, player);
+}
+
+/**
+ * Join a club, either with an invite or with the invite code of the club
+ * @param accountId The account ID of the player
+ * @param displayName The display name of the player
+ * @param clubId The ID of the club
+ * @param inviteCode The invite code of the club, or null to use an invite
+ * @returns The joined club, or the reason the player could not join
+ */
+export async function joinClub(accountId: string, displayName: string, clubId: string, inviteCode: string | null): Promise<ClubDetails | ClubError> {
+	// Get the Club Repository
+	const { clubs } = getRepositories();
+
+	// Find the Club
+	const club = await clubs.findById(clubId);
+
+	// Check if the Club does not exist
+	if (!club) return clubNotFoundError();
+
+	// Check if the Player was not invited and did not send the invite code
+	if (!club.invitedAccountIds.includes(accountId) && inviteCode !== club.inviteCode)
+		return { code: ClubErrorCode.NOT_INVITED, error: 'You need an invite or the invite code of the club to join' };
+
+	// Find or create the Player (invited players can join before saving a run)
+	const player = await findOrCreatePlayer(accountId, displayName);
+
+	// Check if the Player is already a member
+	if (isMember(club, player)) return { code: ClubErrorCode.ALREADY_MEMBER, error: 'You are already a member of the club' };
+
+	// Add the player to the club, unless it is full
+	const updatedClub = await clubs.addMember(clubId, player._id, accountId, MAX_CLUB_MEMBERS);
+
+	// Check if the Club is full or was deleted in the meantime
+	if (!updatedClub)
+		return (await clubs.findById(clubId))
+			? { code: ClubErrorCode.CLUB_FULL, error: `Clubs can have at most ${MAX_CLUB_MEMBERS} members` }
+			: clubNotFoundError();
+
+	// Return the Joined Club
+	return await getClubDetails(updatedClub, player);
+}
+
+/**
+ * Get a page of the leaderboard of a map, ranking only the members of a club
+ * @param accountId The account ID of the requesting player
+ * @param clubId The ID of the club
+ * @param mapId The ID of the map
+ * @param page The page number (starting at 1)
+ * @param pageSize The number of entries per page
+ * @returns The leaderboard page, or the reason it could not be found or seen
+ */
+export async function getClubLeaderboard(
+	accountId: string,
+	clubId: string,
+	mapId: string,
+	page: number,
+	pageSize: number,
+): Promise<Leaderboard | ClubError> {
+	// Find the Club and the Player
+	const [club, player] = await Promise.all([getRepositories().clubs.findById(clubId), getPlayerById(accountId)]);
+
+	// Check if the Club does not exist
+	if (!club) return clubNotFoundError();
+
+	// Check if the Player is not a member of the club
+	if (!player || !isMember(club, player)) return notClubMemberError();
+
+	// Return the Leaderboard of the members
+	return await getMapLeaderboard(mapId, accountId, page, pageSize, club.memberIds);
+}
+
+/**
+ * Get the fastest split among the members of a club
+ * @param accountId The account ID of the requesting player
+ * @param clubId The ID of the club
+ * @param mapId The ID of the map
+ * @returns The club best split, or null if the club or map does not exist, the player is not a member or no member has a run
+ */
+export async function getClubBestSplit(accountId: string, clubId: string, mapId: string): Promise<PopulatedTMNextSplit | null> {
+	// Find the Club, the Map and the Player
+	const [club, map, player] = await Promise.all([getRepositories().clubs.findById(clubId), getMapById(mapId), getPlayerById(accountId)]);
+
+	// Check if the Club or Map does not exist, or the Player is not a member of the club
+	if (!club || !map || !player || !isMember(club, player)) return null;
+
+	// Find the fastest split of the members, skipping the splits that do not count towards global queries
+	return await getRepositories().splits.findBest({ mapId: map._id, playerIds: club.memberIds, globalOnly: true });
+}
+
+/**
+ * Get the HTTP status code for a club error
+ * @param clubError The club error
+ * @returns The HTTP status code
+ */
+export function getClubErrorStatusCode(clubError: ClubError): number {
+	// Return the Status Code of the error
+	switch (clubError.code) {
+		case ClubErrorCode.CLUB_NOT_FOUND:
+			return 404;
+		case ClubErrorCode.NOT_CLUB_OWNER:
+		case ClubErrorCode.NOT_CLUB_MEMBER:
+		case ClubErrorCode.NOT_INVITED:
+			return 403;
+		default:
+			return 409;
+	}
+}
+
+/**
+ * Map a club to the club as a player sees it
+ * @param club The club
+ * @param player The requesting player, or null if they never saved a run
+ * @returns The club details, with the invite code and pending invites only for the owner
+ */
+async function getClubDetails(club: TMNextClub, player: TMNextPlayer | null): Promise<ClubDetails> {
+	// Find the Members of the club
+	const members = await getRepositories().players.findByIds(club.memberIds);
+
+	// Check if the Player owns the club
+	const playerIsOwner = !!player && isOwner(club, player);
+
+	// Return the Club Details
+	return {
+		id: club._id.toString(),
+		name: club.name,
+		tag: club.tag,
+		members: members
+			.map(member => ({ accountId: member.accountId, displayName: member.displayName, isOwner: isOwner(club, member) }))
+			.sort((a, b) => Number(b.isOwner) - Number(a.isOwner) || a.displayName.localeCompare(b.displayName)),
+		inviteCode: playerIsOwner ? club.inviteCode : null,
+		invitedAccountIds: playerIsOwner ? club.invitedAccountIds : [],
+	};
+}
+
+/**
+ * Check if a player owns a club
+ * @param club The club
+ * @param player The player
+ * @returns Whether the player owns the club
+ */
+function isOwner(club: TMNextClub, player: TMNextPlayer): boolean {
+	// Compare the Owner ID with the ID of the player
+	return club.ownerId.toString() === player._id.toString();
+}
+
+/**
+ * Check if a player is a member of a club
+ * @param club The club
+ * @param player The player
+ * @returns Whether the player is a member of the club
+ */
+function isMember(club: TMNextClub, player: TMNextPlayer): boolean {
+	// Check if the Member IDs include the ID of the player
+	return club.memberIds.some(memberId => memberId.toString() === player._id.toString());
+}
+
+/**
+ * Create the invite code of a club
+ * @returns The random invite code
+ */
+function createInviteCode(): string {
+	// Return 8 random bytes as hex
+	return randomBytes(8).toString('hex');
+}
+
+/**
+ * Get the error of a club that does not exist
+ * @returns The club error
+ */
+function clubNotFoundError(): ClubError {
+	// Return the Club Not Found Error
+	return { code: ClubErrorCode.CLUB_NOT_FOUND, error: 'Club not found' };
+}
+
+/**
+ * Get the error of a club the player is not a member of
+ * @returns The club error
+ */
+function notClubMemberError(): ClubError {
+	// Return the Not Club Member Error
+	return { code: ClubErrorCode.NOT_CLUB_MEMBER, error: 'Only the members of the club can see it' };
+}
@@ -0,0 +1,123 @@
+// Internal Imports
+import { getGlobalBestSplit, getPlayerBestSplit, getTargetSplit } from './split.service';
+import { getGlobalSumOfBest, getPlayerSumOfBest } from './sum-of-best.service';
+import { getMapById } from './map.service';
+import { normalizeCheckpointTimes, predict } from './prediction.service';
+import { getRemoteConfig } from './remote-config.service';
+import { GetSplitsType, type PredictRequestBody, type RunPrediction, type SplitTarget } from '../types/types';
+
+// Setup the Split Types that resolve to a single comparison split
+export const COMPARISON_SPLIT_TYPES: ReadonlyArray<GetSplitsType> = [
+	GetSplitsType.PERSONAL_BEST,
+	GetSplitsType.GLOBAL_BEST,
+	GetSplitsType.SUM_OF_BEST,
+	GetSplitsType.GLOBAL_SUM_OF_BEST,
+	GetSplitsType.PLAYER_BEST,
+	GetSplitsType.RANK,
+	GetSplitsType.PERCENTILE,
+	GetSplitsType.CLUB_BEST,
+];
+
+// Setup the Split Types that need target parameters
+export const TARGET_SPLIT_TYPES: ReadonlyArray<GetSplitsType> = [
+	GetSplitsType.PLAYER_BEST,
+	GetSplitsType.RANK,
+	GetSplitsType.PERCENTILE,
+	GetSplitsType.CLUB_BEST,
+];
+
+/**
+ * Validate the target parameters of a split type
+ * @param type The type of split
+ * @param target The parameters that pick the split
+ * @returns The error message, or null if the parameters are valid
+ */
+export function validateSplitTarget(type: GetSplitsType, target: SplitTarget): string | null {
+	// Check if the Target Account ID Is missing for the player best type
+	if (type === GetSplitsType.PLAYER_BEST && (!target.targetAccountId || typeof target.targetAccountId !== 'string'))
+		return 'targetAccountId is required for the playerBest type';
+
+	// Check if the Rank Is not a positive integer for the rank type
+	if (type === GetSplitsType.RANK && (!Number.isInteger(target.rank) || target.rank! < 1)) return 'rank must be a positive integer for the rank type';
+
+	// Check if the Percentile Is not within (0, 100] for the percentile type
+	if (type === GetSplitsType.PERCENTILE && (typeof target.percentile !== 'number' || !(target.percentile > 0 && target.percentile <= 100)))
+		return 'percentile must be a number above 0 and at most 100 for the percentile type';
+
+	// Check if the Club ID Is missing for the club best type
+	if (type === GetSplitsType.CLUB_BEST && (!target.clubId || typeof target.clubId !== 'string')) return 'clubId is required for the clubBest type';
+
+	// Return no Error
+	return null;
+}
+
+/**
+ * Get the checkpoint times of the split a run is compared against
+ * @param accountId The account ID of the player
+ * @param mapId The ID of the map
+ * @param type The type of split to compare against
+ * @param target The parameters that pick the split for the target split types
+ * @returns The cumulative checkpoint times of the comparison split, or null if there is none
+ */
+export async function getComparisonCheckpointTimes(
+	accountId: string,
+	mapId: string,
+	type: GetSplitsType,
+	target: SplitTarget = {},
+): Promise<number[] | null> {
+	// Resolve the comparison split for the type
+	switch (type) {
+		case GetSplitsType.PERSONAL_BEST:
+			return (await getPlayerBestSplit(accountId, mapId))?.checkpointTimes ?? null;
+		case GetSplitsType.GLOBAL_BEST:
+			return (await getGlobalBestSplit(mapId))?.checkpointTimes ?? null;
+		case GetSplitsType.SUM_OF_BEST:
+			return (await getPlayerSumOfBest(accountId, mapId))?.checkpointTimes ?? null;
+		case GetSplitsType.GLOBAL_SUM_OF_BEST:
+			return (await getGlobalSumOfBest(mapId))?.checkpointTimes ?? null;
+		case GetSplitsType.PLAYER_BEST:
+		case GetSplitsType.RANK:
+		case GetSplitsType.PERCENTILE:
+		case GetSplitsType.CLUB_BEST:
+			return (await getTargetSplit(accountId, type, mapId, target))?.checkpointTimes ?? null;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Predict the finish time of a run against its comparison split
+ * @param accountId The account ID of the player
+ * @param body The map, checkpoint times, method, comparison type and target parameters of the prediction
+ * @returns The prediction, or null if the number of checkpoints to finish cannot be resolved
+ */
+export async function getRunPrediction(accountId: string, body: PredictRequestBody): Promise<RunPrediction | null> {
+	// Get the map ID, checkpoint times, method, comparison type and total checkpoints from the body
+	const { mapId, checkpointTimes, method, comparison = GetSplitsType.PERSONAL_BEST, totalCheckpoints, ...target } = body;
+
+	// Get the comparison split, the map and the remote config
+	const [comparisonCheckpointTimes, map, remoteConfig] = await Promise.all([
+		getComparisonCheckpointTimes(accountId, mapId, comparison, target),
+		getMapById(mapId),
+		getRemoteConfig(),
+	]);
+
+	// Get the Total Checkpoints from the body, the comparison split or the map
+	const resolvedTotalCheckpoints =
+		totalCheckpoints ?? (comparisonCheckpointTimes ? normalizeCheckpointTimes(comparisonCheckpointTimes).length : map?.checkpointCount);
+
+	// Check if the Total Checkpoints could not be resolved
+	if (!resolvedTotalCheckpoints) return null;
+
+	// Predict the finish time with the hybrid weight of the remote config
+	const prediction = predict({
+		method,
+		checkpointTimes,
+		totalCheckpoints: resolvedTotalCheckpoints,
+		comparisonCheckpointTimes,
+		hybridBestSplitsWeight: remoteConfig.prediction.hybridBestSplitsWeight,
+	});
+
+	// Return the Run Prediction
+	return { prediction, comparisonCheckpointTimes };
+}
@@ -0,0 +1,183 @@
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { getMapById } from './map.service';
+import { getPlayerById } from './player.service';
+import { normalizeCheckpointTimes } from './prediction.service';
+import { HistorySource, type FinishDistribution } from '../types/types';
+
+// Setup the History Limits
+export const MIN_PLAYER_RUNS = 10;
+export const MAX_HISTORY_RUNS = 5000;
+
+/**
+ * Interface for a run from the history of a map
+ */
+interface HistoryRun {
+	checkpointTimes: number[];
+	totalTime: number;
+}
+
+/**
+ * Get the estimated finish time distribution of a run in progress
+ * @param accountId The account ID of the player
+ * @param mapId The ID of the map
+ * @param checkpointTimes The cumulative times of the checkpoints passed so far
+ * @returns The finish distribution, or null if there are no runs to base it on
+ */
+export async function getFinishDistribution(accountId: string, mapId: string, checkpointTimes: number[]): Promise<FinishDistribution | null> {
+	// Find the Map and the Player
+	const map = await getMapById(mapId);
+	const player = await getPlayerById(accountId);
+
+	// Check if the Map does not exist
+	if (!map) return null;
+
+	// Get the player's most recent runs on the map
+	const playerRuns: Array<HistoryRun> = player
+		? await getRepositories().splits.findRecent({ playerId: player._id, mapId: map._id }, MAX_HISTORY_RUNS)
+		: [];
+
+	// Get the Personal Best
+	const personalBest = playerRuns.length > 0 ? Math.min(...playerRuns.map(run => run.totalTime)) : null;
+
+	// Check if the player has enough runs of their own
+	if (playerRuns.length >= MIN_PLAYER_RUNS) return estimateFinishDistribution(playerRuns, checkpointTimes, personalBest, HistorySource.PLAYER);
+
+	// Fall back to the most recent runs of every player on the map
+	const globalRuns: Array<HistoryRun> = await getRepositories().splits.findRecent({ mapId: map._id, globalOnly: true }, MAX_HISTORY_RUNS);
+
+	// Estimate the distribution from the global runs
+	return estimateFinishDistribution(globalRuns, checkpointTimes, personalBest, HistorySource.GLOBAL);
+}
+
+/**
+ * Estimate the finish time distribution of a run in progress from a history of runs
+ *
+ * The remaining time of every historical run after the current checkpoint is added to the current time.
+ * Each run is weighted by how close its time at the current checkpoint was to the current time (Gaussian kernel),
+ * so the estimate is conditioned on the pace of the run in progress.
+ * @param history The runs to base the estimate on
+ * @param checkpointTimes The cumulative times of the checkpoints passed so far
+ * @param personalBest The personal best of the player in milliseconds, or null if they have none
+ * @param source The runs the history was taken from
+ * @returns The finish distribution, or null if no run in the history lines up with the run in progress
+ */
+export function estimateFinishDistribution(
+	history: Array<HistoryRun>,
+	checkpointTimes: number[],
+	personalBest: number | null,
+	source: HistorySource,
+): FinishDistribution | null {
+	// Normalize the Checkpoint Times
+	const currentTimes = normalizeCheckpointTimes(checkpointTimes);
+	const runs = history.map(run => normalizeCheckpointTimes(run.checkpointTimes));
+
+	// Get the most common checkpoint count in the history
+	const totalCheckpoints = getMostCommonLength(runs);
+
+	// Get the Current Checkpoint and Time
+	const currentCheckpoint = currentTimes.length;
+	const currentTime = currentTimes[currentCheckpoint - 1] ?? 0;
+
+	// Only use complete runs that line up with the run in progress
+	const alignedRuns = totalCheckpoints !== null && currentCheckpoint < totalCheckpoints ? runs.filter(run => run.length === totalCheckpoints) : [];
+
+	// Check if there are no runs to base the estimate on
+	if (alignedRuns.length === 0) return null;
+
+	// Get the time of every run at the current checkpoint and their predicted finish times from the current time
+	const timesAtCheckpoint = alignedRuns.map(run => run[currentCheckpoint - 1] ?? 0);
+	const finishTimes = alignedRuns.map((run, index) => currentTime + run[run.length - 1] - timesAtCheckpoint[index]);
+
+	// Weight every run by how close it was to the current time
+	const weights = getKernelWeights(timesAtCheckpoint, currentTime);
+
+	// Get the Total Weight
+	const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+	// Get the probability of beating the personal best
+	const personalBestProbability =
+		personalBest !== null ? finishTimes.reduce((sum, time, index) => sum + (time < personalBest ? weights[index] : 0), 0) / totalWeight : null;
+
+	// Return the Finish Distribution
+	return {
+		source,
+		sampleSize: alignedRuns.length,
+		currentCheckpoint,
+		totalCheckpoints: totalCheckpoints!,
+		median: getWeightedQuantile(finishTimes, weights, 0.5),
+		p10: getWeightedQuantile(finishTimes, weights, 0.1),
+		p90: getWeightedQuantile(finishTimes, weights, 0.9),
+		personalBest,
+		personalBestProbability,
+	};
+}
+
+/**
+ * Get the Gaussian kernel weight of every sample around a value
+ * @param samples The samples to weight
+ * @param value The value to center the kernel on
+ * @returns The weight of every sample (uniform if the samples do not vary or are all too far away)
+ */
+function getKernelWeights(samples: number[], value: number): number[] {
+	// Get the Mean and Standard Deviation of the samples
+	const mean = samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+	const standardDeviation = Math.sqrt(samples.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) / samples.length);
+
+	// Get the Bandwidth using Silverman's rule of thumb
+	const bandwidth = 1.06 * standardDeviation * samples.length ** -0.2;
+
+	// Check if the samples do not vary and weight them uniformly
+	if (bandwidth === 0) return samples.map(() => 1);
+
+	// Weight every sample by its distance to the value
+	const weights = samples.map(sample => Math.exp(-0.5 * ((sample - value) / bandwidth) ** 2));
+
+	// Check if every sample is too far away and weight them uniformly
+	if (weights.every(weight => weight === 0)) return samples.map(() => 1);
+
+	// Return the Weights
+	return weights;
+}
+
+/**
+ * Get a weighted quantile of a set of values
+ * @param values The values
+ * @param weights The weight of every value
+ * @param quantile The quantile to get (0 to 1)
+ * @returns The weighted quantile
+ */
+function getWeightedQuantile(values: number[], weights: number[], quantile: number): number {
+	// Sort the values with their weights
+	const sorted = values.map((value, index) => ({ value, weight: weights[index] })).sort((a, b) => a.value - b.value);
+
+	// Get the Weight the quantile is reached at
+	const targetWeight = quantile * sorted.reduce((sum, entry) => sum + entry.weight, 0);
+
+	// Walk the values until the quantile is reached
+	let cumulativeWeight = 0;
+	for (const entry of sorted) {
+		// Add the weight of the value
+		cumulativeWeight += entry.weight;
+
+		// Check if the quantile is reached
+		if (cumulativeWeight >= targetWeight) return entry.value;
+	}
+
+	// Return the largest value
+	return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Get the most common length of a set of arrays
+ * @param arrays The arrays
+ * @returns The most common length, or null if there are no arrays
+ */
+export function getMostCommonLength(arrays: number[][]): number | null {
+	// Count the arrays per length
+	const counts = new Map<number, number>();
+	for (const array of arrays) counts.set(array.length, (counts.get(array.length) ?? 0) + 1);
+
+	// Return the length with the highest count
+	return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
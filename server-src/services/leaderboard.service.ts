@@ -0,0 +1,143 @@
+// External Imports
+import type { ObjectId } from 'mongoose';
+
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { getExpectedCheckpointTimesLengths, getMapById } from './map.service';
+import { getPlayerById } from './player.service';
+import type { Leaderboard, LeaderboardEntry, SplitQuery, TMNextMap, TMNextPlayer } from '../types/types';
+
+// Setup the Leaderboard Page Size Limits
+export const DEFAULT_LEADERBOARD_PAGE_SIZE = 50;
+export const MAX_LEADERBOARD_PAGE_SIZE = 100;
+
+/**
+ * Get a page of the leaderboard for a map
+ * @param mapId The ID of the map
+ * @param accountId The account ID of the requesting player
+ * @param page The page number (starting at 1)
+ * @param pageSize The number of entries per page
+ * @param playerIds The database IDs of the players to rank (e.g. the members of a club), or undefined for every player
+ * @returns The leaderboard page
+ */
+export async function getMapLeaderboard(
+	mapId: string,
+	accountId: string,
+	page: number,
+	pageSize: number,
+	playerIds?: ObjectId[],
+): Promise<Leaderboard> {
+	// Setup the Empty Leaderboard
+	const leaderboard: Leaderboard = { mapId, page, pageSize, totalPlayers: 0, entries: [], playerEntry: null };
+
+	// Find the Map and the Player
+	const map = await getMapById(mapId);
+	const player = await getPlayerById(accountId);
+
+	// Check if the Map does not exist and return the empty leaderboard
+	if (!map) return leaderboard;
+
+	// Rank the players by their best time and get the requested page and the requesting player's entry
+	const rankedPage = await getRepositories().splits.getRankedPage(
+		getRankedSplitQuery(map, playerIds),
+		(page - 1) * pageSize,
+		pageSize,
+		player?._id ?? null,
+	);
+
+	// Get the First Place Time
+	const firstTime = rankedPage.bestTime ?? 0;
+
+	// Setup the Entry Mapper
+	const toEntry = (entry: Omit<LeaderboardEntry, 'gap'>): LeaderboardEntry => ({ ...entry, gap: entry.totalTime - firstTime });
+
+	// Fill the Leaderboard
+	leaderboard.totalPlayers = rankedPage.totalPlayers;
+	leaderboard.entries = rankedPage.entries.map(toEntry);
+	leaderboard.playerEntry = rankedPage.playerEntry ? toEntry(rankedPage.playerEntry) : null;
+
+	// Return the Leaderboard
+	return leaderboard;
+}
+
+/**
+ * Get the ID of the split at a position of a map's leaderboard
+ * @param mapId The ID of the map
+ * @param position The position on the leaderboard (starting at 1)
+ * @returns The ID of the split, or null if the leaderboard has fewer players
+ */
+export async function getLeaderboardSplitId(mapId: string, position: number): Promise<string | null> {
+	// Find the Map
+	const map = await getMapById(mapId);
+
+	// Check if the Map does not exist
+	if (!map) return null;
+
+	// Get the ID of the split at the position
+	return await getSplitIdAtPosition(map, position);
+}
+
+/**
+ * Get the ID of the split at a percentile threshold of a map's leaderboard
+ * @param mapId The ID of the map
+ * @param percentile The percentile from the top (e.g. 1 for the top 1%)
+ * @returns The ID of the split, or null if the map has no runs
+ */
+export async function getLeaderboardPercentileSplitId(mapId: string, percentile: number): Promise<string | null> {
+	// Find the Map
+	const map = await getMapById(mapId);
+
+	// Check if the Map does not exist
+	if (!map) return null;
+
+	// Count the players on the leaderboard
+	const { totalPlayers } = await getRepositories().splits.getRankedPage(getRankedSplitQuery(map), 0, 1, null);
+
+	// Check if the Leaderboard is empty
+	if (totalPlayers === 0) return null;
+
+	// Get the split of the slowest player within the percentile
+	return await getSplitIdAtPosition(map, Math.max(1, Math.ceil((percentile / 100) * totalPlayers)));
+}
+
+/**
+ * Get the rank of a player on a map's leaderboard
+ * @param map The map
+ * @param player The player
+ * @returns The rank of the player, or null if they are not on the leaderboard
+ */
+export async function getPlayerRank(map: TMNextMap, player: TMNextPlayer): Promise<number | null> {
+	// Get the entry of the player
+	const { playerEntry } = await getRepositories().splits.getRankedPage(getRankedSplitQuery(map), 0, 1, player._id);
+
+	// Return the Rank of the player
+	return playerEntry?.rank ?? null;
+}
+
+/**
+ * Get the ID of the split at a position of a map's leaderboard
+ * @param map The map
+ * @param position The position on the leaderboard (starting at 1)
+ * @returns The ID of the split, or null if the leaderboard has fewer players
+ */
+async function getSplitIdAtPosition(map: TMNextMap, position: number): Promise<string | null> {
+	// Get the entry at the position
+	const { entries } = await getRepositories().splits.getRankedPage(getRankedSplitQuery(map), position - 1, 1, null);
+
+	// Return the ID of the split
+	return entries[0]?.splitId ?? null;
+}
+
+/**
+ * Get the query for the splits that rank the players of a map
+ * @param map The map
+ * @param playerIds The database IDs of the players to rank, or undefined for every player
+ * @returns The split query
+ */
+function getRankedSplitQuery(map: TMNextMap, playerIds?: ObjectId[]): SplitQuery {
+	// Get the checkpoint time counts a complete run on the map can have
+	const expectedLengths = getExpectedCheckpointTimesLengths(map);
+
+	// Only use the splits that count towards global queries, skipping incomplete runs saved before the map's checkpoint count was known
+	return { mapId: map._id, playerIds, globalOnly: true, checkpointTimesLengths: expectedLengths ?? undefined };
+}
@@ -0,0 +1,246 @@
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { getRunPrediction } from './comparison.service';
+import { findOrCreatePlayer, getPlayerById } from './player.service';
+import { GetSplitsType, LiveRunEventType, LiveSharing, type LiveRunEvent, type PredictRequestBody, type TMNextPlayer } from '../types/types';
+
+// Setup the Time the latest event of a player is kept and replayed to new viewers for
+export const LIVE_RUN_EVENT_TTL = 5 * 60 * 1000;
+
+// Setup the Interval the latest events that are too old to be replayed are removed at
+const CLEANUP_INTERVAL = 60 * 1000;
+
+/**
+ * Type for a function that receives the live run events of a player
+ */
+type LiveRunListener = (event: LiveRunEvent) => void;
+
+/**
+ * Type for a viewer watching the live runs of a player
+ */
+type LiveRunSubscription = {
+	/**
+	 * The account ID of the viewer
+	 */
+	viewerAccountId: string;
+
+	/**
+	 * The function that receives the events
+	 */
+	listener: LiveRunListener;
+
+	/**
+	 * The function that ends the stream once the player no longer shares their live runs with the viewer
+	 */
+	close: () => void;
+};
+
+// Setup the Subscriptions of every player being watched, and the Latest Event of every player who streamed in the last few minutes
+const subscriptions = new Map<string, Set<LiveRunSubscription>>();
+const latestEvents = new Map<string, LiveRunEvent>();
+
+// Remove the latest events that are too old to be replayed periodically, so players who stopped streaming are not kept in memory
+setInterval(removeExpiredLiveRunEvents, CLEANUP_INTERVAL).unref();
+
+/**
+ * Predict the finish time of a run in progress and stream it to the viewers of the player
+ * @param accountId The account ID of the player
+ * @param displayName The display name of the player
+ * @param body The map, checkpoint times, method, comparison type and target parameters of the run
+ * @returns The event sent to the viewers, or null if the number of checkpoints to finish cannot be resolved
+ */
+export async function pushLiveRunEvent(accountId: string, displayName: string, body: PredictRequestBody): Promise<LiveRunEvent | null> {
+	// Predict the finish time against the comparison split
+	const runPrediction = await getRunPrediction(accountId, body);
+
+	// Check if the Total Checkpoints could not be resolved
+	if (!runPrediction) return null;
+
+	// Get the Prediction and the Comparison Checkpoint Times
+	const { prediction, comparisonCheckpointTimes } = runPrediction;
+
+	// Get the kind of event from the progress of the run
+	const type =
+		prediction.currentCheckpoint === 0
+			? LiveRunEventType.START
+			: prediction.currentCheckpoint >= prediction.totalCheckpoints
+				? LiveRunEventType.FINISH
+				: LiveRunEventType.CHECKPOINT;
+
+	// Setup the Live Run Event
+	const event: LiveRunEvent = {
+		type,
+		accountId,
+		displayName,
+		mapId: body.mapId,
+		checkpointTimes: body.checkpointTimes,
+		prediction,
+		comparison: body.comparison ?? GetSplitsType.PERSONAL_BEST,
+		comparisonCheckpointTimes,
+		timestamp: new Date(),
+	};
+
+	// Send the event to the viewers
+	await publishLiveRunEvent(event);
+
+	// Return the Live Run Event
+	return event;
+}
+
+/**
+ * Send a live run event to the viewers of its player, ending the streams of the viewers the player no longer shares their live runs with
+ * @param event The live run event
+ * @returns void
+ */
+export async function publishLiveRunEvent(event: LiveRunEvent): Promise<void> {
+	// Keep the event for viewers that join later
+	latestEvents.set(event.accountId, event);
+
+	// Get the Subscriptions of the player
+	const playerSubscriptions = Array.from(subscriptions.get(event.accountId) ?? []);
+
+	// Check if nobody is watching the player
+	if (playerSubscriptions.length === 0) return;
+
+	// Find the Player, as their sharing setting or clubs may have changed since the viewers subscribed
+	const player = await getPlayerById(event.accountId);
+
+	// Check which Viewers can still watch the player
+	const canWatch = await Promise.all(
+		playerSubscriptions.map(subscription => isLiveRunSharedWith(subscription.viewerAccountId, event.accountId, player)),
+	);
+
+	// Send the event to every viewer who can still watch, and end the stream of the others
+	playerSubscriptions.forEach((subscription, index) => {
+		// Check if the Viewer can still watch and send the event
+		if (canWatch[index]) return subscription.listener(event);
+
+		// Stop sending events to the viewer and end their stream
+		removeSubscription(event.accountId, subscription);
+		subscription.close();
+	});
+}
+
+/**
+ * Forget the latest live run event of a player, so it is no longer replayed to new viewers
+ * @param accountId The account ID of the player
+ * @returns void
+ */
+export function clearLiveRunEvents(accountId: string): void {
+	// Remove the Latest Event of the player
+	latestEvents.delete(accountId);
+}
+
+/**
+ * Remove the latest live run events that are too old to be replayed to new viewers
+ * @returns void
+ */
+function removeExpiredLiveRunEvents(): void {
+	// Get the Oldest Time an event can be replayed from
+	const oldestTime = Date.now() - LIVE_RUN_EVENT_TTL;
+
+	// Remove every expired event
+	for (const [accountId, event] of latestEvents) if (event.timestamp.getTime() < oldestTime) latestEvents.delete(accountId);
+}
+
+/**
+ * Set who can watch the live runs of a player
+ * @param accountId The account ID of the player
+ * @param displayName The display name of the player
+ * @param sharing Who can watch the live runs
+ * @returns The new setting
+ */
+export async function setLiveSharing(accountId: string, displayName: string, sharing: LiveSharing): Promise<LiveSharing> {
+	// Make sure the player exists
+	await findOrCreatePlayer(accountId, displayName);
+
+	// Save the Setting
+	await getRepositories().players.update(accountId, { liveSharing: sharing });
+
+	// Return the Setting
+	return sharing;
+}
+
+/**
+ * Check if a player can watch the live runs of another player
+ * @param viewerAccountId The account ID of the player who wants to watch
+ * @param accountId The account ID of the player to watch
+ * @returns Whether the player to watch shares their live runs with the viewer
+ */
+export async function canWatchLiveRuns(viewerAccountId: string, accountId: string): Promise<boolean> {
+	// Check if the Viewer is watching their own runs
+	if (viewerAccountId === accountId) return true;
+
+	// Check if the Player to watch shares their live runs with the viewer
+	return await isLiveRunSharedWith(viewerAccountId, accountId, await getPlayerById(accountId));
+}
+
+/**
+ * Check if a player shares their live runs with a viewer
+ * @param viewerAccountId The account ID of the viewer
+ * @param accountId The account ID of the player
+ * @param player The player, or null if they do not exist
+ * @returns Whether the viewer can watch the live runs of the player
+ */
+async function isLiveRunSharedWith(viewerAccountId: string, accountId: string, player: TMNextPlayer | null): Promise<boolean> {
+	// Check if the Viewer is watching their own runs
+	if (viewerAccountId === accountId) return true;
+
+	// Check if the Player shares their live runs with everyone
+	if (player?.liveSharing === LiveSharing.EVERYONE) return true;
+
+	// Check if the Player does not share their live runs with their clubs (players who never chose keep them private)
+	if (!player || player.liveSharing !== LiveSharing.CLUBS) return false;
+
+	// Find the Viewer
+	const viewer = await getPlayerById(viewerAccountId);
+
+	// Check if the Viewer does not exist, so they are in no club
+	if (!viewer) return false;
+
+	// Check if the Viewer is a member of a club the player is in
+	const viewerClubs = await getRepositories().clubs.findByMember(viewer._id);
+	return viewerClubs.some(club => club.memberIds.some(memberId => memberId.toString() === player._id.toString()));
+}
+
+/**
+ * Watch the live runs of a player
+ * @param accountId The account ID of the player
+ * @param viewerAccountId The account ID of the viewer
+ * @param listener The function that receives the events
+ * @param close The function that ends the stream once the player no longer shares their live runs with the viewer
+ * @returns The function that stops watching
+ */
+export function subscribeToLiveRuns(accountId: string, viewerAccountId: string, listener: LiveRunListener, close: () => void): () => void {
+	// Get the Latest Event of the player
+	const latestEvent = latestEvents.get(accountId);
+
+	// Replay the Latest Event if it is recent so the viewer sees the run in progress right away
+	if (latestEvent && Date.now() - latestEvent.timestamp.getTime() <= LIVE_RUN_EVENT_TTL) listener(latestEvent);
+
+	// Add the Subscription
+	const subscription: LiveRunSubscription = { viewerAccountId, listener, close };
+	const playerSubscriptions = subscriptions.get(accountId) ?? new Set<LiveRunSubscription>();
+	playerSubscriptions.add(subscription);
+	subscriptions.set(accountId, playerSubscriptions);
+
+	// Return the function that removes the Subscription
+	return () => removeSubscription(accountId, subscription);
+}
+
+/**
+ * Stop sending the live runs of a player to a viewer
+ * @param accountId The account ID of the player
+ * @param subscription The subscription of the viewer
+ * @returns void
+ */
+function removeSubscription(accountId: string, subscription: LiveRunSubscription): void {
+	// Get the Subscriptions of the player
+	const playerSubscriptions = subscriptions.get(accountId);
+
+	// Remove the Subscription
+	playerSubscriptions?.delete(subscription);
+
+	// Check if the player has no viewers left and forget them
+	if (playerSubscriptions?.size === 0) subscriptions.delete(accountId);
+}
@@ -1,6 +1,7 @@
 // Internal Imports
-import { MapModel } from '../database/models/map.model';
-import type { TMNextMap } from '../types/types';
+import { getRepositories } from '../repositories/repositories';
+import { recordAuditEvent } from './audit.service';
+import { AuditAction, type SaveMapData, type TMNextMap, type TMNextMapMedalTimes } from '../types/types';
 
 /**
  * Find or create a map
@@ -8,11 +9,14 @@ import type { TMNextMap } from '../types/types';
  * @returns The map
  */
 export async function findOrCreateMap(mapId: string): Promise<TMNextMap> {
+	// Get the Map Repository
+	const { maps } = getRepositories();
+
 	// Get the Existing Map
-	const existingMap = await MapModel.findOne({ mapId });
+	const existingMap = await maps.findByMapId(mapId);
 
 	// Check if the Map does not exist and create/retrun the new map
-	if (!existingMap) return await MapModel.create({ mapId });
+	if (!existingMap) return await maps.create(mapId);
 
 	// Return the map
 	return existingMap;
@@ -25,8 +29,108 @@ export async function findOrCreateMap(mapId: string): Promise<TMNextMap> {
  */
 export async function getMapById(mapId: string): Promise<TMNextMap | null> {
 	// Get the map by their ID
-	const map = await MapModel.findOne({ mapId });
+	const map = await getRepositories().maps.findByMapId(mapId);
+
+	// Return the map
+	return map;
+}
+
+/**
+ * Create a map or fill in the details it does not have yet (a map ID identifies the map's content, so details that are known never change)
+ * @param mapId The ID of the map
+ * @param mapData The details of the map (only the provided details the map does not have yet are set)
+ * @returns The map
+ */
+export async function saveMap(mapId: string, mapData: SaveMapData): Promise<TMNextMap> {
+	// Set the details the map does not have yet
+	const map = await getRepositories().maps.fillDetails(mapId, getProvidedDetails(mapData));
+
+	// Return the map
+	return map;
+}
+
+/**
+ * Overwrite the details of a map as an admin, e.g. to fix a wrong checkpoint count a player saved
+ * @param adminAccountId The account ID of the admin
+ * @param mapId The ID of the map
+ * @param mapData The details of the map (only the provided details are changed)
+ * @param reason The reason for the correction
+ * @returns The map
+ */
+export async function correctMap(adminAccountId: string, mapId: string, mapData: SaveMapData, reason: string | null): Promise<TMNextMap> {
+	// Get the Provided Details
+	const details = getProvidedDetails(mapData);
+
+	// Find the Previous Details of the map
+	const previousMap = await getMapById(mapId);
+
+	// Overwrite the details of the map
+	const map = await getRepositories().maps.save(mapId, details);
+
+	// Record the correction in the audit log
+	await recordAuditEvent(AuditAction.MAP_CORRECTED, adminAccountId, null, {
+		mapId,
+		previous: previousMap ? Object.fromEntries(Object.keys(details).map(field => [field, previousMap[field as keyof SaveMapData] ?? null])) : null,
+		...details,
+		reason,
+	});
 
 	// Return the map
 	return map;
 }
+
+/**
+ * Check if medal times are ordered from fastest to slowest
+ * @param medalTimes The medal times
+ * @returns Whether author <= gold <= silver <= bronze
+ */
+export function areMedalTimesOrdered(medalTimes: TMNextMapMedalTimes): boolean {
+	// Get the Medal Times in order from fastest to slowest
+	const orderedTimes = [medalTimes.author, medalTimes.gold, medalTimes.silver, medalTimes.bronze];
+
+	// Check every Medal Time is at least as slow as the one before it
+	return orderedTimes.every((time, index) => index === 0 || time >= orderedTimes[index - 1]);
+}
+
+/**
+ * Map a map to the details returned to the client
+ * @param map The map
+ * @returns The details of the map
+ */
+export function mapToResponse(map: TMNextMap) {
+	// Return the Details of the map
+	return {
+		mapId: map.mapId,
+		name: map.name ?? null,
+		author: map.author ?? null,
+		checkpointCount: map.checkpointCount ?? null,
+		lapCount: map.lapCount ?? null,
+		medalTimes: map.medalTimes
+			? { author: map.medalTimes.author, gold: map.medalTimes.gold, silver: map.medalTimes.silver, bronze: map.medalTimes.bronze }
+			: null,
+		updatedAt: map.updatedAt,
+	};
+}
+
+/**
+ * Get the checkpoint time counts a complete run on a map can have
+ * @param map The map
+ * @returns The allowed checkpoint time counts, or null if the checkpoint count of the map is unknown
+ */
+export function getExpectedCheckpointTimesLengths(map: TMNextMap): Array<number> | null {
+	// Check if the Checkpoint Count is unknown
+	if (!map.checkpointCount) return null;
+
+	// Runs have one time per checkpoint, optionally preceded by the start time the plugin records
+	return [map.checkpointCount, map.checkpointCount + 1];
+}
+
+/**
+ * Keep only the details of a map that were provided
+ * @param mapData The details of the map
+ * @returns The provided details
+ */
+function getProvidedDetails(mapData: SaveMapData): Partial<SaveMapData> {
+	// Remove the details that were not provided
+	return Object.fromEntries(Object.entries(mapData).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,157 @@
+// Internal Imports
+import { MetricType, type AuthErrorCode, type AuthMethod, type Metric, type MetricSeries } from '../types/types';
+
+// Setup the Buckets of the duration histograms in seconds
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+// Setup the Metrics exposed at /metrics
+export const METRICS = {
+	HTTP_REQUESTS: createMetric('http_requests_total', 'Number of HTTP requests answered', MetricType.COUNTER),
+	HTTP_REQUEST_DURATION: createMetric('http_request_duration_seconds', 'Time taken to answer HTTP requests', MetricType.HISTOGRAM, DURATION_BUCKETS),
+	SPLITS_SAVED: createMetric('splits_saved_total', 'Number of runs saved', MetricType.COUNTER),
+	AUTH_ATTEMPTS: createMetric('auth_attempts_total', 'Number of authentication attempts', MetricType.COUNTER),
+	API_REQUESTS: createMetric('api_requests_total', 'Number of API requests by API and plugin version', MetricType.COUNTER),
+	MONGO_QUERY_DURATION: createMetric('mongodb_query_duration_seconds', 'Time taken by MongoDB commands', MetricType.HISTOGRAM, DURATION_BUCKETS),
+} satisfies Record<string, Metric>;
+
+// Setup the Series of every metric, keyed by metric name and then by labels
+const metricSeries = new Map<string, Map<string, MetricSeries>>();
+
+/**
+ * Increment a counter
+ * @param metric The counter
+ * @param labels The labels of the series to increment
+ * @param amount The amount to add
+ * @returns void
+ */
+export function incrementCounter(metric: Metric, labels: Record<string, string>, amount: number = 1): void {
+	// Add the Amount to the series
+	getSeries(metric, labels).value += amount;
+}
+
+/**
+ * Observe a value of a histogram
+ * @param metric The histogram
+ * @param labels The labels of the series to observe the value in
+ * @param value The observed value
+ * @returns void
+ */
+export function observeHistogram(metric: Metric, labels: Record<string, string>, value: number): void {
+	// Get the Series of the labels
+	const series = getSeries(metric, labels);
+
+	// Add the Value to the sum and count of the series
+	series.value += value;
+	series.count++;
+
+	// Count the Value in the first bucket it fits in (values above every bucket are only counted in +Inf)
+	const bucketIndex = metric.buckets.findIndex(bucket => value <= bucket);
+	if (bucketIndex !== -1) series.bucketCounts[bucketIndex]++;
+}
+
+/**
+ * Count an authentication attempt
+ * @param method The way the client authenticated
+ * @param errorCode The reason the attempt failed, or null if it succeeded
+ * @returns void
+ */
+export function recordAuthAttempt(method: AuthMethod, errorCode: AuthErrorCode | null): void {
+	// Increment the Counter of the method, result and reason
+	incrementCounter(METRICS.AUTH_ATTEMPTS, { method, result: errorCode ? 'failure' : 'success', reason: errorCode ?? 'none' });
+}
+
+/**
+ * Render every metric in the Prometheus text format
+ * @returns The metrics
+ */
+export function renderMetrics(): string {
+	// Setup the Lines of the output
+	const lines: Array<string> = new Array();
+
+	// Render every Metric
+	for (const metric of Object.values(METRICS)) {
+		// Add the Description and Type of the metric
+		lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+
+		// Render every Series of the metric
+		for (const series of metricSeries.get(metric.name)?.values() ?? []) {
+			// Check if the Metric is a counter and add its value
+			if (metric.type === MetricType.COUNTER) {
+				lines.push(`${metric.name}${formatLabels(series.labels)} ${series.value}`);
+				continue;
+			}
+
+			// Add the cumulative count of every bucket
+			let cumulativeCount = 0;
+			metric.buckets.forEach((bucket, index) => {
+				cumulativeCount += series.bucketCounts[index];
+				lines.push(`${metric.name}_bucket${formatLabels({ ...series.labels, le: String(bucket) })} ${cumulativeCount}`);
+			});
+
+			// Add the +Inf bucket, the sum and the count
+			lines.push(`${metric.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+			lines.push(`${metric.name}_sum${formatLabels(series.labels)} ${series.value}`);
+			lines.push(`${metric.name}_count${formatLabels(series.labels)} ${series.count}`);
+		}
+	}
+
+	// Return the Metrics, ending with a newline
+	return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Clear the values of every metric
+ * @returns void
+ */
+export function resetMetrics(): void {
+	// Clear the Series
+	metricSeries.clear();
+}
+
+/**
+ * Get the series of a metric for a set of labels, creating it if needed
+ * @param metric The metric
+ * @param labels The labels of the series
+ * @returns The series
+ */
+function getSeries(metric: Metric, labels: Record<string, string>): MetricSeries {
+	// Get the Series of the metric
+	let seriesByLabels = metricSeries.get(metric.name);
+	if (!seriesByLabels) metricSeries.set(metric.name, (seriesByLabels = new Map()));
+
+	// Get the Series of the labels
+	const labelsKey = formatLabels(labels);
+	let series = seriesByLabels.get(labelsKey);
+	if (!series) seriesByLabels.set(labelsKey, (series = { labels, value: 0, count: 0, bucketCounts: metric.buckets.map(() => 0) }));
+
+	// Return the Series
+	return series;
+}
+
+/**
+ * Format labels as a Prometheus label set
+ * @param labels The labels
+ * @returns The label set, sorted by label name, or an empty string without labels
+ */
+function formatLabels(labels: Record<string, string>): string {
+	// Format every Label, escaping the characters the format reserves
+	const formattedLabels = Object.entries(labels)
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+
+	// Return the Label Set
+	return formattedLabels.length > 0 ? `{${formattedLabels.join(',')}}` : '';
+}
+
+/**
+ * Create a metric
+ * @param name The name of the metric
+ * @param help The description of the metric
+ * @param type The type of the metric
+ * @param buckets The upper bounds of the buckets of a histogram
+ * @returns The metric
+ */
+function createMetric(name: string, help: string, type: MetricType, buckets: number[] = []): Metric {
+	// Return the Metric
+	return { name, help, type, buckets };
+}
@@ -0,0 +1,86 @@
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { type PersonalBestUpdate, SplitStatus, type TMNextMap, type TMNextPersonalBest, type TMNextPlayer, type TMNextSplit } from '../types/types';
+
+/**
+ * Get the personal best record of a player on a map
+ * @param player The player
+ * @param map The map
+ * @returns The personal best record, or null if the player has no accepted runs on the map
+ */
+export async function getPersonalBestRecord(player: TMNextPlayer, map: TMNextMap): Promise<TMNextPersonalBest | null> {
+	// Get the Personal Best Repository
+	const { personalBests } = getRepositories();
+
+	// Find the Existing Record
+	const existingRecord = await personalBests.findByPlayerAndMap(player._id, map._id);
+
+	// Check if the Record exists and return it
+	if (existingRecord) return existingRecord;
+
+	// Find the best accepted split for the player and map (runs saved before the records were kept have none)
+	const bestSplit = await getRepositories().splits.findBest({ playerId: player._id, mapId: map._id, acceptedOnly: true });
+
+	// Check if the Player has no accepted runs on the map
+	if (!bestSplit) return null;
+
+	// Create the record from the best split
+	await personalBests.saveIfFaster(toPersonalBest(bestSplit, player, map));
+
+	// Return the new Record
+	return await personalBests.findByPlayerAndMap(player._id, map._id);
+}
+
+/**
+ * Offer a new split as the personal best of its player (the record must have been created from the earlier splits beforehand)
+ * @param player The player of the split
+ * @param map The map of the split
+ * @param split The new split
+ * @returns Whether the split became the personal best, and the time it replaced
+ */
+export async function updatePersonalBest(player: TMNextPlayer, map: TMNextMap, split: TMNextSplit): Promise<PersonalBestUpdate> {
+	// Get the Personal Best Repository
+	const { personalBests } = getRepositories();
+
+	// Check if the Split is quarantined or hidden and keep the current record
+	if (split.status !== SplitStatus.ACCEPTED) {
+		// Find the Current Record
+		const currentRecord = await personalBests.findByPlayerAndMap(player._id, map._id);
+
+		// Return that the split did not become the personal best
+		return { isPersonalBest: false, previousTime: currentRecord?.totalTime ?? null };
+	}
+
+	// Replace the record if the split is faster
+	return await personalBests.saveIfFaster(toPersonalBest(split, player, map));
+}
+
+/**
+ * Recompute the personal best record of a player on a map from their accepted splits, e.g. after an admin hid or deleted a split
+ * @param player The player
+ * @param map The map
+ * @returns The new personal best record, or null if the player has no accepted runs on the map
+ */
+export async function recomputePersonalBest(player: TMNextPlayer, map: TMNextMap): Promise<TMNextPersonalBest | null> {
+	// Delete the Current Record
+	await getRepositories().personalBests.deleteByPlayerAndMap(player._id, map._id);
+
+	// Create the record again from the remaining accepted splits
+	return await getPersonalBestRecord(player, map);
+}
+
+/**
+ * Map a split to the personal best record it would set
+ * @param split The split
+ * @param player The player of the split
+ * @param map The map of the split
+ * @returns The personal best record fields
+ */
+function toPersonalBest(
+	split: Pick<TMNextSplit, '_id' | 'totalTime' | 'runDate'>,
+	player: TMNextPlayer,
+	map: TMNextMap,
+): Pick<TMNextPersonalBest, 'playerId' | 'mapId' | 'splitId' | 'totalTime' | 'runDate'> {
+	// Return the Personal Best Record Fields
+	return { playerId: player._id, mapId: map._id, splitId: split._id, totalTime: split.totalTime, runDate: split.runDate };
+}
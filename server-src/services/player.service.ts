@@ -1,5 +1,5 @@
 // Internal Imports
-import { PlayerModel } from '../database/models/player.model';
+import { getRepositories } from '../repositories/repositories';
 import type { TMNextPlayer } from '../types/types';
 
 /**
@@ -9,23 +9,23 @@ import type { TMNextPlayer } from '../types/types';
  * @returns The player
  */
 export async function findOrCreatePlayer(accountId: string, displayName: string): Promise<TMNextPlayer> {
+	// Get the Player Repository
+	const { players } = getRepositories();
+
 	// Get the Existing Player
-	const existingPlayer = await PlayerModel.findOne({ accountId });
+	const existingPlayer = await players.findByAccountId(accountId);
 
 	// Check if the Player does not exist and create/retrun the new player
-	if (!existingPlayer) return await PlayerModel.create({ accountId, displayName });
+	if (!existingPlayer) return await createPlayer(accountId, displayName);
 
 	// Check if the Display Name has not changed and return the player if it hasn't
 	if (existingPlayer.displayName === displayName) return existingPlayer;
 
 	// Update the display name if it changed
-	existingPlayer.displayName = displayName;
-
-	// Save the player
-	await existingPlayer.save();
+	const updatedPlayer = await players.update(accountId, { displayName });
 
 	// Return the player
-	return existingPlayer;
+	return updatedPlayer ?? existingPlayer;
 }
 
 /**
@@ -35,8 +35,25 @@ export async function findOrCreatePlayer(accountId: string, displayName: string)
  */
 export async function getPlayerById(accountId: string): Promise<TMNextPlayer | null> {
 	// Get the player by their account ID
-	const player = await PlayerModel.findOne({ accountId });
+	const player = await getRepositories().players.findByAccountId(accountId);
 
 	// Return the player
 	return player;
 }
+
+/**
+ * Create a player, banned again if their account was banned before it was deleted
+ * @param accountId The account ID of the player
+ * @param displayName The display name of the player
+ * @returns The new player
+ */
+async function createPlayer(accountId: string, displayName: string): Promise<TMNextPlayer> {
+	// Get the Repositories
+	const { players, playerBans } = getRepositories();
+
+	// Find the ban of the account
+	const ban = await playerBans.findByAccountId(accountId);
+
+	// Create the player, with the ban of the account if it has one
+	return await players.create(accountId, displayName, ban ? { bannedAt: ban.bannedAt, banReason: ban.reason } : undefined);
+}
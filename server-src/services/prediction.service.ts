@@ -0,0 +1,135 @@
+// Internal Imports
+import { PredictorMethod, type PredictionInput, type PredictionResult } from '../types/types';
+
+// Setup the Default Weight of the best splits in the hybrid method (mirrors the plugin's 70% best splits + 30% linear)
+export const HYBRID_BEST_SPLITS_WEIGHT = 0.7;
+
+/**
+ * Drop the start time the plugin records before the first checkpoint
+ * @param checkpointTimes The cumulative checkpoint times in milliseconds
+ * @returns The checkpoint times without a leading start time of 0
+ */
+export function normalizeCheckpointTimes(checkpointTimes: number[]): number[] {
+	// Remove the leading 0 if present
+	return checkpointTimes[0] === 0 ? checkpointTimes.slice(1) : checkpointTimes;
+}
+
+/**
+ * Predict the finish time of a run
+ * @param input The prediction input
+ * @returns The prediction result
+ */
+export function predict(input: PredictionInput): PredictionResult {
+	// Normalize the Checkpoint Times
+	const checkpointTimes = normalizeCheckpointTimes(input.checkpointTimes);
+	const comparisonTimes = input.comparisonCheckpointTimes ? normalizeCheckpointTimes(input.comparisonCheckpointTimes) : null;
+
+	// Get the Current Checkpoint and Time
+	const currentCheckpoint = checkpointTimes.length;
+	const currentTime = checkpointTimes[currentCheckpoint - 1] ?? 0;
+
+	// Get the Comparison Splits (only usable if they cover every checkpoint)
+	const bestSplits = comparisonTimes && comparisonTimes.length >= input.totalCheckpoints ? comparisonTimes : null;
+
+	// Setup the Predicted Time
+	let predictedTime: number;
+
+	// Calculate the prediction using the selected method
+	switch (input.method) {
+		case PredictorMethod.LINEAR_EXTRAPOLATION:
+			predictedTime = predictLinear(currentTime, currentCheckpoint, input.totalCheckpoints);
+			break;
+		case PredictorMethod.BEST_SPLITS_COMPARISON:
+			predictedTime = predictBestSplits(currentTime, currentCheckpoint, input.totalCheckpoints, bestSplits);
+			break;
+		case PredictorMethod.HYBRID:
+			predictedTime = predictHybrid(currentTime, currentCheckpoint, input.totalCheckpoints, bestSplits, input.hybridBestSplitsWeight);
+			break;
+	}
+
+	// Get the Comparison Time
+	const comparisonTime = bestSplits ? bestSplits[input.totalCheckpoints - 1] : null;
+
+	// Return the Prediction Result
+	return {
+		method: input.method,
+		currentCheckpoint,
+		totalCheckpoints: input.totalCheckpoints,
+		predictedTime,
+		comparisonTime,
+		delta: comparisonTime !== null ? predictedTime - comparisonTime : null,
+	};
+}
+
+/**
+ * Predict the finish time using linear extrapolation
+ * @param currentTime The current race time in milliseconds
+ * @param currentCheckpoint The number of checkpoints passed so far
+ * @param totalCheckpoints The number of checkpoints to finish
+ * @returns The predicted finish time in milliseconds
+ */
+export function predictLinear(currentTime: number, currentCheckpoint: number, totalCheckpoints: number): number {
+	// Check if no checkpoint has been passed yet
+	if (currentCheckpoint === 0) return currentTime;
+
+	// Calculate the average time per checkpoint
+	const averageTimePerCheckpoint = Math.floor(currentTime / currentCheckpoint);
+
+	// Predict the remaining time
+	return currentTime + averageTimePerCheckpoint * Math.max(totalCheckpoints - currentCheckpoint, 0);
+}
+
+/**
+ * Predict the finish time by comparing the pace to the comparison splits
+ * @param currentTime The current race time in milliseconds
+ * @param currentCheckpoint The number of checkpoints passed so far
+ * @param totalCheckpoints The number of checkpoints to finish
+ * @param bestSplits The checkpoint times to compare against, or null to fall back to linear extrapolation
+ * @returns The predicted finish time in milliseconds
+ */
+export function predictBestSplits(currentTime: number, currentCheckpoint: number, totalCheckpoints: number, bestSplits: number[] | null): number {
+	// Check if there are no splits to compare against and fall back to linear
+	if (!bestSplits) return predictLinear(currentTime, currentCheckpoint, totalCheckpoints);
+
+	// Get the Best Total Time
+	const bestTotalTime = bestSplits[totalCheckpoints - 1];
+
+	// Check if no checkpoint has been passed yet
+	if (currentCheckpoint === 0) return bestTotalTime;
+
+	// Get the Best Time to the Current Checkpoint
+	const bestTimeToCurrentCheckpoint = bestSplits[currentCheckpoint - 1];
+
+	// Check if the pace cannot be compared and fall back to linear
+	if (!(bestTimeToCurrentCheckpoint > 0)) return predictLinear(currentTime, currentCheckpoint, totalCheckpoints);
+
+	// Scale the best total time by how much faster/slower the current run is
+	return Math.floor(bestTotalTime * (currentTime / bestTimeToCurrentCheckpoint));
+}
+
+/**
+ * Predict the finish time using a weighted combination of best splits and linear extrapolation
+ * @param currentTime The current race time in milliseconds
+ * @param currentCheckpoint The number of checkpoints passed so far
+ * @param totalCheckpoints The number of checkpoints to finish
+ * @param bestSplits The checkpoint times to compare against, or null to only use linear extrapolation
+ * @param bestSplitsWeight The weight of the best splits prediction between 0 and 1 (the linear prediction gets the rest)
+ * @returns The predicted finish time in milliseconds
+ */
+export function predictHybrid(
+	currentTime: number,
+	currentCheckpoint: number,
+	totalCheckpoints: number,
+	bestSplits: number[] | null,
+	bestSplitsWeight: number = HYBRID_BEST_SPLITS_WEIGHT,
+): number {
+	// Calculate the linear prediction
+	const linearPrediction = predictLinear(currentTime, currentCheckpoint, totalCheckpoints);
+
+	// Calculate the best splits prediction (the plugin uses linear here before the first checkpoint)
+	const bestSplitsPrediction =
+		currentCheckpoint > 0 ? predictBestSplits(currentTime, currentCheckpoint, totalCheckpoints, bestSplits) : linearPrediction;
+
+	// Weight the predictions
+	return Math.floor(bestSplitsWeight * bestSplitsPrediction + (1 - bestSplitsWeight) * linearPrediction);
+}
@@ -0,0 +1,61 @@
+// Internal Imports
+import { config } from '../config/config';
+import { MemoryRateLimitStore } from '../stores/memory-rate-limit.store';
+import type { RateLimitHit, RateLimitRule, RateLimitStore } from '../types/types';
+
+// Setup the Store the counters are kept in (in memory unless replaced with a shared store)
+let rateLimitStore: RateLimitStore = new MemoryRateLimitStore();
+
+// Setup the Rate Limits (each can be overridden with a RATE_LIMIT_<NAME>=<max>/<seconds> environment variable)
+export const RATE_LIMITS = {
+	GLOBAL: getRateLimitRule('GLOBAL', 600, 60),
+	AUTH: getRateLimitRule('AUTH', 10, 60),
+	AUTH_REFRESH: getRateLimitRule('AUTH_REFRESH', 30, 60),
+	SAVE_SPLIT: getRateLimitRule('SAVE_SPLIT', 60, 60),
+	SAVE_SPLIT_BATCH: getRateLimitRule('SAVE_SPLIT_BATCH', 10, 60),
+	SAVE_MAP: getRateLimitRule('SAVE_MAP', 30, 60),
+	READ: getRateLimitRule('READ', 300, 60),
+	PREDICT: getRateLimitRule('PREDICT', 600, 60),
+	ADMIN: getRateLimitRule('ADMIN', 120, 60),
+	CLUB: getRateLimitRule('CLUB', 30, 60),
+} satisfies Record<string, RateLimitRule>;
+
+/**
+ * Replace the store the rate limit counters are kept in, e.g. with one shared between servers
+ * @param store The new store
+ * @returns void
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+	// Replace the Store
+	rateLimitStore = store;
+}
+
+/**
+ * Count a request against a rate limit
+ * @param rule The rate limit
+ * @param clientKey The key of the client (account or IP) the request is counted for
+ * @returns The state of the counter after the request was counted
+ */
+export async function consumeRateLimit(rule: RateLimitRule, clientKey: string): Promise<RateLimitHit> {
+	// Count the request against the client's counter of the rate limit
+	return await rateLimitStore.increment(`${rule.name}:${clientKey}`, rule.windowMs);
+}
+
+/**
+ * Get a rate limit, applying its environment variable override if set
+ * @param name The name of the rate limit
+ * @param defaultMax The default number of requests allowed per window
+ * @param defaultWindowSeconds The default length of the window in seconds
+ * @returns The rate limit
+ */
+function getRateLimitRule(name: string, defaultMax: number, defaultWindowSeconds: number): RateLimitRule {
+	// Get the Override of the rate limit
+	const override = config.rateLimitOverrides[name];
+
+	// Return the Rate Limit, falling back to the defaults without an override
+	return {
+		name,
+		max: override?.max ?? defaultMax,
+		windowMs: (override?.windowSeconds ?? defaultWindowSeconds) * 1000,
+	};
+}
@@ -0,0 +1,133 @@
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { recordAuditEvent } from './audit.service';
+import { HYBRID_BEST_SPLITS_WEIGHT } from './prediction.service';
+import {
+	AuditAction,
+	GetSplitsType,
+	PredictorMethod,
+	type RemoteConfig,
+	type SaveRemoteConfigRequestBody,
+	type TMNextRemoteConfig,
+} from '../types/types';
+
+// Setup the Plugin Version that first renews its access token with the refresh token (older ones stop working once their short-lived token expires)
+export const MIN_TOKEN_REFRESH_PLUGIN_VERSION = '3.1';
+
+// Setup the Remote Config used until an admin saves one (every feature and split type allowed, turning away plugins that cannot renew their token)
+export const DEFAULT_REMOTE_CONFIG: RemoteConfig = {
+	apiUrl: null,
+	minPluginVersion: MIN_TOKEN_REFRESH_PLUGIN_VERSION,
+	serverSavesEnabled: true,
+	allowedSplitTypes: Object.values(GetSplitsType),
+	prediction: { defaultMethod: PredictorMethod.HYBRID, hybridBestSplitsWeight: HYBRID_BEST_SPLITS_WEIGHT },
+};
+
+// Setup the Pattern of a plugin version (numbers separated by dots, e.g. 3 or 3.1.2)
+export const PLUGIN_VERSION_PATTERN = '^\\d+(\\.\\d+)*$';
+
+// Setup the Time the remote config is cached for (it is checked on every request)
+const REMOTE_CONFIG_CACHE_TTL = 30 * 1000;
+
+// Setup the Cached Remote Config and the time it expires at
+let cachedRemoteConfig: { remoteConfig: RemoteConfig; expiresAt: number } | null = null;
+
+/**
+ * Get the remote config, from the cache if it was loaded recently
+ * @returns The remote config, or the default one if it was never saved
+ */
+export async function getRemoteConfig(): Promise<RemoteConfig> {
+	// Check if the Cached Remote Config is still fresh
+	if (cachedRemoteConfig && cachedRemoteConfig.expiresAt > Date.now()) return cachedRemoteConfig.remoteConfig;
+
+	// Find the remote config
+	const storedRemoteConfig = await getRepositories().remoteConfig.find();
+
+	// Cache and return the Remote Config
+	return cacheRemoteConfig(storedRemoteConfig ? remoteConfigToSettings(storedRemoteConfig) : DEFAULT_REMOTE_CONFIG);
+}
+
+/**
+ * Change the settings of the remote config as an admin
+ * @param adminAccountId The account ID of the admin
+ * @param changes The settings to change (the settings that are left out keep their value)
+ * @returns The remote config
+ */
+export async function saveRemoteConfig(adminAccountId: string, changes: SaveRemoteConfigRequestBody): Promise<RemoteConfig> {
+	// Get the Current Remote Config from the database (another server may have changed it since it was cached)
+	clearRemoteConfigCache();
+	const currentRemoteConfig = await getRemoteConfig();
+
+	// Merge the changes into the current settings
+	const { prediction, ...settings } = changes;
+	const remoteConfig = await getRepositories().remoteConfig.save({
+		...currentRemoteConfig,
+		...settings,
+		prediction: { ...currentRemoteConfig.prediction, ...prediction },
+	});
+
+	// Record the change in the audit log
+	await recordAuditEvent(AuditAction.REMOTE_CONFIG_SAVED, adminAccountId, null, { changes });
+
+	// Cache and return the Remote Config
+	return cacheRemoteConfig(remoteConfigToSettings(remoteConfig));
+}
+
+/**
+ * Forget the cached remote config so the next request loads it from the database
+ * @returns void
+ */
+export function clearRemoteConfigCache(): void {
+	// Clear the Cached Remote Config
+	cachedRemoteConfig = null;
+}
+
+/**
+ * Compare two plugin versions part by part (3.10 is newer than 3.9, and 3 is the same as 3.0)
+ * @param a The first version
+ * @param b The second version
+ * @returns A negative number if a is older than b, a positive number if it is newer, or 0 if they are the same
+ */
+export function comparePluginVersions(a: string, b: string): number {
+	// Split the Versions into their numbers
+	const aParts = a.split('.').map(Number);
+	const bParts = b.split('.').map(Number);
+
+	// Compare the numbers until they differ (missing numbers count as 0)
+	for (let index = 0; index < Math.max(aParts.length, bParts.length); index++) {
+		const difference = (aParts[index] ?? 0) - (bParts[index] ?? 0);
+		if (difference !== 0) return difference;
+	}
+
+	// Return that the Versions are the same
+	return 0;
+}
+
+/**
+ * Cache the remote config
+ * @param remoteConfig The remote config
+ * @returns The remote config
+ */
+function cacheRemoteConfig(remoteConfig: RemoteConfig): RemoteConfig {
+	// Cache the Remote Config until the cache expires
+	cachedRemoteConfig = { remoteConfig, expiresAt: Date.now() + REMOTE_CONFIG_CACHE_TTL };
+
+	// Return the Remote Config
+	return remoteConfig;
+}
+
+/**
+ * Map a stored remote config to its settings
+ * @param remoteConfig The stored remote config
+ * @returns The settings
+ */
+function remoteConfigToSettings(remoteConfig: TMNextRemoteConfig): RemoteConfig {
+	// Return the Settings
+	return {
+		apiUrl: remoteConfig.apiUrl,
+		minPluginVersion: remoteConfig.minPluginVersion,
+		serverSavesEnabled: remoteConfig.serverSavesEnabled,
+		allowedSplitTypes: [...remoteConfig.allowedSplitTypes],
+		prediction: { defaultMethod: remoteConfig.prediction.defaultMethod, hybridBestSplitsWeight: remoteConfig.prediction.hybridBestSplitsWeight },
+	};
+}
@@ -0,0 +1,82 @@
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { getMapById } from './map.service';
+import { getPlayerById } from './player.service';
+import { toCsv } from '../utils/csv.utils';
+import type { ExportedRun, PopulatedTMNextSplit } from '../types/types';
+
+// Setup the Columns of a CSV export (the import reads the same columns back)
+export const SPLIT_CSV_COLUMNS = ['id', 'mapId', 'clientRunId', 'checkpointTimes', 'totalTime', 'runDate', 'status', 'flags'] as const;
+
+// Setup the Separator of the list values inside a CSV column
+export const CSV_LIST_SEPARATOR = ';';
+
+/**
+ * Get the runs of a player to export, oldest first
+ * @param accountId The account ID of the player
+ * @param mapId The ID of the map, or undefined to export the runs on every map
+ * @returns The exported runs
+ */
+export async function getExportedRuns(accountId: string, mapId?: string): Promise<Array<ExportedRun>> {
+	// Find the Player
+	const player = await getPlayerById(accountId);
+
+	// Check if the Player does not exist
+	if (!player) return [];
+
+	// Check if the Export Is for every map and return the runs of the player
+	if (!mapId) return (await getRepositories().splits.findByPlayer(player._id)).map(splitToExportedRun);
+
+	// Find the Map
+	const map = await getMapById(mapId);
+
+	// Check if the Map does not exist
+	if (!map) return [];
+
+	// Find the splits for the player and map
+	const splits = await getRepositories().splits.find({ playerId: player._id, mapId: map._id });
+
+	// Return the runs, oldest first
+	return splits.sort((a, b) => a.runDate.getTime() - b.runDate.getTime()).map(splitToExportedRun);
+}
+
+/**
+ * Build a CSV file from exported runs
+ * @param runs The exported runs
+ * @returns The CSV content
+ */
+export function exportedRunsToCsv(runs: Array<ExportedRun>): string {
+	// Setup the Row Mapper
+	const toRow = (run: ExportedRun) => [
+		run.id,
+		run.mapId,
+		run.clientRunId ?? '',
+		run.checkpointTimes.join(CSV_LIST_SEPARATOR),
+		run.totalTime,
+		run.runDate.toISOString(),
+		run.status,
+		run.flags.join(CSV_LIST_SEPARATOR),
+	];
+
+	// Return the CSV Content
+	return toCsv([[...SPLIT_CSV_COLUMNS], ...runs.map(toRow)]);
+}
+
+/**
+ * Map a split to an exported run
+ * @param split The split with its player and map
+ * @returns The exported run
+ */
+function splitToExportedRun(split: PopulatedTMNextSplit): ExportedRun {
+	// Return the Exported Run
+	return {
+		id: split._id.toString(),
+		mapId: split.mapId.mapId,
+		checkpointTimes: split.checkpointTimes,
+		totalTime: split.totalTime,
+		runDate: split.runDate,
+		status: split.status,
+		flags: split.flags,
+		clientRunId: split.clientRunId ?? null,
+	};
+}
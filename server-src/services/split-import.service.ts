@@ -0,0 +1,302 @@
+// External Imports
+import { createHash } from 'crypto';
+
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { getPlayerById } from './player.service';
+import { getBatchUploadResult, saveBatchRun } from './batch-upload.service';
+import { CSV_LIST_SEPARATOR } from './split-export.service';
+import { parseCsv } from '../utils/csv.utils';
+import {
+	BatchRunStatus,
+	SplitImportErrorCode,
+	SplitImportFormat,
+	type BatchRunResult,
+	type BatchUploadResult,
+	type ImportSplitsRequestBody,
+	type SaveSplitRequestBody,
+	type SplitImportError,
+} from '../types/types';
+
+// Setup the Import Limits (the body limit allows for LiveSplit files with a long attempt history)
+export const MAX_IMPORT_RUNS = 1000;
+export const MAX_IMPORT_BODY_SIZE = 5 * 1024 * 1024;
+
+// Setup the Timing Methods of LiveSplit, in the order they are preferred (the game time is the in-game timer)
+const LIVESPLIT_TIMING_METHODS = ['GameTime', 'RealTime'] as const;
+
+/**
+ * Interface for an element of an XML document
+ */
+interface XmlElement {
+	attributes: string;
+	content: string;
+}
+
+/**
+ * Import the runs of a LiveSplit or CSV file, skipping the ones that were already saved
+ * @param accountId The account ID of the player
+ * @param displayName The display name of the player
+ * @param body The import request body
+ * @returns The outcome of every run, or the reason the file was rejected as a whole
+ */
+export async function importSplits(
+	accountId: string,
+	displayName: string,
+	body: ImportSplitsRequestBody,
+): Promise<BatchUploadResult | SplitImportError> {
+	// Get the format, map ID and content from the body
+	const { format, mapId, content } = body;
+
+	// Check if the Format Is LiveSplit without a map ID (splits files do not know the map)
+	if (format === SplitImportFormat.LIVESPLIT && !mapId)
+		return { code: SplitImportErrorCode.MISSING_MAP_ID, error: 'mapId is required to import a LiveSplit file' };
+
+	// Read the runs of the file
+	const runs = format === SplitImportFormat.LIVESPLIT ? parseLiveSplitRuns(content, mapId!) : parseCsvRuns(content, mapId);
+
+	// Check if the File could not be read
+	if (!Array.isArray(runs)) return runs;
+
+	// Check if the File has no finished runs
+	if (runs.length === 0) return { code: SplitImportErrorCode.NO_RUNS, error: 'The file does not contain a finished run' };
+
+	// Check if the File has more runs than can be imported at once
+	if (runs.length > MAX_IMPORT_RUNS)
+		return {
+			code: SplitImportErrorCode.TOO_MANY_RUNS,
+			error: `The file contains ${runs.length} runs, at most ${MAX_IMPORT_RUNS} can be imported at once`,
+		};
+
+	// Find the Player
+	const player = await getPlayerById(accountId);
+
+	// Get the splits the player already saved by their map and checkpoint times
+	const savedRuns = new Map<string, Pick<BatchRunResult, 'splitId' | 'splitStatus'>>();
+	for (const split of player ? await getRepositories().splits.findByPlayer(player._id) : [])
+		savedRuns.set(getRunKey(split.mapId.mapId, split.checkpointTimes), { splitId: split._id.toString(), splitStatus: split.status });
+
+	// Setup the Results Array
+	const results: Array<BatchRunResult> = new Array();
+
+	// Save the runs one by one so a run repeated within the file is caught as a duplicate
+	for (const run of runs) {
+		// Get the Key of the run and its client run ID (generated from the key if the file has none)
+		const runKey = getRunKey(run.mapId, run.checkpointTimes);
+		const clientRunId = run.clientRunId ?? `import-${createHash('sha256').update(runKey).digest('hex').slice(0, 32)}`;
+
+		// Get the split the run was already saved as (runs from other tools have no client run ID to match)
+		const savedRun = savedRuns.get(runKey);
+
+		// Check if the Run was already saved and report it as a duplicate
+		if (savedRun) {
+			results.push({ clientRunId, status: BatchRunStatus.DUPLICATE, ...savedRun, code: null, error: null });
+			continue;
+		}
+
+		// Save the run like a run of a batch upload
+		const result = await saveBatchRun(accountId, displayName, { ...run, clientRunId });
+
+		// Check if the Run was saved and remember it
+		if (result.status === BatchRunStatus.CREATED) savedRuns.set(runKey, { splitId: result.splitId, splitStatus: result.splitStatus });
+
+		// Add the Result
+		results.push(result);
+	}
+
+	// Return the Import Result
+	return getBatchUploadResult(results);
+}
+
+/**
+ * Read the finished attempts of a LiveSplit splits file as runs (one segment per checkpoint)
+ * @param content The content of the .lss file
+ * @param mapId The ID of the map the attempts were driven on
+ * @returns The runs, or the reason the file could not be read
+ */
+export function parseLiveSplitRuns(content: string, mapId: string): Array<SaveSplitRequestBody> | SplitImportError {
+	// Get the Run and its Segments
+	const [run] = getXmlElements(content, 'Run');
+	const segments = run ? getXmlElements(run.content, 'Segment') : [];
+
+	// Check if the File Is not a LiveSplit splits file
+	if (!run || segments.length === 0)
+		return { code: SplitImportErrorCode.INVALID_FILE, error: 'content is not a LiveSplit splits file with segments' };
+
+	// Get the segment times of every segment by attempt ID and timing method
+	const segmentHistories = segments.map(segment => {
+		// Setup the Segment Times
+		const segmentTimes = new Map<string, XmlElement>();
+
+		// Add the Time of every attempt that reached the segment
+		for (const time of getXmlElements(getXmlElements(segment.content, 'SegmentHistory')[0]?.content ?? '', 'Time'))
+			segmentTimes.set(getXmlAttribute(time.attributes, 'id') ?? '', time);
+
+		// Return the Segment Times
+		return segmentTimes;
+	});
+
+	// Setup the Runs Array
+	const runs: Array<SaveSplitRequestBody> = new Array();
+
+	// Read every attempt of the history
+	for (const attempt of getXmlElements(getXmlElements(run.content, 'AttemptHistory')[0]?.content ?? '', 'Attempt')) {
+		// Get the ID of the attempt
+		const attemptId = getXmlAttribute(attempt.attributes, 'id');
+
+		// Get the Timing Method the attempt was finished with (reset attempts have no time)
+		const timingMethod = LIVESPLIT_TIMING_METHODS.find(method => getXmlElements(attempt.content, method).length > 0);
+
+		// Check if the Attempt was not finished
+		if (!attemptId || !timingMethod) continue;
+
+		// Get the Segment Times of the attempt
+		const segmentTimes = segmentHistories.map(history =>
+			parseLiveSplitTime(getXmlElements(history.get(attemptId)?.content ?? '', timingMethod)[0]?.content),
+		);
+
+		// Check if the Attempt skipped a segment, so its checkpoint times are unknown
+		if (segmentTimes.some(time => time === null)) continue;
+
+		// Add the segment times up to the cumulative checkpoint times
+		let elapsedTime = 0;
+		const checkpointTimes = segmentTimes.map(time => Math.round((elapsedTime += time!)));
+
+		// Get the Date the attempt ended (or started)
+		const runDate = parseLiveSplitDate(getXmlAttribute(attempt.attributes, 'ended') ?? getXmlAttribute(attempt.attributes, 'started'));
+
+		// Add the Run
+		runs.push({ mapId, checkpointTimes, totalTime: checkpointTimes[checkpointTimes.length - 1], runDate: runDate ?? undefined });
+	}
+
+	// Return the Runs
+	return runs;
+}
+
+/**
+ * Read the rows of a CSV file with a header row as runs
+ * @param content The content of the CSV file
+ * @param mapId The ID of the map of the rows without a mapId column
+ * @returns The runs, or the reason the file could not be read
+ */
+export function parseCsvRuns(content: string, mapId?: string): Array<SaveSplitRequestBody> | SplitImportError {
+	// Get the Rows of the file
+	const rows = parseCsv(content);
+
+	// Check if the File Is not valid CSV
+	if (!rows) return { code: SplitImportErrorCode.INVALID_FILE, error: 'content is not valid CSV (a quoted value is never closed)' };
+
+	// Get the Columns of the header row and the rows of the runs
+	const [header = [], ...records] = rows;
+	const columns = header.map(column => column.trim());
+
+	// Check if the Header has no checkpoint times column
+	if (!columns.includes('checkpointTimes'))
+		return { code: SplitImportErrorCode.INVALID_FILE, error: 'The header row must have a checkpointTimes column' };
+
+	// Check if the Rows have no map ID
+	if (!mapId && !columns.includes('mapId'))
+		return { code: SplitImportErrorCode.MISSING_MAP_ID, error: 'mapId is required when the file has no mapId column' };
+
+	// Return the Runs
+	return records.map(values => {
+		// Setup the Value Getter
+		const getValue = (column: string) => values[columns.indexOf(column)]?.trim() ?? '';
+
+		// Get the Checkpoint Times (a malformed time is kept as NaN, so the run is rejected by the validation)
+		const checkpointTimes = getValue('checkpointTimes').split(CSV_LIST_SEPARATOR).map(parseInteger);
+
+		// Return the Run (the total time defaults to the last checkpoint time)
+		return {
+			mapId: getValue('mapId') || mapId || '',
+			checkpointTimes,
+			totalTime: getValue('totalTime') ? parseInteger(getValue('totalTime')) : checkpointTimes[checkpointTimes.length - 1],
+			runDate: getValue('runDate') || undefined,
+			clientRunId: getValue('clientRunId') || undefined,
+		};
+	});
+}
+
+/**
+ * Get the key two copies of the same run share
+ * @param mapId The ID of the map
+ * @param checkpointTimes The cumulative checkpoint times of the run
+ * @returns The key of the run
+ */
+function getRunKey(mapId: string, checkpointTimes: number[]): string {
+	// Return the Key of the run
+	return `${mapId}:${checkpointTimes.join(',')}`;
+}
+
+/**
+ * Parse a whole number in a CSV value
+ * @param value The value
+ * @returns The number, or NaN if the value is empty or not a number
+ */
+function parseInteger(value: string): number {
+	// Return the Number
+	return value.trim() === '' ? NaN : Number(value);
+}
+
+/**
+ * Get the elements with a tag name of an XML document (without entity decoding, which times and IDs do not need)
+ * @param xml The XML document or element content
+ * @param tagName The tag name
+ * @returns The attributes and content of every element, self-closing elements having no content
+ */
+function getXmlElements(xml: string, tagName: string): Array<XmlElement> {
+	// Match the opening tag, skipping longer tag names that start the same, and its closing tag or self-closing end
+	const pattern = new RegExp(`<${tagName}(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</${tagName}>)`, 'g');
+
+	// Return the Elements
+	return Array.from(xml.matchAll(pattern), match => ({ attributes: match[1] ?? '', content: match[2] ?? '' }));
+}
+
+/**
+ * Get the value of an attribute of an XML element
+ * @param attributes The attributes of the element
+ * @param name The name of the attribute
+ * @returns The value, or null if the element does not have the attribute
+ */
+function getXmlAttribute(attributes: string, name: string): string | null {
+	// Return the Value of the attribute
+	return new RegExp(`\\s${name}="([^"]*)"`).exec(attributes)?.[1] ?? null;
+}
+
+/**
+ * Parse a LiveSplit time (e.g. 00:01:23.4560000, with an optional day count)
+ * @param time The time
+ * @returns The time in milliseconds, or null if the time is missing or malformed
+ */
+function parseLiveSplitTime(time: string | undefined): number | null {
+	// Match the days, hours, minutes and seconds of the time
+	const match = /^(?:(\d+)\.)?(\d+):(\d+):(\d+(?:\.\d+)?)$/.exec(time?.trim() ?? '');
+
+	// Check if the Time Is missing or malformed
+	if (!match) return null;
+
+	// Get the Days, Hours, Minutes and Seconds
+	const [days, hours, minutes, seconds] = [Number(match[1] ?? 0), Number(match[2]), Number(match[3]), Number(match[4])];
+
+	// Return the Time in milliseconds
+	return (((days * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+/**
+ * Parse a LiveSplit attempt date (MM/dd/yyyy HH:mm:ss in UTC)
+ * @param date The date
+ * @returns The date as an ISO string, or null if the date is missing or malformed
+ */
+function parseLiveSplitDate(date: string | null): string | null {
+	// Match the parts of the date
+	const match = /^(\d{2})\/(\d{2})\/(\d{4}) (\d{2}):(\d{2}):(\d{2})$/.exec(date?.trim() ?? '');
+
+	// Check if the Date Is missing or malformed
+	if (!match) return null;
+
+	// Get the Month, Day, Year, Hours, Minutes and Seconds
+	const [month, day, year, hours, minutes, seconds] = match.slice(1).map(Number);
+
+	// Return the Date as an ISO string
+	return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds)).toISOString();
+}
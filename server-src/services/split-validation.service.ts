@@ -0,0 +1,157 @@
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { getExpectedCheckpointTimesLengths, getMapById } from './map.service';
+import { getGlobalSumOfBest, getSegmentTimes } from './sum-of-best.service';
+import {
+	SplitSuspicionFlag,
+	SplitValidationErrorCode,
+	type SaveSplitData,
+	type SaveSplitRequestBody,
+	type SplitValidationError,
+	type TMNextMap,
+} from '../types/types';
+
+// Setup the Validation Limits
+export const MAX_RUN_TIME = 24 * 60 * 60 * 1000;
+export const MAX_RUN_DATE_DRIFT = 5 * 60 * 1000;
+
+// Setup the Suspicion Thresholds
+export const CONSENSUS_MIN_RUNS = 5;
+export const SEGMENT_SUSPICION_RATIO = 0.75;
+export const WORLD_RECORD_SUSPICION_RATIO = 0.9;
+
+/**
+ * Validate the body of a split submission
+ * @param body The body of the save split request
+ * @returns The validation error, or null if the split is valid
+ */
+export function validateSplitData(body: Partial<SaveSplitRequestBody>): SplitValidationError | null {
+	// Get the map ID, checkpoint times, total time and run date from the body
+	const { mapId, checkpointTimes, totalTime, runDate } = body;
+
+	// Check if the Map ID Is missing
+	if (!mapId || typeof mapId !== 'string') return { code: SplitValidationErrorCode.MISSING_MAP_ID, error: 'mapId is required' };
+
+	// Check if the Checkpoint Times Is not a non-empty array
+	if (!Array.isArray(checkpointTimes) || checkpointTimes.length === 0)
+		return { code: SplitValidationErrorCode.INVALID_CHECKPOINT_TIMES, error: 'checkpointTimes must be a non-empty array' };
+
+	// Check if any Checkpoint Time Is not a non-negative whole number
+	if (checkpointTimes.some(time => !Number.isInteger(time) || time < 0))
+		return { code: SplitValidationErrorCode.INVALID_CHECKPOINT_TIMES, error: 'checkpointTimes must only contain non-negative whole numbers' };
+
+	// Check if the Checkpoint Times Are not strictly increasing
+	if (checkpointTimes.some((time, index) => index > 0 && time <= checkpointTimes[index - 1]))
+		return { code: SplitValidationErrorCode.NON_MONOTONIC_CHECKPOINTS, error: 'checkpointTimes must be strictly increasing' };
+
+	// Check if the Total Time Is not a positive whole number
+	if (typeof totalTime !== 'number' || !Number.isInteger(totalTime) || totalTime <= 0)
+		return { code: SplitValidationErrorCode.INVALID_TOTAL_TIME, error: 'totalTime must be a positive whole number' };
+
+	// Check if the Total Time does not match the last Checkpoint Time
+	if (totalTime !== checkpointTimes[checkpointTimes.length - 1])
+		return { code: SplitValidationErrorCode.TOTAL_TIME_MISMATCH, error: 'totalTime must match the last checkpoint time' };
+
+	// Check if the Total Time Is longer than any run could be
+	if (totalTime > MAX_RUN_TIME) return { code: SplitValidationErrorCode.IMPOSSIBLE_TIME, error: `totalTime must not exceed ${MAX_RUN_TIME}ms` };
+
+	// Check if the Run Date Is not a valid date or is in the future
+	if (runDate !== undefined) {
+		// Parse the Run Date
+		const runTimestamp = new Date(runDate).getTime();
+
+		// Check if the Run Date Is invalid
+		if (Number.isNaN(runTimestamp) || runTimestamp > Date.now() + MAX_RUN_DATE_DRIFT)
+			return { code: SplitValidationErrorCode.INVALID_RUN_DATE, error: 'runDate must be a valid date that is not in the future' };
+	}
+
+	// Return no Error
+	return null;
+}
+
+/**
+ * Validate a split submission against the known details of its map
+ * @param mapId The ID of the map
+ * @param splitData The data for the split
+ * @returns The validation error, or null if the split matches the map
+ */
+export async function validateSplitForMap(mapId: string, splitData: SaveSplitData): Promise<SplitValidationError | null> {
+	// Find the Map
+	const map = await getMapById(mapId);
+
+	// Get the checkpoint time counts a complete run can have
+	const expectedLengths = map ? getExpectedCheckpointTimesLengths(map) : null;
+
+	// Check if the Checkpoint Count does not match the map
+	if (expectedLengths && !expectedLengths.includes(splitData.checkpointTimes.length))
+		return {
+			code: SplitValidationErrorCode.CHECKPOINT_COUNT_MISMATCH,
+			error: `checkpointTimes must contain ${map!.checkpointCount} checkpoint times for this map`,
+		};
+
+	// Return no Error
+	return null;
+}
+
+/**
+ * Get the reasons a valid split looks suspicious compared to the other runs on the map
+ * @param mapId The ID of the map
+ * @param splitData The data for the split
+ * @returns The suspicion flags (empty if the split looks legitimate)
+ */
+export async function getSuspicionFlags(mapId: string, splitData: SaveSplitData): Promise<Array<SplitSuspicionFlag>> {
+	// Setup the Flags Array
+	const flags: Array<SplitSuspicionFlag> = new Array();
+
+	// Find the Map
+	const map = await getMapById(mapId);
+
+	// Check if the Map does not exist (the first run on a map has nothing to compare against)
+	if (!map) return flags;
+
+	// Get the checkpoint count most runs on the map have (only needed while the map's checkpoint count is unknown)
+	const consensusCheckpointCount = map.checkpointCount ? null : await getConsensusCheckpointCount(map);
+
+	// Check if the Checkpoint Count differs from the consensus
+	if (consensusCheckpointCount !== null && splitData.checkpointTimes.length !== consensusCheckpointCount)
+		flags.push(SplitSuspicionFlag.CHECKPOINT_COUNT_MISMATCH);
+
+	// Get the global sum of best
+	const sumOfBest = await getGlobalSumOfBest(mapId);
+
+	// Check if there are no runs to compare against
+	if (!sumOfBest) return flags;
+
+	// Get the Segment Times of the split
+	const segmentTimes = getSegmentTimes(splitData.checkpointTimes);
+
+	// Check if any Segment Is far faster than the best recorded on it
+	const hasTooFastSegment =
+		segmentTimes.length === sumOfBest.segments.length &&
+		sumOfBest.segments.some(segment => segmentTimes[segment.index] < segment.segmentTime * SEGMENT_SUSPICION_RATIO);
+
+	// Check if a Segment Is too fast and add the flag
+	if (hasTooFastSegment) flags.push(SplitSuspicionFlag.SEGMENT_TOO_FAST);
+
+	// Check if the Run beats the world record by a huge margin
+	if (splitData.totalTime < sumOfBest.referenceSplit.totalTime * WORLD_RECORD_SUSPICION_RATIO) flags.push(SplitSuspicionFlag.WORLD_RECORD_MARGIN);
+
+	// Return the Flags
+	return flags;
+}
+
+/**
+ * Get the checkpoint count most runs on a map have
+ * @param map The map
+ * @returns The consensus checkpoint count, or null if too few runs agree on one
+ */
+async function getConsensusCheckpointCount(map: TMNextMap): Promise<number | null> {
+	// Count the runs per checkpoint count and keep the most common one
+	const consensus = await getRepositories().splits.getMostCommonCheckpointCount({ mapId: map._id, globalOnly: true });
+
+	// Check if there is no consensus yet
+	if (!consensus || consensus.count < CONSENSUS_MIN_RUNS) return null;
+
+	// Return the Consensus Checkpoint Count
+	return consensus.checkpointCount;
+}
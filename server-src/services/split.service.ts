@@ -1,8 +1,21 @@
 // Internal Imports
-import { SplitModel } from '../database/models/split.model';
-import { findOrCreatePlayer } from './player.service';
-import { findOrCreateMap } from './map.service';
-import type { PopulatedTMNextSplit, SaveSplitData } from '../types/types';
+import { getRepositories } from '../repositories/repositories';
+import { findOrCreatePlayer, getPlayerById } from './player.service';
+import { findOrCreateMap, getMapById } from './map.service';
+import { getLeaderboardPercentileSplitId, getLeaderboardSplitId, getPlayerRank } from './leaderboard.service';
+import { getPersonalBestRecord, updatePersonalBest } from './personal-best.service';
+import { getSuspicionFlags } from './split-validation.service';
+import { getClubBestSplit } from './club.service';
+import { incrementCounter, METRICS } from './metrics.service';
+import {
+	GetSplitsType,
+	SplitStatus,
+	type PopulatedTMNextSplit,
+	type SaveSplitData,
+	type SaveSplitResult,
+	type SplitTarget,
+	type TMNextSplit,
+} from '../types/types';
 
 /**
  * Save a new split
@@ -10,29 +23,68 @@ import type { PopulatedTMNextSplit, SaveSplitData } from '../types/types';
  * @param displayName The display name of the player
  * @param mapId The ID of the map
  * @param splitData The data for the split
- * @returns The new split
+ * @returns The new split and the records it set, or null if the player already saved a run with the same client run ID
  */
-export async function saveSplit(
-	accountId: string,
-	displayName: string,
-	mapId: string,
-	splitData: SaveSplitData,
-): Promise<PopulatedTMNextSplit> {
+export async function saveSplit(accountId: string, displayName: string, mapId: string, splitData: SaveSplitData): Promise<SaveSplitResult | null> {
 	// Get or create player and map
 	const player = await findOrCreatePlayer(accountId, displayName);
 	const map = await findOrCreateMap(mapId);
 
-	// Create the new split
-	const split = await SplitModel.create({
+	// Get the reasons the split looks suspicious
+	const flags = await getSuspicionFlags(mapId, splitData);
+
+	// Get the global best split before the new split is saved
+	const globalBestSplit = await getRepositories().splits.findBest({ mapId: map._id, globalOnly: true });
+
+	// Make sure the personal best record exists before the new split is saved, so it is created from the earlier splits only
+	await getPersonalBestRecord(player, map);
+
+	// Create the new split (quarantined if it looks suspicious)
+	const split = await getRepositories().splits.create({
 		playerId: player._id,
 		mapId: map._id,
 		checkpointTimes: splitData.checkpointTimes,
 		totalTime: splitData.totalTime,
 		runDate: splitData.runDate ?? new Date(),
+		status: flags.length > 0 ? SplitStatus.QUARANTINED : SplitStatus.ACCEPTED,
+		flags,
+		clientRunId: splitData.clientRunId,
 	});
 
-	// Return the new split
-	return split as unknown as PopulatedTMNextSplit;
+	// Check if the Run was already saved
+	if (!split) return null;
+
+	// Count the saved split by status
+	incrementCounter(METRICS.SPLITS_SAVED, { status: split.status });
+
+	// Offer the split as the player's personal best
+	const { isPersonalBest, previousTime } = await updatePersonalBest(player, map, split);
+
+	// Return the new split and the records it set
+	return {
+		split,
+		isPersonalBest,
+		isGlobalBest: split.status === SplitStatus.ACCEPTED && !player.bannedAt && (!globalBestSplit || split.totalTime < globalBestSplit.totalTime),
+		improvement: isPersonalBest && previousTime !== null ? previousTime - split.totalTime : null,
+		rank: await getPlayerRank(map, player),
+	};
+}
+
+/**
+ * Get the split a player uploaded with a client run ID
+ * @param accountId The account ID of the player
+ * @param clientRunId The ID the client generated for the run
+ * @returns The split, or null if no run was uploaded with the ID
+ */
+export async function getSplitByClientRunId(accountId: string, clientRunId: string): Promise<TMNextSplit | null> {
+	// Find the Player
+	const player = await getPlayerById(accountId);
+
+	// Check if the Player does not exist
+	if (!player) return null;
+
+	// Find the split uploaded with the client run ID
+	return await getRepositories().splits.findByClientRunId(player._id, clientRunId);
 }
 
 /**
@@ -42,17 +94,15 @@ export async function saveSplit(
  * @returns The splits for the player
  */
 export async function getPlayerSplits(accountId: string, mapId: string): Promise<Array<PopulatedTMNextSplit>> {
-	// Find the Map
-	const map = await findOrCreateMap(mapId);
+	// Find the Map and the Player
+	const map = await getMapById(mapId);
+	const player = await getPlayerById(accountId);
 
-	// Find the splits for the player and map
-	const splits = await SplitModel.find({ playerId: accountId, mapId: map._id })
-		.populate('playerId')
-		.populate('mapId')
-		.sort({ totalTime: 1 });
+	// Check if the Map or the Player does not exist
+	if (!map || !player) return [];
 
-	// Return the splits
-	return splits as unknown as Array<PopulatedTMNextSplit>;
+	// Find the splits for the player and map
+	return await getRepositories().splits.find({ playerId: player._id, mapId: map._id });
 }
 
 /**
@@ -62,17 +112,21 @@ export async function getPlayerSplits(accountId: string, mapId: string): Promise
  * @returns The best split for the player
  */
 export async function getPlayerBestSplit(accountId: string, mapId: string): Promise<PopulatedTMNextSplit | null> {
-	// Find the Map
-	const map = await findOrCreateMap(mapId);
+	// Find the Map and the Player
+	const map = await getMapById(mapId);
+	const player = await getPlayerById(accountId);
 
-	// Find the splits for the player and map
-	const split = await SplitModel.findOne({ playerId: accountId, mapId: map._id })
-		.populate('playerId')
-		.populate('mapId')
-		.sort({ totalTime: 1 });
+	// Check if the Map or the Player does not exist
+	if (!map || !player) return null;
+
+	// Get the personal best record of the player
+	const personalBest = await getPersonalBestRecord(player, map);
 
-	// Return the splits
-	return split as unknown as PopulatedTMNextSplit;
+	// Check if the Player has no runs on the map
+	if (!personalBest) return null;
+
+	// Find the split of the personal best
+	return await getRepositories().splits.findById(personalBest.splitId.toString());
 }
 
 /**
@@ -82,14 +136,56 @@ export async function getPlayerBestSplit(accountId: string, mapId: string): Prom
  */
 export async function getGlobalBestSplit(mapId: string): Promise<PopulatedTMNextSplit | null> {
 	// Find the Map
-	const map = await findOrCreateMap(mapId);
+	const map = await getMapById(mapId);
+
+	// Check if the Map does not exist
+	if (!map) return null;
+
+	// Return the global best split for the map, skipping quarantined splits
+	return await getRepositories().splits.findBest({ mapId: map._id, globalOnly: true });
+}
+
+/**
+ * Get a split by its ID
+ * @param splitId The ID of the split
+ * @returns The split
+ */
+export async function getSplitById(splitId: string): Promise<PopulatedTMNextSplit | null> {
+	// Find the split
+	return await getRepositories().splits.findById(splitId);
+}
+
+/**
+ * Get the split picked by one of the target split types
+ * @param accountId The account ID of the requesting player
+ * @param type The target split type (player best, rank, percentile or club best)
+ * @param mapId The ID of the map
+ * @param target The parameters that pick the split
+ * @returns The target split
+ */
+export async function getTargetSplit(
+	accountId: string,
+	type: GetSplitsType,
+	mapId: string,
+	target: SplitTarget,
+): Promise<PopulatedTMNextSplit | null> {
+	// Check if the Type Is Player Best and get the other player's personal best
+	if (type === GetSplitsType.PLAYER_BEST) return await getPlayerBestSplit(target.targetAccountId!, mapId);
+
+	// Check if the Type Is Club Best and get the fastest split of the club's members (only for the members)
+	if (type === GetSplitsType.CLUB_BEST) return await getClubBestSplit(accountId, target.clubId!, mapId);
 
-	// Find the global best split for the map
-	const split = await SplitModel.findOne({ mapId: map._id }).populate('playerId').populate('mapId').sort({ totalTime: 1 });
+	// Get the ID of the split at the leaderboard position or percentile
+	const splitId =
+		type === GetSplitsType.RANK
+			? await getLeaderboardSplitId(mapId, target.rank!)
+			: type === GetSplitsType.PERCENTILE
+				? await getLeaderboardPercentileSplitId(mapId, target.percentile!)
+				: null;
 
-	// Log the global best split
-	console.log('Global Best Split:', split);
+	// Check if there is no split and return null
+	if (!splitId) return null;
 
-	// Return the global best split
-	return split as unknown as PopulatedTMNextSplit;
+	// Return the split
+	return await getSplitById(splitId);
 }
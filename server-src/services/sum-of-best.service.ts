@@ -0,0 +1,94 @@
+// Internal Imports
+import { getRepositories } from '../repositories/repositories';
+import { getMapById } from './map.service';
+import { getPlayerById } from './player.service';
+import type { PopulatedTMNextSplit, SplitQuery, SumOfBest, SumOfBestSegment } from '../types/types';
+
+/**
+ * Get the segment times of a run from its cumulative checkpoint times
+ * @param checkpointTimes The cumulative checkpoint times in milliseconds
+ * @returns The time spent on each segment in milliseconds
+ */
+export function getSegmentTimes(checkpointTimes: number[]): number[] {
+	// Subtract the previous checkpoint from every checkpoint (the first segment starts at 0)
+	return checkpointTimes.map((time, index) => time - (index > 0 ? checkpointTimes[index - 1] : 0));
+}
+
+/**
+ * Get the sum of best for a player on a map
+ * @param accountId The account ID of the player
+ * @param mapId The ID of the map
+ * @returns The sum of best for the player, or null if they have no runs
+ */
+export async function getPlayerSumOfBest(accountId: string, mapId: string): Promise<SumOfBest | null> {
+	// Find the Map and the Player
+	const map = await getMapById(mapId);
+	const player = await getPlayerById(accountId);
+
+	// Check if the Map or the Player does not exist
+	if (!map || !player) return null;
+
+	// Setup the Query for the player's runs
+	const query: SplitQuery = { playerId: player._id, mapId: map._id };
+
+	// Find the personal best of the player to compare against
+	const referenceSplit = await getRepositories().splits.findBest(query);
+
+	// Check if the Player has no runs on the map
+	if (!referenceSplit) return null;
+
+	// Build the Sum of Best from the player's runs
+	return await buildSumOfBest(query, referenceSplit);
+}
+
+/**
+ * Get the global sum of best for a map
+ * @param mapId The ID of the map
+ * @returns The global sum of best, or null if the map has no runs
+ */
+export async function getGlobalSumOfBest(mapId: string): Promise<SumOfBest | null> {
+	// Find the Map
+	const map = await getMapById(mapId);
+
+	// Check if the Map does not exist
+	if (!map) return null;
+
+	// Setup the Query for every run on the map
+	const query: SplitQuery = { mapId: map._id, globalOnly: true };
+
+	// Find the global best to compare against
+	const referenceSplit = await getRepositories().splits.findBest(query);
+
+	// Check if the Map has no runs
+	if (!referenceSplit) return null;
+
+	// Build the Sum of Best from every run on the map
+	return await buildSumOfBest(query, referenceSplit);
+}
+
+/**
+ * Build the Sum of Best from the runs matching a query
+ * @param query The query for the runs to use
+ * @param referenceSplit The split to compare the best segments against
+ * @returns The sum of best
+ */
+async function buildSumOfBest(query: SplitQuery, referenceSplit: PopulatedTMNextSplit): Promise<SumOfBest> {
+	// Get the Reference Segments
+	const referenceSegments = getSegmentTimes(referenceSplit.checkpointTimes);
+
+	// Get the best time on every segment of the runs with the same checkpoint count as the reference
+	const bestSegments = await getRepositories().splits.getBestSegments(query, referenceSegments.length);
+
+	// Add the time every best segment saves against the reference
+	const segments: Array<SumOfBestSegment> = bestSegments.map(segment => ({
+		...segment,
+		possibleTimeSave: referenceSegments[segment.index] - segment.segmentTime,
+	}));
+
+	// Build the Cumulative Checkpoint Times
+	const checkpointTimes: Array<number> = new Array();
+	for (const segment of segments) checkpointTimes.push((checkpointTimes[checkpointTimes.length - 1] ?? 0) + segment.segmentTime);
+
+	// Return the Sum of Best
+	return { referenceSplit, checkpointTimes, totalTime: checkpointTimes[checkpointTimes.length - 1] ?? 0, segments };
+}
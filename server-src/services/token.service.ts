@@ -0,0 +1,138 @@
+// External Imports
+import { randomUUID } from 'crypto';
+import { sign, verify, TokenExpiredError } from 'jsonwebtoken';
+
+// Internal Imports
+import { config } from '../config/config';
+import { getRepositories } from '../repositories/repositories';
+import {
+	AuthErrorCode,
+	TokenType,
+	type AuthError,
+	type AuthenticationPayload,
+	type AuthUserResponse,
+	type VerifiedAuthenticationPayload,
+} from '../types/types';
+
+/**
+ * Issue a new access and refresh token pair
+ * @param accountId The account ID of the user
+ * @param displayName The display name of the user
+ * @param tokenTime The token time of the user
+ * @returns The token pair
+ */
+export function issueTokens(accountId: string, displayName: string, tokenTime: number): AuthUserResponse {
+	// Setup the Issue Time in milliseconds, so revoking the tokens of the account does not reject tokens issued right after it
+	const issuedAt = Date.now();
+
+	// Setup the JWT Payloads
+	const accessPayload: AuthenticationPayload = { accountId, displayName, tokenTime, type: TokenType.ACCESS, issuedAt };
+	const refreshPayload: AuthenticationPayload = { accountId, displayName, tokenTime, type: TokenType.REFRESH, issuedAt };
+
+	// Sign the JWT Payloads
+	const token = sign(accessPayload, config.jwtSecret, { expiresIn: config.accessTokenTtl, jwtid: randomUUID() });
+	const refreshToken = sign(refreshPayload, config.jwtSecret, { expiresIn: config.refreshTokenTtl, jwtid: randomUUID() });
+
+	// Return the Token Pair
+	return { token, expiresIn: config.accessTokenTtl, refreshToken, refreshExpiresIn: config.refreshTokenTtl };
+}
+
+/**
+ * Authenticate a token: verify its signature, expiry and type, and check that it was not revoked
+ * @param token The JWT Token
+ * @param type The type the token must have
+ * @returns The verified payload, or the auth error explaining why the token was rejected
+ */
+export async function authenticateToken(token: string, type: TokenType): Promise<VerifiedAuthenticationPayload | AuthError> {
+	// Verify the token
+	const payload = await verifyToken(token, config.jwtSecret).catch(error => {
+		// Check if the Token has expired
+		if (error instanceof TokenExpiredError) return { code: AuthErrorCode.TOKEN_EXPIRED, error: 'Token expired' } as AuthError;
+
+		// Return the Invalid Token Error
+		return { code: AuthErrorCode.INVALID_TOKEN, error: 'Invalid token' } as AuthError;
+	});
+
+	// Check if the Token could not be verified
+	if ('code' in payload) return payload;
+
+	// Check if the Token is of the wrong type (or was issued before token types or millisecond issue times existed)
+	if (payload.type !== type || !payload.jti || typeof payload.issuedAt !== 'number')
+		return { code: AuthErrorCode.INVALID_TOKEN, error: 'Invalid token' };
+
+	// Check if the Token was revoked
+	if (await isTokenRevoked(payload)) return { code: AuthErrorCode.TOKEN_REVOKED, error: 'Token revoked' };
+
+	// Return the Payload
+	return payload;
+}
+
+/**
+ * Revoke a single token
+ * @param tokenId The unique ID of the token
+ * @param accountId The account ID of the token's user
+ * @param expiresAt The time the token expires at in seconds since the epoch
+ * @returns Whether this call revoked the token (false if it was already revoked, e.g. by a concurrent refresh)
+ */
+export async function revokeToken(tokenId: string, accountId: string, expiresAt: number): Promise<boolean> {
+	// Add the token to the revocation list until it expires
+	return await getRepositories().revokedTokens.revoke(tokenId, accountId, new Date(expiresAt * 1000));
+}
+
+/**
+ * Revoke every token issued to an account so far, e.g. to log out everywhere or after the account was deleted
+ * @param accountId The account ID of the user
+ * @returns void
+ */
+export async function revokeAccountTokens(accountId: string): Promise<void> {
+	// Setup the Revocation Date
+	const revokedAt = new Date();
+
+	// Keep the revocation until the longest-lived token issued until now has expired
+	const expiresAt = new Date(revokedAt.getTime() + Math.max(config.accessTokenTtl, config.refreshTokenTtl) * 1000);
+
+	// Revoke the tokens of the account (stored apart from the player, so the revocation outlives a deleted account)
+	await getRepositories().revokedTokens.revokeAccount(accountId, revokedAt, expiresAt);
+}
+
+/**
+ * Check if a token was revoked on its own or with every token of its account
+ * @param payload The verified payload of the token
+ * @returns Whether the token was revoked
+ */
+async function isTokenRevoked(payload: VerifiedAuthenticationPayload): Promise<boolean> {
+	// Check if the token itself was revoked
+	if (await getRepositories().revokedTokens.isRevoked(payload.jti)) return true;
+
+	// Get the date every token of the account was revoked until
+	const revokedAt = await getRepositories().revokedTokens.getAccountRevokedAt(payload.accountId);
+
+	// Check if the token was issued before (or in the same millisecond as) the revocation of its account
+	return !!revokedAt && payload.issuedAt <= revokedAt.getTime();
+}
+
+/**
+ * Verify the JWT Token
+ * @param token - The JWT Token to verify
+ * @param secret - The JWT Secret to use
+ * @returns The Authentication Payload
+ */
+export async function verifyToken(token: string, secret: string): Promise<VerifiedAuthenticationPayload> {
+	// Setup the New Promise
+	const promise = new Promise<VerifiedAuthenticationPayload>((resolve, reject) => {
+		// Verify the JWT Token
+		verify(token, secret, (err, decoded) => {
+			// If there is an error, reject the promise
+			if (err) return reject(err);
+
+			// If the decoded token is not an object, reject the promise
+			if (typeof decoded !== 'object') return reject(new Error('Invalid token'));
+
+			// Resolve the promise with the decoded token
+			resolve(decoded as VerifiedAuthenticationPayload);
+		});
+	});
+
+	// Return the Promise
+	return promise;
+}
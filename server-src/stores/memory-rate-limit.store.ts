@@ -0,0 +1,73 @@
+// Internal Imports
+import type { RateLimitHit, RateLimitStore } from '../types/types';
+
+// Setup the Interval expired counters are removed at
+const CLEANUP_INTERVAL = 60 * 1000;
+
+// Setup the Memory Rate Limit Store Class
+export class MemoryRateLimitStore implements RateLimitStore {
+	/**
+	 * The counters by key
+	 */
+	private counters = new Map<string, RateLimitHit>();
+
+	/**
+	 * Setup the Memory Rate Limit Store
+	 */
+	constructor() {
+		// Remove expired counters periodically without keeping the process alive
+		setInterval(() => this.removeExpiredCounters(), CLEANUP_INTERVAL).unref();
+	}
+
+	/**
+	 * Count a request against a counter, starting a new window if the previous one ended
+	 * @param key The key of the counter
+	 * @param windowMs The length of the window in milliseconds
+	 * @returns The state of the counter after the request was counted
+	 */
+	public async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+		// Get the Current Time
+		const now = Date.now();
+
+		// Get the Counter
+		const counter = this.counters.get(key);
+
+		// Check if the Counter is still in its window and count the request
+		if (counter && counter.resetAt > now) {
+			// Count the request
+			counter.count++;
+
+			// Return the Counter
+			return { ...counter };
+		}
+
+		// Start a new window
+		const newCounter: RateLimitHit = { count: 1, resetAt: now + windowMs };
+		this.counters.set(key, newCounter);
+
+		// Return the new Counter
+		return { ...newCounter };
+	}
+
+	/**
+	 * Reset a counter
+	 * @param key The key of the counter
+	 * @returns void
+	 */
+	public async reset(key: string): Promise<void> {
+		// Remove the Counter
+		this.counters.delete(key);
+	}
+
+	/**
+	 * Remove the counters whose window has ended
+	 * @returns void
+	 */
+	private removeExpiredCounters(): void {
+		// Get the Current Time
+		const now = Date.now();
+
+		// Remove every expired counter
+		for (const [key, counter] of this.counters) if (counter.resetAt <= now) this.counters.delete(key);
+	}
+}
@@ -0,0 +1,125 @@
+// External Imports
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+
+// Internal Imports
+import { createTestApp, getAuthHeaders, getTestTokens } from './test-app';
+import { AccountErrorCode, AuthErrorCode, ErrorCode, GetSplitsType } from '../types/types';
+
+// Setup the Headers of the players
+const ALICE_HEADERS = getAuthHeaders('account-alice', 'Alice');
+const BOB_HEADERS = getAuthHeaders('account-bob', 'Bob');
+
+describe('account', () => {
+	// Setup the Fastify Instance of the test
+	let fastify: FastifyInstance;
+
+	// Start every test with a run of Alice on two maps and a slower run of Bob
+	beforeEach(async () => {
+		// Build the Fastify Instance
+		fastify = await createTestApp();
+
+		// Save the runs of the players
+		for (const [headers, mapId, totalTime] of [
+			[ALICE_HEADERS, 'map-1', 30000],
+			[ALICE_HEADERS, 'map-2', 40000],
+			[BOB_HEADERS, 'map-1', 31000],
+		] as const)
+			await fastify.inject({
+				method: 'POST',
+				url: '/splits/save',
+				headers,
+				payload: { mapId, checkpointTimes: [10000, totalTime], totalTime },
+			});
+	});
+
+	// Close the Fastify Instance after every test
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	test('returns the profile and the archive of the player', async () => {
+		// Get the profile and the archive
+		const profileResponse = await fastify.inject({ method: 'GET', url: '/me', headers: ALICE_HEADERS });
+		const archiveResponse = await fastify.inject({ method: 'GET', url: '/me/export', headers: ALICE_HEADERS });
+
+		// Check the profile
+		expect(profileResponse.statusCode).toBe(200);
+		expect(profileResponse.json().data).toMatchObject({ accountId: 'account-alice', displayName: 'Alice', runCount: 2, mapCount: 2 });
+
+		// Check the archive was sent as a file with every run
+		expect(archiveResponse.headers['content-disposition']).toContain('attachment');
+		expect(archiveResponse.json().runs.map((run: { mapId: string }) => run.mapId)).toEqual(['map-1', 'map-2']);
+	});
+
+	test('only deletes the account when the deletion is confirmed', async () => {
+		// Delete the account with the account ID of another player
+		const response = await fastify.inject({
+			method: 'POST',
+			url: '/me/delete',
+			headers: ALICE_HEADERS,
+			payload: { confirmAccountId: 'account-bob' },
+		});
+
+		// Check the deletion was refused
+		expect(response.statusCode).toBe(400);
+		expect(response.json().code).toBe(AccountErrorCode.DELETION_NOT_CONFIRMED);
+	});
+
+	test('deletes the player, their runs and the data derived from them', async () => {
+		// Delete the account
+		const response = await fastify.inject({
+			method: 'POST',
+			url: '/me/delete',
+			headers: ALICE_HEADERS,
+			payload: { confirmAccountId: 'account-alice' },
+		});
+
+		// Check the outcome of the deletion
+		expect(response.statusCode).toBe(200);
+		expect(response.json().data).toMatchObject({ deletedSplits: 2, affectedMaps: 2, auditId: expect.any(String) });
+
+		// Check the token used for the deletion was revoked
+		expect((await fastify.inject({ method: 'GET', url: '/me', headers: ALICE_HEADERS })).json().code).toBe(AuthErrorCode.TOKEN_REVOKED);
+
+		// Check nothing is stored about the player anymore (with a token issued after the deletion)
+		await Bun.sleep(2);
+		const profileResponse = await fastify.inject({ method: 'GET', url: '/me', headers: getAuthHeaders('account-alice', 'Alice') });
+		expect(profileResponse.statusCode).toBe(404);
+		expect(profileResponse.json().code).toBe(ErrorCode.NOT_FOUND);
+
+		// Check the global best and the leaderboard moved on to the next player
+		const splitsResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/get',
+			headers: BOB_HEADERS,
+			payload: { mapId: 'map-1', type: GetSplitsType.GLOBAL_BEST },
+		});
+		const leaderboardResponse = await fastify.inject({ method: 'POST', url: '/leaderboard/get', headers: BOB_HEADERS, payload: { mapId: 'map-1' } });
+		expect(splitsResponse.json().data[0].totalTime).toBe(31000);
+		expect(leaderboardResponse.json().data).toMatchObject({ totalPlayers: 1, entries: [{ rank: 1, accountId: 'account-bob' }] });
+	});
+
+	test('revokes every token of the account when it is deleted', async () => {
+		// Get a Token Pair the deletion is not made with
+		const { token, refreshToken } = getTestTokens('account-alice', 'Alice');
+
+		// Delete the account
+		await fastify.inject({ method: 'POST', url: '/me/delete', headers: ALICE_HEADERS, payload: { confirmAccountId: 'account-alice' } });
+
+		// Check the refresh token cannot issue new tokens
+		const refreshResponse = await fastify.inject({ method: 'POST', url: '/auth/refresh', payload: { refreshToken } });
+		expect(refreshResponse.statusCode).toBe(401);
+		expect(refreshResponse.json().code).toBe(AuthErrorCode.TOKEN_REVOKED);
+
+		// Check the access token cannot save runs, which would create the player again
+		const saveResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/save',
+			headers: { authorization: `Bearer ${token}` },
+			payload: { mapId: 'map-1', checkpointTimes: [10000, 29000], totalTime: 29000 },
+		});
+		expect(saveResponse.statusCode).toBe(401);
+		expect(saveResponse.json().code).toBe(AuthErrorCode.TOKEN_REVOKED);
+	});
+});
@@ -0,0 +1,285 @@
+// External Imports
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+
+// Internal Imports
+import { createTestApp, getAuthHeaders } from './test-app';
+import { AuditAction, AuthErrorCode, GetSplitsType, SplitStatus, SplitValidationErrorCode } from '../types/types';
+
+// Setup the ID of the map the runs are driven on
+const MAP_ID = 'admin-map';
+
+// Setup the Headers of the admin (listed in the ADMIN_ACCOUNT_IDS of the test setup) and the players
+const ADMIN_HEADERS = getAuthHeaders('account-admin', 'Admin');
+const ALICE_HEADERS = getAuthHeaders('account-alice', 'Alice');
+const BOB_HEADERS = getAuthHeaders('account-bob', 'Bob');
+
+describe('admin', () => {
+	// Setup the Fastify Instance of the test
+	let fastify: FastifyInstance;
+
+	/**
+	 * Get the global best time of the map
+	 * @returns The total time of the global best, or undefined if there is none
+	 */
+	const getGlobalBestTime = async () => {
+		// Get the global best
+		const response = await fastify.inject({
+			method: 'POST',
+			url: '/splits/get',
+			headers: BOB_HEADERS,
+			payload: { mapId: MAP_ID, type: GetSplitsType.GLOBAL_BEST },
+		});
+
+		// Return the Total Time of the global best
+		return response.json().data[0]?.totalTime;
+	};
+
+	// Start every test with a run of Alice and a slower run of Bob
+	beforeEach(async () => {
+		// Build the Fastify Instance
+		fastify = await createTestApp();
+
+		// Save the runs of the players
+		for (const [headers, totalTime] of [
+			[ALICE_HEADERS, 30000],
+			[BOB_HEADERS, 31000],
+		] as const)
+			await fastify.inject({
+				method: 'POST',
+				url: '/splits/save',
+				headers,
+				payload: { mapId: MAP_ID, checkpointTimes: [10000, 20000, totalTime], totalTime },
+			});
+	});
+
+	// Close the Fastify Instance after every test
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	test('rejects players who are not admins', async () => {
+		// List the splits as a player
+		const response = await fastify.inject({ method: 'POST', url: '/admin/splits/list', headers: ALICE_HEADERS, payload: {} });
+
+		// Check the request was rejected
+		expect(response.statusCode).toBe(403);
+		expect(response.json().code).toBe(AuthErrorCode.ADMIN_REQUIRED);
+	});
+
+	test('lists flagged runs, hides and deletes splits and records every action', async () => {
+		// Save a run far faster than every other run, so it is quarantined
+		await fastify.inject({
+			method: 'POST',
+			url: '/splits/save',
+			headers: BOB_HEADERS,
+			payload: { mapId: MAP_ID, checkpointTimes: [8000, 16000, 24000], totalTime: 24000 },
+		});
+
+		// List the flagged splits
+		const listResponse = await fastify.inject({ method: 'POST', url: '/admin/splits/list', headers: ADMIN_HEADERS, payload: { flaggedOnly: true } });
+		expect(listResponse.json().data).toMatchObject({
+			total: 1,
+			splits: [{ accountId: 'account-bob', totalTime: 24000, status: SplitStatus.QUARANTINED }],
+		});
+
+		// Delete the flagged split
+		const deleteResponse = await fastify.inject({
+			method: 'POST',
+			url: '/admin/splits/delete',
+			headers: ADMIN_HEADERS,
+			payload: { splitId: listResponse.json().data.splits[0].id, reason: 'Impossible time' },
+		});
+		expect(deleteResponse.statusCode).toBe(200);
+
+		// Hide the global best of Alice
+		const [aliceSplit] = (
+			await fastify.inject({ method: 'POST', url: '/admin/splits/list', headers: ADMIN_HEADERS, payload: { accountId: 'account-alice' } })
+		).json().data.splits;
+		const hideResponse = await fastify.inject({
+			method: 'POST',
+			url: '/admin/splits/status',
+			headers: ADMIN_HEADERS,
+			payload: { splitId: aliceSplit.id, status: SplitStatus.HIDDEN },
+		});
+		expect(hideResponse.json().data.status).toBe(SplitStatus.HIDDEN);
+
+		// Check the global best moved on to Bob's remaining run
+		expect(await getGlobalBestTime()).toBe(31000);
+
+		// Check both actions were recorded in the audit log, newest first
+		const auditResponse = await fastify.inject({ method: 'POST', url: '/admin/audit', headers: ADMIN_HEADERS, payload: {} });
+		expect(auditResponse.json().data.entries).toMatchObject([
+			{ action: AuditAction.SPLIT_STATUS_CHANGED, actorAccountId: 'account-admin', targetAccountId: 'account-alice' },
+			{ action: AuditAction.SPLIT_DELETED, targetAccountId: 'account-bob', details: { totalTime: 24000, reason: 'Impossible time' } },
+		]);
+	});
+
+	test('recomputes the personal best when an admin hides or deletes a split', async () => {
+		/**
+		 * Get the personal best time of Alice
+		 * @returns The total time of the personal best, or undefined if there is none
+		 */
+		const getPersonalBestTime = async () => {
+			// Get the personal best
+			const response = await fastify.inject({
+				method: 'POST',
+				url: '/splits/get',
+				headers: ALICE_HEADERS,
+				payload: { mapId: MAP_ID, type: GetSplitsType.PERSONAL_BEST },
+			});
+
+			// Return the Total Time of the personal best
+			return response.json().data[0]?.totalTime;
+		};
+
+		// Save a faster run as Alice
+		await fastify.inject({
+			method: 'POST',
+			url: '/splits/save',
+			headers: ALICE_HEADERS,
+			payload: { mapId: MAP_ID, checkpointTimes: [9500, 19500, 29500], totalTime: 29500 },
+		});
+		expect(await getPersonalBestTime()).toBe(29500);
+
+		// Find the splits of Alice, fastest first
+		const [fasterSplit, slowerSplit] = (
+			await fastify.inject({ method: 'POST', url: '/admin/splits/list', headers: ADMIN_HEADERS, payload: { accountId: 'account-alice' } })
+		).json().data.splits;
+
+		// Hide the faster run and check the personal best fell back to the slower run
+		await fastify.inject({
+			method: 'POST',
+			url: '/admin/splits/status',
+			headers: ADMIN_HEADERS,
+			payload: { splitId: fasterSplit.id, status: SplitStatus.HIDDEN },
+		});
+		expect(await getPersonalBestTime()).toBe(30000);
+
+		// Delete the slower run and check Alice has no personal best left
+		await fastify.inject({ method: 'POST', url: '/admin/splits/delete', headers: ADMIN_HEADERS, payload: { splitId: slowerSplit.id } });
+		expect(await getPersonalBestTime()).toBeUndefined();
+
+		// Accept the faster run again and check it is the personal best again
+		await fastify.inject({
+			method: 'POST',
+			url: '/admin/splits/status',
+			headers: ADMIN_HEADERS,
+			payload: { splitId: fasterSplit.id, status: SplitStatus.ACCEPTED },
+		});
+		expect(await getPersonalBestTime()).toBe(29500);
+	});
+
+	test('excludes the runs of banned players from global queries until they are unbanned', async () => {
+		// Ban Alice
+		const banResponse = await fastify.inject({
+			method: 'POST',
+			url: '/admin/players/ban',
+			headers: ADMIN_HEADERS,
+			payload: { accountId: 'account-alice', reason: 'Cheating' },
+		});
+		expect(banResponse.json().data).toMatchObject({ accountId: 'account-alice', bannedAt: expect.any(String), banReason: 'Cheating' });
+
+		// Check the global best and the leaderboard skip Alice
+		const leaderboardResponse = await fastify.inject({ method: 'POST', url: '/leaderboard/get', headers: BOB_HEADERS, payload: { mapId: MAP_ID } });
+		expect(await getGlobalBestTime()).toBe(31000);
+		expect(leaderboardResponse.json().data).toMatchObject({ totalPlayers: 1, entries: [{ accountId: 'account-bob' }] });
+
+		// Unban Alice and check her run counts again
+		await fastify.inject({ method: 'POST', url: '/admin/players/unban', headers: ADMIN_HEADERS, payload: { accountId: 'account-alice' } });
+		expect(await getGlobalBestTime()).toBe(30000);
+
+		// Check the ban and the unban were recorded in the audit log
+		const auditResponse = await fastify.inject({
+			method: 'POST',
+			url: '/admin/audit',
+			headers: ADMIN_HEADERS,
+			payload: { accountId: 'account-alice' },
+		});
+		expect(auditResponse.json().data.entries.map((entry: { action: AuditAction }) => entry.action)).toEqual([
+			AuditAction.PLAYER_UNBANNED,
+			AuditAction.PLAYER_BANNED,
+		]);
+	});
+
+	test('keeps the ban of a player who deletes their account and returns', async () => {
+		// Ban Alice and let her delete her account
+		await fastify.inject({
+			method: 'POST',
+			url: '/admin/players/ban',
+			headers: ADMIN_HEADERS,
+			payload: { accountId: 'account-alice', reason: 'Cheating' },
+		});
+		await fastify.inject({ method: 'POST', url: '/me/delete', headers: ALICE_HEADERS, payload: { confirmAccountId: 'account-alice' } });
+
+		// Save a faster run as Alice with a token issued after the deletion
+		await Bun.sleep(2);
+		const saveResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/save',
+			headers: getAuthHeaders('account-alice', 'Alice'),
+			payload: { mapId: MAP_ID, checkpointTimes: [9500, 19500, 29500], totalTime: 29500 },
+		});
+
+		// Check the new player is still banned and the run does not count globally
+		const listResponse = await fastify.inject({
+			method: 'POST',
+			url: '/admin/splits/list',
+			headers: ADMIN_HEADERS,
+			payload: { accountId: 'account-alice' },
+		});
+		expect(saveResponse.json().data).toMatchObject({ isGlobalBest: false });
+		expect(listResponse.json().data.splits).toMatchObject([{ totalTime: 29500, playerBanned: true }]);
+		expect(await getGlobalBestTime()).toBe(31000);
+	});
+
+	test('keeps the known details of a map for players and lets admins correct them', async () => {
+		// Save a wrong checkpoint and lap count as Alice, then try to change them as Bob
+		await fastify.inject({ method: 'POST', url: '/maps/save', headers: ALICE_HEADERS, payload: { mapId: MAP_ID, checkpointCount: 5, lapCount: 1 } });
+		const playerResponse = await fastify.inject({
+			method: 'POST',
+			url: '/maps/save',
+			headers: BOB_HEADERS,
+			payload: { mapId: MAP_ID, name: 'Admin Map', checkpointCount: 3, lapCount: 3 },
+		});
+
+		// Check only the missing name was set, so runs with the real checkpoint count are rejected
+		const rejectedResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/save',
+			headers: BOB_HEADERS,
+			payload: { mapId: MAP_ID, checkpointTimes: [9900, 19900, 29900], totalTime: 29900 },
+		});
+		expect(playerResponse.json().data).toMatchObject({ name: 'Admin Map', checkpointCount: 5, lapCount: 1 });
+		expect(rejectedResponse.json().code).toBe(SplitValidationErrorCode.CHECKPOINT_COUNT_MISMATCH);
+
+		// Correct the checkpoint and lap count as an admin
+		const correctResponse = await fastify.inject({
+			method: 'POST',
+			url: '/admin/maps/save',
+			headers: ADMIN_HEADERS,
+			payload: { mapId: MAP_ID, checkpointCount: 3, lapCount: 3, reason: 'Wrong checkpoint count' },
+		});
+		expect(correctResponse.json().data).toMatchObject({ name: 'Admin Map', checkpointCount: 3, lapCount: 3 });
+
+		// Check the players read the corrected details
+		const getResponse = await fastify.inject({ method: 'POST', url: '/maps/get', headers: BOB_HEADERS, payload: { mapId: MAP_ID } });
+		expect(getResponse.json().data).toMatchObject({ checkpointCount: 3, lapCount: 3 });
+
+		// Check runs with the corrected checkpoint count are accepted again
+		const saveResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/save',
+			headers: BOB_HEADERS,
+			payload: { mapId: MAP_ID, checkpointTimes: [9900, 19900, 29900], totalTime: 29900 },
+		});
+		expect(saveResponse.statusCode).toBe(201);
+
+		// Check the correction was recorded in the audit log
+		const auditResponse = await fastify.inject({ method: 'POST', url: '/admin/audit', headers: ADMIN_HEADERS, payload: {} });
+		expect(auditResponse.json().data.entries[0]).toMatchObject({
+			action: AuditAction.MAP_CORRECTED,
+			details: { mapId: MAP_ID, previous: { checkpointCount: 5, lapCount: 1 }, checkpointCount: 3, lapCount: 3, reason: 'Wrong checkpoint count' },
+		});
+	});
+});
@@ -0,0 +1,91 @@
+// External Imports
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+
+// Internal Imports
+import { createTestApp, getAuthHeaders } from './test-app';
+import { getDeprecationHeaders } from '../services/api-version.service';
+import { ApiVersion, GetSplitsType } from '../types/types';
+
+// Setup the Headers of the player
+const PLAYER_HEADERS = getAuthHeaders('account-player', 'Player');
+
+describe('api versions', () => {
+	// Setup the Fastify Instance of the test
+	let fastify: FastifyInstance;
+
+	// Start every test on empty data and metrics
+	beforeEach(async () => {
+		fastify = await createTestApp();
+	});
+
+	// Close the Fastify Instance after every test
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	test('serves the routes under their version prefix and without it, counting the usage of every version', async () => {
+		// Save a run through the versioned route
+		const saveResponse = await fastify.inject({
+			method: 'POST',
+			url: '/v1/splits/save',
+			headers: { ...PLAYER_HEADERS, 'x-plugin-version': '4' },
+			payload: { mapId: 'map-1', checkpointTimes: [10000, 20000], totalTime: 20000 },
+		});
+		expect(saveResponse.statusCode).toBe(201);
+
+		// Check the run is served by the unprefixed alias
+		const getResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/get',
+			headers: PLAYER_HEADERS,
+			payload: { mapId: 'map-1', type: GetSplitsType.PERSONAL_BEST },
+		});
+		expect(getResponse.json().data[0].totalTime).toBe(20000);
+
+		// Check the supported version sends no deprecation headers
+		expect(saveResponse.headers['deprecation']).toBeUndefined();
+
+		// Check the requests are counted by version and plugin version
+		const metricsResponse = await fastify.inject({ method: 'GET', url: '/metrics' });
+		expect(metricsResponse.body).toContain('api_requests_total{plugin_version="4.0",unprefixed="false",version="v1"} 1');
+		expect(metricsResponse.body).toContain('api_requests_total{plugin_version="none",unprefixed="true",version="v1"} 1');
+
+		// Check only the versioned routes are documented
+		const paths = Object.keys((await fastify.inject({ method: 'GET', url: '/docs/json' })).json().paths);
+		expect(paths).toContain('/v1/splits/get');
+		expect(paths).not.toContain('/splits/get');
+	});
+
+	test('counts the plugin versions by their major and minor version', async () => {
+		// Send requests with a patch version, a version outside the labelled range and a made up version
+		for (const pluginVersion of ['3.1.9', '3.1.10', '1234.5', '3.999'])
+			await fastify.inject({ method: 'GET', url: '/v1/campaigns', headers: { ...PLAYER_HEADERS, 'x-plugin-version': pluginVersion } });
+
+		// Check the patch versions share the label of their minor version and the rest are counted as other
+		const metricsResponse = await fastify.inject({ method: 'GET', url: '/metrics' });
+		expect(metricsResponse.body).toContain('api_requests_total{plugin_version="3.1",unprefixed="false",version="v1"} 2');
+		expect(metricsResponse.body).toContain('api_requests_total{plugin_version="other",unprefixed="false",version="v1"} 2');
+	});
+
+	test('points deprecated versions at their successor', () => {
+		// Get the headers of a deprecated version
+		const headers = getDeprecationHeaders(
+			{
+				version: ApiVersion.V1,
+				deprecatedAt: new Date('2026-01-01T00:00:00Z'),
+				sunsetAt: new Date('2026-07-01T00:00:00Z'),
+				successor: 'v2' as ApiVersion,
+				adaptResponse: (route, payload) => payload,
+			},
+			'/splits/get',
+		);
+
+		// Check the deprecation date, sunset date and successor route are sent
+		expect(headers).toEqual({
+			deprecation: '@1767225600',
+			sunset: 'Wed, 01 Jul 2026 00:00:00 GMT',
+			link: '</v2/splits/get>; rel="successor-version"',
+		});
+	});
+});
@@ -0,0 +1,133 @@
+// External Imports
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+
+// Internal Imports
+import { createTestApp, getAuthHeaders, getTestTokens } from './test-app';
+import { AuthErrorCode, GetSplitsType, type ErrorResponse } from '../types/types';
+
+describe('auth', () => {
+	// Setup the Fastify Instance of the test
+	let fastify: FastifyInstance;
+
+	// Start every test on empty data
+	beforeEach(async () => {
+		fastify = await createTestApp();
+	});
+
+	// Close the Fastify Instance after every test
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	/**
+	 * Make a request that needs an access token
+	 * @param headers The request headers
+	 * @returns The response
+	 */
+	const getSplits = (headers: Record<string, string>) =>
+		fastify.inject({ method: 'POST', url: '/splits/get', headers, payload: { mapId: 'map', type: GetSplitsType.PERSONAL_BEST } });
+
+	test('exchanges a valid Openplanet token for a token pair', async () => {
+		// Answer the Openplanet validation with an account
+		const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(
+			Response.json({ account_id: 'account-1', display_name: 'Player One', token_time: 1700000000 }),
+		);
+
+		// Authenticate with the Openplanet token
+		const response = await fastify.inject({ method: 'POST', url: '/auth', payload: { openplanetToken: 'openplanet-token' } });
+		fetchSpy.mockRestore();
+
+		// Check the token pair
+		expect(response.statusCode).toBe(200);
+		expect(response.json().data).toMatchObject({ expiresIn: expect.any(Number), refreshExpiresIn: expect.any(Number) });
+
+		// Check the access token authenticates requests
+		const splitsResponse = await getSplits({ authorization: `Bearer ${response.json().data.token}` });
+		expect(splitsResponse.statusCode).toBe(200);
+	});
+
+	test('rejects an Openplanet token the validation refuses', async () => {
+		// Answer the Openplanet validation with an error
+		const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(Response.json({ error: 'Invalid token' }));
+
+		// Authenticate with the Openplanet token
+		const response = await fastify.inject({ method: 'POST', url: '/auth', payload: { openplanetToken: 'invalid-token' } });
+		fetchSpy.mockRestore();
+
+		// Check the error
+		expect(response.statusCode).toBe(401);
+		expect(response.json<ErrorResponse>()).toEqual({ success: false, code: AuthErrorCode.OPENPLANET_VALIDATION_FAILED, error: 'Invalid token' });
+	});
+
+	test('rejects requests without a valid access token', async () => {
+		// Check a request without a token
+		const missingResponse = await getSplits({});
+		expect(missingResponse.statusCode).toBe(401);
+		expect(missingResponse.json().code).toBe(AuthErrorCode.MISSING_TOKEN);
+
+		// Check a request with a forged token
+		const invalidResponse = await getSplits({ authorization: 'Bearer not-a-token' });
+		expect(invalidResponse.statusCode).toBe(401);
+		expect(invalidResponse.json().code).toBe(AuthErrorCode.INVALID_TOKEN);
+
+		// Check a request with a refresh token instead of an access token
+		const refreshResponse = await getSplits({ authorization: `Bearer ${getTestTokens('account-1', 'Player One').refreshToken}` });
+		expect(refreshResponse.statusCode).toBe(401);
+		expect(refreshResponse.json().code).toBe(AuthErrorCode.INVALID_TOKEN);
+	});
+
+	test('rotates refresh tokens so each can only be used once', async () => {
+		// Get a Token Pair
+		const { refreshToken } = getTestTokens('account-1', 'Player One');
+
+		// Exchange the refresh token
+		const response = await fastify.inject({ method: 'POST', url: '/auth/refresh', payload: { refreshToken } });
+		expect(response.statusCode).toBe(200);
+		expect(response.json().data.refreshToken).not.toBe(refreshToken);
+
+		// Check the used refresh token is rejected
+		const reusedResponse = await fastify.inject({ method: 'POST', url: '/auth/refresh', payload: { refreshToken } });
+		expect(reusedResponse.statusCode).toBe(401);
+		expect(reusedResponse.json().code).toBe(AuthErrorCode.TOKEN_REVOKED);
+	});
+
+	test('only exchanges a refresh token once when it is used concurrently', async () => {
+		// Get a Token Pair
+		const { refreshToken } = getTestTokens('account-1', 'Player One');
+
+		// Exchange the refresh token twice at the same time
+		const responses = await Promise.all([1, 2].map(() => fastify.inject({ method: 'POST', url: '/auth/refresh', payload: { refreshToken } })));
+
+		// Check only one of the exchanges succeeded
+		expect(responses.map(response => response.statusCode).sort()).toEqual([200, 401]);
+	});
+
+	test('revokes the access and refresh token on logout', async () => {
+		// Get a Token Pair
+		const { token, refreshToken } = getTestTokens('account-1', 'Player One');
+		const headers = { authorization: `Bearer ${token}` };
+
+		// Log out
+		const response = await fastify.inject({ method: 'POST', url: '/auth/logout', headers, payload: { refreshToken } });
+		expect(response.statusCode).toBe(200);
+
+		// Check both tokens are rejected
+		expect((await getSplits(headers)).json().code).toBe(AuthErrorCode.TOKEN_REVOKED);
+		expect((await fastify.inject({ method: 'POST', url: '/auth/refresh', payload: { refreshToken } })).json().code).toBe(AuthErrorCode.TOKEN_REVOKED);
+	});
+
+	test('revokes every earlier token when logging out everywhere', async () => {
+		// Log out everywhere with a token issued in the same second
+		const headers = getAuthHeaders('account-1', 'Player One');
+		const response = await fastify.inject({ method: 'POST', url: '/auth/logout-all', headers });
+		expect(response.statusCode).toBe(200);
+
+		// Check the token is rejected
+		expect((await getSplits(headers)).json().code).toBe(AuthErrorCode.TOKEN_REVOKED);
+
+		// Check a token issued right after is accepted (in the next millisecond, as a token issued in the same millisecond counts as revoked)
+		await Bun.sleep(2);
+		expect((await getSplits(getAuthHeaders('account-1', 'Player One'))).statusCode).toBe(200);
+	});
+});
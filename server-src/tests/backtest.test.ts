@@ -0,0 +1,76 @@
+// External Imports
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+
+// Internal Imports
+import { createTestApp, getAuthHeaders } from './test-app';
+import { AuthErrorCode, PredictorMethod } from '../types/types';
+
+// Setup the Headers of the admin (listed in the ADMIN_ACCOUNT_IDS of the test setup) and the player
+const ADMIN_HEADERS = getAuthHeaders('account-admin', 'Admin');
+const ALICE_HEADERS = getAuthHeaders('account-alice', 'Alice');
+
+describe('backtest', () => {
+	// Setup the Fastify Instance of the test
+	let fastify: FastifyInstance;
+
+	// Start every test with two runs of Alice, her first run setting the personal best the second one is replayed against
+	beforeEach(async () => {
+		// Build the Fastify Instance
+		fastify = await createTestApp();
+
+		// Save the runs in the order they were driven
+		for (const [checkpointTimes, runDate] of [
+			[[8000, 20000, 30000], '2024-01-01T00:00:00.000Z'],
+			[[10000, 24000, 34000], '2024-01-02T00:00:00.000Z'],
+		] as const) {
+			await fastify.inject({
+				method: 'POST',
+				url: '/splits/save',
+				headers: ALICE_HEADERS,
+				payload: { mapId: 'map-1', checkpointTimes, totalTime: checkpointTimes[2], runDate },
+			});
+		}
+	});
+
+	// Close the Fastify Instance after every test
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	test('replays runs against the personal best before them and reports the error of every method', async () => {
+		// Run the backtest as an admin
+		const response = await fastify.inject({ method: 'POST', url: '/admin/backtest', headers: ADMIN_HEADERS, payload: { mapIds: ['map-1'] } });
+		const report = response.json().data;
+
+		// Check the first run was skipped for having nothing to compare against
+		expect(response.statusCode).toBe(200);
+		expect(report.skippedRuns).toBe(1);
+		expect(report.overall.runs).toBe(1);
+
+		// Check the errors of the predictions at both checkpoints before the finish (linear -4000 and +2000, best splits +3500 and +2000, hybrid +1250 and +2000)
+		expect(report.overall.methods[PredictorMethod.LINEAR_EXTRAPOLATION]).toEqual({
+			predictions: 2,
+			meanError: -1000,
+			meanAbsoluteError: 3000,
+			rootMeanSquaredError: 3162,
+		});
+		expect(report.overall.methods[PredictorMethod.BEST_SPLITS_COMPARISON]).toMatchObject({ meanError: 2750, meanAbsoluteError: 2750 });
+		expect(report.overall.methods[PredictorMethod.HYBRID]).toMatchObject({ meanError: 1625, meanAbsoluteError: 1625 });
+		expect(report.bestMethod).toBe(PredictorMethod.HYBRID);
+
+		// Check the statistics are grouped by map, player and checkpoint
+		expect(report.maps).toMatchObject([{ mapId: 'map-1', runs: 1 }]);
+		expect(report.players).toMatchObject([{ accountId: 'account-alice', displayName: 'Alice', runs: 1 }]);
+		expect(report.checkpoints.map((checkpoint: { checkpoint: number }) => checkpoint.checkpoint)).toEqual([1, 2]);
+	});
+
+	test('only lets admins run backtests', async () => {
+		// Run the backtest as a player
+		const response = await fastify.inject({ method: 'POST', url: '/admin/backtest', headers: ALICE_HEADERS, payload: { mapIds: ['map-1'] } });
+
+		// Check the request was rejected
+		expect(response.statusCode).toBe(403);
+		expect(response.json().code).toBe(AuthErrorCode.ADMIN_REQUIRED);
+	});
+});
@@ -0,0 +1,194 @@
+// External Imports
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+
+// Internal Imports
+import { createTestApp, getAuthHeaders } from './test-app';
+import { getRepositories } from '../repositories/repositories';
+import { AuthErrorCode } from '../types/types';
+
+// Setup the ID and maps of the campaign
+const CAMPAIGN_ID = 'fall-2024';
+const MAP_IDS = ['campaign-map-1', 'campaign-map-2', 'campaign-map-3'];
+
+// Setup the Headers of the admin (listed in the ADMIN_ACCOUNT_IDS of the test setup) and the players
+const ADMIN_HEADERS = getAuthHeaders('account-admin', 'Admin');
+const ALICE_HEADERS = getAuthHeaders('account-alice', 'Alice');
+const BOB_HEADERS = getAuthHeaders('account-bob', 'Bob');
+
+describe('campaigns', () => {
+	// Setup the Fastify Instance of the test
+	let fastify: FastifyInstance;
+
+	/**
+	 * Save a run of a player on a map
+	 * @param headers The headers of the player
+	 * @param mapId The ID of the map
+	 * @param totalTime The finish time of the run
+	 * @returns void
+	 */
+	const saveRun = async (headers: Record<string, string>, mapId: string, totalTime: number) => {
+		// Save the run
+		await fastify.inject({
+			method: 'POST',
+			url: '/splits/save',
+			headers,
+			payload: { mapId, checkpointTimes: [totalTime / 2, totalTime], totalTime },
+		});
+	};
+
+	// Start every test with a campaign of three maps
+	beforeEach(async () => {
+		// Build the Fastify Instance
+		fastify = await createTestApp();
+
+		// Create the campaign as an admin
+		await fastify.inject({
+			method: 'POST',
+			url: '/admin/campaigns/save',
+			headers: ADMIN_HEADERS,
+			payload: { campaignId: CAMPAIGN_ID, name: 'Fall 2024', mapIds: MAP_IDS },
+		});
+	});
+
+	// Close the Fastify Instance after every test
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	test('only lets admins save campaigns', async () => {
+		// Save a campaign as a player
+		const response = await fastify.inject({
+			method: 'POST',
+			url: '/admin/campaigns/save',
+			headers: ALICE_HEADERS,
+			payload: { campaignId: 'other', name: 'Other', mapIds: MAP_IDS },
+		});
+
+		// Check the request was rejected
+		expect(response.statusCode).toBe(403);
+		expect(response.json().code).toBe(AuthErrorCode.ADMIN_REQUIRED);
+
+		// Check only the admin's campaign is listed
+		const listResponse = await fastify.inject({ method: 'GET', url: '/campaigns', headers: ALICE_HEADERS });
+		expect(listResponse.json().data).toEqual([{ campaignId: CAMPAIGN_ID, name: 'Fall 2024', mapIds: MAP_IDS }]);
+	});
+
+	test('reports the personal bests of a player and ranks the players by their total time', async () => {
+		// Save the runs of Alice on two maps, keeping her best run on the first
+		await saveRun(ALICE_HEADERS, MAP_IDS[0], 20000);
+		await saveRun(ALICE_HEADERS, MAP_IDS[0], 21000);
+		await saveRun(ALICE_HEADERS, MAP_IDS[1], 30000);
+
+		// Save the runs of Bob on every map
+		await saveRun(BOB_HEADERS, MAP_IDS[0], 22000);
+		await saveRun(BOB_HEADERS, MAP_IDS[1], 32000);
+		await saveRun(BOB_HEADERS, MAP_IDS[2], 40000);
+
+		// Get the progress of Alice
+		const progressResponse = await fastify.inject({
+			method: 'POST',
+			url: '/campaigns/progress',
+			headers: ALICE_HEADERS,
+			payload: { campaignId: CAMPAIGN_ID },
+		});
+		const progress = progressResponse.json().data;
+
+		// Check the personal best of every map in campaign order
+		expect(progress.maps.map((map: { totalTime: number | null }) => map.totalTime)).toEqual([20000, 30000, null]);
+		expect(progress.totalTime).toBe(50000);
+		expect(progress.finishedMaps).toBe(2);
+		expect(progress.missingMaps).toBe(1);
+
+		// Get the standings
+		const standingsResponse = await fastify.inject({
+			method: 'POST',
+			url: '/campaigns/standings',
+			headers: ALICE_HEADERS,
+			payload: { campaignId: CAMPAIGN_ID },
+		});
+		const standings = standingsResponse.json().data;
+
+		// Check Bob leads for finishing every map and Alice follows
+		expect(standings.entries.map((entry: { accountId: string; totalTime: number }) => [entry.accountId, entry.totalTime])).toEqual([
+			['account-bob', 94000],
+			['account-alice', 50000],
+		]);
+		expect(standings.playerEntry).toMatchObject({ rank: 2, missingMaps: 1 });
+	});
+
+	test('pages the standings and skips incomplete runs like the leaderboards do', async () => {
+		// Save a run of Alice on the first map and an incomplete run on the last map before its checkpoint count is known
+		await saveRun(ALICE_HEADERS, MAP_IDS[0], 20000);
+		const incompleteResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/save',
+			headers: ALICE_HEADERS,
+			payload: { mapId: MAP_IDS[2], checkpointTimes: [15000], totalTime: 15000 },
+		});
+		expect(incompleteResponse.statusCode).toBe(201);
+
+		// Save the checkpoint count of the last map and the complete runs of Bob
+		await fastify.inject({ method: 'POST', url: '/maps/save', headers: BOB_HEADERS, payload: { mapId: MAP_IDS[2], checkpointCount: 2 } });
+		await saveRun(BOB_HEADERS, MAP_IDS[0], 22000);
+		await saveRun(BOB_HEADERS, MAP_IDS[2], 40000);
+
+		// Get the second page of the standings, one player per page
+		const standingsResponse = await fastify.inject({
+			method: 'POST',
+			url: '/campaigns/standings',
+			headers: ALICE_HEADERS,
+			payload: { campaignId: CAMPAIGN_ID, page: 2, pageSize: 1 },
+		});
+		const standings = standingsResponse.json().data;
+
+		// Check Bob leads for finishing more maps, as the incomplete run of Alice does not count
+		expect(standings.totalPlayers).toBe(2);
+		expect(standings.entries).toMatchObject([{ rank: 2, accountId: 'account-alice', totalTime: 20000, finishedMaps: 1, missingMaps: 2 }]);
+		expect(standings.playerEntry).toMatchObject({ rank: 2, accountId: 'account-alice' });
+	});
+
+	test('reports every map missing and empty standings while none of the maps is stored', async () => {
+		// Watch the Split Queries (MongoDB rejects them without any map)
+		const findBestTimesSpy = spyOn(getRepositories().splits, 'findBestTimes');
+		const getRankedTotalPageSpy = spyOn(getRepositories().splits, 'getRankedTotalPage');
+
+		// Get the progress of Alice
+		const progressResponse = await fastify.inject({
+			method: 'POST',
+			url: '/campaigns/progress',
+			headers: ALICE_HEADERS,
+			payload: { campaignId: CAMPAIGN_ID },
+		});
+
+		// Check every map is missing
+		expect(progressResponse.statusCode).toBe(200);
+		expect(progressResponse.json().data).toMatchObject({ totalTime: 0, finishedMaps: 0, missingMaps: 3 });
+
+		// Get the standings
+		const standingsResponse = await fastify.inject({
+			method: 'POST',
+			url: '/campaigns/standings',
+			headers: ALICE_HEADERS,
+			payload: { campaignId: CAMPAIGN_ID },
+		});
+
+		// Check the standings are empty
+		expect(standingsResponse.statusCode).toBe(200);
+		expect(standingsResponse.json().data).toMatchObject({ totalPlayers: 0, entries: [], playerEntry: null });
+
+		// Check no split query was made without maps
+		expect(findBestTimesSpy).not.toHaveBeenCalled();
+		expect(getRankedTotalPageSpy).not.toHaveBeenCalled();
+		findBestTimesSpy.mockRestore();
+		getRankedTotalPageSpy.mockRestore();
+	});
+
+	test('answers unknown campaigns with a 404', async () => {
+		// Get the progress of a campaign that does not exist
+		const response = await fastify.inject({ method: 'POST', url: '/campaigns/progress', headers: ALICE_HEADERS, payload: { campaignId: 'unknown' } });
+
+		// Check the campaign was not found
+		expect(response.statusCode).toBe(404);
+	});
+});
@@ -0,0 +1,194 @@
+// External Imports
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+
+// Internal Imports
+import { createTestApp, getAuthHeaders } from './test-app';
+import { MAX_CLUB_MEMBERS } from '../services/club.service';
+import { ClubErrorCode, GetSplitsType } from '../types/types';
+
+// Setup the ID of the map the runs are driven on
+const MAP_ID = 'club-map';
+
+// Setup the Headers of the players (Alice and Bob are in the club, Carol is not)
+const ALICE_HEADERS = getAuthHeaders('account-alice', 'Alice');
+const BOB_HEADERS = getAuthHeaders('account-bob', 'Bob');
+const CAROL_HEADERS = getAuthHeaders('account-carol', 'Carol');
+
+describe('clubs', () => {
+	// Setup the Fastify Instance of the test
+	let fastify: FastifyInstance;
+
+	// Setup the ID of the club Alice owns
+	let clubId: string;
+
+	// Start every test with a run of every player and a club Alice created
+	beforeEach(async () => {
+		// Build the Fastify Instance
+		fastify = await createTestApp();
+
+		// Save the runs of the players, Carol being the fastest
+		for (const [headers, totalTime] of [
+			[ALICE_HEADERS, 30000],
+			[BOB_HEADERS, 31000],
+			[CAROL_HEADERS, 29500],
+		] as const)
+			await fastify.inject({
+				method: 'POST',
+				url: '/splits/save',
+				headers,
+				payload: { mapId: MAP_ID, checkpointTimes: [10000, 20000, totalTime], totalTime },
+			});
+
+		// Create the club
+		const response = await fastify.inject({
+			method: 'POST',
+			url: '/clubs/create',
+			headers: ALICE_HEADERS,
+			payload: { name: 'Speed Club', tag: 'SPD' },
+		});
+		clubId = response.json().data.id;
+	});
+
+	// Close the Fastify Instance after every test
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	test('invites and joins players and ranks only the members', async () => {
+		// Check Bob cannot join without an invite
+		const deniedResponse = await fastify.inject({ method: 'POST', url: '/clubs/join', headers: BOB_HEADERS, payload: { clubId } });
+		expect(deniedResponse.statusCode).toBe(403);
+		expect(deniedResponse.json().code).toBe(ClubErrorCode.NOT_INVITED);
+
+		// Invite Bob as the owner
+		const inviteResponse = await fastify.inject({
+			method: 'POST',
+			url: '/clubs/invite',
+			headers: ALICE_HEADERS,
+			payload: { clubId, accountId: 'account-bob' },
+		});
+		expect(inviteResponse.json().data.invitedAccountIds).toEqual(['account-bob']);
+
+		// Join the club as Bob
+		const joinResponse = await fastify.inject({ method: 'POST', url: '/clubs/join', headers: BOB_HEADERS, payload: { clubId } });
+		expect(joinResponse.statusCode).toBe(200);
+		expect(joinResponse.json().data.members.map((member: { accountId: string }) => member.accountId)).toEqual(['account-alice', 'account-bob']);
+		expect(joinResponse.json().data.inviteCode).toBeNull();
+
+		// Get the club leaderboard as Bob
+		const leaderboardResponse = await fastify.inject({
+			method: 'POST',
+			url: '/clubs/leaderboard',
+			headers: BOB_HEADERS,
+			payload: { clubId, mapId: MAP_ID },
+		});
+		const leaderboard = leaderboardResponse.json().data;
+
+		// Check only the members are ranked
+		expect(leaderboard.totalPlayers).toBe(2);
+		expect(leaderboard.entries.map((entry: { totalTime: number }) => entry.totalTime)).toEqual([30000, 31000]);
+		expect(leaderboard.playerEntry).toMatchObject({ rank: 2, accountId: 'account-bob' });
+
+		// Get the club best as Bob
+		const clubBestResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/get',
+			headers: BOB_HEADERS,
+			payload: { mapId: MAP_ID, type: GetSplitsType.CLUB_BEST, clubId },
+		});
+
+		// Check the club best is the fastest member run, not the faster run of Carol
+		expect(clubBestResponse.json().data[0].totalTime).toBe(30000);
+	});
+
+	test('only shows the club, its leaderboard and its best run to the members', async () => {
+		// Get the club, its leaderboard and its best run as Carol, who is not a member
+		const [clubResponse, leaderboardResponse, clubBestResponse] = await Promise.all([
+			fastify.inject({ method: 'POST', url: '/clubs/get', headers: CAROL_HEADERS, payload: { clubId } }),
+			fastify.inject({ method: 'POST', url: '/clubs/leaderboard', headers: CAROL_HEADERS, payload: { clubId, mapId: MAP_ID } }),
+			fastify.inject({
+				method: 'POST',
+				url: '/splits/get',
+				headers: CAROL_HEADERS,
+				payload: { mapId: MAP_ID, type: GetSplitsType.CLUB_BEST, clubId },
+			}),
+		]);
+
+		// Check the club and its leaderboard were refused and no best run was returned
+		expect(clubResponse.statusCode).toBe(403);
+		expect(clubResponse.json().code).toBe(ClubErrorCode.NOT_CLUB_MEMBER);
+		expect(leaderboardResponse.statusCode).toBe(403);
+		expect(leaderboardResponse.json().code).toBe(ClubErrorCode.NOT_CLUB_MEMBER);
+		expect(clubBestResponse.json().data).toEqual([]);
+	});
+
+	test('hands the club to the next member when the owner deletes their account', async () => {
+		// Let Bob and then Carol join with the invite code
+		const { inviteCode } = (await fastify.inject({ method: 'POST', url: '/clubs/get', headers: ALICE_HEADERS, payload: { clubId } })).json().data;
+		for (const headers of [BOB_HEADERS, CAROL_HEADERS])
+			await fastify.inject({ method: 'POST', url: '/clubs/join', headers, payload: { clubId, inviteCode } });
+
+		// Delete the account of Alice
+		await fastify.inject({ method: 'POST', url: '/me/delete', headers: ALICE_HEADERS, payload: { confirmAccountId: 'account-alice' } });
+
+		// Check Bob, who joined first, owns the club now
+		const clubResponse = await fastify.inject({ method: 'POST', url: '/clubs/get', headers: BOB_HEADERS, payload: { clubId } });
+		expect(clubResponse.json().data.members).toMatchObject([
+			{ accountId: 'account-bob', isOwner: true },
+			{ accountId: 'account-carol', isOwner: false },
+		]);
+		expect(clubResponse.json().data.inviteCode).toBe(inviteCode);
+	});
+
+	test('never lets concurrent joins exceed the member limit', async () => {
+		// Get the invite code as the owner
+		const { inviteCode } = (await fastify.inject({ method: 'POST', url: '/clubs/get', headers: ALICE_HEADERS, payload: { clubId } })).json().data;
+
+		// Fill the club up to one free place
+		for (let member = 2; member < MAX_CLUB_MEMBERS; member++)
+			await fastify.inject({
+				method: 'POST',
+				url: '/clubs/join',
+				headers: getAuthHeaders(`account-member-${member}`, `Member ${member}`),
+				payload: { clubId, inviteCode },
+			});
+
+		// Join the club as Bob and Carol at the same time
+		const responses = await Promise.all(
+			[BOB_HEADERS, CAROL_HEADERS].map(headers => fastify.inject({ method: 'POST', url: '/clubs/join', headers, payload: { clubId, inviteCode } })),
+		);
+
+		// Check only one of them got the last place
+		expect(responses.map(response => response.statusCode).sort()).toEqual([200, 409]);
+		expect(responses.map(response => response.json().code).filter(Boolean)).toEqual([ClubErrorCode.CLUB_FULL]);
+	});
+
+	test('lets players join with the invite code and rejects duplicate names and non-owners', async () => {
+		// Get the invite code as the owner
+		const { inviteCode } = (await fastify.inject({ method: 'POST', url: '/clubs/get', headers: ALICE_HEADERS, payload: { clubId } })).json().data;
+
+		// Join the club with the invite code
+		const joinResponse = await fastify.inject({ method: 'POST', url: '/clubs/join', headers: CAROL_HEADERS, payload: { clubId, inviteCode } });
+		expect(joinResponse.statusCode).toBe(200);
+
+		// Check Carol now lists the club
+		const listResponse = await fastify.inject({ method: 'GET', url: '/clubs', headers: CAROL_HEADERS });
+		expect(listResponse.json().data.map((club: { id: string }) => club.id)).toEqual([clubId]);
+
+		// Check members who do not own the club cannot invite players
+		const inviteResponse = await fastify.inject({
+			method: 'POST',
+			url: '/clubs/invite',
+			headers: CAROL_HEADERS,
+			payload: { clubId, accountId: 'account-bob' },
+		});
+		expect(inviteResponse.statusCode).toBe(403);
+		expect(inviteResponse.json().code).toBe(ClubErrorCode.NOT_CLUB_OWNER);
+
+		// Check the club name cannot be reused, ignoring case
+		const createResponse = await fastify.inject({ method: 'POST', url: '/clubs/create', headers: BOB_HEADERS, payload: { name: 'speed club' } });
+		expect(createResponse.statusCode).toBe(409);
+		expect(createResponse.json().code).toBe(ClubErrorCode.CLUB_NAME_TAKEN);
+	});
+});
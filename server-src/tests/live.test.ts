@@ -0,0 +1,99 @@
+// External Imports
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+
+// Internal Imports
+import { createTestApp, getAuthHeaders } from './test-app';
+import { ErrorCode, LiveSharing, PredictorMethod } from '../types/types';
+
+// Setup the Headers of the players (Alice streams, Bob wants to watch)
+const ALICE_HEADERS = getAuthHeaders('account-alice', 'Alice');
+const BOB_HEADERS = getAuthHeaders('account-bob', 'Bob');
+
+describe('live', () => {
+	// Setup the Fastify Instance of the test
+	let fastify: FastifyInstance;
+
+	/**
+	 * Try to watch the live runs of Alice as Bob
+	 * @returns The response
+	 */
+	const watchAlice = () => fastify.inject({ method: 'GET', url: '/live/account-alice/stream', headers: BOB_HEADERS });
+
+	/**
+	 * Share the live runs of Alice
+	 * @param sharing Who can watch the live runs of Alice
+	 * @returns void
+	 */
+	const setAliceSharing = async (sharing: LiveSharing) => {
+		// Save who can watch the live runs of Alice
+		await fastify.inject({ method: 'POST', url: '/live/sharing', headers: ALICE_HEADERS, payload: { sharing } });
+	};
+
+	/**
+	 * Push a checkpoint of a run in progress as Alice
+	 * @param checkpointTimes The checkpoint times of the run so far
+	 * @returns void
+	 */
+	const pushAliceCheckpoint = async (checkpointTimes: number[]) => {
+		// Push the checkpoint times
+		await fastify.inject({
+			method: 'POST',
+			url: '/live/push',
+			headers: ALICE_HEADERS,
+			payload: { mapId: 'live-map', checkpointTimes, method: PredictorMethod.LINEAR_EXTRAPOLATION, totalCheckpoints: 3 },
+		});
+	};
+
+	// Start every test with an empty app
+	beforeEach(async () => {
+		// Build the Fastify Instance
+		fastify = await createTestApp();
+	});
+
+	// Close the Fastify Instance after every test
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	test('keeps the live runs of a player private until they share them', async () => {
+		// Check Bob cannot watch Alice, who never chose who can watch her
+		const privateResponse = await watchAlice();
+		expect(privateResponse.statusCode).toBe(403);
+		expect(privateResponse.json().code).toBe(ErrorCode.LIVE_RUNS_NOT_SHARED);
+
+		// Share the live runs of Alice with her clubs
+		const sharingResponse = await fastify.inject({
+			method: 'POST',
+			url: '/live/sharing',
+			headers: ALICE_HEADERS,
+			payload: { sharing: LiveSharing.CLUBS },
+		});
+		expect(sharingResponse.json().data).toEqual({ sharing: LiveSharing.CLUBS });
+
+		// Check Bob still cannot watch Alice, as they are in no club together
+		expect((await watchAlice()).statusCode).toBe(403);
+	});
+
+	test('ends the open streams of viewers once the player stops sharing their live runs', async () => {
+		// Share the live runs of Alice with everyone and start a run
+		await setAliceSharing(LiveSharing.EVERYONE);
+		await pushAliceCheckpoint([10000]);
+
+		// Watch Alice as Bob (the stream stays open until the server ends it)
+		const streamResponse = watchAlice();
+
+		// Wait for the stream to open
+		await Bun.sleep(100);
+
+		// Make the live runs of Alice private and push the next checkpoint
+		await setAliceSharing(LiveSharing.PRIVATE);
+		await pushAliceCheckpoint([10000, 20000]);
+
+		// Check the stream was ended with only the checkpoint sent while Alice shared her runs
+		const response = await streamResponse;
+		expect(response.statusCode).toBe(200);
+		expect(response.payload).toContain('[10000]');
+		expect(response.payload).not.toContain('20000');
+	});
+});
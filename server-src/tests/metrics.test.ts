@@ -0,0 +1,63 @@
+// External Imports
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+
+// Internal Imports
+import { createTestApp, getAuthHeaders } from './test-app';
+import { GetSplitsType } from '../types/types';
+
+describe('metrics', () => {
+	// Setup the Fastify Instance of the test
+	let fastify: FastifyInstance;
+
+	// Start every test on empty data and metrics
+	beforeEach(async () => {
+		fastify = await createTestApp();
+	});
+
+	// Close the Fastify Instance after every test
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	test('counts requests, saved splits and auth failures in the Prometheus format', async () => {
+		// Save a run
+		const saveResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/save',
+			headers: getAuthHeaders('account-1', 'Player One'),
+			payload: { mapId: 'metrics-map', checkpointTimes: [10000, 20000, 30000], totalTime: 30000 },
+		});
+		expect(saveResponse.statusCode).toBe(201);
+
+		// Make a request without an access token
+		await fastify.inject({ method: 'POST', url: '/splits/get', payload: { mapId: 'metrics-map', type: GetSplitsType.ALL } });
+
+		// Get the metrics
+		const response = await fastify.inject({ method: 'GET', url: '/metrics' });
+		expect(response.statusCode).toBe(200);
+		expect(response.headers['content-type']).toStartWith('text/plain; version=0.0.4');
+
+		// Check the requests are counted by route pattern and status code
+		expect(response.body).toContain('http_requests_total{method="POST",route="/splits/save",status_code="201"} 1');
+		expect(response.body).toContain('http_request_duration_seconds_count{method="POST",route="/splits/save"} 1');
+
+		// Check the saved split and the auth attempts are counted
+		expect(response.body).toContain('splits_saved_total{status="accepted"} 1');
+		expect(response.body).toContain('auth_attempts_total{method="access_token",reason="none",result="success"} 1');
+		expect(response.body).toContain('auth_attempts_total{method="access_token",reason="MISSING_TOKEN",result="failure"} 1');
+	});
+
+	test('tags responses with the request ID', async () => {
+		// Check the request ID sent by the client is kept
+		const response = await fastify.inject({ method: 'GET', url: '/health', headers: { 'x-request-id': 'request-1' } });
+		expect(response.headers['x-request-id']).toBe('request-1');
+
+		// Check the in-memory storage is reported as ready
+		expect(response.json()).toMatchObject({ status: 'ok', database: 'memory' });
+
+		// Check a request ID is generated otherwise
+		const generatedResponse = await fastify.inject({ method: 'GET', url: '/health' });
+		expect(generatedResponse.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+	});
+});
@@ -0,0 +1,106 @@
+// External Imports
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+
+// Internal Imports
+import { createTestApp, getAuthHeaders } from './test-app';
+import { ErrorCode, GetSplitsType } from '../types/types';
+
+// Setup the Headers of the admin (listed in the ADMIN_ACCOUNT_IDS of the test setup) and a player
+const ADMIN_HEADERS = getAuthHeaders('account-admin', 'Admin');
+const PLAYER_HEADERS = getAuthHeaders('account-player', 'Player');
+
+describe('remote config', () => {
+	// Setup the Fastify Instance of the test
+	let fastify: FastifyInstance;
+
+	// Build the Fastify Instance before every test
+	beforeEach(async () => {
+		fastify = await createTestApp();
+	});
+
+	// Close the Fastify Instance after every test
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	test('turns away plugins older than the minimum version but still serves them the config', async () => {
+		// Raise the minimum plugin version as an admin
+		const saveResponse = await fastify.inject({
+			method: 'POST',
+			url: '/admin/config/save',
+			headers: ADMIN_HEADERS,
+			payload: { minPluginVersion: '3.2', prediction: { hybridBestSplitsWeight: 0.5 } },
+		});
+
+		// Check the changed settings were merged into the defaults
+		expect(saveResponse.statusCode).toBe(200);
+		expect(saveResponse.json().data).toMatchObject({
+			minPluginVersion: '3.2',
+			serverSavesEnabled: true,
+			prediction: { hybridBestSplitsWeight: 0.5 },
+		});
+
+		// Check an outdated plugin is asked to update
+		const outdatedResponse = await fastify.inject({ method: 'GET', url: '/campaigns', headers: { ...PLAYER_HEADERS, 'x-plugin-version': '3.1.9' } });
+		expect(outdatedResponse.statusCode).toBe(426);
+		expect(outdatedResponse.json()).toMatchObject({ code: ErrorCode.PLUGIN_OUTDATED, error: expect.stringContaining('please update') });
+
+		// Check an up to date plugin and requests without a version are let through
+		const currentResponse = await fastify.inject({ method: 'GET', url: '/campaigns', headers: { ...PLAYER_HEADERS, 'x-plugin-version': '3.10' } });
+		const unversionedResponse = await fastify.inject({ method: 'GET', url: '/campaigns', headers: PLAYER_HEADERS });
+		expect(currentResponse.statusCode).toBe(200);
+		expect(unversionedResponse.statusCode).toBe(200);
+
+		// Check the outdated plugin can still load the config
+		const configResponse = await fastify.inject({ method: 'GET', url: '/config', headers: { 'x-plugin-version': '3' } });
+		expect(configResponse.statusCode).toBe(200);
+		expect(configResponse.json().data.minPluginVersion).toBe('3.2');
+	});
+
+	test('turns away plugins that cannot renew their access token by default', async () => {
+		// Send a request from a plugin that predates the token refresh
+		const response = await fastify.inject({ method: 'GET', url: '/campaigns', headers: { ...PLAYER_HEADERS, 'x-plugin-version': '3' } });
+
+		// Check the plugin is asked to update to the first version that renews its token
+		expect(response.statusCode).toBe(426);
+		expect(response.json().error).toContain('version 3.1 or later');
+	});
+
+	test('rejects saves and split types that are turned off', async () => {
+		// Turn off saving and every split type but the personal best as an admin
+		await fastify.inject({
+			method: 'POST',
+			url: '/admin/config/save',
+			headers: ADMIN_HEADERS,
+			payload: { serverSavesEnabled: false, allowedSplitTypes: [GetSplitsType.PERSONAL_BEST] },
+		});
+
+		// Check a run cannot be saved
+		const saveResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/save',
+			headers: PLAYER_HEADERS,
+			payload: { mapId: 'map-1', checkpointTimes: [10000, 20000], totalTime: 20000 },
+		});
+		expect(saveResponse.statusCode).toBe(503);
+		expect(saveResponse.json().code).toBe(ErrorCode.SAVES_DISABLED);
+
+		// Check the global best cannot be fetched but the personal best can
+		const globalBestResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/get',
+			headers: PLAYER_HEADERS,
+			payload: { mapId: 'map-1', type: GetSplitsType.GLOBAL_BEST },
+		});
+		const personalBestResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/get',
+			headers: PLAYER_HEADERS,
+			payload: { mapId: 'map-1', type: GetSplitsType.PERSONAL_BEST },
+		});
+		expect(globalBestResponse.statusCode).toBe(400);
+		expect(globalBestResponse.json().code).toBe(ErrorCode.SPLIT_TYPE_DISABLED);
+		expect(personalBestResponse.statusCode).toBe(200);
+	});
+});
@@ -0,0 +1,6 @@
+// Setup the Environment Variables the services read when they are loaded
+process.env.STORAGE = 'memory';
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.OPENPLANET_SECRET = 'test-openplanet-secret';
+process.env.OPENPLANET_VALIDATION_URL = 'https://openplanet.test/api/auth/validate';
+process.env.ADMIN_ACCOUNT_IDS = 'account-admin';
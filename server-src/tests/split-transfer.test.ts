@@ -0,0 +1,129 @@
+// External Imports
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+
+// Internal Imports
+import { createTestApp, getAuthHeaders } from './test-app';
+import { BatchRunStatus, SplitExportFormat, SplitImportErrorCode, SplitImportFormat, SplitValidationErrorCode } from '../types/types';
+
+// Setup the Headers of the player
+const HEADERS = getAuthHeaders('account-alice', 'Alice');
+
+// Setup a LiveSplit file with a finished attempt, a reset attempt and an attempt driven on game time
+const LIVESPLIT_FILE = `<?xml version="1.0" encoding="UTF-8"?>
+<Run version="1.7.0">
+	<GameName>Trackmania</GameName>
+	<AttemptHistory>
+		<Attempt id="1" started="01/02/2024 10:00:00" isStartedSynced="True" ended="01/02/2024 10:00:31" isEndedSynced="True">
+			<RealTime>00:00:30.1230000</RealTime>
+		</Attempt>
+		<Attempt id="2" started="01/02/2024 10:01:00" isStartedSynced="True" ended="01/02/2024 10:01:05" isEndedSynced="True" />
+		<Attempt id="3" started="01/02/2024 10:02:00" isStartedSynced="True" ended="01/02/2024 10:02:30" isEndedSynced="True">
+			<RealTime>00:00:29.9000000</RealTime>
+			<GameTime>00:00:29.5000000</GameTime>
+		</Attempt>
+	</AttemptHistory>
+	<Segments>
+		<Segment>
+			<Name>Checkpoint 1</Name>
+			<SegmentHistory>
+				<Time id="1"><RealTime>00:00:10.0610000</RealTime></Time>
+				<Time id="2"><RealTime>00:00:11.0000000</RealTime></Time>
+				<Time id="3"><RealTime>00:00:10.0000000</RealTime><GameTime>00:00:09.8000000</GameTime></Time>
+			</SegmentHistory>
+		</Segment>
+		<Segment>
+			<Name>Finish</Name>
+			<SegmentHistory>
+				<Time id="1"><RealTime>00:00:20.0620000</RealTime></Time>
+				<Time id="3"><RealTime>00:00:19.9000000</RealTime><GameTime>00:00:19.7000000</GameTime></Time>
+			</SegmentHistory>
+		</Segment>
+	</Segments>
+</Run>`;
+
+describe('split transfer', () => {
+	// Setup the Fastify Instance of the test
+	let fastify: FastifyInstance;
+
+	// Start every test on empty data
+	beforeEach(async () => {
+		fastify = await createTestApp();
+	});
+
+	// Close the Fastify Instance after every test
+	afterEach(async () => {
+		await fastify.close();
+	});
+
+	/**
+	 * Import a file as the player
+	 * @param payload The body of the import request
+	 * @returns The response
+	 */
+	const importFile = (payload: object) => fastify.inject({ method: 'POST', url: '/splits/import', headers: HEADERS, payload });
+
+	test('imports the finished attempts of a LiveSplit file once', async () => {
+		// Import the file twice
+		const response = await importFile({ format: SplitImportFormat.LIVESPLIT, mapId: 'map-1', content: LIVESPLIT_FILE });
+		const repeatedResponse = await importFile({ format: SplitImportFormat.LIVESPLIT, mapId: 'map-1', content: LIVESPLIT_FILE });
+
+		// Check the finished attempts were saved and reported as duplicates the second time
+		expect(response.statusCode).toBe(200);
+		expect(response.json().data).toMatchObject({ created: 2, duplicates: 0, rejected: 0 });
+		expect(repeatedResponse.json().data).toMatchObject({ created: 0, duplicates: 2, rejected: 0 });
+
+		// Check the segment times were added up to checkpoint times, preferring the game time
+		const exportResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/export',
+			headers: HEADERS,
+			payload: { format: SplitExportFormat.JSON },
+		});
+		expect(exportResponse.json().data).toMatchObject([
+			{ mapId: 'map-1', checkpointTimes: [10061, 30123], runDate: '2024-01-02T10:00:31.000Z' },
+			{ mapId: 'map-1', checkpointTimes: [9800, 29500], runDate: '2024-01-02T10:02:30.000Z' },
+		]);
+	});
+
+	test('rejects a LiveSplit file without a map ID', async () => {
+		// Import the file without a map ID
+		const response = await importFile({ format: SplitImportFormat.LIVESPLIT, content: LIVESPLIT_FILE });
+
+		// Check the file was rejected
+		expect(response.statusCode).toBe(400);
+		expect(response.json().code).toBe(SplitImportErrorCode.MISSING_MAP_ID);
+	});
+
+	test('round-trips a CSV export and validates every imported row', async () => {
+		// Save a run
+		await fastify.inject({
+			method: 'POST',
+			url: '/splits/save',
+			headers: HEADERS,
+			payload: { mapId: 'map-1', checkpointTimes: [10000, 20000], totalTime: 20000 },
+		});
+
+		// Export the runs as CSV
+		const exportResponse = await fastify.inject({
+			method: 'POST',
+			url: '/splits/export',
+			headers: HEADERS,
+			payload: { format: SplitExportFormat.CSV },
+		});
+		expect(exportResponse.headers['content-type']).toStartWith('text/csv');
+
+		// Import the export with a new run and a run whose checkpoint times go backwards
+		const content = `${exportResponse.body}x,map-2,,9000;18000,18000\nx,map-2,,9000;8000,8000\n`;
+		const response = await importFile({ format: SplitImportFormat.CSV, content });
+
+		// Check the outcome of every row
+		expect(response.statusCode).toBe(200);
+		expect(response.json().data.results.map((result: { status: BatchRunStatus }) => result.status)).toEqual([
+			BatchRunStatus.DUPLICATE,
+			BatchRunStatus.CREATED,
+			BatchRunStatus.REJECTED,
+		]);
+		expect(response.json().data.results[2].code).toBe(SplitValidationErrorCode.NON_MONOTONIC_CHECKPOINTS);
+	});
+});
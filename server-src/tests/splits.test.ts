@@ -0,0 +1,276 @@
+// External Imports
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import type { FastifyInstance } from 'fastify';
+
+// Internal Imports
+import { createTestApp, getAuthHeaders } from './test-app';
+import { BatchRunStatus, GetSplitsType, SplitStatus, SplitSuspicionFlag, SplitValidationErrorCode, type SplitTarget } from '../types/types';
+
+// Setup the ID of the map the runs are driven on
+const MAP_ID = 'test-map';
+
+// Setup the Players
+const ALICE = { accountId: 'account-alice', displayName: 'Alice' };
+const BOB = { accountId: 'account-bob', displayName: 'Bob' };
+const CAROL = { accountId: 'account-carol', displayName: 'Carol' };
+const DAVE = { accountId: 'account-dave', displayName: 'Dave' };
+
+describe('splits', () => {
+	// Setup the Fastify Instance shared by the tests
+	let fastify: FastifyInstance;
+
+	/**
+	 * Save a run as a player
+	 * @param player The player
+	 * @param checkpointTimes The cumulative checkpoint times of the run
+	 * @param clientRunId The ID the client generated for the run
+	 * @param mapId The ID of the map
+	 * @returns The response
+	 */
+	const saveRun = (player: typeof ALICE, checkpointTimes: number[], clientRunId?: string, mapId = MAP_ID) =>
+		fastify.inject({
+			method: 'POST',
+			url: '/splits/save',
+			headers: getAuthHeaders(player.accountId, player.displayName),
+			payload: { mapId, checkpointTimes, totalTime: checkpointTimes[checkpointTimes.length - 1], clientRunId },
+		});
+
+	/**
+	 * Get the splits of a type as a player
+	 * @param player The player
+	 * @param type The type of splits to get
+	 * @param target The parameters of the target split types
+	 * @returns The splits
+	 */
+	const getSplits = async (player: typeof ALICE, type: GetSplitsType, target: SplitTarget = {}) => {
+		// Get the splits
+		const response = await fastify.inject({
+			method: 'POST',
+			url: '/splits/get',
+			headers: getAuthHeaders(player.accountId, player.displayName),
+			payload: { mapId: MAP_ID, type, ...target },
+		});
+
+		// Check the request succeeded
+		expect(response.statusCode).toBe(200);
+
+		// Return the splits
+		return response.json().data;
+	};
+
+	// Save the runs every test reads
+	beforeAll(async () => {
+		// Build the Fastify Instance
+		fastify = await createTestApp();
+
+		// Save the runs of the players
+		for (const [player, checkpointTimes] of [
+			[ALICE, [10000, 20000, 30000]],
+			[ALICE, [9900, 20500, 31000]],
+			[BOB, [9800, 19900, 30500]],
+			[CAROL, [10200, 20400, 32000]],
+		] as const)
+			expect((await saveRun(player, [...checkpointTimes])).statusCode).toBe(201);
+	});
+
+	// Close the Fastify Instance after the tests
+	afterAll(async () => {
+		await fastify.close();
+	});
+
+	describe('save', () => {
+		test('quarantines a run that beats the world record by a huge margin', async () => {
+			// Save a run far faster than every other run
+			const response = await saveRun(DAVE, [8000, 16000, 24000]);
+
+			// Check the run was saved but quarantined
+			expect(response.statusCode).toBe(201);
+			expect(response.json().data).toMatchObject({ status: SplitStatus.QUARANTINED, flags: [SplitSuspicionFlag.WORLD_RECORD_MARGIN] });
+
+			// Check the run counts neither as a personal best nor as the global best
+			expect(response.json().data).toMatchObject({ isPersonalBest: false, isGlobalBest: false, improvement: null, rank: null });
+		});
+
+		test('reports new personal bests with their improvement and rank', async () => {
+			// Save runs on a map of their own, so the other tests keep their leaderboard
+			const firstResponse = await saveRun(BOB, [10000, 20000, 30000], undefined, 'personal-best-map');
+			const slowerResponse = await saveRun(ALICE, [10500, 21000, 31500], undefined, 'personal-best-map');
+			const fasterResponse = await saveRun(ALICE, [9900, 19800, 29700], undefined, 'personal-best-map');
+			const repeatedResponse = await saveRun(ALICE, [9900, 19800, 29700], undefined, 'personal-best-map');
+
+			// Check the first run on the map is a personal best and the global best
+			expect(firstResponse.json().data).toMatchObject({ isPersonalBest: true, isGlobalBest: true, improvement: null, rank: 1 });
+
+			// Check the slower run is only a first personal best
+			expect(slowerResponse.json().data).toMatchObject({ isPersonalBest: true, isGlobalBest: false, improvement: null, rank: 2 });
+
+			// Check the faster run improved the personal best and took the global best
+			expect(fasterResponse.json().data).toMatchObject({ isPersonalBest: true, isGlobalBest: true, improvement: 1800, rank: 1 });
+
+			// Check a run that only ties the personal best is not a new one
+			expect(repeatedResponse.json().data).toMatchObject({ isPersonalBest: false, isGlobalBest: false, improvement: null, rank: 1 });
+		});
+
+		test('rejects a run whose total time does not match its last checkpoint', async () => {
+			// Save a run with a mismatched total time
+			const response = await fastify.inject({
+				method: 'POST',
+				url: '/splits/save',
+				headers: getAuthHeaders(CAROL.accountId, CAROL.displayName),
+				payload: { mapId: MAP_ID, checkpointTimes: [10000, 20000, 30000], totalTime: 29000 },
+			});
+
+			// Check the run was rejected
+			expect(response.statusCode).toBe(400);
+			expect(response.json().code).toBe(SplitValidationErrorCode.TOTAL_TIME_MISMATCH);
+		});
+
+		test('rejects a body that does not match the schema', async () => {
+			// Save a run without checkpoint times
+			const response = await fastify.inject({
+				method: 'POST',
+				url: '/splits/save',
+				headers: getAuthHeaders(CAROL.accountId, CAROL.displayName),
+				payload: { mapId: MAP_ID, totalTime: 30000 },
+			});
+
+			// Check the run was rejected
+			expect(response.statusCode).toBe(400);
+			expect(response.json().code).toBe('VALIDATION_ERROR');
+		});
+
+		test('saves a run sent again with the same client run ID only once', async () => {
+			// Save the same run twice
+			const firstResponse = await saveRun(CAROL, [11000, 22000, 33000], 'carol-run-1');
+			const secondResponse = await saveRun(CAROL, [11000, 22000, 33000], 'carol-run-1');
+
+			// Check the second upload returned the first split
+			expect(firstResponse.statusCode).toBe(201);
+			expect(secondResponse.statusCode).toBe(200);
+			expect(secondResponse.json().data.id).toBe(firstResponse.json().data.id);
+		});
+
+		test('reports duplicates and rejected runs of a batch', async () => {
+			// Save a batch with a new run, the same run again and an invalid run
+			const response = await fastify.inject({
+				method: 'POST',
+				url: '/splits/batch',
+				headers: getAuthHeaders(CAROL.accountId, CAROL.displayName),
+				payload: {
+					runs: [
+						{ clientRunId: 'carol-run-2', mapId: MAP_ID, checkpointTimes: [11500, 23000, 34000], totalTime: 34000 },
+						{ clientRunId: 'carol-run-2', mapId: MAP_ID, checkpointTimes: [11500, 23000, 34000], totalTime: 34000 },
+						{ clientRunId: 'carol-run-3', mapId: MAP_ID, checkpointTimes: [12000, 11000, 35000], totalTime: 35000 },
+					],
+				},
+			});
+
+			// Check the outcome of every run
+			expect(response.statusCode).toBe(200);
+			expect(response.json().data).toMatchObject({ created: 1, duplicates: 1, rejected: 1 });
+			expect(response.json().data.results.map((result: { status: BatchRunStatus }) => result.status)).toEqual([
+				BatchRunStatus.CREATED,
+				BatchRunStatus.DUPLICATE,
+				BatchRunStatus.REJECTED,
+			]);
+		});
+	});
+
+	describe('get', () => {
+		test(GetSplitsType.ALL, async () => {
+			// Get every split of Alice
+			const splits = await getSplits(ALICE, GetSplitsType.ALL);
+
+			// Check only Alice's splits were returned, fastest first
+			expect(splits.map((split: { totalTime: number }) => split.totalTime)).toEqual([30000, 31000]);
+			expect(new Set(splits.map((split: { playerId: string }) => split.playerId)).size).toBe(1);
+		});
+
+		test(GetSplitsType.PERSONAL_BEST, async () => {
+			// Get the personal best of Bob
+			const splits = await getSplits(BOB, GetSplitsType.PERSONAL_BEST);
+
+			// Check the personal best was returned
+			expect(splits).toHaveLength(1);
+			expect(splits[0]).toMatchObject({ checkpointTimes: [9800, 19900, 30500], totalTime: 30500 });
+		});
+
+		test(`${GetSplitsType.PERSONAL_BEST} of a player without runs`, async () => {
+			// Get the personal best of a player who never drove the map
+			const splits = await getSplits({ accountId: 'account-new', displayName: 'New' }, GetSplitsType.PERSONAL_BEST);
+
+			// Check no split was returned
+			expect(splits).toEqual([]);
+		});
+
+		test(GetSplitsType.GLOBAL_BEST, async () => {
+			// Get the global best
+			const splits = await getSplits(CAROL, GetSplitsType.GLOBAL_BEST);
+
+			// Check the fastest run that was not quarantined was returned
+			expect(splits).toHaveLength(1);
+			expect(splits[0].totalTime).toBe(30000);
+		});
+
+		test(GetSplitsType.SUM_OF_BEST, async () => {
+			// Get the sum of best of Alice
+			const [sumOfBest] = await getSplits(ALICE, GetSplitsType.SUM_OF_BEST);
+
+			// Check the best segments of both of Alice's runs were combined
+			expect(sumOfBest).toMatchObject({ checkpointTimes: [9900, 19900, 29900], totalTime: 29900, referenceTotalTime: 30000 });
+			expect(sumOfBest.segments.map((segment: { possibleTimeSave: number }) => segment.possibleTimeSave)).toEqual([100, 0, 0]);
+		});
+
+		test(GetSplitsType.GLOBAL_SUM_OF_BEST, async () => {
+			// Get the global sum of best
+			const [sumOfBest] = await getSplits(CAROL, GetSplitsType.GLOBAL_SUM_OF_BEST);
+
+			// Check the best segments of every run that was not quarantined were combined
+			expect(sumOfBest).toMatchObject({ checkpointTimes: [9800, 19800, 29800], totalTime: 29800, referenceTotalTime: 30000 });
+		});
+
+		test(GetSplitsType.PLAYER_BEST, async () => {
+			// Get the personal best of Bob as Alice
+			const splits = await getSplits(ALICE, GetSplitsType.PLAYER_BEST, { targetAccountId: BOB.accountId });
+
+			// Check Bob's personal best was returned
+			expect(splits).toHaveLength(1);
+			expect(splits[0].totalTime).toBe(30500);
+		});
+
+		test(GetSplitsType.RANK, async () => {
+			// Get the run at the second leaderboard position
+			const splits = await getSplits(ALICE, GetSplitsType.RANK, { rank: 2 });
+
+			// Check Bob's personal best was returned
+			expect(splits).toHaveLength(1);
+			expect(splits[0].totalTime).toBe(30500);
+
+			// Check a position past the last player returns no split
+			expect(await getSplits(ALICE, GetSplitsType.RANK, { rank: 10 })).toEqual([]);
+		});
+
+		test(GetSplitsType.PERCENTILE, async () => {
+			// Get the threshold runs of the top 34% and of every player
+			const [topSplit] = await getSplits(ALICE, GetSplitsType.PERCENTILE, { percentile: 34 });
+			const [lastSplit] = await getSplits(ALICE, GetSplitsType.PERCENTILE, { percentile: 100 });
+
+			// Check the second of three players and the last player were returned
+			expect(topSplit.totalTime).toBe(30500);
+			expect(lastSplit.totalTime).toBe(32000);
+		});
+
+		test('rejects a target type without its parameter', async () => {
+			// Get the run at a leaderboard position without the position
+			const response = await fastify.inject({
+				method: 'POST',
+				url: '/splits/get',
+				headers: getAuthHeaders(ALICE.accountId, ALICE.displayName),
+				payload: { mapId: MAP_ID, type: GetSplitsType.RANK },
+			});
+
+			// Check the request was rejected
+			expect(response.statusCode).toBe(400);
+		});
+	});
+});
@@ -0,0 +1,55 @@
+// External Imports
+import type { FastifyInstance } from 'fastify';
+
+// Internal Imports
+import { buildApp } from '../app';
+import { createMemoryRepositories, setRepositories } from '../repositories/repositories';
+import { setRateLimitStore } from '../services/rate-limit.service';
+import { resetMetrics } from '../services/metrics.service';
+import { clearRemoteConfigCache } from '../services/remote-config.service';
+import { issueTokens } from '../services/token.service';
+import { MemoryRateLimitStore } from '../stores/memory-rate-limit.store';
+import type { AuthUserResponse } from '../types/types';
+
+/**
+ * Build the Fastify Instance on empty in-memory repositories
+ * @returns The Fastify Instance
+ */
+export async function createTestApp(): Promise<FastifyInstance> {
+	// Start every test app with empty data, rate limit counters, metrics and the default remote config
+	setRepositories(createMemoryRepositories());
+	setRateLimitStore(new MemoryRateLimitStore());
+	resetMetrics();
+	clearRemoteConfigCache();
+
+	// Build the Fastify Instance without request logging
+	const fastify = await buildApp(false);
+
+	// Wait for every plugin to load
+	await fastify.ready();
+
+	// Return the Fastify Instance
+	return fastify;
+}
+
+/**
+ * Issue a token pair without validating an Openplanet token
+ * @param accountId The account ID of the user
+ * @param displayName The display name of the user
+ * @returns The token pair
+ */
+export function getTestTokens(accountId: string, displayName: string): AuthUserResponse {
+	// Issue the Token Pair
+	return issueTokens(accountId, displayName, 0);
+}
+
+/**
+ * Get the headers that authenticate a request as a user
+ * @param accountId The account ID of the user
+ * @param displayName The display name of the user
+ * @returns The request headers
+ */
+export function getAuthHeaders(accountId: string, displayName: string): Record<string, string> {
+	// Return the Authorization Header
+	return { authorization: `Bearer ${getTestTokens(accountId, displayName).token}` };
+}
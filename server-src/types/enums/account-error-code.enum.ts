@@ -0,0 +1,9 @@
+/**
+ * Enum for the reasons a request to the account routes fails
+ */
+export enum AccountErrorCode {
+	/**
+	 * The account ID sent to confirm the deletion does not match the account of the token
+	 */
+	DELETION_NOT_CONFIRMED = 'DELETION_NOT_CONFIRMED',
+}
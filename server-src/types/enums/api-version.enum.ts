@@ -0,0 +1,9 @@
+/**
+ * Enum for the versions of the API (each one is served under its own prefix, e.g. /v1/splits/get)
+ */
+export enum ApiVersion {
+	/**
+	 * The first version, also served without a prefix for the plugins released before the API was versioned
+	 */
+	V1 = 'v1',
+}
@@ -0,0 +1,44 @@
+/**
+ * Enum for the actions recorded in the audit log
+ */
+export enum AuditAction {
+	/**
+	 * A player deleted their account and everything stored about it
+	 */
+	ACCOUNT_DELETED = 'account.deleted',
+
+	/**
+	 * An admin deleted a split
+	 */
+	SPLIT_DELETED = 'split.deleted',
+
+	/**
+	 * An admin changed the review status of a split, e.g. to hide it
+	 */
+	SPLIT_STATUS_CHANGED = 'split.status_changed',
+
+	/**
+	 * An admin banned a player, excluding their runs from global queries
+	 */
+	PLAYER_BANNED = 'player.banned',
+
+	/**
+	 * An admin lifted the ban of a player
+	 */
+	PLAYER_UNBANNED = 'player.unbanned',
+
+	/**
+	 * An admin corrected the details of a map
+	 */
+	MAP_CORRECTED = 'map.corrected',
+
+	/**
+	 * An admin created or changed a campaign
+	 */
+	CAMPAIGN_SAVED = 'campaign.saved',
+
+	/**
+	 * An admin changed the remote config the plugin loads
+	 */
+	REMOTE_CONFIG_SAVED = 'config.saved',
+}
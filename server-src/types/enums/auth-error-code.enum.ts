@@ -0,0 +1,34 @@
+/**
+ * Enum for the reasons a request fails authentication
+ */
+export enum AuthErrorCode {
+	/**
+	 * The Authorization header or the token in it is missing
+	 */
+	MISSING_TOKEN = 'MISSING_TOKEN',
+
+	/**
+	 * The token is malformed, has a bad signature or is of the wrong type
+	 */
+	INVALID_TOKEN = 'INVALID_TOKEN',
+
+	/**
+	 * The token has expired
+	 */
+	TOKEN_EXPIRED = 'TOKEN_EXPIRED',
+
+	/**
+	 * The token was revoked by logging out
+	 */
+	TOKEN_REVOKED = 'TOKEN_REVOKED',
+
+	/**
+	 * Openplanet rejected the token or could not be reached
+	 */
+	OPENPLANET_VALIDATION_FAILED = 'OPENPLANET_VALIDATION_FAILED',
+
+	/**
+	 * The route is only available to admins
+	 */
+	ADMIN_REQUIRED = 'ADMIN_REQUIRED',
+}
@@ -0,0 +1,19 @@
+/**
+ * Enum for the ways a client can authenticate, as counted by the metrics
+ */
+export enum AuthMethod {
+	/**
+	 * An Openplanet token exchanged for a token pair
+	 */
+	OPENPLANET = 'openplanet',
+
+	/**
+	 * A refresh token exchanged for a new token pair
+	 */
+	REFRESH_TOKEN = 'refresh_token',
+
+	/**
+	 * An access token sent with a request
+	 */
+	ACCESS_TOKEN = 'access_token',
+}
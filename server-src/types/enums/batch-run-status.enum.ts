@@ -0,0 +1,19 @@
+/**
+ * Enum for the outcomes of a run in a batch upload
+ */
+export enum BatchRunStatus {
+	/**
+	 * The run was saved
+	 */
+	CREATED = 'created',
+
+	/**
+	 * A run with the same client run ID was already saved
+	 */
+	DUPLICATE = 'duplicate',
+
+	/**
+	 * The run is invalid and was not saved
+	 */
+	REJECTED = 'rejected',
+}
@@ -0,0 +1,39 @@
+/**
+ * Enum for the reasons a club request fails
+ */
+export enum ClubErrorCode {
+	/**
+	 * The club does not exist
+	 */
+	CLUB_NOT_FOUND = 'CLUB_NOT_FOUND',
+
+	/**
+	 * Another club already uses the name
+	 */
+	CLUB_NAME_TAKEN = 'CLUB_NAME_TAKEN',
+
+	/**
+	 * Only the owner of the club may take the action
+	 */
+	NOT_CLUB_OWNER = 'NOT_CLUB_OWNER',
+
+	/**
+	 * Only the members of the club may see it
+	 */
+	NOT_CLUB_MEMBER = 'NOT_CLUB_MEMBER',
+
+	/**
+	 * The player was not invited and sent no valid invite code
+	 */
+	NOT_INVITED = 'NOT_INVITED',
+
+	/**
+	 * The player is already a member of the club
+	 */
+	ALREADY_MEMBER = 'ALREADY_MEMBER',
+
+	/**
+	 * The club has reached its member limit
+	 */
+	CLUB_FULL = 'CLUB_FULL',
+}
@@ -0,0 +1,49 @@
+/**
+ * Enum for the generic reasons a request fails (route specific failures use their own codes)
+ */
+export enum ErrorCode {
+	/**
+	 * The request does not match the schema of the route
+	 */
+	VALIDATION_ERROR = 'VALIDATION_ERROR',
+
+	/**
+	 * The request could not be processed, e.g. because its body is not valid JSON
+	 */
+	BAD_REQUEST = 'BAD_REQUEST',
+
+	/**
+	 * The route or the requested resource does not exist
+	 */
+	NOT_FOUND = 'NOT_FOUND',
+
+	/**
+	 * Too many requests were sent in the current rate limit window
+	 */
+	RATE_LIMITED = 'RATE_LIMITED',
+
+	/**
+	 * The plugin version sent with the request is older than the minimum version in the remote config
+	 */
+	PLUGIN_OUTDATED = 'PLUGIN_OUTDATED',
+
+	/**
+	 * Saving runs is turned off in the remote config
+	 */
+	SAVES_DISABLED = 'SAVES_DISABLED',
+
+	/**
+	 * The requested type of split is turned off in the remote config
+	 */
+	SPLIT_TYPE_DISABLED = 'SPLIT_TYPE_DISABLED',
+
+	/**
+	 * The player does not share their live runs with the requesting player
+	 */
+	LIVE_RUNS_NOT_SHARED = 'LIVE_RUNS_NOT_SHARED',
+
+	/**
+	 * The server failed to process the request
+	 */
+	INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
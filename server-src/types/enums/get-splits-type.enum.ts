@@ -16,4 +16,34 @@ export enum GetSplitsType {
 	 * Get the personal best split
 	 */
 	PERSONAL_BEST = 'personalBest',
+
+	/**
+	 * Get the personal sum of best (best segment of every run of the player)
+	 */
+	SUM_OF_BEST = 'sumOfBest',
+
+	/**
+	 * Get the global sum of best (best segment of every run on the map)
+	 */
+	GLOBAL_SUM_OF_BEST = 'globalSumOfBest',
+
+	/**
+	 * Get the personal best split of another player (by targetAccountId)
+	 */
+	PLAYER_BEST = 'playerBest',
+
+	/**
+	 * Get the best split of the player at a leaderboard position (by rank)
+	 */
+	RANK = 'rank',
+
+	/**
+	 * Get the best split of the player at a percentile threshold of the leaderboard (by percentile)
+	 */
+	PERCENTILE = 'percentile',
+
+	/**
+	 * Get the fastest split among the members of a club (by clubId)
+	 */
+	CLUB_BEST = 'clubBest',
 }
@@ -0,0 +1,14 @@
+/**
+ * Enum for the runs a statistical estimate is based on
+ */
+export enum HistorySource {
+	/**
+	 * The requesting player's own runs on the map
+	 */
+	PLAYER = 'player',
+
+	/**
+	 * Every player's runs on the map
+	 */
+	GLOBAL = 'global',
+}
@@ -0,0 +1,19 @@
+/**
+ * Enum for the kinds of events streamed for a live run
+ */
+export enum LiveRunEventType {
+	/**
+	 * The player started a new run
+	 */
+	START = 'start',
+
+	/**
+	 * The player passed a checkpoint
+	 */
+	CHECKPOINT = 'checkpoint',
+
+	/**
+	 * The player finished the run
+	 */
+	FINISH = 'finish',
+}
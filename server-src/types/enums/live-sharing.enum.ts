@@ -0,0 +1,19 @@
+/**
+ * Enum for who can watch the live runs of a player
+ */
+export enum LiveSharing {
+	/**
+	 * Only the player themselves
+	 */
+	PRIVATE = 'private',
+
+	/**
+	 * The members of the clubs the player is in
+	 */
+	CLUBS = 'clubs',
+
+	/**
+	 * Every signed-in player
+	 */
+	EVERYONE = 'everyone',
+}
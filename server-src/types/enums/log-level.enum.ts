@@ -0,0 +1,34 @@
+/**
+ * Enum for the minimum level of the log lines the server writes
+ */
+export enum LogLevel {
+	/**
+	 * Only errors that stop the server
+	 */
+	FATAL = 'fatal',
+
+	/**
+	 * Failed requests and operations
+	 */
+	ERROR = 'error',
+
+	/**
+	 * Problems the server recovers from, like a database connection retry
+	 */
+	WARN = 'warn',
+
+	/**
+	 * Every request and the server lifecycle
+	 */
+	INFO = 'info',
+
+	/**
+	 * Details of what the routes return
+	 */
+	DEBUG = 'debug',
+
+	/**
+	 * Everything
+	 */
+	TRACE = 'trace',
+}
@@ -0,0 +1,14 @@
+/**
+ * Enum for the type of a Prometheus metric
+ */
+export enum MetricType {
+	/**
+	 * A value that only goes up, e.g. the number of requests
+	 */
+	COUNTER = 'counter',
+
+	/**
+	 * Observations counted into buckets, e.g. the duration of requests
+	 */
+	HISTOGRAM = 'histogram',
+}
@@ -0,0 +1,19 @@
+/**
+ * Enum for the method used to predict the finish time (mirrors the plugin's PredictorMethod)
+ */
+export enum PredictorMethod {
+	/**
+	 * Basic linear extrapolation based on average time per checkpoint
+	 */
+	LINEAR_EXTRAPOLATION = 'linearExtrapolation',
+
+	/**
+	 * Compare the current run to the comparison split's checkpoint times
+	 */
+	BEST_SPLITS_COMPARISON = 'bestSplitsComparison',
+
+	/**
+	 * Weighted combination of the linear and best splits methods
+	 */
+	HYBRID = 'hybrid',
+}
@@ -0,0 +1,14 @@
+/**
+ * Enum for the formats the splits of a player can be exported in
+ */
+export enum SplitExportFormat {
+	/**
+	 * The runs in the success envelope
+	 */
+	JSON = 'json',
+
+	/**
+	 * The runs as a CSV file with one row per run
+	 */
+	CSV = 'csv',
+}
@@ -0,0 +1,24 @@
+/**
+ * Enum for the reasons an import file is rejected as a whole
+ */
+export enum SplitImportErrorCode {
+	/**
+	 * The file could not be read in the requested format
+	 */
+	INVALID_FILE = 'INVALID_FILE',
+
+	/**
+	 * The file does not say which map its runs were driven on and no map ID was sent
+	 */
+	MISSING_MAP_ID = 'MISSING_MAP_ID',
+
+	/**
+	 * The file does not contain a single finished run
+	 */
+	NO_RUNS = 'NO_RUNS',
+
+	/**
+	 * The file contains more runs than can be imported at once
+	 */
+	TOO_MANY_RUNS = 'TOO_MANY_RUNS',
+}
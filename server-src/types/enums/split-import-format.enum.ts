@@ -0,0 +1,14 @@
+/**
+ * Enum for the file formats runs can be imported from
+ */
+export enum SplitImportFormat {
+	/**
+	 * A LiveSplit splits file (.lss), with one segment per checkpoint
+	 */
+	LIVESPLIT = 'livesplit',
+
+	/**
+	 * A CSV file with a header row and one row per run
+	 */
+	CSV = 'csv',
+}
@@ -0,0 +1,19 @@
+/**
+ * Enum for the review status of a split
+ */
+export enum SplitStatus {
+	/**
+	 * The split passed validation and counts towards global queries
+	 */
+	ACCEPTED = 'accepted',
+
+	/**
+	 * The split looked suspicious and is excluded from global queries until reviewed
+	 */
+	QUARANTINED = 'quarantined',
+
+	/**
+	 * An admin hid the split, so it is excluded from global queries
+	 */
+	HIDDEN = 'hidden',
+}
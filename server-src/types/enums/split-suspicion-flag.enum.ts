@@ -0,0 +1,19 @@
+/**
+ * Enum for the reasons a plausible split is quarantined
+ */
+export enum SplitSuspicionFlag {
+	/**
+	 * The checkpoint count differs from the count most runs on the map have
+	 */
+	CHECKPOINT_COUNT_MISMATCH = 'CHECKPOINT_COUNT_MISMATCH',
+
+	/**
+	 * A segment is far faster than the best time ever recorded on it
+	 */
+	SEGMENT_TOO_FAST = 'SEGMENT_TOO_FAST',
+
+	/**
+	 * The run beats the world record by a huge margin
+	 */
+	WORLD_RECORD_MARGIN = 'WORLD_RECORD_MARGIN',
+}
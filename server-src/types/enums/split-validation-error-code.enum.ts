@@ -0,0 +1,44 @@
+/**
+ * Enum for the reasons a split submission is rejected
+ */
+export enum SplitValidationErrorCode {
+	/**
+	 * The map ID is missing
+	 */
+	MISSING_MAP_ID = 'MISSING_MAP_ID',
+
+	/**
+	 * The checkpoint times are missing, empty or not whole numbers
+	 */
+	INVALID_CHECKPOINT_TIMES = 'INVALID_CHECKPOINT_TIMES',
+
+	/**
+	 * The checkpoint times are not strictly increasing
+	 */
+	NON_MONOTONIC_CHECKPOINTS = 'NON_MONOTONIC_CHECKPOINTS',
+
+	/**
+	 * The checkpoint count does not match the known checkpoint count of the map
+	 */
+	CHECKPOINT_COUNT_MISMATCH = 'CHECKPOINT_COUNT_MISMATCH',
+
+	/**
+	 * The total time is missing or not a positive whole number
+	 */
+	INVALID_TOTAL_TIME = 'INVALID_TOTAL_TIME',
+
+	/**
+	 * The total time does not match the last checkpoint time
+	 */
+	TOTAL_TIME_MISMATCH = 'TOTAL_TIME_MISMATCH',
+
+	/**
+	 * The run is longer than any run could be
+	 */
+	IMPOSSIBLE_TIME = 'IMPOSSIBLE_TIME',
+
+	/**
+	 * The run date is not a valid date or is in the future
+	 */
+	INVALID_RUN_DATE = 'INVALID_RUN_DATE',
+}
@@ -0,0 +1,14 @@
+/**
+ * Enum for where the server keeps its data
+ */
+export enum StorageType {
+	/**
+	 * In MongoDB
+	 */
+	MONGO = 'mongo',
+
+	/**
+	 * In memory, lost when the server stops (for development and tests)
+	 */
+	MEMORY = 'memory',
+}
@@ -0,0 +1,14 @@
+/**
+ * Enum for the type of a JWT issued by the server
+ */
+export enum TokenType {
+	/**
+	 * Short-lived token sent with every request
+	 */
+	ACCESS = 'access',
+
+	/**
+	 * Long-lived token that can only be exchanged for a new token pair
+	 */
+	REFRESH = 'refresh',
+}
@@ -0,0 +1,22 @@
+// Internal Imports
+import type { ExportedRun, PlayerProfile } from '../types';
+
+/**
+ * Interface for the archive of everything the server stores about a player
+ */
+export interface AccountArchive {
+	/**
+	 * The date the archive was created
+	 */
+	exportedAt: Date;
+
+	/**
+	 * The profile of the player
+	 */
+	profile: PlayerProfile;
+
+	/**
+	 * Every run of the player, oldest first
+	 */
+	runs: ExportedRun[];
+}
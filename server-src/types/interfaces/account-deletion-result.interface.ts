@@ -0,0 +1,19 @@
+/**
+ * Interface for the outcome of deleting an account
+ */
+export interface AccountDeletionResult {
+	/**
+	 * The number of splits that were deleted
+	 */
+	deletedSplits: number;
+
+	/**
+	 * The number of maps the player had runs on, whose derived data was refreshed
+	 */
+	affectedMaps: number;
+
+	/**
+	 * The ID of the audit log entry of the deletion
+	 */
+	auditId: string;
+}
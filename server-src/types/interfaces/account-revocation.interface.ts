@@ -0,0 +1,22 @@
+// Internal Imports
+import { type TimestampedDocument } from '../types';
+
+/**
+ * Interface for the revocation of every token issued to an account until a date (kept apart from the player, so it outlives a deleted account)
+ */
+export interface AccountRevocation extends TimestampedDocument {
+	/**
+	 * The account ID of the user
+	 */
+	accountId: string;
+
+	/**
+	 * The date every token issued until then was revoked at
+	 */
+	revokedAt: Date;
+
+	/**
+	 * The date the last revoked token expires (the revocation is removed after that)
+	 */
+	expiresAt: Date;
+}
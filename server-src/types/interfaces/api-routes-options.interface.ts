@@ -0,0 +1,17 @@
+// Internal Imports
+import type { ApiVersion } from '../types';
+
+/**
+ * Interface for the options of the plugin that registers the API routes of a version
+ */
+export interface ApiRoutesOptions {
+	/**
+	 * The version the routes serve
+	 */
+	version: ApiVersion;
+
+	/**
+	 * Whether the routes are the unprefixed aliases kept for older plugins
+	 */
+	unprefixed: boolean;
+}
@@ -0,0 +1,35 @@
+// Internal Imports
+import type { ApiVersion } from '../types';
+
+/**
+ * Interface for the lifecycle and response format of a version of the API
+ */
+export interface ApiVersionDefinition {
+	/**
+	 * The version
+	 */
+	version: ApiVersion;
+
+	/**
+	 * The date the version was deprecated, or null if it is still supported
+	 */
+	deprecatedAt: Date | null;
+
+	/**
+	 * The date the version stops being served, or null if there is none planned
+	 */
+	sunsetAt: Date | null;
+
+	/**
+	 * The version clients should move to, or null if this is the latest one
+	 */
+	successor: ApiVersion | null;
+
+	/**
+	 * Convert a response from the current format to the format of the version
+	 * @param route The route pattern without the version prefix (e.g. /splits/get)
+	 * @param payload The response in the current format
+	 * @returns The response in the format of the version
+	 */
+	adaptResponse(route: string, payload: unknown): unknown;
+}
@@ -0,0 +1,27 @@
+// Internal Imports
+import { type AuditAction, type TimestampedDocument } from '../types';
+
+/**
+ * Interface for an entry of the audit log
+ */
+export interface AuditLogEntry extends TimestampedDocument {
+	/**
+	 * The action that was taken
+	 */
+	action: AuditAction;
+
+	/**
+	 * The account ID of the player who took the action
+	 */
+	actorAccountId: string;
+
+	/**
+	 * The account ID of the player the action was taken on, or null if it was not taken on a player
+	 */
+	targetAccountId: string | null;
+
+	/**
+	 * The details of the action (never the personal data it removed)
+	 */
+	details: Record<string, unknown>;
+}
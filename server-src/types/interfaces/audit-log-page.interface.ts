@@ -0,0 +1,27 @@
+// Internal Imports
+import type { AuditLogRecord } from '../types';
+
+/**
+ * Interface for a page of the audit log, newest first
+ */
+export interface AuditLogPage {
+	/**
+	 * The page number (starting at 1)
+	 */
+	page: number;
+
+	/**
+	 * The number of entries per page
+	 */
+	pageSize: number;
+
+	/**
+	 * The total number of entries matching the filter
+	 */
+	total: number;
+
+	/**
+	 * The entries on the requested page
+	 */
+	entries: AuditLogRecord[];
+}
@@ -0,0 +1,17 @@
+// Internal Imports
+import type { AuditAction } from '../types';
+
+/**
+ * Interface for the filter of the audit log entries a repository query uses
+ */
+export interface AuditLogQuery {
+	/**
+	 * The action of the entries, or undefined for every action
+	 */
+	action?: AuditAction;
+
+	/**
+	 * The account ID of the player who took the action or had it taken on them, or undefined for every player
+	 */
+	accountId?: string;
+}
@@ -0,0 +1,37 @@
+// Internal Imports
+import type { AuditAction } from '../types';
+
+/**
+ * Interface for an entry of the audit log as admins browse it
+ */
+export interface AuditLogRecord {
+	/**
+	 * The ID of the entry
+	 */
+	id: string;
+
+	/**
+	 * The action that was taken
+	 */
+	action: AuditAction;
+
+	/**
+	 * The account ID of the player who took the action
+	 */
+	actorAccountId: string;
+
+	/**
+	 * The account ID of the player the action was taken on, or null
+	 */
+	targetAccountId: string | null;
+
+	/**
+	 * The details of the action
+	 */
+	details: Record<string, unknown>;
+
+	/**
+	 * The date the action was taken
+	 */
+	createdAt: Date;
+}
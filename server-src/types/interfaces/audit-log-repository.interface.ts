@@ -0,0 +1,23 @@
+// Internal Imports
+import type { AuditLogEntry, AuditLogQuery } from '../types';
+
+/**
+ * Interface for a backend that stores the audit log
+ */
+export interface AuditLogRepository {
+	/**
+	 * Add an entry to the audit log
+	 * @param entry The entry to add
+	 * @returns The new entry
+	 */
+	create(entry: Pick<AuditLogEntry, 'action' | 'actorAccountId' | 'targetAccountId' | 'details'>): Promise<AuditLogEntry>;
+
+	/**
+	 * Find a page of the audit log entries matching a query, newest first
+	 * @param query The filter for the entries
+	 * @param skip The number of entries to skip
+	 * @param limit The number of entries on the page
+	 * @returns The number of matching entries and the entries of the page
+	 */
+	find(query: AuditLogQuery, skip: number, limit: number): Promise<{ total: number; entries: Array<AuditLogEntry> }>;
+}
@@ -0,0 +1,17 @@
+// Internal Imports
+import type { AuthErrorCode } from '../types';
+
+/**
+ * Interface for the reason a request failed authentication
+ */
+export interface AuthError {
+	/**
+	 * The machine-readable error code
+	 */
+	code: AuthErrorCode;
+
+	/**
+	 * The human-readable error message
+	 */
+	error: string;
+}
@@ -6,4 +6,19 @@ export interface AuthUserResponse {
 	 * The JWT Token of the user
 	 */
 	token: string;
+
+	/**
+	 * The number of seconds until the token expires
+	 */
+	expiresIn: number;
+
+	/**
+	 * The JWT Token used to get a new token pair once the token expires
+	 */
+	refreshToken: string;
+
+	/**
+	 * The number of seconds until the refresh token expires
+	 */
+	refreshExpiresIn: number;
 }
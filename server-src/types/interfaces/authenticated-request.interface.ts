@@ -3,5 +3,7 @@ import { FastifyRequest } from 'fastify';
 export interface AuthenticatedRequest extends Omit<FastifyRequest, 'body'> {
 	userId?: string;
 	displayName?: string;
+	tokenId?: string;
+	tokenExpiresAt?: number;
 	body?: any;
 }
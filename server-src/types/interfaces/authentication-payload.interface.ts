@@ -1,3 +1,6 @@
+// Internal Imports
+import type { TokenType } from '../types';
+
 /**
  * Interface for the Authentication Payload
  */
@@ -16,4 +19,14 @@ export interface AuthenticationPayload {
 	 * The token time of the user
 	 */
 	tokenTime: number;
+
+	/**
+	 * The type of the token
+	 */
+	type: TokenType;
+
+	/**
+	 * The time the token was issued at in milliseconds since the epoch (the standard iat claim only has second precision)
+	 */
+	issuedAt: number;
 }
@@ -0,0 +1,12 @@
+// Internal Imports
+import type { BacktestStatistics } from '../types';
+
+/**
+ * Interface for the accuracy of the prediction methods after a number of checkpoints
+ */
+export interface BacktestCheckpointStatistics extends BacktestStatistics {
+	/**
+	 * The number of checkpoints passed when the predictions were made (starting at 1)
+	 */
+	checkpoint: number;
+}
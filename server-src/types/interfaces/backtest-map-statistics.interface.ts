@@ -0,0 +1,17 @@
+// Internal Imports
+import type { BacktestStatistics } from '../types';
+
+/**
+ * Interface for the accuracy of the prediction methods on a map
+ */
+export interface BacktestMapStatistics extends BacktestStatistics {
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+
+	/**
+	 * The name of the map, or null if it was never saved
+	 */
+	name: string | null;
+}
@@ -0,0 +1,24 @@
+/**
+ * Interface for the accuracy of the predictions of a method in a backtest
+ */
+export interface BacktestMethodStatistics {
+	/**
+	 * The number of predictions made
+	 */
+	predictions: number;
+
+	/**
+	 * The average of the predicted time minus the finish time in milliseconds (positive when the method predicts too slow)
+	 */
+	meanError: number;
+
+	/**
+	 * The average distance between the predicted time and the finish time in milliseconds
+	 */
+	meanAbsoluteError: number;
+
+	/**
+	 * The root mean squared error in milliseconds (punishes large misses harder than the mean absolute error)
+	 */
+	rootMeanSquaredError: number;
+}
@@ -0,0 +1,17 @@
+// Internal Imports
+import type { BacktestStatistics } from '../types';
+
+/**
+ * Interface for the accuracy of the prediction methods on the runs of a player
+ */
+export interface BacktestPlayerStatistics extends BacktestStatistics {
+	/**
+	 * The account ID of the player
+	 */
+	accountId: string;
+
+	/**
+	 * The display name of the player
+	 */
+	displayName: string;
+}
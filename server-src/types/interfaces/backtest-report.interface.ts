@@ -0,0 +1,37 @@
+// Internal Imports
+import type { BacktestCheckpointStatistics, BacktestMapStatistics, BacktestPlayerStatistics, BacktestStatistics, PredictorMethod } from '../types';
+
+/**
+ * Interface for the report of a backtest, which replays stored runs and compares the predictions of every method to their finish times
+ */
+export interface BacktestReport {
+	/**
+	 * The accuracy of every method over all replayed runs
+	 */
+	overall: BacktestStatistics;
+
+	/**
+	 * The method with the lowest mean absolute error over all replayed runs, or null if no run was replayed
+	 */
+	bestMethod: PredictorMethod | null;
+
+	/**
+	 * The number of runs that were not replayed because the player had no earlier run on the map to compare against
+	 */
+	skippedRuns: number;
+
+	/**
+	 * The accuracy of every method per map, the maps with the most replayed runs first
+	 */
+	maps: Array<BacktestMapStatistics>;
+
+	/**
+	 * The accuracy of every method per player, the players with the most replayed runs first
+	 */
+	players: Array<BacktestPlayerStatistics>;
+
+	/**
+	 * The accuracy of every method per number of checkpoints passed, in checkpoint order
+	 */
+	checkpoints: Array<BacktestCheckpointStatistics>;
+}
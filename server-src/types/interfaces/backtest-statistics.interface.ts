@@ -0,0 +1,17 @@
+// Internal Imports
+import type { BacktestMethodStatistics, PredictorMethod } from '../types';
+
+/**
+ * Interface for the accuracy of every prediction method over a group of replayed runs
+ */
+export interface BacktestStatistics {
+	/**
+	 * The number of replayed runs
+	 */
+	runs: number;
+
+	/**
+	 * The accuracy of every method
+	 */
+	methods: Record<PredictorMethod, BacktestMethodStatistics>;
+}
@@ -0,0 +1,37 @@
+// Internal Imports
+import type { BatchRunStatus, SplitStatus } from '../types';
+
+/**
+ * Interface for the outcome of a run in a batch upload
+ */
+export interface BatchRunResult {
+	/**
+	 * The ID the client generated for the run
+	 */
+	clientRunId: string;
+
+	/**
+	 * Whether the run was saved, already saved before or rejected
+	 */
+	status: BatchRunStatus;
+
+	/**
+	 * The ID of the saved split (null if the run was rejected)
+	 */
+	splitId: string | null;
+
+	/**
+	 * The review status of the saved split (null if the run was rejected)
+	 */
+	splitStatus: SplitStatus | null;
+
+	/**
+	 * The machine-readable reason the run was rejected
+	 */
+	code: string | null;
+
+	/**
+	 * The human-readable reason the run was rejected
+	 */
+	error: string | null;
+}
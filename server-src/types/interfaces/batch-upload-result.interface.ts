@@ -0,0 +1,27 @@
+// Internal Imports
+import type { BatchRunResult } from '../types';
+
+/**
+ * Interface for the outcome of a batch upload
+ */
+export interface BatchUploadResult {
+	/**
+	 * The number of runs that were saved
+	 */
+	created: number;
+
+	/**
+	 * The number of runs that were already saved before
+	 */
+	duplicates: number;
+
+	/**
+	 * The number of runs that were rejected
+	 */
+	rejected: number;
+
+	/**
+	 * The outcome of every run, in the order they were sent
+	 */
+	results: BatchRunResult[];
+}
@@ -0,0 +1,19 @@
+/**
+ * Interface for a campaign as the players see it
+ */
+export interface CampaignDetails {
+	/**
+	 * The ID of the campaign
+	 */
+	campaignId: string;
+
+	/**
+	 * The name of the campaign
+	 */
+	name: string;
+
+	/**
+	 * The IDs of the maps in the campaign, in order
+	 */
+	mapIds: string[];
+}
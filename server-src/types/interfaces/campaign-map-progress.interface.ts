@@ -0,0 +1,29 @@
+/**
+ * Interface for the personal best of a player on a map of a campaign
+ */
+export interface CampaignMapProgress {
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+
+	/**
+	 * The name of the map, or null if it is unknown
+	 */
+	name: string | null;
+
+	/**
+	 * The ID of the split of the personal best, or null if the player has no run on the map
+	 */
+	splitId: string | null;
+
+	/**
+	 * The personal best time in milliseconds, or null if the player has no run on the map
+	 */
+	totalTime: number | null;
+
+	/**
+	 * The date of the personal best, or null if the player has no run on the map
+	 */
+	runDate: Date | null;
+}
@@ -0,0 +1,42 @@
+// Internal Imports
+import type { CampaignMapProgress } from '../types';
+
+/**
+ * Interface for the progress of a player through a campaign
+ */
+export interface CampaignProgress {
+	/**
+	 * The ID of the campaign
+	 */
+	campaignId: string;
+
+	/**
+	 * The name of the campaign
+	 */
+	name: string;
+
+	/**
+	 * The players ID from Openplanet
+	 */
+	accountId: string;
+
+	/**
+	 * The personal best of the player on every map, in campaign order
+	 */
+	maps: CampaignMapProgress[];
+
+	/**
+	 * The sum of the personal best times in milliseconds
+	 */
+	totalTime: number;
+
+	/**
+	 * The number of maps the player has a run on
+	 */
+	finishedMaps: number;
+
+	/**
+	 * The number of maps the player has no run on yet
+	 */
+	missingMaps: number;
+}
@@ -0,0 +1,28 @@
+// Internal Imports
+import type { TMNextCampaign } from '../types';
+
+/**
+ * Interface for a backend that stores the campaigns
+ */
+export interface CampaignRepository {
+	/**
+	 * Find a campaign by its ID
+	 * @param campaignId The ID of the campaign
+	 * @returns The campaign, or null if it does not exist
+	 */
+	findByCampaignId(campaignId: string): Promise<TMNextCampaign | null>;
+
+	/**
+	 * Find every campaign
+	 * @returns The campaigns, newest first
+	 */
+	findAll(): Promise<Array<TMNextCampaign>>;
+
+	/**
+	 * Create a campaign or replace its name and maps
+	 * @param campaignId The ID of the campaign
+	 * @param details The name and maps to set
+	 * @returns The campaign
+	 */
+	save(campaignId: string, details: Pick<TMNextCampaign, 'name' | 'mapIds'>): Promise<TMNextCampaign>;
+}
@@ -0,0 +1,34 @@
+/**
+ * Interface for a single row of the standings of a campaign
+ */
+export interface CampaignStandingEntry {
+	/**
+	 * The rank of the player in the campaign (tied players share a rank)
+	 */
+	rank: number;
+
+	/**
+	 * The players ID from Openplanet
+	 */
+	accountId: string;
+
+	/**
+	 * The players display name
+	 */
+	displayName: string;
+
+	/**
+	 * The sum of the best times of the player in milliseconds
+	 */
+	totalTime: number;
+
+	/**
+	 * The number of maps the player has a run on
+	 */
+	finishedMaps: number;
+
+	/**
+	 * The number of maps the player has no run on yet
+	 */
+	missingMaps: number;
+}
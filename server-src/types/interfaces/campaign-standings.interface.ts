@@ -0,0 +1,42 @@
+// Internal Imports
+import type { CampaignStandingEntry } from '../types';
+
+/**
+ * Interface for a page of the standings of a campaign
+ */
+export interface CampaignStandings {
+	/**
+	 * The ID of the campaign
+	 */
+	campaignId: string;
+
+	/**
+	 * The page number (starting at 1)
+	 */
+	page: number;
+
+	/**
+	 * The number of entries per page
+	 */
+	pageSize: number;
+
+	/**
+	 * The number of maps in the campaign
+	 */
+	mapCount: number;
+
+	/**
+	 * The number of players with a run on at least one map
+	 */
+	totalPlayers: number;
+
+	/**
+	 * The entries of the page
+	 */
+	entries: CampaignStandingEntry[];
+
+	/**
+	 * The entry of the requesting player, or null if they have no run in the campaign
+	 */
+	playerEntry: CampaignStandingEntry | null;
+}
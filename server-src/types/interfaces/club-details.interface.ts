@@ -0,0 +1,37 @@
+// Internal Imports
+import type { ClubMember } from '../types';
+
+/**
+ * Interface for a club as the players see it
+ */
+export interface ClubDetails {
+	/**
+	 * The ID of the club
+	 */
+	id: string;
+
+	/**
+	 * The name of the club
+	 */
+	name: string;
+
+	/**
+	 * The short tag of the club, or null
+	 */
+	tag: string | null;
+
+	/**
+	 * The members of the club, the owner first
+	 */
+	members: ClubMember[];
+
+	/**
+	 * The code that lets any player join the club (only shown to the owner)
+	 */
+	inviteCode: string | null;
+
+	/**
+	 * The account IDs of the invited players who did not join yet (only shown to the owner)
+	 */
+	invitedAccountIds: string[];
+}
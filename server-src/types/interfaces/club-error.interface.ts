@@ -0,0 +1,17 @@
+// Internal Imports
+import type { ClubErrorCode } from '../types';
+
+/**
+ * Interface for the reason a club request failed
+ */
+export interface ClubError {
+	/**
+	 * The machine-readable error code
+	 */
+	code: ClubErrorCode;
+
+	/**
+	 * The human-readable error message
+	 */
+	error: string;
+}
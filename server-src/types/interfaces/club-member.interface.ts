@@ -0,0 +1,19 @@
+/**
+ * Interface for a member of a club
+ */
+export interface ClubMember {
+	/**
+	 * The account ID of the player
+	 */
+	accountId: string;
+
+	/**
+	 * The display name of the player
+	 */
+	displayName: string;
+
+	/**
+	 * Whether the player owns the club
+	 */
+	isOwner: boolean;
+}
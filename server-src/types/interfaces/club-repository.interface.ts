@@ -0,0 +1,56 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+// Internal Imports
+import type { TMNextClub } from '../types';
+
+/**
+ * Interface for a backend that stores the clubs
+ */
+export interface ClubRepository {
+	/**
+	 * Create a club
+	 * @param club The club to create
+	 * @returns The new club, or null if another club already uses the name
+	 */
+	create(club: Pick<TMNextClub, 'name' | 'tag' | 'ownerId' | 'memberIds' | 'invitedAccountIds' | 'inviteCode'>): Promise<TMNextClub | null>;
+
+	/**
+	 * Find a club by its ID
+	 * @param clubId The ID of the club
+	 * @returns The club, or null if it does not exist
+	 */
+	findById(clubId: string): Promise<TMNextClub | null>;
+
+	/**
+	 * Find the clubs a player is a member of
+	 * @param playerId The database ID of the player
+	 * @returns The clubs, oldest first
+	 */
+	findByMember(playerId: ObjectId): Promise<Array<TMNextClub>>;
+
+	/**
+	 * Invite a player to a club
+	 * @param clubId The ID of the club
+	 * @param accountId The account ID of the player
+	 * @returns The updated club, or null if it does not exist
+	 */
+	addInvite(clubId: string, accountId: string): Promise<TMNextClub | null>;
+
+	/**
+	 * Add a player to the members of a club unless it is full, removing their invite
+	 * @param clubId The ID of the club
+	 * @param playerId The database ID of the player
+	 * @param accountId The account ID of the player
+	 * @param maxMembers The maximum number of members the club can have
+	 * @returns The updated club, or null if it does not exist or is full
+	 */
+	addMember(clubId: string, playerId: ObjectId, accountId: string, maxMembers: number): Promise<TMNextClub | null>;
+
+	/**
+	 * Remove a player from every club they are a member of, handing the clubs they own to their oldest remaining member and deleting the clubs left without members
+	 * @param playerId The database ID of the player
+	 * @returns The number of clubs the player was removed from
+	 */
+	removeMember(playerId: ObjectId): Promise<number>;
+}
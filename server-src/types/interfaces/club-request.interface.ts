@@ -0,0 +1,22 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Club Request
+ */
+export interface ClubRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: ClubRequestBody;
+}
+
+/**
+ * Interface for the Club Request Body
+ */
+interface ClubRequestBody {
+	/**
+	 * The ID of the club
+	 */
+	clubId: string;
+}
@@ -0,0 +1,27 @@
+// Internal Imports
+import type { AuthenticatedRequest, SaveMapData } from '../types';
+
+/**
+ * Interface for the Correct Map Request (an admin overwriting the details of a map)
+ */
+export interface CorrectMapRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: CorrectMapRequestBody;
+}
+
+/**
+ * Interface for the Correct Map Request Body
+ */
+interface CorrectMapRequestBody extends SaveMapData {
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+
+	/**
+	 * The reason for the correction, recorded in the audit log
+	 */
+	reason?: string;
+}
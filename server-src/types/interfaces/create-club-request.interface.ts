@@ -0,0 +1,27 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Create Club Request
+ */
+export interface CreateClubRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: CreateClubRequestBody;
+}
+
+/**
+ * Interface for the Create Club Request Body
+ */
+interface CreateClubRequestBody {
+	/**
+	 * The name of the club
+	 */
+	name: string;
+
+	/**
+	 * The short tag of the club
+	 */
+	tag?: string;
+}
@@ -0,0 +1,19 @@
+/**
+ * Interface for the validated settings of the connection to MongoDB
+ */
+export interface DatabaseConfig {
+	/**
+	 * The MongoDB connection string (MONGO_URI, or built from the MONGO_* parts)
+	 */
+	mongoUri: string;
+
+	/**
+	 * The number of times to retry connecting to MongoDB before giving up
+	 */
+	mongoConnectRetries: number;
+
+	/**
+	 * The delay before the first retry in milliseconds (doubled after every retry)
+	 */
+	mongoConnectRetryDelayMs: number;
+}
@@ -0,0 +1,22 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Delete Account Request
+ */
+export interface DeleteAccountRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: DeleteAccountRequestBody;
+}
+
+/**
+ * Interface for the Delete Account Request Body
+ */
+interface DeleteAccountRequestBody {
+	/**
+	 * The account ID of the player, sent again to confirm the deletion
+	 */
+	confirmAccountId: string;
+}
@@ -0,0 +1,19 @@
+/**
+ * Interface for the envelope every failed request is answered with
+ */
+export interface ErrorResponse {
+	/**
+	 * Whether the request succeeded (always false)
+	 */
+	success: false;
+
+	/**
+	 * The machine-readable error code
+	 */
+	code: string;
+
+	/**
+	 * The human-readable error message
+	 */
+	error: string;
+}
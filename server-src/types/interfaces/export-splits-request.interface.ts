@@ -0,0 +1,27 @@
+// Internal Imports
+import type { AuthenticatedRequest, SplitExportFormat } from '../types';
+
+/**
+ * Interface for the Export Splits Request
+ */
+export interface ExportSplitsRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: ExportSplitsRequestBody;
+}
+
+/**
+ * Interface for the Export Splits Request Body
+ */
+interface ExportSplitsRequestBody {
+	/**
+	 * The ID of the map to export the runs of (every map if missing)
+	 */
+	mapId?: string;
+
+	/**
+	 * The format of the export
+	 */
+	format: SplitExportFormat;
+}
@@ -0,0 +1,47 @@
+// Internal Imports
+import type { SplitStatus, SplitSuspicionFlag } from '../types';
+
+/**
+ * Interface for a run in an export of a player's splits
+ */
+export interface ExportedRun {
+	/**
+	 * The ID of the split
+	 */
+	id: string;
+
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+
+	/**
+	 * The cumulative checkpoint times in milliseconds
+	 */
+	checkpointTimes: number[];
+
+	/**
+	 * The final finish time in milliseconds
+	 */
+	totalTime: number;
+
+	/**
+	 * The date of the run
+	 */
+	runDate: Date;
+
+	/**
+	 * Whether the split counts towards global queries or is held back for review
+	 */
+	status: SplitStatus;
+
+	/**
+	 * The reasons the split was flagged as suspicious
+	 */
+	flags: SplitSuspicionFlag[];
+
+	/**
+	 * The ID the client generated for the run, or null if it sent none
+	 */
+	clientRunId: string | null;
+}
@@ -0,0 +1,52 @@
+// Internal Imports
+import type { HistorySource } from '../types';
+
+/**
+ * Interface for the estimated distribution of a run's finish time
+ */
+export interface FinishDistribution {
+	/**
+	 * The runs the estimate is based on
+	 */
+	source: HistorySource;
+
+	/**
+	 * The number of runs the estimate is based on
+	 */
+	sampleSize: number;
+
+	/**
+	 * The number of checkpoints passed so far
+	 */
+	currentCheckpoint: number;
+
+	/**
+	 * The number of checkpoints to finish, including the finish
+	 */
+	totalCheckpoints: number;
+
+	/**
+	 * The median finish time in milliseconds
+	 */
+	median: number;
+
+	/**
+	 * The 10th percentile (optimistic) finish time in milliseconds
+	 */
+	p10: number;
+
+	/**
+	 * The 90th percentile (pessimistic) finish time in milliseconds
+	 */
+	p90: number;
+
+	/**
+	 * The personal best of the player in milliseconds, or null if they have none
+	 */
+	personalBest: number | null;
+
+	/**
+	 * The probability (0 to 1) of beating the personal best, or null if there is none
+	 */
+	personalBestProbability: number | null;
+}
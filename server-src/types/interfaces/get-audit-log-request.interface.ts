@@ -0,0 +1,37 @@
+// Internal Imports
+import type { AuditAction, AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Get Audit Log Request
+ */
+export interface GetAuditLogRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: GetAuditLogRequestBody;
+}
+
+/**
+ * Interface for the Get Audit Log Request Body
+ */
+interface GetAuditLogRequestBody {
+	/**
+	 * The action of the entries (every action if missing)
+	 */
+	action?: AuditAction;
+
+	/**
+	 * The account ID of the player who took the action or had it taken on them (every player if missing)
+	 */
+	accountId?: string;
+
+	/**
+	 * The page number (starting at 1)
+	 */
+	page?: number;
+
+	/**
+	 * The number of entries per page
+	 */
+	pageSize?: number;
+}
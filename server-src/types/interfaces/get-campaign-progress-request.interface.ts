@@ -0,0 +1,27 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Get Campaign Progress Request
+ */
+export interface GetCampaignProgressRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: GetCampaignProgressRequestBody;
+}
+
+/**
+ * Interface for the Get Campaign Progress Request Body
+ */
+interface GetCampaignProgressRequestBody {
+	/**
+	 * The ID of the campaign
+	 */
+	campaignId: string;
+
+	/**
+	 * The account ID of the player whose progress to get (defaults to the requesting player)
+	 */
+	accountId?: string;
+}
@@ -0,0 +1,32 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Get Campaign Standings Request
+ */
+export interface GetCampaignStandingsRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: GetCampaignStandingsRequestBody;
+}
+
+/**
+ * Interface for the Get Campaign Standings Request Body
+ */
+interface GetCampaignStandingsRequestBody {
+	/**
+	 * The ID of the campaign
+	 */
+	campaignId: string;
+
+	/**
+	 * The page number (starting at 1)
+	 */
+	page?: number;
+
+	/**
+	 * The number of entries per page
+	 */
+	pageSize?: number;
+}
@@ -0,0 +1,37 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Get Club Leaderboard Request
+ */
+export interface GetClubLeaderboardRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: GetClubLeaderboardRequestBody;
+}
+
+/**
+ * Interface for the Get Club Leaderboard Request Body
+ */
+interface GetClubLeaderboardRequestBody {
+	/**
+	 * The ID of the club
+	 */
+	clubId: string;
+
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+
+	/**
+	 * The page number (starting at 1)
+	 */
+	page?: number;
+
+	/**
+	 * The number of entries per page
+	 */
+	pageSize?: number;
+}
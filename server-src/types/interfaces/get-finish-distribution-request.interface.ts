@@ -0,0 +1,27 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Get Finish Distribution Request
+ */
+export interface GetFinishDistributionRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: GetFinishDistributionRequestBody;
+}
+
+/**
+ * Interface for the Get Finish Distribution Request Body
+ */
+interface GetFinishDistributionRequestBody {
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+
+	/**
+	 * The cumulative times of the checkpoints passed so far
+	 */
+	checkpointTimes: number[];
+}
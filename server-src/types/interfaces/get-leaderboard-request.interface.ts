@@ -0,0 +1,32 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Get Leaderboard Request
+ */
+export interface GetLeaderboardRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: GetLeaderboardRequestBody;
+}
+
+/**
+ * Interface for the Get Leaderboard Request Body
+ */
+interface GetLeaderboardRequestBody {
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+
+	/**
+	 * The page number (starting at 1)
+	 */
+	page?: number;
+
+	/**
+	 * The number of entries per page
+	 */
+	pageSize?: number;
+}
@@ -0,0 +1,22 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Get Map Request
+ */
+export interface GetMapRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: GetMapRequestBody;
+}
+
+/**
+ * Interface for the Get Map Request Body
+ */
+interface GetMapRequestBody {
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+}
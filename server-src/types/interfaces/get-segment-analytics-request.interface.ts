@@ -0,0 +1,22 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Get Segment Analytics Request
+ */
+export interface GetSegmentAnalyticsRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: GetSegmentAnalyticsRequestBody;
+}
+
+/**
+ * Interface for the Get Segment Analytics Request Body
+ */
+interface GetSegmentAnalyticsRequestBody {
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+}
@@ -1,5 +1,5 @@
 // Internal Imports
-import type { AuthenticatedRequest, GetSplitsType } from '../types';
+import type { AuthenticatedRequest, GetSplitsType, SplitTarget } from '../types';
 
 /**
  * Interface for the Save Split Request
@@ -14,7 +14,7 @@ export interface GetSplitsRequest extends AuthenticatedRequest {
 /**
  * Interface for the Save Split Request Body
  */
-interface GetSplitsRequestBody {
+interface GetSplitsRequestBody extends SplitTarget {
 	/**
 	 * The ID of the map
 	 */
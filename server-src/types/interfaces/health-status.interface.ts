@@ -0,0 +1,19 @@
+/**
+ * Interface for the health of the server
+ */
+export interface HealthStatus {
+	/**
+	 * Whether the server can answer requests (ok), or is waiting for its database (unavailable)
+	 */
+	status: 'ok' | 'unavailable';
+
+	/**
+	 * The state of the MongoDB connection, or memory for the in-memory storage
+	 */
+	database: string;
+
+	/**
+	 * The time of the check
+	 */
+	timestamp: string;
+}
@@ -0,0 +1,32 @@
+// Internal Imports
+import type { AuthenticatedRequest, SplitImportFormat } from '../types';
+
+/**
+ * Interface for the Import Splits Request
+ */
+export interface ImportSplitsRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: ImportSplitsRequestBody;
+}
+
+/**
+ * Interface for the Import Splits Request Body
+ */
+export interface ImportSplitsRequestBody {
+	/**
+	 * The format of the file
+	 */
+	format: SplitImportFormat;
+
+	/**
+	 * The Trackmania ID of the map the runs were driven on (CSV rows with a mapId column use their own)
+	 */
+	mapId?: string;
+
+	/**
+	 * The content of the file
+	 */
+	content: string;
+}
@@ -0,0 +1,27 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Invite Club Member Request
+ */
+export interface InviteClubMemberRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: InviteClubMemberRequestBody;
+}
+
+/**
+ * Interface for the Invite Club Member Request Body
+ */
+interface InviteClubMemberRequestBody {
+	/**
+	 * The ID of the club
+	 */
+	clubId: string;
+
+	/**
+	 * The account ID of the player to invite
+	 */
+	accountId: string;
+}
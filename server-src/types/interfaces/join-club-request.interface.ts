@@ -0,0 +1,27 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Join Club Request
+ */
+export interface JoinClubRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: JoinClubRequestBody;
+}
+
+/**
+ * Interface for the Join Club Request Body
+ */
+interface JoinClubRequestBody {
+	/**
+	 * The ID of the club
+	 */
+	clubId: string;
+
+	/**
+	 * The invite code of the club, not needed if the player was invited
+	 */
+	inviteCode?: string;
+}
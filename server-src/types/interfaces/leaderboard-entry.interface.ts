@@ -0,0 +1,39 @@
+/**
+ * Interface for a single row of a map leaderboard
+ */
+export interface LeaderboardEntry {
+	/**
+	 * The rank of the player on the map (tied times share a rank)
+	 */
+	rank: number;
+
+	/**
+	 * The ID of the split the player set their best time with
+	 */
+	splitId: string;
+
+	/**
+	 * The players ID from Openplanet
+	 */
+	accountId: string;
+
+	/**
+	 * The players display name
+	 */
+	displayName: string;
+
+	/**
+	 * The best finish time of the player in milliseconds
+	 */
+	totalTime: number;
+
+	/**
+	 * The date of the run
+	 */
+	runDate: Date;
+
+	/**
+	 * The gap to the first place in milliseconds
+	 */
+	gap: number;
+}
@@ -0,0 +1,37 @@
+// Internal Imports
+import type { LeaderboardEntry } from '../types';
+
+/**
+ * Interface for a page of a map leaderboard
+ */
+export interface Leaderboard {
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+
+	/**
+	 * The page number (starting at 1)
+	 */
+	page: number;
+
+	/**
+	 * The number of entries per page
+	 */
+	pageSize: number;
+
+	/**
+	 * The total number of players with a time on the map
+	 */
+	totalPlayers: number;
+
+	/**
+	 * The entries on the requested page
+	 */
+	entries: LeaderboardEntry[];
+
+	/**
+	 * The entry of the requesting player, or null if they have no time on the map
+	 */
+	playerEntry: LeaderboardEntry | null;
+}
@@ -0,0 +1,42 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the List Moderated Splits Request
+ */
+export interface ListModeratedSplitsRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: ListModeratedSplitsRequestBody;
+}
+
+/**
+ * Interface for the List Moderated Splits Request Body
+ */
+interface ListModeratedSplitsRequestBody {
+	/**
+	 * Whether to only list the splits that were quarantined or carry suspicion flags
+	 */
+	flaggedOnly?: boolean;
+
+	/**
+	 * The ID of the map to list the splits of (every map if missing)
+	 */
+	mapId?: string;
+
+	/**
+	 * The account ID of the player to list the splits of (every player if missing)
+	 */
+	accountId?: string;
+
+	/**
+	 * The page number (starting at 1)
+	 */
+	page?: number;
+
+	/**
+	 * The number of splits per page
+	 */
+	pageSize?: number;
+}
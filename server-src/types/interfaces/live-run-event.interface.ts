@@ -0,0 +1,52 @@
+// Internal Imports
+import type { GetSplitsType, LiveRunEventType, PredictionResult } from '../types';
+
+/**
+ * Interface for an event of a run in progress, streamed to the viewers of the player
+ */
+export interface LiveRunEvent {
+	/**
+	 * The kind of event
+	 */
+	type: LiveRunEventType;
+
+	/**
+	 * The account ID of the player
+	 */
+	accountId: string;
+
+	/**
+	 * The display name of the player
+	 */
+	displayName: string;
+
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+
+	/**
+	 * The cumulative times of the checkpoints passed so far
+	 */
+	checkpointTimes: number[];
+
+	/**
+	 * The predicted finish time of the run
+	 */
+	prediction: PredictionResult;
+
+	/**
+	 * The type of split the run is compared against
+	 */
+	comparison: GetSplitsType;
+
+	/**
+	 * The cumulative checkpoint times of the comparison split, or null if there is none
+	 */
+	comparisonCheckpointTimes: number[] | null;
+
+	/**
+	 * The time the event was pushed
+	 */
+	timestamp: Date;
+}
@@ -0,0 +1,32 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+/**
+ * Interface for the filter of the best times of the players across several maps
+ */
+export interface MapBestTimeQuery {
+	/**
+	 * The database IDs of the maps
+	 */
+	mapIds: ObjectId[];
+
+	/**
+	 * The database ID of the player, or undefined for the best times of every player
+	 */
+	playerId?: ObjectId;
+
+	/**
+	 * Whether to only use the splits that count towards global queries (skipping quarantined and hidden splits and the splits of banned players)
+	 */
+	globalOnly?: boolean;
+
+	/**
+	 * Whether to only use the accepted splits (skipping quarantined and hidden splits, but keeping the splits of banned players)
+	 */
+	acceptedOnly?: boolean;
+
+	/**
+	 * The checkpoint time counts the splits must have on each map, by the database ID of the map (maps left out allow any count)
+	 */
+	checkpointTimesLengths?: Record<string, Array<number>>;
+}
@@ -0,0 +1,32 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+/**
+ * Interface for the best time of a player on a map
+ */
+export interface MapBestTime {
+	/**
+	 * The database ID of the player
+	 */
+	playerId: ObjectId;
+
+	/**
+	 * The database ID of the map
+	 */
+	mapId: ObjectId;
+
+	/**
+	 * The database ID of the split the time was set with
+	 */
+	splitId: ObjectId;
+
+	/**
+	 * The finish time in milliseconds
+	 */
+	totalTime: number;
+
+	/**
+	 * The date of the run
+	 */
+	runDate: Date;
+}
@@ -0,0 +1,50 @@
+// Internal Imports
+import type { SaveMapData, TMNextMap } from '../types';
+
+/**
+ * Interface for a backend that stores the maps
+ */
+export interface MapRepository {
+	/**
+	 * Find a map by its ID
+	 * @param mapId The ID of the map
+	 * @returns The map, or null if it does not exist
+	 */
+	findByMapId(mapId: string): Promise<TMNextMap | null>;
+
+	/**
+	 * Find maps by their IDs
+	 * @param mapIds The IDs of the maps
+	 * @returns The maps that exist
+	 */
+	findByMapIds(mapIds: string[]): Promise<Array<TMNextMap>>;
+
+	/**
+	 * Find every map
+	 * @returns The maps
+	 */
+	findAll(): Promise<Array<TMNextMap>>;
+
+	/**
+	 * Create a map without details
+	 * @param mapId The ID of the map
+	 * @returns The new map
+	 */
+	create(mapId: string): Promise<TMNextMap>;
+
+	/**
+	 * Create a map or overwrite its details
+	 * @param mapId The ID of the map
+	 * @param details The details to set
+	 * @returns The map
+	 */
+	save(mapId: string, details: Partial<SaveMapData>): Promise<TMNextMap>;
+
+	/**
+	 * Create a map or set only the details it does not have yet, keeping the ones already stored
+	 * @param mapId The ID of the map
+	 * @param details The details to set where missing
+	 * @returns The map
+	 */
+	fillDetails(mapId: string, details: Partial<SaveMapData>): Promise<TMNextMap>;
+}
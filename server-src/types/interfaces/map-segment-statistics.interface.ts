@@ -0,0 +1,35 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+// Internal Imports
+import { type SegmentStatistics, type TimestampedDocument } from '../types';
+
+/**
+ * Interface for the precomputed segment statistics of a map
+ */
+export interface MapSegmentStatistics extends TimestampedDocument {
+	/**
+	 * The ID of the Map
+	 */
+	mapId: ObjectId;
+
+	/**
+	 * The number of checkpoint times of the personal bests the statistics are based on
+	 */
+	checkpointCount: number;
+
+	/**
+	 * The number of personal bests the statistics are based on
+	 */
+	playerCount: number;
+
+	/**
+	 * The statistics of every segment
+	 */
+	segments: SegmentStatistics[];
+
+	/**
+	 * The date the statistics were computed
+	 */
+	computedAt: Date;
+}
@@ -0,0 +1,24 @@
+/**
+ * Interface for the values of a metric for one set of labels
+ */
+export interface MetricSeries {
+	/**
+	 * The labels of the series
+	 */
+	labels: Record<string, string>;
+
+	/**
+	 * The value of a counter, or the sum of the observations of a histogram
+	 */
+	value: number;
+
+	/**
+	 * The number of observations of a histogram
+	 */
+	count: number;
+
+	/**
+	 * The number of observations in every bucket of a histogram (not cumulative)
+	 */
+	bucketCounts: number[];
+}
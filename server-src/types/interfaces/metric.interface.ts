@@ -0,0 +1,27 @@
+// Internal Imports
+import type { MetricType } from '../types';
+
+/**
+ * Interface for a Prometheus metric
+ */
+export interface Metric {
+	/**
+	 * The name of the metric
+	 */
+	name: string;
+
+	/**
+	 * The description of the metric
+	 */
+	help: string;
+
+	/**
+	 * The type of the metric
+	 */
+	type: MetricType;
+
+	/**
+	 * The upper bounds of the buckets of a histogram, in ascending order (empty for counters)
+	 */
+	buckets: number[];
+}
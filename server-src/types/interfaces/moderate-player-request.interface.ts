@@ -0,0 +1,27 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Moderate Player Request (banning or unbanning a player)
+ */
+export interface ModeratePlayerRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: ModeratePlayerRequestBody;
+}
+
+/**
+ * Interface for the Moderate Player Request Body
+ */
+interface ModeratePlayerRequestBody {
+	/**
+	 * The account ID of the player
+	 */
+	accountId: string;
+
+	/**
+	 * The reason for the action, recorded in the audit log
+	 */
+	reason?: string;
+}
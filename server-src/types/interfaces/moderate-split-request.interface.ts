@@ -0,0 +1,32 @@
+// Internal Imports
+import type { AuthenticatedRequest, SplitStatus } from '../types';
+
+/**
+ * Interface for the Moderate Split Request (deleting a split or changing its status)
+ */
+export interface ModerateSplitRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: ModerateSplitRequestBody;
+}
+
+/**
+ * Interface for the Moderate Split Request Body
+ */
+interface ModerateSplitRequestBody {
+	/**
+	 * The ID of the split
+	 */
+	splitId: string;
+
+	/**
+	 * The new review status of the split (only used when changing the status)
+	 */
+	status?: SplitStatus;
+
+	/**
+	 * The reason for the action, recorded in the audit log
+	 */
+	reason?: string;
+}
@@ -0,0 +1,24 @@
+/**
+ * Interface for the moderation state of a player
+ */
+export interface ModeratedPlayer {
+	/**
+	 * The account ID of the player
+	 */
+	accountId: string;
+
+	/**
+	 * The display name of the player
+	 */
+	displayName: string;
+
+	/**
+	 * The date the player was banned, or null if they are not banned
+	 */
+	bannedAt: Date | null;
+
+	/**
+	 * The reason the admin gave for the ban, or null
+	 */
+	banReason: string | null;
+}
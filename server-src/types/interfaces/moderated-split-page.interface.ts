@@ -0,0 +1,27 @@
+// Internal Imports
+import type { ModeratedSplit } from '../types';
+
+/**
+ * Interface for a page of the splits admins review, most recently uploaded first
+ */
+export interface ModeratedSplitPage {
+	/**
+	 * The page number (starting at 1)
+	 */
+	page: number;
+
+	/**
+	 * The number of splits per page
+	 */
+	pageSize: number;
+
+	/**
+	 * The total number of splits matching the filter
+	 */
+	total: number;
+
+	/**
+	 * The splits on the requested page
+	 */
+	splits: ModeratedSplit[];
+}
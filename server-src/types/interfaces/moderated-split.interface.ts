@@ -0,0 +1,62 @@
+// Internal Imports
+import type { SplitStatus, SplitSuspicionFlag } from '../types';
+
+/**
+ * Interface for a split as admins review it
+ */
+export interface ModeratedSplit {
+	/**
+	 * The ID of the split
+	 */
+	id: string;
+
+	/**
+	 * The account ID of the player
+	 */
+	accountId: string;
+
+	/**
+	 * The display name of the player
+	 */
+	displayName: string;
+
+	/**
+	 * Whether the player is banned
+	 */
+	playerBanned: boolean;
+
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+
+	/**
+	 * The cumulative checkpoint times in milliseconds
+	 */
+	checkpointTimes: number[];
+
+	/**
+	 * The final finish time in milliseconds
+	 */
+	totalTime: number;
+
+	/**
+	 * The date of the run
+	 */
+	runDate: Date;
+
+	/**
+	 * The date the run was uploaded
+	 */
+	uploadedAt: Date;
+
+	/**
+	 * The review status of the split
+	 */
+	status: SplitStatus;
+
+	/**
+	 * The reasons the split was flagged as suspicious
+	 */
+	flags: SplitSuspicionFlag[];
+}
@@ -0,0 +1,29 @@
+/**
+ * Interface for the JSON schema of an object, tied to the interface it describes so the two cannot drift apart
+ */
+export interface ObjectSchema<T> {
+	/**
+	 * The JSON type (always object)
+	 */
+	type: 'object';
+
+	/**
+	 * The description shown in the API documentation
+	 */
+	description?: string;
+
+	/**
+	 * The properties that must be present
+	 */
+	required?: Array<keyof T & string>;
+
+	/**
+	 * The schema of every property of the interface
+	 */
+	properties: { [K in keyof T]-?: object };
+
+	/**
+	 * Whether properties outside of the interface are allowed
+	 */
+	additionalProperties?: boolean;
+}
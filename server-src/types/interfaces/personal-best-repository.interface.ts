@@ -0,0 +1,40 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+// Internal Imports
+import type { PersonalBestUpdate, TMNextPersonalBest } from '../types';
+
+/**
+ * Interface for a backend that stores the personal best record of every player on every map
+ */
+export interface PersonalBestRepository {
+	/**
+	 * Find the personal best record of a player on a map
+	 * @param playerId The database ID of the player
+	 * @param mapId The database ID of the map
+	 * @returns The personal best record, or null if the player has none
+	 */
+	findByPlayerAndMap(playerId: ObjectId, mapId: ObjectId): Promise<TMNextPersonalBest | null>;
+
+	/**
+	 * Replace the personal best record of a player on a map in a single atomic step if the split is faster
+	 * @param personalBest The personal best the split would set
+	 * @returns Whether the split became the personal best, and the time it replaced
+	 */
+	saveIfFaster(personalBest: Pick<TMNextPersonalBest, 'playerId' | 'mapId' | 'splitId' | 'totalTime' | 'runDate'>): Promise<PersonalBestUpdate>;
+
+	/**
+	 * Delete every personal best record of a player
+	 * @param playerId The database ID of the player
+	 * @returns The number of deleted records
+	 */
+	deleteByPlayer(playerId: ObjectId): Promise<number>;
+
+	/**
+	 * Delete the personal best record of a player on a map
+	 * @param playerId The database ID of the player
+	 * @param mapId The database ID of the map
+	 * @returns The number of deleted records
+	 */
+	deleteByPlayerAndMap(playerId: ObjectId, mapId: ObjectId): Promise<number>;
+}
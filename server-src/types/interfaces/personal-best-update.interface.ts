@@ -0,0 +1,14 @@
+/**
+ * Interface for the outcome of offering a split as the personal best of its player
+ */
+export interface PersonalBestUpdate {
+	/**
+	 * Whether the split became the personal best
+	 */
+	isPersonalBest: boolean;
+
+	/**
+	 * The time of the personal best before the split, or null if the player had none
+	 */
+	previousTime: number | null;
+}
@@ -0,0 +1,30 @@
+// Internal Imports
+import type { PlayerBan } from '../types';
+
+/**
+ * Interface for a backend that stores the bans of the accounts
+ */
+export interface PlayerBanRepository {
+	/**
+	 * Find the ban of an account
+	 * @param accountId The account ID of the player
+	 * @returns The ban, or null if the account is not banned
+	 */
+	findByAccountId(accountId: string): Promise<PlayerBan | null>;
+
+	/**
+	 * Ban an account or replace its ban
+	 * @param accountId The account ID of the player
+	 * @param bannedAt The date of the ban
+	 * @param reason The reason for the ban
+	 * @returns The ban
+	 */
+	save(accountId: string, bannedAt: Date, reason: string | null): Promise<PlayerBan>;
+
+	/**
+	 * Lift the ban of an account
+	 * @param accountId The account ID of the player
+	 * @returns Whether the account was banned
+	 */
+	delete(accountId: string): Promise<boolean>;
+}
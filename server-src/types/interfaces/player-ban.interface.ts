@@ -0,0 +1,22 @@
+// Internal Imports
+import { type TimestampedDocument } from '../types';
+
+/**
+ * Interface for the ban of an account (kept apart from the player, so it outlives a deleted account)
+ */
+export interface PlayerBan extends TimestampedDocument {
+	/**
+	 * The account ID of the banned player
+	 */
+	accountId: string;
+
+	/**
+	 * The date an admin banned the player
+	 */
+	bannedAt: Date;
+
+	/**
+	 * The reason the admin gave for the ban, or null
+	 */
+	reason: string | null;
+}
@@ -0,0 +1,29 @@
+/**
+ * Interface for what the server stores about a player
+ */
+export interface PlayerProfile {
+	/**
+	 * The account ID of the player
+	 */
+	accountId: string;
+
+	/**
+	 * The display name of the player
+	 */
+	displayName: string;
+
+	/**
+	 * The date the player first used the server
+	 */
+	createdAt: Date;
+
+	/**
+	 * The number of runs the player saved
+	 */
+	runCount: number;
+
+	/**
+	 * The number of maps the player saved runs on
+	 */
+	mapCount: number;
+}
@@ -0,0 +1,51 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+// Internal Imports
+import type { TMNextPlayer } from '../types';
+
+/**
+ * Interface for a backend that stores the players
+ */
+export interface PlayerRepository {
+	/**
+	 * Find a player by their account ID
+	 * @param accountId The account ID of the player
+	 * @returns The player, or null if they do not exist
+	 */
+	findByAccountId(accountId: string): Promise<TMNextPlayer | null>;
+
+	/**
+	 * Find players by their database IDs
+	 * @param playerIds The database IDs of the players
+	 * @returns The players that exist
+	 */
+	findByIds(playerIds: ObjectId[]): Promise<Array<TMNextPlayer>>;
+
+	/**
+	 * Create a player
+	 * @param accountId The account ID of the player
+	 * @param displayName The display name of the player
+	 * @param ban The ban the player starts with, if their account was banned before
+	 * @returns The new player
+	 */
+	create(accountId: string, displayName: string, ban?: Pick<TMNextPlayer, 'bannedAt' | 'banReason'>): Promise<TMNextPlayer>;
+
+	/**
+	 * Update the details of a player
+	 * @param accountId The account ID of the player
+	 * @param update The details to change
+	 * @returns The updated player, or null if they do not exist
+	 */
+	update(
+		accountId: string,
+		update: Partial<Pick<TMNextPlayer, 'displayName' | 'bannedAt' | 'banReason' | 'liveSharing'>>,
+	): Promise<TMNextPlayer | null>;
+
+	/**
+	 * Delete a player
+	 * @param accountId The account ID of the player
+	 * @returns Whether the player existed
+	 */
+	delete(accountId: string): Promise<boolean>;
+}
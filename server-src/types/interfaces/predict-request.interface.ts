@@ -0,0 +1,42 @@
+// Internal Imports
+import type { AuthenticatedRequest, GetSplitsType, PredictorMethod, SplitTarget } from '../types';
+
+/**
+ * Interface for the Predict Request
+ */
+export interface PredictRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: PredictRequestBody;
+}
+
+/**
+ * Interface for the Predict Request Body
+ */
+export interface PredictRequestBody extends SplitTarget {
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+
+	/**
+	 * The cumulative times of the checkpoints passed so far
+	 */
+	checkpointTimes: number[];
+
+	/**
+	 * The method to predict with
+	 */
+	method: PredictorMethod;
+
+	/**
+	 * The type of split to compare against (defaults to the personal best)
+	 */
+	comparison?: GetSplitsType;
+
+	/**
+	 * The number of checkpoints to finish (defaults to the comparison split or the map's checkpoint count)
+	 */
+	totalCheckpoints?: number;
+}
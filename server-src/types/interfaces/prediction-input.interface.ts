@@ -0,0 +1,32 @@
+// Internal Imports
+import type { PredictorMethod } from '../types';
+
+/**
+ * Interface for the input of a finish time prediction
+ */
+export interface PredictionInput {
+	/**
+	 * The method to predict with
+	 */
+	method: PredictorMethod;
+
+	/**
+	 * The cumulative times of the checkpoints passed so far in milliseconds
+	 */
+	checkpointTimes: number[];
+
+	/**
+	 * The number of checkpoints to finish, including the finish
+	 */
+	totalCheckpoints: number;
+
+	/**
+	 * The cumulative checkpoint times of the split to compare against, or null if there is none
+	 */
+	comparisonCheckpointTimes: number[] | null;
+
+	/**
+	 * The weight of the best splits prediction in the hybrid method (defaults to the plugin's 0.7)
+	 */
+	hybridBestSplitsWeight?: number;
+}
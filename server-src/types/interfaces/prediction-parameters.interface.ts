@@ -0,0 +1,17 @@
+// Internal Imports
+import type { PredictorMethod } from '../types';
+
+/**
+ * Interface for the tunable parameters of the finish time predictions
+ */
+export interface PredictionParameters {
+	/**
+	 * The method the plugin predicts with until the player picks one
+	 */
+	defaultMethod: PredictorMethod;
+
+	/**
+	 * The weight of the best splits prediction in the hybrid method, between 0 and 1 (the linear prediction gets the rest)
+	 */
+	hybridBestSplitsWeight: number;
+}
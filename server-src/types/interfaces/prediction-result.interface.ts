@@ -0,0 +1,37 @@
+// Internal Imports
+import type { PredictorMethod } from '../types';
+
+/**
+ * Interface for the result of a finish time prediction
+ */
+export interface PredictionResult {
+	/**
+	 * The method that was predicted with
+	 */
+	method: PredictorMethod;
+
+	/**
+	 * The number of checkpoints passed so far
+	 */
+	currentCheckpoint: number;
+
+	/**
+	 * The number of checkpoints to finish, including the finish
+	 */
+	totalCheckpoints: number;
+
+	/**
+	 * The predicted finish time in milliseconds
+	 */
+	predictedTime: number;
+
+	/**
+	 * The finish time of the comparison split in milliseconds, or null if there is none
+	 */
+	comparisonTime: number | null;
+
+	/**
+	 * The predicted time minus the comparison time in milliseconds, or null if there is no comparison split
+	 */
+	delta: number | null;
+}
@@ -0,0 +1,12 @@
+// Internal Imports
+import type { AuthenticatedRequest, PredictRequestBody } from '../types';
+
+/**
+ * Interface for the Push Live Run Request
+ */
+export interface PushLiveRunRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request (the same as a prediction request)
+	 */
+	body: PredictRequestBody;
+}
@@ -0,0 +1,27 @@
+// Internal Imports
+import type { LeaderboardEntry } from '../types';
+
+/**
+ * Interface for a page of the players of a map ranked by their best split
+ */
+export interface RankedSplitPage {
+	/**
+	 * The number of ranked players
+	 */
+	totalPlayers: number;
+
+	/**
+	 * The time of the first place, or null if no player is ranked
+	 */
+	bestTime: number | null;
+
+	/**
+	 * The ranked players of the page
+	 */
+	entries: Array<Omit<LeaderboardEntry, 'gap'>>;
+
+	/**
+	 * The entry of the requested player, or null if they are not ranked
+	 */
+	playerEntry: Omit<LeaderboardEntry, 'gap'> | null;
+}
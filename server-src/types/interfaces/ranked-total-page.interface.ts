@@ -0,0 +1,22 @@
+// Internal Imports
+import type { CampaignStandingEntry } from '../types';
+
+/**
+ * Interface for a page of the players ranked by the number of maps they finished and then by the sum of their best times
+ */
+export interface RankedTotalPage {
+	/**
+	 * The number of ranked players
+	 */
+	totalPlayers: number;
+
+	/**
+	 * The ranked players of the page
+	 */
+	entries: Array<Omit<CampaignStandingEntry, 'missingMaps'>>;
+
+	/**
+	 * The entry of the requested player, or null if they are not ranked
+	 */
+	playerEntry: Omit<CampaignStandingEntry, 'missingMaps'> | null;
+}
@@ -0,0 +1,14 @@
+/**
+ * Interface for the state of a rate limit counter after a request was counted
+ */
+export interface RateLimitHit {
+	/**
+	 * The number of requests counted in the current window
+	 */
+	count: number;
+
+	/**
+	 * The time the current window ends at in milliseconds since the epoch
+	 */
+	resetAt: number;
+}
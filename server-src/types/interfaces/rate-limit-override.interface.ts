@@ -0,0 +1,14 @@
+/**
+ * Interface for a rate limit configured with a RATE_LIMIT_<NAME> environment variable
+ */
+export interface RateLimitOverride {
+	/**
+	 * The number of requests allowed per window
+	 */
+	max: number;
+
+	/**
+	 * The length of the window in seconds
+	 */
+	windowSeconds: number;
+}
@@ -0,0 +1,19 @@
+/**
+ * Interface for the limit of a rate limited route
+ */
+export interface RateLimitRule {
+	/**
+	 * The name of the limit (routes sharing a name share their counters)
+	 */
+	name: string;
+
+	/**
+	 * The number of requests allowed per window
+	 */
+	max: number;
+
+	/**
+	 * The length of the window in milliseconds
+	 */
+	windowMs: number;
+}
@@ -0,0 +1,22 @@
+// Internal Imports
+import type { RateLimitHit } from '../types';
+
+/**
+ * Interface for a backend that keeps the rate limit counters (in memory by default, or shared between servers)
+ */
+export interface RateLimitStore {
+	/**
+	 * Count a request against a counter, starting a new window if the previous one ended
+	 * @param key The key of the counter
+	 * @param windowMs The length of the window in milliseconds
+	 * @returns The state of the counter after the request was counted
+	 */
+	increment(key: string, windowMs: number): Promise<RateLimitHit>;
+
+	/**
+	 * Reset a counter
+	 * @param key The key of the counter
+	 * @returns void
+	 */
+	reset(key: string): Promise<void>;
+}
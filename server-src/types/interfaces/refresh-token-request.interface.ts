@@ -0,0 +1,9 @@
+import { FastifyRequest } from 'fastify';
+
+export interface RefreshTokenRequestBody {
+	refreshToken: string;
+}
+
+export type RefreshTokenRequest = FastifyRequest<{
+	Body: RefreshTokenRequestBody;
+}>;
@@ -0,0 +1,20 @@
+// Internal Imports
+import type { RemoteConfig, TMNextRemoteConfig } from '../types';
+
+/**
+ * Interface for a backend that stores the remote config
+ */
+export interface RemoteConfigRepository {
+	/**
+	 * Find the remote config
+	 * @returns The remote config, or null if it was never saved
+	 */
+	find(): Promise<TMNextRemoteConfig | null>;
+
+	/**
+	 * Create the remote config or replace its settings
+	 * @param settings The settings to set
+	 * @returns The remote config
+	 */
+	save(settings: RemoteConfig): Promise<TMNextRemoteConfig>;
+}
@@ -0,0 +1,32 @@
+// Internal Imports
+import type { GetSplitsType, PredictionParameters } from '../types';
+
+/**
+ * Interface for the settings the plugin loads from the server
+ */
+export interface RemoteConfig {
+	/**
+	 * The URL the plugin sends its requests to, or null to keep the one it loaded the config from
+	 */
+	apiUrl: string | null;
+
+	/**
+	 * The oldest plugin version the server accepts requests from (e.g. 3 or 3.1)
+	 */
+	minPluginVersion: string;
+
+	/**
+	 * Whether the server saves new runs
+	 */
+	serverSavesEnabled: boolean;
+
+	/**
+	 * The types of splits that can be fetched and compared against
+	 */
+	allowedSplitTypes: GetSplitsType[];
+
+	/**
+	 * The tunable parameters of the finish time predictions
+	 */
+	prediction: PredictionParameters;
+}
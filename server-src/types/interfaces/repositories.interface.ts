@@ -0,0 +1,74 @@
+// Internal Imports
+import type {
+	AuditLogRepository,
+	CampaignRepository,
+	ClubRepository,
+	MapRepository,
+	PersonalBestRepository,
+	PlayerBanRepository,
+	PlayerRepository,
+	RemoteConfigRepository,
+	RevokedTokenRepository,
+	SegmentStatisticsRepository,
+	SplitRepository,
+} from '../types';
+
+/**
+ * Interface for the set of repositories the services store their data in
+ */
+export interface Repositories {
+	/**
+	 * The repository of the players
+	 */
+	players: PlayerRepository;
+
+	/**
+	 * The repository of the bans of the accounts
+	 */
+	playerBans: PlayerBanRepository;
+
+	/**
+	 * The repository of the maps
+	 */
+	maps: MapRepository;
+
+	/**
+	 * The repository of the splits
+	 */
+	splits: SplitRepository;
+
+	/**
+	 * The repository of the personal best records
+	 */
+	personalBests: PersonalBestRepository;
+
+	/**
+	 * The repository of the segment statistics of the maps
+	 */
+	segmentStatistics: SegmentStatisticsRepository;
+
+	/**
+	 * The repository of the revoked tokens
+	 */
+	revokedTokens: RevokedTokenRepository;
+
+	/**
+	 * The repository of the audit log
+	 */
+	auditLog: AuditLogRepository;
+
+	/**
+	 * The repository of the clubs
+	 */
+	clubs: ClubRepository;
+
+	/**
+	 * The repository of the campaigns
+	 */
+	campaigns: CampaignRepository;
+
+	/**
+	 * The repository of the remote config
+	 */
+	remoteConfig: RemoteConfigRepository;
+}
@@ -0,0 +1,36 @@
+/**
+ * Interface for a backend that stores the revoked tokens and accounts until their tokens expire
+ */
+export interface RevokedTokenRepository {
+	/**
+	 * Revoke a token
+	 * @param tokenId The unique ID of the token
+	 * @param accountId The account ID of the token's user
+	 * @param expiresAt The date the token expires
+	 * @returns Whether this call revoked the token (false if it was already revoked)
+	 */
+	revoke(tokenId: string, accountId: string, expiresAt: Date): Promise<boolean>;
+
+	/**
+	 * Check if a token was revoked
+	 * @param tokenId The unique ID of the token
+	 * @returns Whether the token was revoked
+	 */
+	isRevoked(tokenId: string): Promise<boolean>;
+
+	/**
+	 * Revoke every token issued to an account until a date (a later revocation of the account is kept)
+	 * @param accountId The account ID of the user
+	 * @param revokedAt The date the tokens are revoked until
+	 * @param expiresAt The date the last revoked token expires
+	 * @returns void
+	 */
+	revokeAccount(accountId: string, revokedAt: Date, expiresAt: Date): Promise<void>;
+
+	/**
+	 * Get the date every token of an account was revoked until
+	 * @param accountId The account ID of the user
+	 * @returns The date the tokens were revoked until, or null if they never were
+	 */
+	getAccountRevokedAt(accountId: string): Promise<Date | null>;
+}
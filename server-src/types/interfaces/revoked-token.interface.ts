@@ -0,0 +1,22 @@
+// Internal Imports
+import { type TimestampedDocument } from '../types';
+
+/**
+ * Interface for a Revoked Token
+ */
+export interface RevokedToken extends TimestampedDocument {
+	/**
+	 * The unique ID of the token
+	 */
+	tokenId: string;
+
+	/**
+	 * The account ID of the token's user
+	 */
+	accountId: string;
+
+	/**
+	 * The date the token expires (the revocation is removed after that)
+	 */
+	expiresAt: Date;
+}
@@ -0,0 +1,27 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Run Backtest Request
+ */
+export interface RunBacktestRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: RunBacktestRequestBody;
+}
+
+/**
+ * Interface for the Run Backtest Request Body
+ */
+interface RunBacktestRequestBody {
+	/**
+	 * The IDs of the maps to replay the runs of
+	 */
+	mapIds: string[];
+
+	/**
+	 * The account ID of the player to only replay the runs of, or undefined for every player
+	 */
+	accountId?: string;
+}
@@ -0,0 +1,17 @@
+// Internal Imports
+import type { PredictionResult } from '../types';
+
+/**
+ * Interface for the prediction of a run with the split it was compared against
+ */
+export interface RunPrediction {
+	/**
+	 * The prediction result
+	 */
+	prediction: PredictionResult;
+
+	/**
+	 * The cumulative checkpoint times of the comparison split, or null if there is none
+	 */
+	comparisonCheckpointTimes: number[] | null;
+}
@@ -0,0 +1,32 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Save Campaign Request
+ */
+export interface SaveCampaignRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: SaveCampaignRequestBody;
+}
+
+/**
+ * Interface for the Save Campaign Request Body
+ */
+interface SaveCampaignRequestBody {
+	/**
+	 * The ID of the campaign
+	 */
+	campaignId: string;
+
+	/**
+	 * The name of the campaign
+	 */
+	name: string;
+
+	/**
+	 * The IDs of the maps in the campaign, in order
+	 */
+	mapIds: string[];
+}
@@ -0,0 +1,32 @@
+// Internal Imports
+import type { TMNextMapMedalTimes } from '../types';
+
+/**
+ * Interface for the data needed to save a map's details
+ */
+export interface SaveMapData {
+	/**
+	 * The name of the map
+	 */
+	name?: string;
+
+	/**
+	 * The display name of the map's author
+	 */
+	author?: string;
+
+	/**
+	 * The number of checkpoints to finish, including the finish and every lap
+	 */
+	checkpointCount?: number;
+
+	/**
+	 * The number of laps of the map (1 for maps without laps)
+	 */
+	lapCount?: number;
+
+	/**
+	 * The medal times of the map
+	 */
+	medalTimes?: TMNextMapMedalTimes;
+}
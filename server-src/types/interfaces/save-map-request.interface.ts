@@ -0,0 +1,22 @@
+// Internal Imports
+import type { AuthenticatedRequest, SaveMapData } from '../types';
+
+/**
+ * Interface for the Save Map Request
+ */
+export interface SaveMapRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: SaveMapRequestBody;
+}
+
+/**
+ * Interface for the Save Map Request Body
+ */
+interface SaveMapRequestBody extends SaveMapData {
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+}
@@ -0,0 +1,22 @@
+// Internal Imports
+import type { AuthenticatedRequest, PredictionParameters, RemoteConfig } from '../types';
+
+/**
+ * Interface for the Save Remote Config Request
+ */
+export interface SaveRemoteConfigRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: SaveRemoteConfigRequestBody;
+}
+
+/**
+ * Interface for the Save Remote Config Request Body (the settings that are left out keep their value)
+ */
+export interface SaveRemoteConfigRequestBody extends Partial<Omit<RemoteConfig, 'prediction'>> {
+	/**
+	 * The prediction parameters to change
+	 */
+	prediction?: Partial<PredictionParameters>;
+}
@@ -16,4 +16,9 @@ export interface SaveSplitData {
 	 * The date of the run
 	 */
 	runDate?: Date | null;
+
+	/**
+	 * The ID the client generated for the run
+	 */
+	clientRunId?: string;
 }
@@ -14,7 +14,7 @@ export interface SaveSplitRequest extends AuthenticatedRequest {
 /**
  * Interface for the Save Split Request Body
  */
-interface SaveSplitRequestBody {
+export interface SaveSplitRequestBody {
 	/**
 	 * The ID of the map
 	 */
@@ -34,4 +34,9 @@ interface SaveSplitRequestBody {
 	 * The date of the run
 	 */
 	runDate?: string;
+
+	/**
+	 * The ID the client generated for the run, so uploading it again does not save it twice
+	 */
+	clientRunId?: string;
 }
@@ -0,0 +1,32 @@
+// Internal Imports
+import type { TMNextSplit } from '../types';
+
+/**
+ * Interface for a saved split and what it achieved
+ */
+export interface SaveSplitResult {
+	/**
+	 * The saved split
+	 */
+	split: TMNextSplit;
+
+	/**
+	 * Whether the split is a new personal best
+	 */
+	isPersonalBest: boolean;
+
+	/**
+	 * Whether the split is a new global best (quarantined splits never are)
+	 */
+	isGlobalBest: boolean;
+
+	/**
+	 * The time saved against the previous personal best in milliseconds, or null if the split is not an improvement
+	 */
+	improvement: number | null;
+
+	/**
+	 * The rank of the player on the map's leaderboard after saving, or null if they are not ranked
+	 */
+	rank: number | null;
+}
@@ -0,0 +1,32 @@
+// Internal Imports
+import type { AuthenticatedRequest, SaveSplitRequestBody } from '../types';
+
+/**
+ * Interface for the Save Splits Batch Request
+ */
+export interface SaveSplitsBatchRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: SaveSplitsBatchRequestBody;
+}
+
+/**
+ * Interface for the Save Splits Batch Request Body
+ */
+interface SaveSplitsBatchRequestBody {
+	/**
+	 * The runs to save
+	 */
+	runs: BatchRun[];
+}
+
+/**
+ * Interface for a run in a batch upload
+ */
+export interface BatchRun extends SaveSplitRequestBody {
+	/**
+	 * The ID the client generated for the run, used as the idempotency key
+	 */
+	clientRunId: string;
+}
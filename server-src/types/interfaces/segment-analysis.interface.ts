@@ -0,0 +1,37 @@
+// Internal Imports
+import type { SegmentStatistics } from '../types';
+
+/**
+ * Interface for a player's segment placed within the distribution of every player's personal best
+ */
+export interface SegmentAnalysis extends Omit<SegmentStatistics, 'percentiles'> {
+	/**
+	 * The 10th percentile time on the segment in milliseconds
+	 */
+	p10: number;
+
+	/**
+	 * The 25th percentile time on the segment in milliseconds
+	 */
+	p25: number;
+
+	/**
+	 * The 75th percentile time on the segment in milliseconds
+	 */
+	p75: number;
+
+	/**
+	 * The 90th percentile time on the segment in milliseconds
+	 */
+	p90: number;
+
+	/**
+	 * The player's time on the segment in milliseconds, or null if they have no comparable personal best
+	 */
+	playerTime: number | null;
+
+	/**
+	 * The percentage (0 to 100) of personal bests that are faster than the player on the segment, or null if they have no comparable personal best
+	 */
+	percentile: number | null;
+}
@@ -0,0 +1,27 @@
+// Internal Imports
+import type { SegmentAnalysis } from '../types';
+
+/**
+ * Interface for the segment analytics of a player on a map
+ */
+export interface SegmentAnalytics {
+	/**
+	 * The ID of the map
+	 */
+	mapId: string;
+
+	/**
+	 * The number of personal bests the statistics are based on
+	 */
+	playerCount: number;
+
+	/**
+	 * The date the statistics were computed
+	 */
+	computedAt: Date;
+
+	/**
+	 * The analysis of every segment
+	 */
+	segments: SegmentAnalysis[];
+}
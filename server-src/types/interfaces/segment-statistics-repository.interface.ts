@@ -0,0 +1,35 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+// Internal Imports
+import type { MapSegmentStatistics } from '../types';
+
+/**
+ * Interface for a backend that stores the precomputed segment statistics of the maps
+ */
+export interface SegmentStatisticsRepository {
+	/**
+	 * Find the segment statistics of a map
+	 * @param mapId The database ID of the map
+	 * @returns The segment statistics, or null if they were never computed
+	 */
+	findByMapId(mapId: ObjectId): Promise<MapSegmentStatistics | null>;
+
+	/**
+	 * Create or replace the segment statistics of a map
+	 * @param mapId The database ID of the map
+	 * @param statistics The segment statistics
+	 * @returns The saved segment statistics
+	 */
+	save(
+		mapId: ObjectId,
+		statistics: Pick<MapSegmentStatistics, 'checkpointCount' | 'playerCount' | 'segments' | 'computedAt'>,
+	): Promise<MapSegmentStatistics>;
+
+	/**
+	 * Delete the segment statistics of maps, so they are recomputed when next requested
+	 * @param mapIds The database IDs of the maps
+	 * @returns void
+	 */
+	deleteByMapIds(mapIds: ObjectId[]): Promise<void>;
+}
@@ -0,0 +1,34 @@
+/**
+ * Interface for the distribution of a segment's times across every player's personal best
+ */
+export interface SegmentStatistics {
+	/**
+	 * The index of the checkpoint the segment ends at
+	 */
+	index: number;
+
+	/**
+	 * The fastest time on the segment in milliseconds
+	 */
+	min: number;
+
+	/**
+	 * The median time on the segment in milliseconds
+	 */
+	median: number;
+
+	/**
+	 * The mean time on the segment in milliseconds
+	 */
+	mean: number;
+
+	/**
+	 * The standard deviation of the times on the segment in milliseconds
+	 */
+	standardDeviation: number;
+
+	/**
+	 * The 0th to 100th percentile of the times on the segment in milliseconds
+	 */
+	percentiles: number[];
+}
@@ -0,0 +1,72 @@
+// Internal Imports
+import type { DatabaseConfig, LogLevel, RateLimitOverride, StorageType } from '../types';
+
+/**
+ * Interface for the validated configuration of the server (with the settings of the connection to MongoDB)
+ */
+export interface ServerConfig extends DatabaseConfig {
+	/**
+	 * Where the data is kept
+	 */
+	storage: StorageType;
+
+	/**
+	 * The port the server listens on
+	 */
+	port: number;
+
+	/**
+	 * The host the server listens on
+	 */
+	host: string;
+
+	/**
+	 * Whether to take the client IP from the X-Forwarded-For header of a reverse proxy
+	 */
+	trustProxy: boolean;
+
+	/**
+	 * The minimum level of the log lines
+	 */
+	logLevel: LogLevel;
+
+	/**
+	 * The secret the tokens are signed with
+	 */
+	jwtSecret: string;
+
+	/**
+	 * The lifetime of access tokens in seconds
+	 */
+	accessTokenTtl: number;
+
+	/**
+	 * The lifetime of refresh tokens in seconds
+	 */
+	refreshTokenTtl: number;
+
+	/**
+	 * The secret of the plugin used to validate Openplanet tokens
+	 */
+	openplanetSecret: string;
+
+	/**
+	 * The URL Openplanet tokens are validated at
+	 */
+	openplanetValidationUrl: string;
+
+	/**
+	 * The account IDs of the admins
+	 */
+	adminAccountIds: string[];
+
+	/**
+	 * The bearer token required on /metrics, or null to leave it open
+	 */
+	metricsToken: string | null;
+
+	/**
+	 * The rate limits overridden with RATE_LIMIT_<NAME> environment variables, keyed by name
+	 */
+	rateLimitOverrides: Record<string, RateLimitOverride>;
+}
@@ -0,0 +1,22 @@
+// Internal Imports
+import type { AuthenticatedRequest, LiveSharing } from '../types';
+
+/**
+ * Interface for the Set Live Sharing Request
+ */
+export interface SetLiveSharingRequest extends AuthenticatedRequest {
+	/**
+	 * The body of the request
+	 */
+	body: SetLiveSharingRequestBody;
+}
+
+/**
+ * Interface for the Set Live Sharing Request Body
+ */
+interface SetLiveSharingRequestBody {
+	/**
+	 * Who can watch the live runs of the player
+	 */
+	sharing: LiveSharing;
+}
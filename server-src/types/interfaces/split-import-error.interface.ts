@@ -0,0 +1,17 @@
+// Internal Imports
+import type { SplitImportErrorCode } from '../types';
+
+/**
+ * Interface for the reason an import file was rejected as a whole
+ */
+export interface SplitImportError {
+	/**
+	 * The machine-readable error code
+	 */
+	code: SplitImportErrorCode;
+
+	/**
+	 * The human-readable error message
+	 */
+	error: string;
+}
@@ -0,0 +1,22 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+/**
+ * Interface for the filter of the splits admins review
+ */
+export interface SplitModerationQuery {
+	/**
+	 * The database ID of the map, or undefined for the splits of every map
+	 */
+	mapId?: ObjectId;
+
+	/**
+	 * The database ID of the player, or undefined for the splits of every player
+	 */
+	playerId?: ObjectId;
+
+	/**
+	 * Whether to only use the splits that were quarantined or carry suspicion flags
+	 */
+	flaggedOnly?: boolean;
+}
@@ -0,0 +1,37 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+/**
+ * Interface for the filter of the splits a repository query uses
+ */
+export interface SplitQuery {
+	/**
+	 * The database ID of the map
+	 */
+	mapId: ObjectId;
+
+	/**
+	 * The database ID of the player, or undefined for the splits of every player
+	 */
+	playerId?: ObjectId;
+
+	/**
+	 * The database IDs of the players to use the splits of (e.g. the members of a club), or undefined for every player
+	 */
+	playerIds?: ObjectId[];
+
+	/**
+	 * Whether to only use the splits that count towards global queries (skipping quarantined and hidden splits and the splits of banned players)
+	 */
+	globalOnly?: boolean;
+
+	/**
+	 * Whether to only use the accepted splits (skipping quarantined and hidden splits, but keeping the splits of banned players)
+	 */
+	acceptedOnly?: boolean;
+
+	/**
+	 * The checkpoint time counts the splits must have, or undefined for any count
+	 */
+	checkpointTimesLengths?: number[];
+}
@@ -0,0 +1,154 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+// Internal Imports
+import type {
+	MapBestTime,
+	MapBestTimeQuery,
+	PopulatedTMNextSplit,
+	RankedSplitPage,
+	RankedTotalPage,
+	SplitModerationQuery,
+	SplitQuery,
+	SplitStatus,
+	SumOfBestSegment,
+	TMNextSplit,
+} from '../types';
+
+/**
+ * Interface for a backend that stores the splits
+ */
+export interface SplitRepository {
+	/**
+	 * Create a split
+	 * @param split The split to create
+	 * @returns The new split, or null if the player already saved a split with the same client run ID
+	 */
+	create(
+		split: Pick<TMNextSplit, 'playerId' | 'mapId' | 'checkpointTimes' | 'totalTime' | 'runDate' | 'status' | 'flags' | 'clientRunId'>,
+	): Promise<TMNextSplit | null>;
+
+	/**
+	 * Find a split by its ID
+	 * @param splitId The ID of the split
+	 * @returns The split with its player and map, or null if it does not exist
+	 */
+	findById(splitId: string): Promise<PopulatedTMNextSplit | null>;
+
+	/**
+	 * Find the split a player uploaded with a client run ID
+	 * @param playerId The database ID of the player
+	 * @param clientRunId The ID the client generated for the run
+	 * @returns The split, or null if no run was uploaded with the ID
+	 */
+	findByClientRunId(playerId: ObjectId, clientRunId: string): Promise<TMNextSplit | null>;
+
+	/**
+	 * Find every split of a player across all maps, oldest first
+	 * @param playerId The database ID of the player
+	 * @returns The splits with their player and map
+	 */
+	findByPlayer(playerId: ObjectId): Promise<Array<PopulatedTMNextSplit>>;
+
+	/**
+	 * Delete every split of a player
+	 * @param playerId The database ID of the player
+	 * @returns The number of deleted splits
+	 */
+	deleteByPlayer(playerId: ObjectId): Promise<number>;
+
+	/**
+	 * Find a page of the splits admins review, most recently uploaded first
+	 * @param query The filter for the splits
+	 * @param skip The number of splits to skip
+	 * @param limit The number of splits on the page
+	 * @returns The number of matching splits and the splits of the page with their player and map
+	 */
+	findForModeration(query: SplitModerationQuery, skip: number, limit: number): Promise<{ total: number; splits: Array<PopulatedTMNextSplit> }>;
+
+	/**
+	 * Change the review status of a split
+	 * @param splitId The ID of the split
+	 * @param status The new review status
+	 * @returns The updated split, or null if it does not exist
+	 */
+	updateStatus(splitId: string, status: SplitStatus): Promise<TMNextSplit | null>;
+
+	/**
+	 * Delete a split
+	 * @param splitId The ID of the split
+	 * @returns Whether the split existed
+	 */
+	delete(splitId: string): Promise<boolean>;
+
+	/**
+	 * Find the splits matching a query, fastest first
+	 * @param query The filter for the splits
+	 * @returns The splits with their player and map
+	 */
+	find(query: SplitQuery): Promise<Array<PopulatedTMNextSplit>>;
+
+	/**
+	 * Find the fastest split matching a query
+	 * @param query The filter for the splits
+	 * @returns The split with its player and map, or null if no split matches
+	 */
+	findBest(query: SplitQuery): Promise<PopulatedTMNextSplit | null>;
+
+	/**
+	 * Find the most recent splits matching a query, newest first
+	 * @param query The filter for the splits
+	 * @param limit The maximum number of splits
+	 * @returns The checkpoint times and total time of the splits
+	 */
+	findRecent(query: SplitQuery, limit: number): Promise<Array<Pick<TMNextSplit, 'checkpointTimes' | 'totalTime'>>>;
+
+	/**
+	 * Find the checkpoint times of the best split of every player matching a query
+	 * @param query The filter for the splits
+	 * @returns The checkpoint times of every player's best split
+	 */
+	findPersonalBestCheckpointTimes(query: SplitQuery): Promise<Array<number[]>>;
+
+	/**
+	 * Get the checkpoint time count most splits matching a query have
+	 * @param query The filter for the splits
+	 * @returns The checkpoint time count and the number of splits with it, or null if no split matches
+	 */
+	getMostCommonCheckpointCount(query: SplitQuery): Promise<{ checkpointCount: number; count: number } | null>;
+
+	/**
+	 * Rank the players by their best split matching a query and get a page of them
+	 * @param query The filter for the splits
+	 * @param skip The number of ranked players to skip
+	 * @param limit The number of ranked players on the page
+	 * @param playerId The database ID of the player whose entry to get, or null
+	 * @returns The page of ranked players
+	 */
+	getRankedPage(query: SplitQuery, skip: number, limit: number, playerId: ObjectId | null): Promise<RankedSplitPage>;
+
+	/**
+	 * Get the fastest time on every segment across the splits matching a query
+	 * @param query The filter for the splits
+	 * @param segmentCount The number of segments the splits must have
+	 * @returns The best segments in checkpoint order, without the time they save against a reference split
+	 */
+	getBestSegments(query: SplitQuery, segmentCount: number): Promise<Array<Omit<SumOfBestSegment, 'possibleTimeSave'>>>;
+
+	/**
+	 * Find the best time of every player on every map matching a query
+	 * @param query The filter for the splits
+	 * @returns The best time of every player on every map they have a run on
+	 */
+	findBestTimes(query: MapBestTimeQuery): Promise<Array<MapBestTime>>;
+
+	/**
+	 * Rank the players by the number of maps matching a query they have a run on, then by the sum of their best times, and get a page of them
+	 * @param query The filter for the splits
+	 * @param skip The number of ranked players to skip
+	 * @param limit The number of ranked players on the page
+	 * @param playerId The database ID of the player whose entry to get, or null
+	 * @returns The page of ranked players
+	 */
+	getRankedTotalPage(query: MapBestTimeQuery, skip: number, limit: number, playerId: ObjectId | null): Promise<RankedTotalPage>;
+}
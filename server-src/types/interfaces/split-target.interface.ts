@@ -0,0 +1,24 @@
+/**
+ * Interface for the parameters that pick a comparison run for the target split types
+ */
+export interface SplitTarget {
+	/**
+	 * The account ID of the player whose personal best to get (for the player best type)
+	 */
+	targetAccountId?: string;
+
+	/**
+	 * The leaderboard position of the run to get, starting at 1 (for the rank type)
+	 */
+	rank?: number;
+
+	/**
+	 * The percentile from the top whose threshold run to get, e.g. 1 for the top 1% (for the percentile type)
+	 */
+	percentile?: number;
+
+	/**
+	 * The ID of the club whose fastest run to get (for the club best type)
+	 */
+	clubId?: string;
+}
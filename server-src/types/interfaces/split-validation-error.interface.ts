@@ -0,0 +1,17 @@
+// Internal Imports
+import type { SplitValidationErrorCode } from '../types';
+
+/**
+ * Interface for the reason a split submission was rejected
+ */
+export interface SplitValidationError {
+	/**
+	 * The machine-readable error code
+	 */
+	code: SplitValidationErrorCode;
+
+	/**
+	 * The human-readable error message
+	 */
+	error: string;
+}
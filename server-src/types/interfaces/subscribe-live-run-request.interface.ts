@@ -0,0 +1,22 @@
+// Internal Imports
+import type { AuthenticatedRequest } from '../types';
+
+/**
+ * Interface for the Subscribe Live Run Request
+ */
+export interface SubscribeLiveRunRequest extends AuthenticatedRequest {
+	/**
+	 * The route parameters of the request
+	 */
+	params: SubscribeLiveRunRequestParams;
+}
+
+/**
+ * Interface for the Subscribe Live Run Request Parameters
+ */
+interface SubscribeLiveRunRequestParams {
+	/**
+	 * The account ID of the player to watch
+	 */
+	accountId: string;
+}
@@ -0,0 +1,34 @@
+/**
+ * Interface for a single segment of a sum of best
+ */
+export interface SumOfBestSegment {
+	/**
+	 * The index of the checkpoint the segment ends at
+	 */
+	index: number;
+
+	/**
+	 * The best time driven on the segment in milliseconds
+	 */
+	segmentTime: number;
+
+	/**
+	 * The ID of the split the best segment came from
+	 */
+	splitId: string;
+
+	/**
+	 * The ID of the player who drove the best segment
+	 */
+	playerId: string;
+
+	/**
+	 * The date of the run the best segment came from
+	 */
+	runDate: Date;
+
+	/**
+	 * The time that could be saved on the segment compared to the reference split in milliseconds
+	 */
+	possibleTimeSave: number;
+}
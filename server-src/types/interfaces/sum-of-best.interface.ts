@@ -0,0 +1,27 @@
+// Internal Imports
+import type { PopulatedTMNextSplit, SumOfBestSegment } from '../types';
+
+/**
+ * Interface for the Sum of Best of a map
+ */
+export interface SumOfBest {
+	/**
+	 * The split the sum of best is compared against (the personal or global best)
+	 */
+	referenceSplit: PopulatedTMNextSplit;
+
+	/**
+	 * The synthetic cumulative checkpoint times in milliseconds
+	 */
+	checkpointTimes: number[];
+
+	/**
+	 * The theoretical best finish time in milliseconds
+	 */
+	totalTime: number;
+
+	/**
+	 * The best segments the sum of best is made of
+	 */
+	segments: SumOfBestSegment[];
+}
@@ -0,0 +1,22 @@
+// Internal Imports
+import { type TimestampedDocument } from '../types';
+
+/**
+ * Interface for the TMNext Campaign (a seasonal campaign, Track of the Day pack or any other group of maps)
+ */
+export interface TMNextCampaign extends TimestampedDocument {
+	/**
+	 * The ID of the Campaign
+	 */
+	campaignId: string;
+
+	/**
+	 * The name of the Campaign
+	 */
+	name: string;
+
+	/**
+	 * The IDs of the Maps in the campaign, in order
+	 */
+	mapIds: string[];
+}
@@ -0,0 +1,40 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+// Internal Imports
+import { type TimestampedDocument } from '../types';
+
+/**
+ * Interface for the TMNext Club
+ */
+export interface TMNextClub extends TimestampedDocument {
+	/**
+	 * The name of the club (unique, ignoring case)
+	 */
+	name: string;
+
+	/**
+	 * The short tag of the club, or null
+	 */
+	tag: string | null;
+
+	/**
+	 * The ID of the Player who created the club
+	 */
+	ownerId: ObjectId;
+
+	/**
+	 * The IDs of the Players in the club, including the owner
+	 */
+	memberIds: ObjectId[];
+
+	/**
+	 * The account IDs of the players the owner invited who did not join yet
+	 */
+	invitedAccountIds: string[];
+
+	/**
+	 * The code that lets any player join the club
+	 */
+	inviteCode: string;
+}
@@ -0,0 +1,24 @@
+/**
+ * Interface for the Medal Times of a TMNext Map
+ */
+export interface TMNextMapMedalTimes {
+	/**
+	 * The author medal time in milliseconds
+	 */
+	author: number;
+
+	/**
+	 * The gold medal time in milliseconds
+	 */
+	gold: number;
+
+	/**
+	 * The silver medal time in milliseconds
+	 */
+	silver: number;
+
+	/**
+	 * The bronze medal time in milliseconds
+	 */
+	bronze: number;
+}
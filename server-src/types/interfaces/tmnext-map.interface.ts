@@ -1,5 +1,5 @@
 // Internal Imports
-import { type TimestampedDocument } from '../types';
+import { type TimestampedDocument, type TMNextMapMedalTimes } from '../types';
 
 /**
  * Interface for the TMNext Map
@@ -9,4 +9,29 @@ export interface TMNextMap extends TimestampedDocument {
 	 * The ID of the Map
 	 */
 	mapId: string;
+
+	/**
+	 * The name of the Map
+	 */
+	name?: string;
+
+	/**
+	 * The display name of the Map's author
+	 */
+	author?: string;
+
+	/**
+	 * The number of checkpoints to finish, including the finish and every lap
+	 */
+	checkpointCount?: number;
+
+	/**
+	 * The number of laps of the Map (1 for maps without laps)
+	 */
+	lapCount?: number;
+
+	/**
+	 * The medal times of the Map
+	 */
+	medalTimes?: TMNextMapMedalTimes;
 }
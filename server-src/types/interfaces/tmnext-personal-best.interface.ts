@@ -0,0 +1,35 @@
+// External Imports
+import { ObjectId } from 'mongoose';
+
+// Internal Imports
+import { type TimestampedDocument } from '../types';
+
+/**
+ * Interface for the personal best record of a player on a map
+ */
+export interface TMNextPersonalBest extends TimestampedDocument {
+	/**
+	 * The ID of the Player
+	 */
+	playerId: ObjectId;
+
+	/**
+	 * The ID of the Map
+	 */
+	mapId: ObjectId;
+
+	/**
+	 * The ID of the split the personal best was set with
+	 */
+	splitId: ObjectId;
+
+	/**
+	 * The final finish time in milliseconds
+	 */
+	totalTime: number;
+
+	/**
+	 * The date of the run
+	 */
+	runDate: Date;
+}
@@ -1,5 +1,5 @@
 // Internal Imports
-import { type TimestampedDocument } from '../types';
+import { type LiveSharing, type TimestampedDocument } from '../types';
 
 /**
  * Interface for the TMNext Player
@@ -14,4 +14,19 @@ export interface TMNextPlayer extends TimestampedDocument {
 	 * The players display name
 	 */
 	displayName: string;
+
+	/**
+	 * The date an admin banned the player, or null if they are not banned
+	 */
+	bannedAt?: Date | null;
+
+	/**
+	 * The reason the admin gave for the ban, or null
+	 */
+	banReason?: string | null;
+
+	/**
+	 * Who can watch the live runs of the player (only the player themselves if not set)
+	 */
+	liveSharing?: LiveSharing;
 }
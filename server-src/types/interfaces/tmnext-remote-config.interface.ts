@@ -0,0 +1,12 @@
+// Internal Imports
+import type { RemoteConfig, TimestampedDocument } from '../types';
+
+/**
+ * Interface for the stored TMNext Remote Config (a single document holding the settings the plugin loads)
+ */
+export interface TMNextRemoteConfig extends TimestampedDocument, RemoteConfig {
+	/**
+	 * The key of the Remote Config (always the same, so there is only one)
+	 */
+	key: string;
+}
@@ -2,7 +2,7 @@
 import { ObjectId } from 'mongoose';
 
 // Internal Imports
-import { type TimestampedDocument } from '../types';
+import { type SplitStatus, type SplitSuspicionFlag, type TimestampedDocument } from '../types';
 
 /**
  * Interface for the TMNext Split
@@ -32,4 +32,19 @@ export interface TMNextSplit extends TimestampedDocument {
 	 * The date of the run
 	 */
 	runDate: Date;
+
+	/**
+	 * The review status of the split
+	 */
+	status: SplitStatus;
+
+	/**
+	 * The reasons the split was quarantined
+	 */
+	flags: SplitSuspicionFlag[];
+
+	/**
+	 * The ID the client generated for the run, used to ignore repeated uploads of it
+	 */
+	clientRunId?: string;
 }
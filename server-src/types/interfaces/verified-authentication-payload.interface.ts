@@ -0,0 +1,22 @@
+// Internal Imports
+import type { AuthenticationPayload } from '../types';
+
+/**
+ * Interface for the Authentication Payload of a verified token, including the standard JWT claims
+ */
+export interface VerifiedAuthenticationPayload extends AuthenticationPayload {
+	/**
+	 * The unique ID of the token
+	 */
+	jti: string;
+
+	/**
+	 * The time the token was issued at in seconds since the epoch
+	 */
+	iat: number;
+
+	/**
+	 * The time the token expires at in seconds since the epoch
+	 */
+	exp: number;
+}
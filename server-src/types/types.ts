@@ -1,17 +1,157 @@
 // Export the Enums
+export { AccountErrorCode } from './enums/account-error-code.enum';
+export { ApiVersion } from './enums/api-version.enum';
+export { AuditAction } from './enums/audit-action.enum';
+export { AuthErrorCode } from './enums/auth-error-code.enum';
+export { AuthMethod } from './enums/auth-method.enum';
+export { BatchRunStatus } from './enums/batch-run-status.enum';
+export { ClubErrorCode } from './enums/club-error-code.enum';
+export { ErrorCode } from './enums/error-code.enum';
 export { GetSplitsType } from './enums/get-splits-type.enum';
+export { HistorySource } from './enums/history-source.enum';
+export { LiveRunEventType } from './enums/live-run-event-type.enum';
+export { LiveSharing } from './enums/live-sharing.enum';
+export { LogLevel } from './enums/log-level.enum';
+export { MetricType } from './enums/metric-type.enum';
+export { PredictorMethod } from './enums/predictor-method.enum';
+export { SplitExportFormat } from './enums/split-export-format.enum';
+export { SplitImportErrorCode } from './enums/split-import-error-code.enum';
+export { SplitImportFormat } from './enums/split-import-format.enum';
+export { SplitStatus } from './enums/split-status.enum';
+export { SplitSuspicionFlag } from './enums/split-suspicion-flag.enum';
+export { SplitValidationErrorCode } from './enums/split-validation-error-code.enum';
+export { StorageType } from './enums/storage-type.enum';
+export { TokenType } from './enums/token-type.enum';
 
 // Export the Interfaces
-export { type AuthUserRequest } from './interfaces/auth-user-request.interface';
+export { type AccountArchive } from './interfaces/account-archive.interface';
+export { type AccountDeletionResult } from './interfaces/account-deletion-result.interface';
+export { type AccountRevocation } from './interfaces/account-revocation.interface';
+export { type ApiRoutesOptions } from './interfaces/api-routes-options.interface';
+export { type ApiVersionDefinition } from './interfaces/api-version-definition.interface';
+export { type AuditLogEntry } from './interfaces/audit-log-entry.interface';
+export { type AuditLogPage } from './interfaces/audit-log-page.interface';
+export { type AuditLogQuery } from './interfaces/audit-log-query.interface';
+export { type AuditLogRecord } from './interfaces/audit-log-record.interface';
+export { type AuditLogRepository } from './interfaces/audit-log-repository.interface';
+export { type AuthError } from './interfaces/auth-error.interface';
+export { type AuthUserRequest, type AuthUserRequestBody } from './interfaces/auth-user-request.interface';
 export { type AuthUserResponse } from './interfaces/auth-user-response.interface';
 export { type AuthValidationResponse } from './interfaces/auth-validation-response.interface';
 export { type AuthenticatedRequest } from './interfaces/authenticated-request.interface';
 export { type AuthenticationPayload } from './interfaces/authentication-payload.interface';
+export { type BacktestCheckpointStatistics } from './interfaces/backtest-checkpoint-statistics.interface';
+export { type BacktestMapStatistics } from './interfaces/backtest-map-statistics.interface';
+export { type BacktestMethodStatistics } from './interfaces/backtest-method-statistics.interface';
+export { type BacktestPlayerStatistics } from './interfaces/backtest-player-statistics.interface';
+export { type BacktestReport } from './interfaces/backtest-report.interface';
+export { type BacktestStatistics } from './interfaces/backtest-statistics.interface';
+export { type BatchRunResult } from './interfaces/batch-run-result.interface';
+export { type BatchUploadResult } from './interfaces/batch-upload-result.interface';
+export { type CampaignDetails } from './interfaces/campaign-details.interface';
+export { type CampaignMapProgress } from './interfaces/campaign-map-progress.interface';
+export { type CampaignProgress } from './interfaces/campaign-progress.interface';
+export { type CampaignRepository } from './interfaces/campaign-repository.interface';
+export { type CampaignStandingEntry } from './interfaces/campaign-standing-entry.interface';
+export { type CampaignStandings } from './interfaces/campaign-standings.interface';
+export { type ClubDetails } from './interfaces/club-details.interface';
+export { type ClubError } from './interfaces/club-error.interface';
+export { type ClubMember } from './interfaces/club-member.interface';
+export { type ClubRepository } from './interfaces/club-repository.interface';
+export { type ClubRequest } from './interfaces/club-request.interface';
+export { type CorrectMapRequest } from './interfaces/correct-map-request.interface';
+export { type CreateClubRequest } from './interfaces/create-club-request.interface';
+export { type DatabaseConfig } from './interfaces/database-config.interface';
+export { type DeleteAccountRequest } from './interfaces/delete-account-request.interface';
+export { type ErrorResponse } from './interfaces/error-response.interface';
+export { type ExportSplitsRequest } from './interfaces/export-splits-request.interface';
+export { type ExportedRun } from './interfaces/exported-run.interface';
+export { type FinishDistribution } from './interfaces/finish-distribution.interface';
+export { type GetAuditLogRequest } from './interfaces/get-audit-log-request.interface';
+export { type GetCampaignProgressRequest } from './interfaces/get-campaign-progress-request.interface';
+export { type GetCampaignStandingsRequest } from './interfaces/get-campaign-standings-request.interface';
+export { type GetClubLeaderboardRequest } from './interfaces/get-club-leaderboard-request.interface';
+export { type GetFinishDistributionRequest } from './interfaces/get-finish-distribution-request.interface';
+export { type GetLeaderboardRequest } from './interfaces/get-leaderboard-request.interface';
+export { type GetMapRequest } from './interfaces/get-map-request.interface';
+export { type GetSegmentAnalyticsRequest } from './interfaces/get-segment-analytics-request.interface';
 export { type GetSplitsRequest } from './interfaces/get-splits-request.interface';
+export { type HealthStatus } from './interfaces/health-status.interface';
+export { type ImportSplitsRequest, type ImportSplitsRequestBody } from './interfaces/import-splits-request.interface';
+export { type InviteClubMemberRequest } from './interfaces/invite-club-member-request.interface';
+export { type JoinClubRequest } from './interfaces/join-club-request.interface';
+export { type Leaderboard } from './interfaces/leaderboard.interface';
+export { type LeaderboardEntry } from './interfaces/leaderboard-entry.interface';
+export { type ListModeratedSplitsRequest } from './interfaces/list-moderated-splits-request.interface';
+export { type LiveRunEvent } from './interfaces/live-run-event.interface';
+export { type MapBestTime } from './interfaces/map-best-time.interface';
+export { type MapBestTimeQuery } from './interfaces/map-best-time-query.interface';
+export { type MapRepository } from './interfaces/map-repository.interface';
+export { type MapSegmentStatistics } from './interfaces/map-segment-statistics.interface';
+export { type Metric } from './interfaces/metric.interface';
+export { type MetricSeries } from './interfaces/metric-series.interface';
+export { type ModeratedPlayer } from './interfaces/moderated-player.interface';
+export { type ModeratedSplit } from './interfaces/moderated-split.interface';
+export { type ModeratedSplitPage } from './interfaces/moderated-split-page.interface';
+export { type ModeratePlayerRequest } from './interfaces/moderate-player-request.interface';
+export { type ModerateSplitRequest } from './interfaces/moderate-split-request.interface';
+export { type ObjectSchema } from './interfaces/object-schema.interface';
+export { type PersonalBestRepository } from './interfaces/personal-best-repository.interface';
+export { type PersonalBestUpdate } from './interfaces/personal-best-update.interface';
+export { type PlayerBan } from './interfaces/player-ban.interface';
+export { type PlayerBanRepository } from './interfaces/player-ban-repository.interface';
+export { type PlayerProfile } from './interfaces/player-profile.interface';
+export { type PlayerRepository } from './interfaces/player-repository.interface';
 export { type PopulatedTMNextSplit } from './interfaces/populated-tmnext-split.interface';
+export { type PredictRequest, type PredictRequestBody } from './interfaces/predict-request.interface';
+export { type PredictionInput } from './interfaces/prediction-input.interface';
+export { type PredictionParameters } from './interfaces/prediction-parameters.interface';
+export { type PredictionResult } from './interfaces/prediction-result.interface';
+export { type PushLiveRunRequest } from './interfaces/push-live-run-request.interface';
+export { type RankedSplitPage } from './interfaces/ranked-split-page.interface';
+export { type RankedTotalPage } from './interfaces/ranked-total-page.interface';
+export { type RateLimitHit } from './interfaces/rate-limit-hit.interface';
+export { type RateLimitOverride } from './interfaces/rate-limit-override.interface';
+export { type RateLimitRule } from './interfaces/rate-limit-rule.interface';
+export { type RateLimitStore } from './interfaces/rate-limit-store.interface';
+export { type RefreshTokenRequest, type RefreshTokenRequestBody } from './interfaces/refresh-token-request.interface';
+export { type RemoteConfig } from './interfaces/remote-config.interface';
+export { type RemoteConfigRepository } from './interfaces/remote-config-repository.interface';
+export { type Repositories } from './interfaces/repositories.interface';
+export { type RevokedToken } from './interfaces/revoked-token.interface';
+export { type RevokedTokenRepository } from './interfaces/revoked-token-repository.interface';
+export { type RunBacktestRequest } from './interfaces/run-backtest-request.interface';
+export { type RunPrediction } from './interfaces/run-prediction.interface';
+export { type SaveCampaignRequest } from './interfaces/save-campaign-request.interface';
+export { type SaveMapData } from './interfaces/save-map-data.interface';
+export { type SaveMapRequest } from './interfaces/save-map-request.interface';
+export { type SaveRemoteConfigRequest, type SaveRemoteConfigRequestBody } from './interfaces/save-remote-config-request.interface';
 export { type SaveSplitData } from './interfaces/save-split-data.interface';
-export { type SaveSplitRequest } from './interfaces/save-split-request.interface';
+export { type SaveSplitRequest, type SaveSplitRequestBody } from './interfaces/save-split-request.interface';
+export { type SaveSplitResult } from './interfaces/save-split-result.interface';
+export { type BatchRun, type SaveSplitsBatchRequest } from './interfaces/save-splits-batch-request.interface';
+export { type SegmentAnalysis } from './interfaces/segment-analysis.interface';
+export { type SegmentAnalytics } from './interfaces/segment-analytics.interface';
+export { type SegmentStatistics } from './interfaces/segment-statistics.interface';
+export { type SegmentStatisticsRepository } from './interfaces/segment-statistics-repository.interface';
+export { type ServerConfig } from './interfaces/server-config.interface';
+export { type SetLiveSharingRequest } from './interfaces/set-live-sharing-request.interface';
+export { type SplitImportError } from './interfaces/split-import-error.interface';
+export { type SplitModerationQuery } from './interfaces/split-moderation-query.interface';
+export { type SplitQuery } from './interfaces/split-query.interface';
+export { type SplitRepository } from './interfaces/split-repository.interface';
+export { type SplitTarget } from './interfaces/split-target.interface';
+export { type SplitValidationError } from './interfaces/split-validation-error.interface';
+export { type SubscribeLiveRunRequest } from './interfaces/subscribe-live-run-request.interface';
+export { type SumOfBest } from './interfaces/sum-of-best.interface';
+export { type SumOfBestSegment } from './interfaces/sum-of-best-segment.interface';
 export { type TimestampedDocument } from './interfaces/timestamped-document.interface';
+export { type TMNextCampaign } from './interfaces/tmnext-campaign.interface';
+export { type TMNextClub } from './interfaces/tmnext-club.interface';
 export { type TMNextMap } from './interfaces/tmnext-map.interface';
+export { type TMNextMapMedalTimes } from './interfaces/tmnext-map-medal-times.interface';
+export { type TMNextPersonalBest } from './interfaces/tmnext-personal-best.interface';
 export { type TMNextPlayer } from './interfaces/tmnext-player.interface';
+export { type TMNextRemoteConfig } from './interfaces/tmnext-remote-config.interface';
 export { type TMNextSplit } from './interfaces/tmnext-split.interface';
+export { type VerifiedAuthenticationPayload } from './interfaces/verified-authentication-payload.interface';
@@ -0,0 +1,81 @@
+/**
+ * Build a CSV file from rows of values
+ * @param rows The rows, starting with the header row
+ * @returns The CSV content
+ */
+export function toCsv(rows: Array<Array<string | number>>): string {
+	// Setup the Value Escaper (quoted when it contains a separator, a quote or a line break)
+	const escape = (value: string | number) => {
+		// Get the Value as Text
+		const text = String(value);
+
+		// Return the Value, quoted if needed
+		return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+	};
+
+	// Return the CSV Content
+	return rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse the rows of a CSV file
+ * @param content The CSV content
+ * @returns The rows with their values, or null if a quoted value is never closed
+ */
+export function parseCsv(content: string): Array<string[]> | null {
+	// Setup the Rows, the Current Row and the Current Value
+	const rows: Array<string[]> = new Array();
+	let row: string[] = new Array();
+	let value = '';
+
+	// Setup the Quote State
+	let inQuotes = false;
+
+	// Read the content one character at a time
+	for (let index = 0; index < content.length; index++) {
+		// Get the Character
+		const character = content[index];
+
+		// Check if the Character Is an escaped quote inside a quoted value and keep one quote
+		if (inQuotes && character === '"' && content[index + 1] === '"') {
+			value += '"';
+			index++;
+			continue;
+		}
+
+		// Check if the Character opens or closes a quoted value
+		if (character === '"') {
+			inQuotes = !inQuotes;
+			continue;
+		}
+
+		// Check if the Character Is part of the value
+		if (inQuotes || (character !== ',' && character !== '\n' && character !== '\r')) {
+			value += character;
+			continue;
+		}
+
+		// End the Value
+		row.push(value);
+		value = '';
+
+		// Check if the Character ends the value but not the row
+		if (character === ',') continue;
+
+		// Skip the line feed of a CRLF line break
+		if (character === '\r' && content[index + 1] === '\n') index++;
+
+		// End the Row
+		rows.push(row);
+		row = new Array();
+	}
+
+	// Check if a Quoted Value was never closed
+	if (inQuotes) return null;
+
+	// Add the Last Row if the content does not end with a line break
+	if (row.length > 0 || value !== '') rows.push([...row, value]);
+
+	// Return the Rows without blank lines
+	return rows.filter(values => values.some(cell => cell.trim() !== ''));
+}
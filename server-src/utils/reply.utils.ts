@@ -0,0 +1,21 @@
+// External Imports
+import type { FastifyReply } from 'fastify';
+
+// Internal Imports
+import type { ErrorResponse } from '../types/types';
+
+/**
+ * Send an error in the standard error envelope
+ * @param reply The Fastify reply
+ * @param statusCode The HTTP status code
+ * @param code The machine-readable error code
+ * @param error The human-readable error message
+ * @returns The Fastify reply
+ */
+export function sendError(reply: FastifyReply, statusCode: number, code: string, error: string): FastifyReply {
+	// Setup the Error Response
+	const errorResponse: ErrorResponse = { success: false, code, error };
+
+	// Send the Error Response
+	return reply.code(statusCode).send(errorResponse);
+}